@@ -3,19 +3,39 @@ import Sidebar from './components/Layout/Sidebar';
 import Header from './components/Layout/Header';
 import Dashboard from './components/Dashboard/Dashboard';
 import UserManagement from './components/Users/UserManagement';
+import AgencyManagement from './components/Agencies/AgencyManagement';
+import KycVerification from './components/Kyc/KycVerification';
 import PropertyManagement from './components/Properties/PropertyManagement';
 import TransactionManagement from './components/Transactions/TransactionManagement';
 import ContractManagement from './components/Contracts/ContractManagement';
 import MessagingSystem from './components/Messaging/MessagingSystem';
 import PartnerManagement from './components/Partners/PartnerManagement';
-// import ActivityLogs from './components/Logs/ActivityLogs';
+import PropertyMap from './components/Map/PropertyMap';
+import StatisticsDashboard from './components/Statistics/StatisticsDashboard';
+import ActivityLogs from './components/Logs/ActivityLogs';
 import Settings from './components/Settings/Settings';
+import Login from './components/Auth/Login';
+import PasswordChange from './components/Auth/PasswordChange';
+import TwoFactorChallenge from './components/Auth/TwoFactorChallenge';
+import TwoFactorSetup from './components/Auth/TwoFactorSetup';
+import SessionTimeout from './components/Auth/SessionTimeout';
+import CniExpiryJob from './components/Kyc/CniExpiryJob';
+import FcmTokenJob from './components/Users/FcmTokenJob';
+import { useAuth } from './hooks/useAuth';
+import { usePermissions } from './hooks/usePermissions';
 
 function App() {
-  const [activeSection, setActiveSection] = useState('dashboard');
+  const { status } = useAuth();
+  const { canAccess } = usePermissions();
+  // La section active est conservée dans l'URL, avec les paramètres propres à cette section
+  const [activeSection, setActiveSection] = useState(
+    () => new URLSearchParams(window.location.search).get('section') ?? 'dashboard'
+  );
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   const [darkMode, setDarkMode] = useState(false);
   const [language, setLanguage] = useState<'fr' | 'en'>('fr');
+  // Propriété partagée entre la liste et la carte
+  const [focusedPropertyId, setFocusedPropertyId] = useState<string | null>(null);
 
   useEffect(() => {
     if (darkMode) {
@@ -25,24 +45,55 @@ function App() {
     }
   }, [darkMode]);
 
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (params.get('section') === activeSection) return;
+    // Changer de section abandonne les paramètres (page, filtres) de la précédente
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}?section=${activeSection}`);
+  }, [activeSection]);
+
   const renderContent = () => {
+    if (!canAccess(activeSection)) {
+      return (
+        <div className="p-6">
+          <div className="bg-white dark:bg-slate-800 p-8 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700 text-center">
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">Accès refusé</h2>
+            <p className="text-gray-500 dark:text-gray-400">
+              Votre rôle ne permet pas d'accéder à cette section.
+            </p>
+          </div>
+        </div>
+      );
+    }
+
     switch (activeSection) {
       case 'dashboard':
         return <Dashboard />;
       case 'users':
         return <UserManagement />;
+      case 'agencies':
+        return <AgencyManagement />;
+      case 'kyc':
+        return <KycVerification />;
       case 'properties':
-        return <PropertyManagement />;
+        return (
+          <PropertyManagement
+            focusedPropertyId={focusedPropertyId}
+            onShowOnMap={(propertyId) => {
+              setFocusedPropertyId(propertyId);
+              setActiveSection('map');
+            }}
+          />
+        );
       case 'map':
         return (
-          <div className="p-6">
-            <div className="bg-white dark:bg-slate-800 p-8 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700 text-center">
-              <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">Carte Interactive</h2>
-              <p className="text-gray-500 dark:text-gray-400">
-                La carte interactive des propriétés sera disponible prochainement.
-              </p>
-            </div>
-          </div>
+          <PropertyMap
+            focusedPropertyId={focusedPropertyId}
+            onOpenProperty={(propertyId) => {
+              setFocusedPropertyId(propertyId);
+              setActiveSection('properties');
+            }}
+          />
         );
       case 'transactions':
         return <TransactionManagement />;
@@ -51,20 +102,11 @@ function App() {
       case 'messaging':
         return <MessagingSystem />;
       case 'statistics':
-        return (
-          <div className="p-6">
-            <div className="bg-white dark:bg-slate-800 p-8 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700 text-center">
-              <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">Statistiques Avancées</h2>
-              <p className="text-gray-500 dark:text-gray-400">
-                Tableau de bord statistiques en cours de développement.
-              </p>
-            </div>
-          </div>
-        );
+        return <StatisticsDashboard />;
       case 'partners':
         return <PartnerManagement />;
-      // case 'logs':
-      //   return <ActivityLogs />;
+      case 'logs':
+        return <ActivityLogs />;
       case 'settings':
         return <Settings />;
       default:
@@ -72,6 +114,23 @@ function App() {
     }
   };
 
+  if (status === 'twoFactorChallenge') {
+    return <TwoFactorChallenge />;
+  }
+
+  if (status === 'twoFactorSetup') {
+    return <TwoFactorSetup />;
+  }
+
+  if (status === 'passwordExpired') {
+    return <PasswordChange />;
+  }
+
+  // Aucune donnée n'est chargée tant que le compte n'est pas vérifié comme administrateur
+  if (status !== 'ready') {
+    return <Login />;
+  }
+
   return (
     <div className="flex h-screen bg-gray-50 dark:bg-slate-900">
       <Sidebar
@@ -93,6 +152,10 @@ function App() {
           {renderContent()}
         </main>
       </div>
+
+      <SessionTimeout />
+      <CniExpiryJob />
+      <FcmTokenJob />
     </div>
   );
 }
@@ -0,0 +1,112 @@
+import { useMemo, useState } from 'react';
+import { Download } from 'lucide-react';
+import { User } from '../../types';
+import { AgencyInput, getCommissionReport } from '../../data/agencies';
+import { DateRange, DateRangePreset, createPresetRange } from '../../utils/statistics';
+import { downloadFile, toCsv } from '../../utils/export';
+import { getUserFullName } from '../../utils/users';
+
+interface AgencyCommissionsProps {
+  input: AgencyInput;
+  agency: User;
+}
+
+const PRESETS: Array<{ id: DateRangePreset; label: string }> = [
+  { id: '30d', label: '30 jours' },
+  { id: '90d', label: '90 jours' },
+  { id: '12m', label: '12 mois' },
+  { id: 'ytd', label: 'Année en cours' },
+];
+
+const formatAmount = (amount: number) => `${amount.toLocaleString()}€`;
+
+// Rapport des loyers encaissés et des commissions du portefeuille d'une agence, par membre
+export default function AgencyCommissions({ input, agency }: AgencyCommissionsProps) {
+  const [range, setRange] = useState<DateRange>(() => createPresetRange('12m'));
+
+  const rows = useMemo(() => getCommissionReport(input, agency, range), [input, agency, range]);
+  const totals = rows.reduce(
+    (sum, row) => ({
+      rents: sum.rents + row.rents,
+      commissions: sum.commissions + row.commissions,
+      pendingCommissions: sum.pendingCommissions + row.pendingCommissions,
+    }),
+    { rents: 0, commissions: 0, pendingCommissions: 0 }
+  );
+
+  const handleExport = () => {
+    const csv = toCsv([
+      ['Membre', 'Email', 'Loyers encaissés', 'Commissions payées', 'Commissions en attente'],
+      ...rows.map((row) => [getUserFullName(row.agent), row.agent.email, row.rents, row.commissions, row.pendingCommissions]),
+      ['Total', '', totals.rents, totals.commissions, totals.pendingCommissions],
+    ]);
+    downloadFile(`\uFEFF${csv}`, `commissions-agence-${agency.uid}-${range.start}-${range.end}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {PRESETS.map((preset) => (
+          <button
+            key={preset.id}
+            onClick={() => setRange(createPresetRange(preset.id))}
+            className="px-3 py-2 text-sm border border-gray-300 dark:border-slate-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+          >
+            {preset.label}
+          </button>
+        ))}
+        <input
+          type="date"
+          value={range.start}
+          max={range.end}
+          onChange={(e) => setRange({ ...range, start: e.target.value })}
+          className="px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-gray-900 dark:text-white"
+        />
+        <input
+          type="date"
+          value={range.end}
+          min={range.start}
+          onChange={(e) => setRange({ ...range, end: e.target.value })}
+          className="px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-gray-900 dark:text-white"
+        />
+        <button
+          onClick={handleExport}
+          className="flex items-center space-x-2 px-3 py-2 text-sm text-orange-600 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-lg"
+        >
+          <Download className="w-4 h-4" />
+          <span>Exporter CSV</span>
+        </button>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 dark:text-gray-400">
+            <th className="py-2 pr-2 font-medium">Membre</th>
+            <th className="py-2 px-2 font-medium text-right">Loyers encaissés</th>
+            <th className="py-2 px-2 font-medium text-right">Commissions payées</th>
+            <th className="py-2 px-2 font-medium text-right">Commissions en attente</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.agent.uid} className="border-t border-gray-200 dark:border-slate-700">
+              <td className="py-2 pr-2 text-gray-900 dark:text-white">
+                {getUserFullName(row.agent)}
+                {row.agent.uid === agency.uid && <span className="ml-2 text-xs text-gray-500">(agence)</span>}
+              </td>
+              <td className="py-2 px-2 text-right text-gray-900 dark:text-white">{formatAmount(row.rents)}</td>
+              <td className="py-2 px-2 text-right text-green-600">{formatAmount(row.commissions)}</td>
+              <td className="py-2 px-2 text-right text-yellow-600">{formatAmount(row.pendingCommissions)}</td>
+            </tr>
+          ))}
+          <tr className="border-t-2 border-gray-300 dark:border-slate-600 font-semibold">
+            <td className="py-2 pr-2 text-gray-900 dark:text-white">Total</td>
+            <td className="py-2 px-2 text-right text-gray-900 dark:text-white">{formatAmount(totals.rents)}</td>
+            <td className="py-2 px-2 text-right text-green-600">{formatAmount(totals.commissions)}</td>
+            <td className="py-2 px-2 text-right text-yellow-600">{formatAmount(totals.pendingCommissions)}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
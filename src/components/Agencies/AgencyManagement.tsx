@@ -0,0 +1,285 @@
+import { useMemo, useState } from 'react';
+import { Briefcase, Building, FileText, Loader2, Search, TrendingUp, UserMinus, UserPlus, Users } from 'lucide-react';
+import { User } from '../../types';
+import { dataSource } from '../../data';
+import { AgencyInput, attachAgent, detachAgent, getAgencyMembers, getAgencyOverview, isAgency } from '../../data/agencies';
+import { useCollection } from '../../hooks/useCollection';
+import { usePermissions } from '../../hooks/usePermissions';
+import { ADMIN_ROLE_ID, AGENCY_ROLE_ID, USER_ROLE_LABELS, getUserFullName } from '../../utils/users';
+import AgencyPortfolio from './AgencyPortfolio';
+import AgencyCommissions from './AgencyCommissions';
+
+type AgencyTab = 'overview' | 'agents' | 'portfolio' | 'commissions';
+
+const TABS: Array<{ id: AgencyTab; label: string }> = [
+  { id: 'overview', label: 'Tableau de bord' },
+  { id: 'agents', label: 'Agents' },
+  { id: 'portfolio', label: 'Portefeuille' },
+  { id: 'commissions', label: 'Commissions' },
+];
+
+// Nombre maximal de suggestions lors de la recherche d'un agent à rattacher
+const MAX_CANDIDATES = 8;
+
+const StatCard = ({ title, value, icon: Icon }: { title: string; value: string | number; icon: typeof Users }) => (
+  <div className="bg-white dark:bg-slate-800 p-4 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700 flex items-center justify-between">
+    <div>
+      <p className="text-sm text-gray-600 dark:text-gray-400">{title}</p>
+      <p className="text-xl font-bold text-gray-900 dark:text-white mt-1">{value}</p>
+    </div>
+    <Icon className="w-6 h-6 text-orange-500" />
+  </div>
+);
+
+export default function AgencyManagement() {
+  const { data: users, loading } = useCollection(dataSource.users);
+  const { data: properties } = useCollection(dataSource.properties);
+  const { data: contracts } = useCollection(dataSource.contracts);
+  const { data: transactions } = useCollection(dataSource.transactions);
+  const { can } = usePermissions();
+  const [selectedUid, setSelectedUid] = useState<string | null>(null);
+  const [tab, setTab] = useState<AgencyTab>('overview');
+  const [agentSearch, setAgentSearch] = useState('');
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const input: AgencyInput = useMemo(
+    () => ({ users, properties, contracts, transactions }),
+    [users, properties, contracts, transactions]
+  );
+  const agencies = useMemo(() => users.filter(isAgency), [users]);
+  const agency = agencies.find((candidate) => candidate.uid === selectedUid) ?? agencies[0] ?? null;
+  const overview = useMemo(() => (agency ? getAgencyOverview(input, agency) : null), [input, agency]);
+
+  // Utilisateurs pouvant devenir agents : ni administrateur, ni agence, ni déjà rattaché
+  const candidates = useMemo(() => {
+    const term = agentSearch.trim().toLowerCase();
+    if (!term) return [];
+    return users
+      .filter(
+        (user) =>
+          user.typeUsersId !== ADMIN_ROLE_ID &&
+          user.typeUsersId !== AGENCY_ROLE_ID &&
+          !user.agencyId &&
+          !user.erasedAt &&
+          !user.mergedInto &&
+          `${user.prenom} ${user.nom} ${user.email}`.toLowerCase().includes(term)
+      )
+      .slice(0, MAX_CANDIDATES);
+  }, [users, agentSearch]);
+
+  const handleAgentAction = async (agent: User, action: 'attach' | 'detach') => {
+    if (!agency) return;
+    try {
+      setActionLoading(agent.uid);
+      setError(null);
+      if (action === 'attach') {
+        await attachAgent(dataSource, agency, agent);
+        setAgentSearch('');
+      } else {
+        if (!window.confirm(`Détacher ${getUserFullName(agent)} de l'agence ?`)) return;
+        await detachAgent(dataSource, agency, agent);
+      }
+    } catch (err) {
+      console.error(`Erreur lors de l'action ${action} sur l'agent ${agent.uid} :`, err);
+      setError(err instanceof Error ? err.message : "Erreur lors de la mise à jour de l'agence. Veuillez réessayer.");
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Agences immobilières</h1>
+        <p className="text-gray-500 dark:text-gray-400">{agencies.length} agence(s)</p>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center space-x-2 text-gray-500 dark:text-gray-400">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>Chargement des agences…</span>
+        </div>
+      ) : !agency || !overview ? (
+        <p className="text-gray-500 dark:text-gray-400">
+          Aucun compte « {USER_ROLE_LABELS[AGENCY_ROLE_ID]} » n'est enregistré.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <ul className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700 divide-y divide-gray-100 dark:divide-slate-700 h-fit">
+            {agencies.map((candidate) => (
+              <li key={candidate.uid}>
+                <button
+                  onClick={() => {
+                    setSelectedUid(candidate.uid);
+                    setError(null);
+                  }}
+                  className={`w-full text-left px-4 py-3 transition-colors ${
+                    candidate.uid === agency.uid
+                      ? 'bg-orange-50 dark:bg-orange-900/20'
+                      : 'hover:bg-gray-50 dark:hover:bg-slate-700'
+                  }`}
+                >
+                  <p className="font-medium text-gray-900 dark:text-white">{getUserFullName(candidate)}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {getAgencyMembers(users, candidate).length - 1} agent(s)
+                  </p>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="lg:col-span-3 bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700 p-6">
+            <div className="flex items-center space-x-3 mb-4">
+              <Briefcase className="w-6 h-6 text-orange-500" />
+              <div>
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">{getUserFullName(agency)}</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {agency.email} · {agency.telephone}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex space-x-1 border-b border-gray-200 dark:border-slate-700 mb-4">
+              {TABS.map(({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => setTab(id)}
+                  className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                    tab === id
+                      ? 'border-orange-500 text-orange-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+            {tab === 'overview' && (
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                  <StatCard title="Agents" value={overview.agents.length} icon={Users} />
+                  <StatCard title="Propriétés" value={overview.portfolio.length} icon={Building} />
+                  <StatCard title="En attente de validation" value={overview.pendingProperties} icon={Building} />
+                  <StatCard title="Taux d'occupation" value={`${overview.occupancyRate}%`} icon={TrendingUp} />
+                  <StatCard title="Contrats actifs" value={overview.activeContracts} icon={FileText} />
+                  <StatCard title="Loyers mensuels" value={`${overview.monthlyRent.toLocaleString()}€`} icon={TrendingUp} />
+                </div>
+
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400">
+                      <th className="py-2 pr-2 font-medium">Membre</th>
+                      <th className="py-2 px-2 font-medium text-right">Propriétés</th>
+                      <th className="py-2 px-2 font-medium text-right">Occupées</th>
+                      <th className="py-2 px-2 font-medium text-right">Contrats actifs</th>
+                      <th className="py-2 px-2 font-medium text-right">Loyers mensuels</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {overview.members.map((member) => (
+                      <tr key={member.agent.uid} className="border-t border-gray-200 dark:border-slate-700">
+                        <td className="py-2 pr-2 text-gray-900 dark:text-white">
+                          {getUserFullName(member.agent)}
+                          {member.agent.uid === agency.uid && <span className="ml-2 text-xs text-gray-500">(agence)</span>}
+                        </td>
+                        <td className="py-2 px-2 text-right text-gray-900 dark:text-white">{member.properties}</td>
+                        <td className="py-2 px-2 text-right text-gray-900 dark:text-white">{member.occupied}</td>
+                        <td className="py-2 px-2 text-right text-gray-900 dark:text-white">{member.activeContracts}</td>
+                        <td className="py-2 px-2 text-right text-gray-900 dark:text-white">
+                          {member.monthlyRent.toLocaleString()}€
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {tab === 'agents' && (
+              <div className="space-y-4">
+                {can('agencies.manage') && (
+                  <div>
+                    <div className="relative">
+                      <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                      <input
+                        type="text"
+                        value={agentSearch}
+                        onChange={(e) => setAgentSearch(e.target.value)}
+                        placeholder="Rattacher un agent : nom ou email…"
+                        className="w-full pl-9 pr-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-gray-900 dark:text-white text-sm"
+                      />
+                    </div>
+                    {candidates.length > 0 && (
+                      <ul className="mt-2 border border-gray-200 dark:border-slate-700 rounded-lg divide-y divide-gray-100 dark:divide-slate-700">
+                        {candidates.map((candidate) => (
+                          <li key={candidate.uid} className="flex items-center justify-between px-3 py-2">
+                            <span className="text-sm text-gray-900 dark:text-white">
+                              {getUserFullName(candidate)}
+                              <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                                {candidate.email} · {USER_ROLE_LABELS[candidate.typeUsersId] ?? 'Rôle inconnu'}
+                              </span>
+                            </span>
+                            <button
+                              onClick={() => handleAgentAction(candidate, 'attach')}
+                              disabled={actionLoading === candidate.uid}
+                              className="flex items-center space-x-1 px-2 py-1 text-sm text-orange-600 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-lg disabled:opacity-50"
+                            >
+                              <UserPlus className="w-4 h-4" />
+                              <span>Rattacher</span>
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                {!overview.agents.length ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">Aucun agent rattaché à cette agence.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100 dark:divide-slate-700">
+                    {overview.agents.map((agent) => (
+                      <li key={agent.uid} className="flex items-center justify-between py-3">
+                        <div>
+                          <p className="font-medium text-gray-900 dark:text-white">{getUserFullName(agent)}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {agent.email} · {agent.telephone}
+                          </p>
+                        </div>
+                        {can('agencies.manage') && (
+                          <button
+                            onClick={() => handleAgentAction(agent, 'detach')}
+                            disabled={actionLoading === agent.uid}
+                            className="flex items-center space-x-1 px-2 py-1 text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg disabled:opacity-50"
+                          >
+                            <UserMinus className="w-4 h-4" />
+                            <span>Détacher</span>
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {tab === 'portfolio' && (
+              <AgencyPortfolio
+                key={agency.uid}
+                agency={agency}
+                members={[agency, ...overview.agents]}
+                portfolio={overview.portfolio}
+              />
+            )}
+
+            {tab === 'commissions' && <AgencyCommissions input={input} agency={agency} />}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { ArrowRightLeft, Loader2 } from 'lucide-react';
+import { Property, User } from '../../types';
+import { dataSource } from '../../data';
+import { transferProperties } from '../../data/agencies';
+import { usePermissions } from '../../hooks/usePermissions';
+import { getUserFullName } from '../../utils/users';
+
+interface AgencyPortfolioProps {
+  agency: User;
+  members: User[];
+  portfolio: Property[];
+}
+
+const VALIDATION_LABELS: Record<Property['validationStatus'], string> = {
+  accepte: 'Acceptée',
+  en_attente: 'En attente',
+  rejete: 'Rejetée',
+};
+
+// Portefeuille d'une agence, dont les propriétés peuvent être transférées d'un membre à un autre
+export default function AgencyPortfolio({ agency, members, portfolio }: AgencyPortfolioProps) {
+  const { can } = usePermissions();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [recipientUid, setRecipientUid] = useState('');
+  const [transferring, setTransferring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const editable = can('agencies.manage');
+  const nameOf = (uid: string) => getUserFullName(members.find((member) => member.uid === uid)) ?? uid;
+
+  const toggle = (id: string) =>
+    setSelectedIds(selectedIds.includes(id) ? selectedIds.filter((selected) => selected !== id) : [...selectedIds, id]);
+
+  const handleTransfer = async () => {
+    const recipient = members.find((member) => member.uid === recipientUid);
+    if (!recipient) return;
+    if (!window.confirm(`Transférer ${selectedIds.length} propriété(s) à ${getUserFullName(recipient)} ?`)) return;
+    try {
+      setTransferring(true);
+      setError(null);
+      const report = await transferProperties(dataSource, agency, selectedIds, recipient);
+      setNotice(
+        `${report.properties} propriété(s) et ${report.contracts} contrat(s) actif(s) transférés à ${getUserFullName(recipient)}.`
+      );
+      setSelectedIds([]);
+    } catch (err) {
+      console.error(`Erreur lors du transfert de propriétés vers ${recipientUid} :`, err);
+      setError(err instanceof Error ? err.message : 'Erreur lors du transfert. Veuillez réessayer.');
+    } finally {
+      setTransferring(false);
+    }
+  };
+
+  return (
+    <div>
+      {editable && (
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <span className="text-sm text-gray-500 dark:text-gray-400">{selectedIds.length} sélectionnée(s)</span>
+          <select
+            value={recipientUid}
+            onChange={(e) => setRecipientUid(e.target.value)}
+            className="px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-gray-900 dark:text-white text-sm"
+            aria-label="Membre qui reprend les propriétés"
+          >
+            <option value="">Transférer à…</option>
+            {members.map((member) => (
+              <option key={member.uid} value={member.uid}>
+                {getUserFullName(member)}
+                {member.uid === agency.uid ? ' (agence)' : ''}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleTransfer}
+            disabled={!selectedIds.length || !recipientUid || transferring}
+            className="flex items-center space-x-2 px-3 py-2 text-sm bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:opacity-50"
+          >
+            {transferring ? <Loader2 className="w-4 h-4 animate-spin" /> : <ArrowRightLeft className="w-4 h-4" />}
+            <span>Transférer</span>
+          </button>
+        </div>
+      )}
+
+      {notice && <p className="text-sm text-green-700 dark:text-green-400 mb-2">{notice}</p>}
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+      {!portfolio.length ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Aucune propriété dans le portefeuille.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400">
+              {editable && <th className="py-2 pr-2" />}
+              <th className="py-2 pr-2 font-medium">Propriété</th>
+              <th className="py-2 px-2 font-medium">Détenteur</th>
+              <th className="py-2 px-2 font-medium">Validation</th>
+              <th className="py-2 px-2 font-medium text-right">Prix</th>
+            </tr>
+          </thead>
+          <tbody>
+            {portfolio.map((property) => (
+              <tr key={property.id} className="border-t border-gray-200 dark:border-slate-700">
+                {editable && (
+                  <td className="py-2 pr-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(property.id)}
+                      onChange={() => toggle(property.id)}
+                      className="accent-orange-500"
+                      aria-label={`Sélectionner ${property.name}`}
+                    />
+                  </td>
+                )}
+                <td className="py-2 pr-2 text-gray-900 dark:text-white">
+                  {property.name}
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">{property.location}</span>
+                </td>
+                <td className="py-2 px-2 text-gray-600 dark:text-gray-300">{nameOf(property.ownerId)}</td>
+                <td className="py-2 px-2 text-gray-600 dark:text-gray-300">{VALIDATION_LABELS[property.validationStatus]}</td>
+                <td className="py-2 px-2 text-right text-gray-900 dark:text-white">{property.price.toLocaleString()}€</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
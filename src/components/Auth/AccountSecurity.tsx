@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { ShieldCheck, ShieldOff, RefreshCw, X } from 'lucide-react';
+import { dataSource } from '../../data';
+import { disableTwoFactor, isTwoFactorRequired, markTwoFactorVerified, regenerateRecoveryCodes } from '../../data/twoFactor';
+import { useAuth } from '../../hooks/useAuth';
+import { useSettings } from '../../hooks/useSettings';
+import TwoFactorEnrollment, { RecoveryCodes } from './TwoFactorEnrollment';
+
+interface AccountSecurityProps {
+  onClose: () => void;
+}
+
+type View = 'status' | 'enroll' | 'codes';
+
+// Gestion par l'administrateur connecté de sa propre double authentification
+export default function AccountSecurity({ onClose }: AccountSecurityProps) {
+  const { admin, account } = useAuth();
+  const { settings } = useSettings();
+  const [enrolled, setEnrolled] = useState(!!admin?.twoFactorEnabled);
+  const [view, setView] = useState<View>('status');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const required = !!admin && isTwoFactorRequired(admin, settings.security.twoFactorAuth);
+
+  if (!admin || !account) return null;
+
+  const handleDisable = async () => {
+    if (!window.confirm('Désactiver la double authentification de votre compte ?')) return;
+    try {
+      setError(null);
+      await disableTwoFactor(dataSource, admin.uid, admin.uid, 'Désactivation double authentification');
+      setEnrolled(false);
+    } catch (err) {
+      console.error('Erreur lors de la désactivation de la double authentification :', err);
+      setError(err instanceof Error ? err.message : 'Impossible de désactiver la double authentification');
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!window.confirm('Les codes de secours actuels ne seront plus valables. Continuer ?')) return;
+    try {
+      setError(null);
+      setRecoveryCodes(await regenerateRecoveryCodes(dataSource));
+      setView('codes');
+    } catch (err) {
+      console.error('Erreur lors de la génération des codes de secours :', err);
+      setError('Impossible de générer de nouveaux codes de secours');
+    }
+  };
+
+  const renderContent = () => {
+    if (view === 'enroll') {
+      return (
+        <TwoFactorEnrollment
+          admin={admin}
+          email={account.email}
+          onComplete={() => {
+            markTwoFactorVerified(admin.uid);
+            setEnrolled(true);
+            setView('status');
+          }}
+        />
+      );
+    }
+    if (view === 'codes') {
+      return <RecoveryCodes codes={recoveryCodes} onDone={() => setView('status')} />;
+    }
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center space-x-3">
+          {enrolled ? (
+            <ShieldCheck className="w-6 h-6 text-green-500" />
+          ) : (
+            <ShieldOff className="w-6 h-6 text-gray-400" />
+          )}
+          <div>
+            <p className="font-medium text-gray-900 dark:text-white">
+              Double authentification {enrolled ? 'activée' : 'désactivée'}
+            </p>
+            {required && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Exigée pour votre compte</p>
+            )}
+          </div>
+        </div>
+        {enrolled ? (
+          <div className="flex space-x-2">
+            <button
+              onClick={handleRegenerate}
+              className="flex-1 flex items-center justify-center space-x-2 px-4 py-2 border border-gray-300 dark:border-slate-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+            >
+              <RefreshCw className="w-4 h-4" />
+              <span>Nouveaux codes de secours</span>
+            </button>
+            <button
+              onClick={handleDisable}
+              disabled={required}
+              title={required ? 'La double authentification est exigée pour votre compte' : undefined}
+              className="flex-1 px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors disabled:opacity-50"
+            >
+              Désactiver
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setView('enroll')}
+            className="w-full px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors"
+          >
+            Activer la double authentification
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div
+        role="dialog"
+        aria-labelledby="account-security-title"
+        className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-md w-full p-6 space-y-4"
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="account-security-title" className="text-lg font-semibold text-gray-900 dark:text-white">
+            Sécurité du compte
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg text-sm">{error}</div>
+        )}
+        {renderContent()}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { FormEvent, useState } from 'react';
+import { Mail, Lock, ArrowLeft, AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
+import { dataSource } from '../../data';
+import { useAuth } from '../../hooks/useAuth';
+import logo from '../../assets/logo/logo-orange.png';
+
+type LoginMode = 'login' | 'reset';
+
+export default function Login() {
+  const { status, error: authError, signIn, signInWithGoogle, sendPasswordReset } = useAuth();
+  const [mode, setMode] = useState<LoginMode>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [resetSent, setResetSent] = useState(false);
+
+  const busy = submitting || status === 'loading';
+  const displayedError = error ?? authError;
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setSubmitting(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      console.error('Erreur d\'authentification :', err);
+      setError(err instanceof Error ? err.message : 'Une erreur est survenue. Veuillez réessayer.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleLogin = (e: FormEvent) => {
+    e.preventDefault();
+    run(() => signIn(email, password));
+  };
+
+  const handleReset = (e: FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await sendPasswordReset(email);
+      setResetSent(true);
+    });
+  };
+
+  const switchMode = (next: LoginMode) => {
+    setMode(next);
+    setError(null);
+    setResetSent(false);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-slate-900 p-4">
+      <div className="w-full max-w-md bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700 p-8 space-y-6">
+        <div className="text-center space-y-2">
+          <div className="inline-block bg-slate-900 rounded-lg px-4 py-2">
+            <img src={logo} alt="Kinaru Logo" className="h-8" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            {mode === 'login' ? 'Administration Kinaru' : 'Mot de passe oublié'}
+          </h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {mode === 'login'
+              ? 'Connectez-vous avec votre compte administrateur'
+              : 'Recevez un lien de réinitialisation par email'}
+          </p>
+        </div>
+
+        {displayedError && (
+          <div className="flex items-start space-x-2 p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg text-sm">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>{displayedError}</span>
+          </div>
+        )}
+
+        {mode === 'login' ? (
+          <form onSubmit={handleLogin} className="space-y-4">
+            <div className="relative">
+              <Mail className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
+              <input
+                type="email"
+                required
+                autoComplete="username"
+                placeholder="Adresse email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+              />
+            </div>
+            <div className="relative">
+              <Lock className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
+              <input
+                type="password"
+                required
+                autoComplete="current-password"
+                placeholder="Mot de passe"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+              />
+            </div>
+            <div className="text-right">
+              <button
+                type="button"
+                onClick={() => switchMode('reset')}
+                className="text-sm text-orange-600 hover:text-orange-700 dark:text-orange-400"
+              >
+                Mot de passe oublié ?
+              </button>
+            </div>
+            <button
+              type="submit"
+              disabled={busy}
+              className="w-full flex items-center justify-center space-x-2 bg-orange-500 text-white px-4 py-2 rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+            >
+              {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>Se connecter</span>
+            </button>
+            {dataSource.kind === 'firestore' && (
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => run(signInWithGoogle)}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+              >
+                Continuer avec Google
+              </button>
+            )}
+            {dataSource.kind === 'memory' && (
+              <p className="text-xs text-center text-gray-400 dark:text-gray-500">
+                Mode démonstration : email d'un administrateur des données de test et mot de passe de démonstration.
+              </p>
+            )}
+          </form>
+        ) : (
+          <form onSubmit={handleReset} className="space-y-4">
+            {resetSent ? (
+              <div className="flex items-start space-x-2 p-3 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300 rounded-lg text-sm">
+                <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span>Si un compte correspond à cette adresse, un email de réinitialisation vient d'être envoyé.</span>
+              </div>
+            ) : (
+              <div className="relative">
+                <Mail className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
+                <input
+                  type="email"
+                  required
+                  placeholder="Adresse email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+                />
+              </div>
+            )}
+            {!resetSent && (
+              <button
+                type="submit"
+                disabled={busy}
+                className="w-full flex items-center justify-center space-x-2 bg-orange-500 text-white px-4 py-2 rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+              >
+                {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>Envoyer le lien</span>
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => switchMode('login')}
+              className="w-full flex items-center justify-center space-x-2 text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              <span>Retour à la connexion</span>
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
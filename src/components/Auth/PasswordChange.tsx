@@ -0,0 +1,113 @@
+import { FormEvent, useState } from 'react';
+import { Lock, AlertTriangle, Loader2 } from 'lucide-react';
+import { MIN_PASSWORD_LENGTH } from '../../data/accountSecurity';
+import { useAuth } from '../../hooks/useAuth';
+import logo from '../../assets/logo/logo-orange.png';
+
+export default function PasswordChange() {
+  const { admin, changePassword, signOut } = useAuth();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmation) {
+      setError('Les deux mots de passe ne correspondent pas');
+      return;
+    }
+    try {
+      setSubmitting(true);
+      setError(null);
+      await changePassword(currentPassword, newPassword);
+    } catch (err) {
+      console.error('Erreur lors du changement de mot de passe :', err);
+      setError(err instanceof Error ? err.message : 'Une erreur est survenue. Veuillez réessayer.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClassName =
+    'w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-slate-900 p-4">
+      <div className="w-full max-w-md bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700 p-8 space-y-6">
+        <div className="text-center space-y-2">
+          <div className="inline-block bg-slate-900 rounded-lg px-4 py-2">
+            <img src={logo} alt="Kinaru Logo" className="h-8" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Mot de passe expiré</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {admin?.prenom ? `${admin.prenom}, choisissez` : 'Choisissez'} un nouveau mot de passe pour accéder à la console
+            ({MIN_PASSWORD_LENGTH} caractères minimum, avec minuscule, majuscule et chiffre).
+          </p>
+        </div>
+
+        {error && (
+          <div className="flex items-start space-x-2 p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg text-sm">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="relative">
+            <Lock className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
+            <input
+              type="password"
+              required
+              autoComplete="current-password"
+              placeholder="Mot de passe actuel"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div className="relative">
+            <Lock className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
+            <input
+              type="password"
+              required
+              autoComplete="new-password"
+              placeholder="Nouveau mot de passe"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div className="relative">
+            <Lock className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
+            <input
+              type="password"
+              required
+              autoComplete="new-password"
+              placeholder="Confirmer le nouveau mot de passe"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full flex items-center justify-center space-x-2 bg-orange-500 text-white px-4 py-2 rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+          >
+            {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+            <span>Changer le mot de passe</span>
+          </button>
+          <button
+            type="button"
+            onClick={() => signOut()}
+            className="w-full text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+          >
+            Se déconnecter
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
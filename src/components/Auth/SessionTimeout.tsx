@@ -0,0 +1,62 @@
+import { useCallback } from 'react';
+import { Clock } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import { useIdleTimeout } from '../../hooks/useIdleTimeout';
+import { useSettings } from '../../hooks/useSettings';
+
+// Durée de l'avertissement affiché avant la déconnexion
+const WARNING_MS = 60 * 1000;
+
+/**
+ * Déconnecte l'administrateur après la durée d'inactivité configurée (security.sessionTimeout),
+ * en affichant un compte à rebours pendant la dernière minute.
+ */
+export default function SessionTimeout() {
+  const { signOut } = useAuth();
+  const { settings } = useSettings();
+  const timeoutMinutes = settings.security.sessionTimeout;
+
+  const handleTimeout = useCallback(() => {
+    signOut(`Session expirée après ${timeoutMinutes} minutes d'inactivité. Veuillez vous reconnecter.`).catch((err) =>
+      console.error('Erreur lors de la déconnexion :', err)
+    );
+  }, [signOut, timeoutMinutes]);
+
+  const { remainingMs, stayActive } = useIdleTimeout(timeoutMinutes * 60 * 1000, WARNING_MS, handleTimeout);
+
+  if (remainingMs === null) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div
+        role="alertdialog"
+        aria-labelledby="session-timeout-title"
+        className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-md w-full p-6 space-y-4"
+      >
+        <div className="flex items-center space-x-3">
+          <Clock className="w-6 h-6 text-orange-500" />
+          <h2 id="session-timeout-title" className="text-lg font-semibold text-gray-900 dark:text-white">
+            Session bientôt expirée
+          </h2>
+        </div>
+        <p className="text-gray-600 dark:text-gray-300">
+          Sans activité, vous serez déconnecté dans {Math.ceil(remainingMs / 1000)} secondes.
+        </p>
+        <div className="flex justify-end space-x-2">
+          <button
+            onClick={() => signOut()}
+            className="px-4 py-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            Se déconnecter
+          </button>
+          <button
+            onClick={stayActive}
+            className="px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors"
+          >
+            Rester connecté
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
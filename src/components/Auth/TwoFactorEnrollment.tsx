@@ -0,0 +1,147 @@
+import { FormEvent, useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { AlertTriangle, Download, KeyRound, Loader2 } from 'lucide-react';
+import { dataSource } from '../../data';
+import { confirmEnrollment, createEnrollment } from '../../data/twoFactor';
+import { User } from '../../types';
+import { downloadFile } from '../../utils/export';
+
+interface TwoFactorEnrollmentProps {
+  admin: User;
+  email: string;
+  onComplete: () => void;
+}
+
+/**
+ * Enrôle une application d'authentification (QR code puis premier code), puis affiche
+ * les codes de secours une seule fois avant de rendre la main.
+ */
+export default function TwoFactorEnrollment({ admin, email, onComplete }: TwoFactorEnrollmentProps) {
+  const [enrollment] = useState(() => createEnrollment(email));
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    QRCode.toDataURL(enrollment.otpauthUri, { width: 200, margin: 1 })
+      .then(setQrCode)
+      .catch((err) => console.error('Erreur lors de la génération du QR code :', err));
+  }, [enrollment]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      setSubmitting(true);
+      setError(null);
+      setRecoveryCodes(await confirmEnrollment(dataSource, admin, enrollment, code));
+    } catch (err) {
+      console.error("Erreur lors de l'activation de la double authentification :", err);
+      setError(err instanceof Error ? err.message : 'Une erreur est survenue. Veuillez réessayer.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return <RecoveryCodes codes={recoveryCodes} onDone={onComplete} />;
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-300">
+        Scannez ce QR code avec votre application d'authentification (Google Authenticator, Authy, 1Password…),
+        puis saisissez le code à 6 chiffres affiché.
+      </p>
+      <div className="flex justify-center">
+        {qrCode ? (
+          <img src={qrCode} alt="QR code d'enrôlement" className="w-48 h-48 rounded-lg border border-gray-200" />
+        ) : (
+          <div className="w-48 h-48 flex items-center justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        )}
+      </div>
+      <div className="text-center">
+        <p className="text-xs text-gray-500 dark:text-gray-400">Ou saisissez la clé manuellement :</p>
+        <code className="text-sm font-mono break-all text-gray-900 dark:text-white">
+          {enrollment.secret.match(/.{1,4}/g)?.join(' ')}
+        </code>
+      </div>
+
+      {error && (
+        <div className="flex items-start space-x-2 p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg text-sm">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="relative">
+        <KeyRound className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
+        <input
+          type="text"
+          required
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder="Code à 6 chiffres"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+        />
+      </div>
+      <button
+        type="submit"
+        disabled={submitting}
+        className="w-full flex items-center justify-center space-x-2 bg-orange-500 text-white px-4 py-2 rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+      >
+        {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+        <span>Activer la double authentification</span>
+      </button>
+    </form>
+  );
+}
+
+interface RecoveryCodesProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+// Codes de secours en clair : ils ne sont plus consultables une fois cet écran quitté
+export function RecoveryCodes({ codes, onDone }: RecoveryCodesProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start space-x-2 p-3 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200 rounded-lg text-sm">
+        <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+        <span>
+          Conservez ces codes de secours en lieu sûr. Chacun permet une seule connexion si vous perdez l'accès à votre
+          application ; ils ne seront plus affichés.
+        </span>
+      </div>
+      <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900 dark:text-white">
+        {codes.map((code) => (
+          <li key={code} className="px-3 py-2 bg-gray-50 dark:bg-slate-700 rounded-lg text-center">
+            {code}
+          </li>
+        ))}
+      </ul>
+      <div className="flex space-x-2">
+        <button
+          type="button"
+          onClick={() => downloadFile(codes.join('\n'), 'kinaru-codes-secours.txt', 'text/plain;charset=utf-8')}
+          className="flex-1 flex items-center justify-center space-x-2 px-4 py-2 border border-gray-300 dark:border-slate-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          <span>Télécharger</span>
+        </button>
+        <button
+          type="button"
+          onClick={onDone}
+          className="flex-1 px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors"
+        >
+          J'ai conservé mes codes
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { useAuth } from '../../hooks/useAuth';
+import TwoFactorEnrollment from './TwoFactorEnrollment';
+import logo from '../../assets/logo/logo-orange.png';
+
+// Enrôlement imposé (paramètre global ou exigence individuelle) avant l'accès à la console
+export default function TwoFactorSetup() {
+  const { admin, account, completeTwoFactorSetup, signOut } = useAuth();
+
+  const handleComplete = () => {
+    completeTwoFactorSetup().catch((err) => console.error("Erreur lors de l'ouverture de la session :", err));
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-slate-900 p-4">
+      <div className="w-full max-w-md bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700 p-8 space-y-6">
+        <div className="text-center space-y-2">
+          <div className="inline-block bg-slate-900 rounded-lg px-4 py-2">
+            <img src={logo} alt="Kinaru Logo" className="h-8" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Activez la double authentification</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            La double authentification est obligatoire pour votre compte administrateur.
+          </p>
+        </div>
+
+        {admin && account && (
+          <TwoFactorEnrollment admin={admin} email={account.email} onComplete={handleComplete} />
+        )}
+
+        <button
+          type="button"
+          onClick={() => signOut()}
+          className="w-full text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+        >
+          Se déconnecter
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,33 +1,40 @@
 import React, { useState, useMemo } from 'react';
 import { Search, Plus, Eye, Edit, Archive, Bell, FileText, Calendar, User, Building, Euro, CheckCircle, Clock, XCircle } from 'lucide-react';
-import { mockContracts, mockUsers, mockProperties } from '../../data/mockData';
+import { dataSource } from '../../data';
+import { useCollection } from '../../hooks/useCollection';
+import { usePermissions } from '../../hooks/usePermissions';
+import { getUserFullName } from '../../utils/users';
 import { Contract } from '../../types';
 
 export default function ContractManagement() {
-  const [contracts] = useState<Contract[]>(mockContracts);
+  const { data: contracts } = useCollection(dataSource.contracts);
+  const { data: users } = useCollection(dataSource.users);
+  const { data: properties } = useCollection(dataSource.properties);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [showArchived, setShowArchived] = useState(false);
   const [selectedContract, setSelectedContract] = useState<Contract | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showSignatureModal, setShowSignatureModal] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { can } = usePermissions();
 
   const filteredContracts = useMemo(() => {
     return contracts.filter(contract => {
-      const tenant = mockUsers.find(u => u.id === contract.tenantId);
-      const owner = mockUsers.find(u => u.id === contract.ownerId);
-      const property = mockProperties.find(p => p.id === contract.propertyId);
+      const tenant = users.find(u => u.uid === contract.tenantId);
+      const owner = users.find(u => u.uid === contract.ownerId);
+      const property = properties.find(p => p.id === contract.propertyId);
       
-      const matchesSearch = tenant?.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                           owner?.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      const matchesSearch = getUserFullName(tenant)?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                           getUserFullName(owner)?.toLowerCase().includes(searchTerm.toLowerCase()) ||
                            property?.name.toLowerCase().includes(searchTerm.toLowerCase()) || false;
       
       const matchesStatus = statusFilter === 'all' || contract.status === statusFilter;
-      const matchesArchived = showArchived ? contract.status === 'expire' : contract.status !== 'expire';
+      const matchesArchived = showArchived ? !!contract.archived : !contract.archived;
       
       return matchesSearch && matchesStatus && matchesArchived;
     }).sort((a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime());
-  }, [contracts, searchTerm, statusFilter, showArchived]);
+  }, [contracts, users, properties, searchTerm, statusFilter, showArchived]);
 
   const getExpiringContracts = () => {
     const now = new Date();
@@ -39,18 +46,30 @@ export default function ContractManagement() {
     });
   };
 
-  const handleContractAction = (contractId: string, action: string) => {
-    console.log(`Action ${action} sur contrat ${contractId}`);
+  // Enregistre une modification de contrat sous le libellé donné dans le journal d'activité
+  const updateContract = async (contractId: string, data: Partial<Omit<Contract, 'id'>>, action: string) => {
+    try {
+      setError(null);
+      await dataSource.contracts.update(contractId, data, { action });
+    } catch (err) {
+      console.error(`Erreur lors de la mise à jour du contrat ${contractId}:`, err);
+      setError('Erreur lors de la mise à jour du contrat. Veuillez réessayer.');
+    }
+  };
+
+  const handleContractAction = async (contractId: string, action: string) => {
     if (action === 'sign') {
       setSelectedContract(contracts.find(c => c.id === contractId) || null);
       setShowSignatureModal(true);
     }
+    if (action === 'archive') {
+      await updateContract(contractId, { archived: true, archivedAt: new Date().toISOString() }, 'Archivage contrat');
+    }
   };
 
   const ContractCard = ({ contract }: { contract: Contract }) => {
-    const tenant = mockUsers.find(u => u.id === contract.tenantId);
-    const owner = mockUsers.find(u => u.id === contract.ownerId);
-    const property = mockProperties.find(p => p.id === contract.propertyId);
+    const tenant = users.find(u => u.uid === contract.tenantId);
+    const property = properties.find(p => p.id === contract.propertyId);
     
     const isExpiringSoon = () => {
       const endDate = new Date(contract.endDate);
@@ -93,6 +112,11 @@ export default function ContractManagement() {
               }`}>
                 {contract.signatureStatus === 'signe' ? 'Signé' : 'En attente signature'}
               </span>
+              {contract.archived && (
+                <span className="px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800 dark:bg-purple-900/20 dark:text-purple-300">
+                  Archivé{contract.archivedAt ? ` le ${new Date(contract.archivedAt).toLocaleDateString()}` : ''}
+                </span>
+              )}
             </div>
             
             <div className="grid grid-cols-2 gap-4 text-sm">
@@ -100,7 +124,7 @@ export default function ContractManagement() {
                 <User className="w-4 h-4 text-gray-400" />
                 <div>
                   <span className="text-gray-500 dark:text-gray-400">Locataire:</span>
-                  <p className="font-medium text-gray-900 dark:text-white">{tenant?.name || 'Inconnu'}</p>
+                  <p className="font-medium text-gray-900 dark:text-white">{getUserFullName(tenant) || 'Inconnu'}</p>
                 </div>
               </div>
               
@@ -147,7 +171,7 @@ export default function ContractManagement() {
             >
               <Edit className="w-4 h-4" />
             </button>
-            {contract.signatureStatus === 'en_attente' && (
+            {can('contracts.sign') && contract.signatureStatus === 'en_attente' && (
               <button
                 onClick={() => handleContractAction(contract.id, 'sign')}
                 className="p-2 text-gray-400 hover:text-green-500 transition-colors"
@@ -156,7 +180,7 @@ export default function ContractManagement() {
                 <CheckCircle className="w-4 h-4" />
               </button>
             )}
-            {contract.status === 'expire' && (
+            {can('contracts.archive') && contract.status !== 'actif' && !contract.archived && (
               <button
                 onClick={() => handleContractAction(contract.id, 'archive')}
                 className="p-2 text-gray-400 hover:text-purple-500 transition-colors"
@@ -219,6 +243,12 @@ export default function ContractManagement() {
         </div>
       </div>
 
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg">
+          {error}
+        </div>
+      )}
+
       {/* Filtres */}
       <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700">
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -326,19 +356,19 @@ export default function ContractManagement() {
                     <div>
                       <label className="text-sm font-medium text-gray-500 dark:text-gray-400">Locataire</label>
                       <p className="text-gray-900 dark:text-white">
-                        {mockUsers.find(u => u.id === selectedContract.tenantId)?.name || 'Inconnu'}
+                        {getUserFullName(users.find(u => u.uid === selectedContract.tenantId)) || 'Inconnu'}
                       </p>
                     </div>
                     <div>
                       <label className="text-sm font-medium text-gray-500 dark:text-gray-400">Propriétaire</label>
                       <p className="text-gray-900 dark:text-white">
-                        {mockUsers.find(u => u.id === selectedContract.ownerId)?.name || 'Inconnu'}
+                        {getUserFullName(users.find(u => u.uid === selectedContract.ownerId)) || 'Inconnu'}
                       </p>
                     </div>
                     <div>
                       <label className="text-sm font-medium text-gray-500 dark:text-gray-400">Propriété</label>
                       <p className="text-gray-900 dark:text-white">
-                        {mockProperties.find(p => p.id === selectedContract.propertyId)?.name || 'Inconnue'}
+                        {properties.find(p => p.id === selectedContract.propertyId)?.name || 'Inconnue'}
                       </p>
                     </div>
                   </div>
@@ -354,7 +384,7 @@ export default function ContractManagement() {
                   <FileText className="w-4 h-4" />
                   <span>Télécharger PDF</span>
                 </button>
-                {selectedContract.signatureStatus === 'en_attente' && (
+                {can('contracts.sign') && selectedContract.signatureStatus === 'en_attente' && (
                   <button
                     onClick={() => setShowSignatureModal(true)}
                     className="flex items-center space-x-2 bg-green-500 text-white px-4 py-2 rounded-lg hover:bg-green-600 transition-colors"
@@ -396,8 +426,8 @@ export default function ContractManagement() {
               
               <div className="flex space-x-3">
                 <button
-                  onClick={() => {
-                    console.log('Contrat signé:', selectedContract.id);
+                  onClick={async () => {
+                    await updateContract(selectedContract.id, { signatureStatus: 'signe' }, 'Signature contrat');
                     setShowSignatureModal(false);
                     setSelectedContract(null);
                   }}
@@ -0,0 +1,103 @@
+import { useMemo, useState } from 'react';
+import { Contact, Loader2, Play } from 'lucide-react';
+import { dataSource } from '../../data';
+import { CNI_EXPIRY_JOB_ID, findExpiringCnis, runCniExpiryCheck } from '../../data/cniExpiry';
+import { KYC_STATUS_LABELS, getKycStatus } from '../../data/kyc';
+import { useAuth } from '../../hooks/useAuth';
+import { useCollection } from '../../hooks/useCollection';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useSettings } from '../../hooks/useSettings';
+import { getUserFullName } from '../../utils/users';
+
+// Nombre de lignes affichées ; la liste complète est dans la section Vérification KYC
+const MAX_ROWS = 6;
+
+export default function CniExpiryWidget() {
+  const { admin } = useAuth();
+  const { can } = usePermissions();
+  const { settings } = useSettings();
+  const { data: users } = useCollection(dataSource.users);
+  const { data: jobRuns } = useCollection(dataSource.jobRuns);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const windowDays = settings.security.cniExpiryWindowDays;
+  const expiring = useMemo(() => findExpiringCnis(users, windowDays), [users, windowDays]);
+  const expiredCount = expiring.filter(({ daysLeft }) => daysLeft <= 0).length;
+  const lastRun = jobRuns.find((run) => run.id === CNI_EXPIRY_JOB_ID);
+
+  const handleRun = async () => {
+    try {
+      setRunning(true);
+      setError(null);
+      await runCniExpiryCheck(dataSource, settings, admin?.uid ?? '');
+    } catch (err) {
+      console.error('Erreur lors du contrôle des CNI :', err);
+      setError('Le contrôle des CNI a échoué. Veuillez réessayer.');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Expiration des CNI</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {expiredCount} expirée(s), {expiring.length - expiredCount} dans les {windowDays} prochains jours
+          </p>
+        </div>
+        {can('users.kyc') && (
+          <button
+            onClick={handleRun}
+            disabled={running}
+            className="flex items-center space-x-2 px-3 py-2 text-sm border border-orange-300 text-orange-600 rounded-lg hover:bg-orange-50 dark:hover:bg-orange-900/20 transition-colors disabled:opacity-50"
+          >
+            {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+            <span>Lancer le contrôle</span>
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {expiring.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Aucune CNI à renouveler.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-slate-700">
+          {expiring.slice(0, MAX_ROWS).map(({ user, daysLeft }) => {
+            const status = getKycStatus(user);
+            return (
+              <li key={user.uid} className="flex items-center justify-between py-2">
+                <div className="flex items-center space-x-3">
+                  <Contact className={`w-4 h-4 ${daysLeft <= 0 ? 'text-red-500' : 'text-yellow-500'}`} />
+                  <div>
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">{getUserFullName(user)}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {status ? KYC_STATUS_LABELS[status] : 'Aucun document'}
+                    </p>
+                  </div>
+                </div>
+                <span className={`text-sm ${daysLeft <= 0 ? 'text-red-600 font-medium' : 'text-gray-600 dark:text-gray-300'}`}>
+                  {daysLeft <= 0
+                    ? `Expirée le ${new Date(user.cniExpirationDate).toLocaleDateString('fr-FR')}`
+                    : `Expire dans ${daysLeft} j`}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {expiring.length > MAX_ROWS && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">Et {expiring.length - MAX_ROWS} autre(s)…</p>
+      )}
+
+      <p className="text-xs text-gray-400 mt-4">
+        {lastRun
+          ? `Dernier contrôle le ${new Date(lastRun.lastRunAt).toLocaleString('fr-FR')} : ${lastRun.summary}`
+          : "Le contrôle quotidien n'a pas encore été exécuté."}
+      </p>
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
 import React from 'react';
 import { Users, Building, CreditCard, FileText, TrendingUp, AlertTriangle } from 'lucide-react';
-import { mockStatistics, mockUsers, mockProperties, mockTransactions, mockContracts } from '../../data/mockData';
+import { dataSource } from '../../data';
+import { useCollection } from '../../hooks/useCollection';
+import { compareStatistics, computeStatistics, createPresetRange, getPreviousRange } from '../../utils/statistics';
+import { usePermissions } from '../../hooks/usePermissions';
+import CniExpiryWidget from './CniExpiryWidget';
 
 const StatCard = ({ title, value, icon: Icon, trend, color }: any) => (
   <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700">
@@ -10,7 +14,7 @@ const StatCard = ({ title, value, icon: Icon, trend, color }: any) => (
         <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{value}</p>
         {trend && (
           <p className={`text-sm mt-1 ${trend > 0 ? 'text-green-600' : 'text-red-600'}`}>
-            {trend > 0 ? '+' : ''}{trend}% ce mois
+            {trend > 0 ? '+' : ''}{trend}% sur 30 jours
           </p>
         )}
       </div>
@@ -47,38 +51,50 @@ const AlertCard = ({ title, message, type }: any) => (
 );
 
 export default function Dashboard() {
-  const pendingUsers = mockUsers.filter(u => u.status === 'en_attente').length;
-  const pendingProperties = mockProperties.filter(p => p.validationStatus === 'en_attente').length;
-  const pendingTransactions = mockTransactions.filter(t => t.status === 'en_attente').length;
-  const activeContracts = mockContracts.filter(c => c.status === 'actif').length;
+  const { data: users } = useCollection(dataSource.users);
+  const { data: properties } = useCollection(dataSource.properties);
+  const { data: transactions } = useCollection(dataSource.transactions);
+  const { data: contracts } = useCollection(dataSource.contracts);
+  const { canAccess } = usePermissions();
+
+  const pendingUsers = users.filter(u => u.statut === 2).length;
+  const pendingProperties = properties.filter(p => p.validationStatus === 'en_attente').length;
+  const pendingTransactions = transactions.filter(t => t.status === 'en_attente').length;
+  const activeContracts = contracts.filter(c => c.status === 'actif').length;
+
+  // Indicateurs des 30 derniers jours, comparés aux 30 jours précédents
+  const range = createPresetRange('30d');
+  const input = { users, properties, transactions };
+  const statistics = computeStatistics(input, range);
+  const trends = compareStatistics(statistics, computeStatistics(input, getPreviousRange(range)));
 
   const quickStats = [
     {
       title: 'Utilisateurs Totaux',
-      value: mockStatistics.totalUsers.toLocaleString(),
+      value: users.length.toLocaleString(),
       icon: Users,
-      trend: 12.5,
+      trend: null,
       color: 'bg-blue-500'
     },
     {
       title: 'Propriétés Actives',
-      value: mockStatistics.totalProperties.toLocaleString(),
+      value: properties.length.toLocaleString(),
       icon: Building,
-      trend: 8.2,
+      trend: trends.totalProperties,
       color: 'bg-green-500'
     },
     {
-      title: 'Revenus ce Mois',
-      value: `${mockStatistics.totalRevenue.toLocaleString()}€`,
+      title: 'Revenus 30 jours',
+      value: `${statistics.totalRevenue.toLocaleString()}€`,
       icon: CreditCard,
-      trend: 15.3,
+      trend: trends.totalRevenue,
       color: 'bg-orange-500'
     },
     {
       title: 'Contrats Actifs',
       value: activeContracts.toString(),
       icon: FileText,
-      trend: -2.1,
+      trend: null,
       color: 'bg-purple-500'
     }
   ];
@@ -160,6 +176,9 @@ export default function Dashboard() {
         </div>
       </div>
 
+      {/* CNI expirées ou proches de l'expiration */}
+      {canAccess('kyc') && <CniExpiryWidget />}
+
       {/* Actions rapides */}
       <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700">
         <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
@@ -0,0 +1,22 @@
+import { useCallback } from 'react';
+import { dataSource } from '../../data';
+import { CNI_EXPIRY_JOB_ID, runCniExpiryCheck } from '../../data/cniExpiry';
+import { useAuth } from '../../hooks/useAuth';
+import { useDailyJob } from '../../hooks/useDailyJob';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useSettings } from '../../hooks/useSettings';
+
+// Contrôle quotidien des CNI expirées, exécuté par la session d'un administrateur habilité au KYC
+export default function CniExpiryJob() {
+  const { admin } = useAuth();
+  const { can } = usePermissions();
+  const { settings, loading } = useSettings();
+
+  const run = useCallback(
+    () => runCniExpiryCheck(dataSource, settings, admin?.uid ?? ''),
+    [settings, admin]
+  );
+  useDailyJob(CNI_EXPIRY_JOB_ID, run, !loading && !!admin && can('users.kyc'));
+
+  return null;
+}
@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { ZoomIn, ZoomOut, RotateCw, Maximize, Loader2, ImageOff } from 'lucide-react';
+import { dataSource } from '../../data';
+
+interface DocumentViewerProps {
+  label: string;
+  path: string;
+}
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 0.25;
+
+// Image de document lue depuis le stockage, avec zoom et rotation par quart de tour
+export default function DocumentViewer({ label, path }: DocumentViewerProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [rotation, setRotation] = useState(0);
+
+  useEffect(() => {
+    let active = true;
+    setUrl(null);
+    setError(null);
+    setZoom(1);
+    setRotation(0);
+    if (!path) {
+      setError('Document non déposé');
+      return;
+    }
+    dataSource.storage
+      .getUrl(path)
+      .then((resolved) => active && setUrl(resolved))
+      .catch((err) => {
+        console.error(`Erreur lors du chargement du document ${path} :`, err);
+        if (active) setError('Document introuvable');
+      });
+    return () => {
+      active = false;
+    };
+  }, [path]);
+
+  const buttonClassName =
+    'p-1.5 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors disabled:opacity-40';
+
+  return (
+    <div className="border border-gray-200 dark:border-slate-700 rounded-lg overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 bg-gray-50 dark:bg-slate-700/50">
+        <span className="text-sm font-medium text-gray-900 dark:text-white">{label}</span>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => setZoom((z) => Math.max(MIN_ZOOM, z - ZOOM_STEP))}
+            disabled={!url || zoom <= MIN_ZOOM}
+            className={buttonClassName}
+            title="Dézoomer"
+          >
+            <ZoomOut className="w-4 h-4" />
+          </button>
+          <span className="text-xs text-gray-500 dark:text-gray-400 w-10 text-center">{Math.round(zoom * 100)} %</span>
+          <button
+            onClick={() => setZoom((z) => Math.min(MAX_ZOOM, z + ZOOM_STEP))}
+            disabled={!url || zoom >= MAX_ZOOM}
+            className={buttonClassName}
+            title="Zoomer"
+          >
+            <ZoomIn className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setRotation((r) => (r + 90) % 360)}
+            disabled={!url}
+            className={buttonClassName}
+            title="Pivoter de 90°"
+          >
+            <RotateCw className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => {
+              setZoom(1);
+              setRotation(0);
+            }}
+            disabled={!url}
+            className={buttonClassName}
+            title="Réinitialiser l'affichage"
+          >
+            <Maximize className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      {/* Les marges automatiques centrent l'image sans la rogner une fois agrandie */}
+      <div className="h-72 overflow-auto bg-gray-100 dark:bg-slate-900 flex">
+        {error ? (
+          <div className="m-auto flex flex-col items-center text-gray-400 text-sm">
+            <ImageOff className="w-8 h-8 mb-2" />
+            {error}
+          </div>
+        ) : url ? (
+          <img
+            src={url}
+            alt={label}
+            className="m-auto flex-shrink-0 max-w-none transition-transform"
+            style={{ width: `${zoom * 100}%`, transform: `rotate(${rotation}deg)` }}
+          />
+        ) : (
+          <Loader2 className="m-auto w-6 h-6 animate-spin text-gray-400" />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useMemo, useState } from 'react';
+import { Search, Check, X, AlertTriangle, BadgeCheck } from 'lucide-react';
+import { dataSource } from '../../data';
+import { KYC_REJECTION_REASONS, KYC_STATUS_LABELS, approveKyc, getKycStatus, isCniExpired, rejectKyc } from '../../data/kyc';
+import { useAuth } from '../../hooks/useAuth';
+import { useCollection } from '../../hooks/useCollection';
+import { usePermissions } from '../../hooks/usePermissions';
+import { getUserFullName } from '../../utils/users';
+import { KycRejectionReason, KycStatus, User } from '../../types';
+import DocumentViewer from './DocumentViewer';
+
+const STATUS_BADGES: Record<KycStatus, string> = {
+  en_attente: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300',
+  verifie: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300',
+  rejete: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300',
+  a_reverifier: 'bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-300',
+};
+
+const formatDay = (value: string) => (value ? new Date(value).toLocaleDateString('fr-FR') : '—');
+
+export default function KycVerification() {
+  const { admin } = useAuth();
+  const { can } = usePermissions();
+  const { data: users, loading, error: loadError } = useCollection(dataSource.users);
+  const [statusFilter, setStatusFilter] = useState<KycStatus | 'all'>('en_attente');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedUid, setSelectedUid] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState(false);
+  const [reason, setReason] = useState<KycRejectionReason>('illisible');
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // File d'attente : les dépôts les plus anciens sont traités en premier
+  const queue = useMemo(() => {
+    const search = searchTerm.trim().toLowerCase();
+    return users
+      .filter((user) => {
+        const status = getKycStatus(user);
+        if (!status || (statusFilter !== 'all' && status !== statusFilter)) return false;
+        return (
+          !search ||
+          `${user.prenom} ${user.nom}`.toLowerCase().includes(search) ||
+          user.email.toLowerCase().includes(search) ||
+          user.cniNumber.toLowerCase().includes(search)
+        );
+      })
+      .sort((a, b) => new Date(a.lastUpdated).getTime() - new Date(b.lastUpdated).getTime());
+  }, [users, statusFilter, searchTerm]);
+
+  const pendingCount = users.filter((user) => getKycStatus(user) === 'en_attente').length;
+  const selected = users.find((user) => user.uid === selectedUid) ?? queue[0] ?? null;
+  const selectedStatus = selected ? getKycStatus(selected) : null;
+
+  const selectUser = (user: User) => {
+    setSelectedUid(user.uid);
+    setRejecting(false);
+    setComment('');
+    setError(null);
+  };
+
+  // Après une décision, la fiche suivante de la file est affichée
+  const decide = async (decision: () => Promise<unknown>) => {
+    if (!selected || !admin) return;
+    const next = queue[queue.findIndex((user) => user.uid === selected.uid) + 1] ?? null;
+    try {
+      setSubmitting(true);
+      setError(null);
+      await decision();
+      setRejecting(false);
+      setComment('');
+      if (statusFilter === 'en_attente') setSelectedUid(next?.uid ?? null);
+    } catch (err) {
+      console.error(`Erreur lors de la vérification d'identité de ${selected.uid} :`, err);
+      setError(err instanceof Error ? err.message : 'Erreur lors de la vérification. Veuillez réessayer.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="p-6">Chargement des dossiers...</div>;
+  }
+
+  if (loadError) {
+    return <div className="p-6 text-red-500">{loadError}</div>;
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Vérification d'identité</h1>
+          <p className="text-gray-500 dark:text-gray-400">{pendingCount} CNI en attente de vérification</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* File d'attente */}
+        <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700">
+          <div className="p-4 space-y-3 border-b border-gray-200 dark:border-slate-700">
+            <div className="relative">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
+              <input
+                type="text"
+                placeholder="Nom, email ou n° de CNI..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+              />
+            </div>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as KycStatus | 'all')}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+            >
+              <option value="all">Tous les dossiers</option>
+              {(Object.keys(KYC_STATUS_LABELS) as KycStatus[]).map((status) => (
+                <option key={status} value={status}>
+                  {KYC_STATUS_LABELS[status]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <ul className="max-h-[32rem] overflow-y-auto divide-y divide-gray-100 dark:divide-slate-700">
+            {queue.length === 0 && (
+              <li className="p-4 text-sm text-gray-500 dark:text-gray-400">Aucun dossier.</li>
+            )}
+            {queue.map((user) => {
+              const status = getKycStatus(user) as KycStatus;
+              return (
+                <li key={user.uid}>
+                  <button
+                    onClick={() => selectUser(user)}
+                    className={`w-full text-left p-4 hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors ${
+                      selected?.uid === user.uid ? 'bg-orange-50 dark:bg-orange-900/20' : ''
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-900 dark:text-white">{getUserFullName(user)}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGES[status]}`}>
+                        {KYC_STATUS_LABELS[status]}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">{user.cniNumber || 'N° de CNI non renseigné'}</p>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+
+        {/* Dossier sélectionné */}
+        <div className="lg:col-span-2 bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700 p-6 space-y-6">
+          {!selected || !selectedStatus ? (
+            <div className="text-center text-gray-500 dark:text-gray-400 py-12">
+              <BadgeCheck className="w-10 h-10 mx-auto mb-2" />
+              Sélectionnez un dossier à vérifier.
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <DocumentViewer label="CNI recto" path={selected.cniRecto} />
+                <DocumentViewer label="CNI verso" path={selected.cniVerso} />
+              </div>
+
+              <div>
+                <h3 className="font-medium text-gray-900 dark:text-white mb-2">Données déclarées</h3>
+                <dl className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm">
+                  <dt className="text-gray-500 dark:text-gray-400">Nom</dt>
+                  <dd className="text-gray-900 dark:text-white">{selected.nom}</dd>
+                  <dt className="text-gray-500 dark:text-gray-400">Prénom</dt>
+                  <dd className="text-gray-900 dark:text-white">{selected.prenom}</dd>
+                  <dt className="text-gray-500 dark:text-gray-400">N° de CNI</dt>
+                  <dd className="text-gray-900 dark:text-white">{selected.cniNumber || '—'}</dd>
+                  <dt className="text-gray-500 dark:text-gray-400">Délivrée le</dt>
+                  <dd className="text-gray-900 dark:text-white">{formatDay(selected.CNIDateDelivrer)}</dd>
+                  <dt className="text-gray-500 dark:text-gray-400">Expire le</dt>
+                  <dd className={isCniExpired(selected) ? 'text-red-600 font-medium' : 'text-gray-900 dark:text-white'}>
+                    {formatDay(selected.cniExpirationDate)}
+                    {isCniExpired(selected) && ' (expirée)'}
+                  </dd>
+                  <dt className="text-gray-500 dark:text-gray-400">Adresse</dt>
+                  <dd className="text-gray-900 dark:text-white">{selected.addresse || '—'}</dd>
+                </dl>
+              </div>
+
+              {selectedStatus !== 'en_attente' && selected.kycReviewedAt && (
+                <div className={`p-3 rounded-lg text-sm ${STATUS_BADGES[selectedStatus]}`}>
+                  {KYC_STATUS_LABELS[selectedStatus]} par{' '}
+                  {getUserFullName(users.find((u) => u.uid === selected.kycReviewedBy)) || selected.kycReviewedBy} le{' '}
+                  {new Date(selected.kycReviewedAt).toLocaleString('fr-FR')}
+                  {selectedStatus === 'rejete' && selected.kycRejectionReason && (
+                    <p className="mt-1">
+                      Motif : {KYC_REJECTION_REASONS[selected.kycRejectionReason]}
+                      {selected.kycComment && ` — ${selected.kycComment}`}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {error && (
+                <div className="flex items-start space-x-2 p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg text-sm">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>{error}</span>
+                </div>
+              )}
+
+              {can('users.kyc') &&
+                (rejecting ? (
+                  <div className="space-y-3">
+                    <select
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value as KycRejectionReason)}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+                    >
+                      {(Object.keys(KYC_REJECTION_REASONS) as KycRejectionReason[]).map((code) => (
+                        <option key={code} value={code}>
+                          {KYC_REJECTION_REASONS[code]}
+                        </option>
+                      ))}
+                    </select>
+                    <textarea
+                      rows={2}
+                      value={comment}
+                      onChange={(e) => setComment(e.target.value)}
+                      placeholder={reason === 'autre' ? 'Précisez le motif (obligatoire)' : 'Précisions (facultatif)'}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+                    />
+                    <div className="flex justify-end space-x-2">
+                      <button
+                        onClick={() => setRejecting(false)}
+                        className="px-4 py-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                      >
+                        Annuler
+                      </button>
+                      <button
+                        onClick={() => decide(() => rejectKyc(dataSource, selected, admin?.uid ?? '', reason, comment))}
+                        disabled={submitting || (reason === 'autre' && !comment.trim())}
+                        className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors disabled:opacity-50"
+                      >
+                        Confirmer le rejet
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex justify-end space-x-2">
+                    <button
+                      onClick={() => setRejecting(true)}
+                      disabled={submitting}
+                      className="flex items-center space-x-2 px-4 py-2 border border-red-300 text-red-600 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors disabled:opacity-50"
+                    >
+                      <X className="w-4 h-4" />
+                      <span>Rejeter</span>
+                    </button>
+                    <button
+                      onClick={() => decide(() => approveKyc(dataSource, selected, admin?.uid ?? ''))}
+                      disabled={submitting || selectedStatus === 'verifie'}
+                      className="flex items-center space-x-2 px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors disabled:opacity-50"
+                    >
+                      <Check className="w-4 h-4" />
+                      <span>Valider l'identité</span>
+                    </button>
+                  </div>
+                ))}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,10 @@
-import React from 'react';
-import { Bell, Moon, Sun, LogOut, Globe, User } from 'lucide-react';
+import React, { useState } from 'react';
+import { Bell, Moon, Sun, LogOut, Globe, User, ShieldCheck } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import { getUserFullName } from '../../utils/users';
+import { usePermissions } from '../../hooks/usePermissions';
+import { ADMIN_ROLE_LABELS } from '../../utils/permissions';
+import AccountSecurity from '../Auth/AccountSecurity';
 
 interface HeaderProps {
   darkMode: boolean;
@@ -9,6 +14,18 @@ interface HeaderProps {
 }
 
 export default function Header({ darkMode, onToggleDarkMode, language, onToggleLanguage }: HeaderProps) {
+  const { admin, signOut } = useAuth();
+  const { role } = usePermissions();
+  const [showAccountSecurity, setShowAccountSecurity] = useState(false);
+
+  const handleLogout = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      console.error('Erreur lors de la déconnexion :', error);
+    }
+  };
+
   return (
     <header className="bg-white dark:bg-slate-800 border-b border-gray-200 dark:border-slate-700 px-6 py-4">
       <div className="flex items-center justify-between">
@@ -55,17 +72,31 @@ export default function Header({ darkMode, onToggleDarkMode, language, onToggleL
                 <User className="w-4 h-4 text-white" />
               </div>
               <div className="hidden sm:block">
-                <p className="text-sm font-medium text-gray-900 dark:text-white">Admin Principal</p>
-                <p className="text-xs text-gray-500 dark:text-gray-400">Super Administrateur</p>
+                <p className="text-sm font-medium text-gray-900 dark:text-white">{getUserFullName(admin) || 'Administrateur'}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{ADMIN_ROLE_LABELS[role]}</p>
               </div>
             </div>
             
-            <button className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors">
+            <button
+              onClick={() => setShowAccountSecurity(true)}
+              className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors"
+              title="Sécurité du compte"
+            >
+              <ShieldCheck className="w-5 h-5 text-gray-600 dark:text-gray-300" />
+            </button>
+
+            <button
+              onClick={handleLogout}
+              className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors"
+              title="Se déconnecter"
+            >
               <LogOut className="w-5 h-5 text-gray-600 dark:text-gray-300" />
             </button>
           </div>
         </div>
       </div>
+
+      {showAccountSecurity && <AccountSecurity onClose={() => setShowAccountSecurity(false)} />}
     </header>
   );
 }
\ No newline at end of file
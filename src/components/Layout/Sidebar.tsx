@@ -11,10 +11,13 @@ import {
   History,
   Settings,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  BadgeCheck,
+  Briefcase
 } from 'lucide-react';
 
 import logo from '../../assets/logo/logo-orange.png'
+import { usePermissions } from '../../hooks/usePermissions';
 interface SidebarProps {
   activeSection: string;
   onSectionChange: (section: string) => void;
@@ -25,6 +28,8 @@ interface SidebarProps {
 const menuItems = [
   { id: 'dashboard', label: 'Dashboard', icon: BarChart3 },
   { id: 'users', label: 'Utilisateurs', icon: Users },
+  { id: 'agencies', label: 'Agences', icon: Briefcase },
+  { id: 'kyc', label: 'Vérification KYC', icon: BadgeCheck },
   { id: 'properties', label: 'Propriétés', icon: Building },
   { id: 'map', label: 'Carte', icon: Map },
   { id: 'transactions', label: 'Transactions', icon: CreditCard },
@@ -37,6 +42,8 @@ const menuItems = [
 ];
 
 export default function Sidebar({ activeSection, onSectionChange, isCollapsed, onToggleCollapse }: SidebarProps) {
+  const { canAccess } = usePermissions();
+
   return (
     <div className={`bg-slate-900 text-white transition-all duration-300 flex flex-col ${
       isCollapsed ? 'w-16' : 'w-64'
@@ -61,7 +68,7 @@ export default function Sidebar({ activeSection, onSectionChange, isCollapsed, o
       {/* Navigation */}
       <nav className="flex-1 p-4">
         <ul className="space-y-2">
-          {menuItems.map((item) => {
+          {menuItems.filter((item) => canAccess(item.id)).map((item) => {
             const Icon = item.icon;
             const isActive = activeSection === item.id;
             
@@ -0,0 +1,263 @@
+import { Fragment, useMemo, useState } from 'react';
+import { Search, Download, ChevronDown, ChevronRight, History } from 'lucide-react';
+import { dataSource } from '../../data';
+import { ACTIVITY_TARGET_LABELS } from '../../data/audit';
+import { useCollection } from '../../hooks/useCollection';
+import { getUserFullName } from '../../utils/users';
+import { downloadFile, toCsv } from '../../utils/export';
+import { ActivityLog, ActivityTargetType } from '../../types';
+
+const PAGE_SIZE = 50;
+
+const formatChangeValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export default function ActivityLogs() {
+  const { data: logs, loading, error } = useCollection(dataSource.activityLogs);
+  const { data: users } = useCollection(dataSource.users);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [actionFilter, setActionFilter] = useState('all');
+  const [targetFilter, setTargetFilter] = useState<'all' | ActivityTargetType>('all');
+  const [adminFilter, setAdminFilter] = useState('all');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [expandedLogId, setExpandedLogId] = useState<string | null>(null);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const getAdminName = (adminId: string) =>
+    getUserFullName(users.find(u => u.uid === adminId)) || `Admin ${adminId}`;
+
+  const actions = useMemo(() => Array.from(new Set(logs.map(log => log.action))).sort(), [logs]);
+  const adminIds = useMemo(() => Array.from(new Set(logs.map(log => log.adminId))), [logs]);
+
+  const filteredLogs = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    return logs.filter(log => {
+      const adminName = getUserFullName(users.find(u => u.uid === log.adminId)) ?? '';
+      const matchesSearch = !term ||
+        log.action.toLowerCase().includes(term) ||
+        log.target.toLowerCase().includes(term) ||
+        log.details.toLowerCase().includes(term) ||
+        adminName.toLowerCase().includes(term);
+      const matchesAction = actionFilter === 'all' || log.action === actionFilter;
+      const matchesTarget = targetFilter === 'all' || log.targetType === targetFilter;
+      const matchesAdmin = adminFilter === 'all' || log.adminId === adminFilter;
+      const day = log.timestamp.slice(0, 10);
+      const matchesDate = (!startDate || day >= startDate) && (!endDate || day <= endDate);
+
+      return matchesSearch && matchesAction && matchesTarget && matchesAdmin && matchesDate;
+    }).sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  }, [logs, users, searchTerm, actionFilter, targetFilter, adminFilter, startDate, endDate]);
+
+  const exportLogs = (format: 'csv' | 'json') => {
+    const fileName = `journal-activite-${new Date().toISOString().slice(0, 10)}.${format}`;
+    if (format === 'json') {
+      downloadFile(JSON.stringify(filteredLogs, null, 2), fileName, 'application/json');
+      return;
+    }
+    const rows = filteredLogs.map((log: ActivityLog) => [
+      log.timestamp,
+      log.adminId,
+      getAdminName(log.adminId),
+      log.action,
+      log.target,
+      log.details,
+      (log.changes ?? [])
+        .map(change => `${change.field}: ${formatChangeValue(change.before)} → ${formatChangeValue(change.after)}`)
+        .join(' | '),
+    ]);
+    const csv = toCsv([['Date', 'ID admin', 'Administrateur', 'Action', 'Cible', 'Détails', 'Modifications'], ...rows]);
+    // BOM pour que les tableurs détectent l'UTF-8
+    downloadFile(`\uFEFF${csv}`, fileName, 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Journal d'activité</h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            {loading ? 'Chargement du journal...' : `${filteredLogs.length} action(s) trouvée(s)`}
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => exportLogs('csv')}
+            disabled={filteredLogs.length === 0}
+            className="flex items-center space-x-2 bg-orange-500 text-white px-4 py-2 rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            <span>Exporter CSV</span>
+          </button>
+          <button
+            onClick={() => exportLogs('json')}
+            disabled={filteredLogs.length === 0}
+            className="flex items-center space-x-2 bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-gray-300 px-4 py-2 rounded-lg hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            <span>JSON</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg">
+          Erreur lors du chargement du journal : {error}
+        </div>
+      )}
+
+      {/* Filtres */}
+      <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700">
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+          <div className="relative lg:col-span-2">
+            <Search className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
+            <input
+              type="text"
+              placeholder="Rechercher une action, une cible, un administrateur..."
+              value={searchTerm}
+              onChange={(e) => { setSearchTerm(e.target.value); setVisibleCount(PAGE_SIZE); }}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+            />
+          </div>
+          <select
+            value={actionFilter}
+            onChange={(e) => { setActionFilter(e.target.value); setVisibleCount(PAGE_SIZE); }}
+            className="px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+          >
+            <option value="all">Toutes les actions</option>
+            {actions.map(action => (
+              <option key={action} value={action}>{action}</option>
+            ))}
+          </select>
+          <select
+            value={targetFilter}
+            onChange={(e) => { setTargetFilter(e.target.value as 'all' | ActivityTargetType); setVisibleCount(PAGE_SIZE); }}
+            className="px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+          >
+            <option value="all">Toutes les cibles</option>
+            {Object.entries(ACTIVITY_TARGET_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+          <select
+            value={adminFilter}
+            onChange={(e) => { setAdminFilter(e.target.value); setVisibleCount(PAGE_SIZE); }}
+            className="px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+          >
+            <option value="all">Tous les administrateurs</option>
+            {adminIds.map(adminId => (
+              <option key={adminId} value={adminId}>{getAdminName(adminId)}</option>
+            ))}
+          </select>
+          <div className="flex items-center space-x-2">
+            <input
+              type="date"
+              value={startDate}
+              max={endDate || undefined}
+              onChange={(e) => { setStartDate(e.target.value); setVisibleCount(PAGE_SIZE); }}
+              className="w-full px-2 py-2 border border-gray-300 dark:border-slate-600 rounded-lg dark:bg-slate-700 dark:text-white"
+              title="Du"
+            />
+            <input
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={(e) => { setEndDate(e.target.value); setVisibleCount(PAGE_SIZE); }}
+              className="w-full px-2 py-2 border border-gray-300 dark:border-slate-600 rounded-lg dark:bg-slate-700 dark:text-white"
+              title="Au"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Journal */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-slate-700/50">
+              <tr>
+                <th className="w-8"></th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-400">Date</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-400">Administrateur</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-400">Action</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-400">Cible</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-400">Détails</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+              {filteredLogs.slice(0, visibleCount).map(log => {
+                const expanded = expandedLogId === log.id;
+                const hasChanges = (log.changes?.length ?? 0) > 0;
+                return (
+                  <Fragment key={log.id}>
+                    <tr
+                      onClick={() => hasChanges && setExpandedLogId(expanded ? null : log.id)}
+                      className={`hover:bg-gray-50 dark:hover:bg-slate-700 ${hasChanges ? 'cursor-pointer' : ''}`}
+                    >
+                      <td className="pl-4 text-gray-400">
+                        {hasChanges && (expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />)}
+                      </td>
+                      <td className="px-4 py-3 text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                        {new Date(log.timestamp).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3 text-gray-900 dark:text-white">{getAdminName(log.adminId)}</td>
+                      <td className="px-4 py-3 font-medium text-gray-900 dark:text-white">{log.action}</td>
+                      <td className="px-4 py-3 text-gray-500 dark:text-gray-400">{log.target}</td>
+                      <td className="px-4 py-3 text-gray-500 dark:text-gray-400">{log.details}</td>
+                    </tr>
+                    {expanded && (
+                      <tr className="bg-gray-50 dark:bg-slate-900/40">
+                        <td></td>
+                        <td colSpan={5} className="px-4 py-3">
+                          <table className="w-full text-xs">
+                            <thead>
+                              <tr className="text-gray-500 dark:text-gray-400">
+                                <th className="text-left py-1 pr-4">Champ</th>
+                                <th className="text-left py-1 pr-4">Avant</th>
+                                <th className="text-left py-1">Après</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {log.changes?.map(change => (
+                                <tr key={change.field}>
+                                  <td className="py-1 pr-4 font-mono text-gray-700 dark:text-gray-300">{change.field}</td>
+                                  <td className="py-1 pr-4 text-red-600 dark:text-red-400 break-all">{formatChangeValue(change.before)}</td>
+                                  <td className="py-1 text-green-600 dark:text-green-400 break-all">{formatChangeValue(change.after)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {!loading && filteredLogs.length === 0 && (
+          <div className="p-12 text-center">
+            <History className="w-12 h-12 text-gray-300 dark:text-slate-600 mx-auto mb-3" />
+            <p className="text-gray-500 dark:text-gray-400">Aucune action ne correspond aux filtres.</p>
+          </div>
+        )}
+
+        {filteredLogs.length > visibleCount && (
+          <div className="p-4 border-t border-gray-200 dark:border-slate-700 text-center">
+            <button
+              onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+              className="text-sm text-orange-600 hover:text-orange-700 dark:text-orange-400"
+            >
+              Afficher plus ({filteredLogs.length - visibleCount} restante(s))
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
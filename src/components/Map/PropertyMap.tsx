@@ -0,0 +1,165 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { dataSource } from '../../data';
+import { useCollection } from '../../hooks/useCollection';
+import { Property } from '../../types';
+import { DEFAULT_PROPERTY_FILTERS, filterProperties } from '../../utils/properties';
+import PropertyFilters from '../Properties/PropertyFilters';
+import { clusterByGrid } from './clustering';
+import { createClusterIcon, createPropertyIcon, getMarkerImage, STATUS_LABELS } from './markerIcons';
+
+interface PropertyMapProps {
+  focusedPropertyId?: string | null;
+  onOpenProperty: (propertyId: string) => void;
+}
+
+// Centre par défaut : France métropolitaine
+const DEFAULT_CENTER: L.LatLngTuple = [46.6, 2.4];
+const DEFAULT_ZOOM = 6;
+const FOCUS_ZOOM = 15;
+
+/**
+ * Construit le contenu d'une popup avec des nœuds DOM, pour ne jamais interpréter
+ * les textes saisis par les propriétaires comme du HTML.
+ */
+const buildPopupContent = (property: Property, onOpen: (id: string) => void): HTMLElement => {
+  const container = document.createElement('div');
+  container.className = 'space-y-1 min-w-[180px]';
+
+  const title = document.createElement('p');
+  title.className = 'font-semibold text-gray-900';
+  title.textContent = property.name;
+
+  const details = document.createElement('p');
+  details.className = 'text-xs text-gray-500';
+  details.textContent = `${property.location} • ${property.surface}m² • ${property.price.toLocaleString()}€ • ${STATUS_LABELS[property.status]}`;
+
+  const button = document.createElement('button');
+  button.className = 'mt-2 w-full bg-orange-500 text-white text-sm px-3 py-1 rounded-lg hover:bg-orange-600 transition-colors';
+  button.textContent = 'Voir le détail';
+  button.addEventListener('click', () => onOpen(property.id));
+
+  container.append(title, details, button);
+  return container;
+};
+
+export default function PropertyMap({ focusedPropertyId, onOpenProperty }: PropertyMapProps) {
+  const { data: properties, loading, error } = useCollection(dataSource.properties);
+  const [filters, setFilters] = useState(DEFAULT_PROPERTY_FILTERS);
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const layerRef = useRef<L.LayerGroup | null>(null);
+  const onOpenRef = useRef(onOpenProperty);
+  onOpenRef.current = onOpenProperty;
+
+  const filteredProperties = useMemo(
+    () => filterProperties(properties, filters).filter(p => Array.isArray(p.coordinates)),
+    [properties, filters]
+  );
+
+  // Initialisation unique de la carte
+  useEffect(() => {
+    if (!containerRef.current || mapRef.current) return;
+
+    const map = L.map(containerRef.current).setView(DEFAULT_CENTER, DEFAULT_ZOOM);
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      attribution: '&copy; OpenStreetMap contributors',
+      maxZoom: 19,
+    }).addTo(map);
+    layerRef.current = L.layerGroup().addTo(map);
+    map.on('zoomend', () => setZoom(map.getZoom()));
+    mapRef.current = map;
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      layerRef.current = null;
+    };
+  }, []);
+
+  // Centrage sur la propriété demandée depuis la liste
+  useEffect(() => {
+    const map = mapRef.current;
+    const target = properties.find(p => p.id === focusedPropertyId);
+    if (map && target) map.setView(target.coordinates, FOCUS_ZOOM);
+  }, [focusedPropertyId, properties]);
+
+  // Rendu des marqueurs et des groupes au zoom courant
+  useEffect(() => {
+    const map = mapRef.current;
+    const layer = layerRef.current;
+    if (!map || !layer) return;
+    layer.clearLayers();
+
+    const points = filteredProperties.map(property => {
+      const { x, y } = map.project(property.coordinates, zoom);
+      return { item: property, x, y };
+    });
+
+    clusterByGrid(points).forEach(cluster => {
+      if (cluster.items.length === 1) {
+        const [property] = cluster.items;
+        L.marker(property.coordinates, {
+          icon: createPropertyIcon(property, property.id === focusedPropertyId),
+          title: property.name,
+        })
+          .bindPopup(() => buildPopupContent(property, id => onOpenRef.current(id)))
+          .addTo(layer);
+        return;
+      }
+
+      const bounds = L.latLngBounds(cluster.items.map(p => p.coordinates));
+      L.marker(map.unproject([cluster.x, cluster.y], zoom), {
+        icon: createClusterIcon(cluster.items.length),
+        title: `${cluster.items.length} propriétés`,
+      })
+        .on('click', () => map.fitBounds(bounds.pad(0.2), { maxZoom: map.getMaxZoom() }))
+        .addTo(layer);
+    });
+  }, [filteredProperties, zoom, focusedPropertyId]);
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Carte Interactive</h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            {loading ? 'Chargement des propriétés...' : `${filteredProperties.length} propriété(s) affichée(s)`}
+          </p>
+        </div>
+        <div className="flex items-center space-x-4 text-sm text-gray-600 dark:text-gray-300">
+          {(['residentiel', 'commercial'] as const).map(type => (
+            <div key={type} className="flex items-center space-x-1">
+              <img
+                src={getMarkerImage({ type, surface: 0 } as Property)}
+                alt=""
+                className="w-4 h-5"
+              />
+              <span>{type === 'residentiel' ? 'Résidentiel' : 'Commercial'}</span>
+            </div>
+          ))}
+          <span className="flex items-center space-x-1"><span className="w-3 h-3 rounded-full bg-green-500"></span><span>Libre</span></span>
+          <span className="flex items-center space-x-1"><span className="w-3 h-3 rounded-full bg-red-500"></span><span>Occupé</span></span>
+          <span className="flex items-center space-x-1"><span className="w-3 h-3 rounded-full bg-yellow-500"></span><span>Réservé</span></span>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg">
+          Erreur lors du chargement des propriétés : {error}
+        </div>
+      )}
+
+      {/* Filtres */}
+      <PropertyFilters filters={filters} onChange={setFilters} />
+
+      {/* Carte */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700 overflow-hidden">
+        <div ref={containerRef} className="h-[calc(100vh-22rem)] min-h-[400px] w-full z-0" />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+// Point projeté en pixels à un niveau de zoom donné
+export interface ProjectedPoint<T> {
+  item: T;
+  x: number;
+  y: number;
+}
+
+// Groupe de points proches à l'écran
+export interface Cluster<T> {
+  items: T[];
+  x: number;
+  y: number;
+}
+
+/**
+ * Regroupe les points projetés par cellules de grille : tous les points d'une même cellule
+ * forment un groupe positionné à leur barycentre.
+ * @param points - Points projetés en pixels au zoom courant.
+ * @param cellSize - Taille d'une cellule en pixels.
+ * @returns Groupes de points ; un groupe d'un seul élément correspond à un marqueur isolé.
+ */
+export const clusterByGrid = <T>(points: ProjectedPoint<T>[], cellSize = 60): Cluster<T>[] => {
+  const cells = new Map<string, { items: T[]; sumX: number; sumY: number }>();
+
+  points.forEach(({ item, x, y }) => {
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    const cell = cells.get(key) ?? { items: [], sumX: 0, sumY: 0 };
+    cell.items.push(item);
+    cell.sumX += x;
+    cell.sumY += y;
+    cells.set(key, cell);
+  });
+
+  return Array.from(cells.values()).map(({ items, sumX, sumY }) => ({
+    items,
+    x: sumX / items.length,
+    y: sumY / items.length,
+  }));
+};
@@ -0,0 +1,68 @@
+import L from 'leaflet';
+import { Property } from '../../types';
+import maisonIcon from '../../assets/marker/maison.png';
+import appartementIcon from '../../assets/marker/appartement.png';
+import chambreIcon from '../../assets/marker/chambre.png';
+
+// Surface en dessous de laquelle un bien résidentiel est affiché comme une chambre
+const ROOM_MAX_SURFACE = 20;
+
+const STATUS_COLORS: Record<Property['status'], string> = {
+  libre: 'bg-green-500',
+  occupe: 'bg-red-500',
+  reserve: 'bg-yellow-500',
+};
+
+export const STATUS_LABELS: Record<Property['status'], string> = {
+  libre: 'Libre',
+  occupe: 'Occupé',
+  reserve: 'Réservé',
+};
+
+/**
+ * Choisit l'image du marqueur selon le type du bien : local commercial → immeuble,
+ * petit résidentiel → chambre, autre résidentiel → maison.
+ * @param property - Propriété à représenter.
+ * @returns URL de l'image du marqueur.
+ */
+export const getMarkerImage = (property: Property): string => {
+  if (property.type === 'commercial') return appartementIcon;
+  return property.surface > 0 && property.surface <= ROOM_MAX_SURFACE ? chambreIcon : maisonIcon;
+};
+
+/**
+ * Construit l'icône Leaflet d'une propriété : image selon le type, pastille selon le statut,
+ * et opacité réduite tant que l'annonce n'est pas validée.
+ * @param property - Propriété à représenter.
+ * @param highlighted - Met en avant la propriété ciblée.
+ * @returns Icône Leaflet.
+ */
+export const createPropertyIcon = (property: Property, highlighted = false): L.DivIcon =>
+  L.divIcon({
+    className: '',
+    iconSize: [38, 52],
+    iconAnchor: [19, 52],
+    popupAnchor: [0, -48],
+    html: `
+      <div class="relative ${property.validationStatus === 'accepte' ? '' : 'opacity-60'} ${highlighted ? 'scale-125' : ''}">
+        <img src="${getMarkerImage(property)}" alt="" class="w-[38px] h-[52px]" />
+        <span class="absolute top-0 right-0 w-3.5 h-3.5 rounded-full border-2 border-white ${STATUS_COLORS[property.status]}"></span>
+      </div>`,
+  });
+
+/**
+ * Construit l'icône d'un groupe de propriétés, dimensionnée selon leur nombre.
+ * @param count - Nombre de propriétés regroupées.
+ * @returns Icône Leaflet.
+ */
+export const createClusterIcon = (count: number): L.DivIcon => {
+  const size = count < 10 ? 36 : count < 100 ? 44 : 52;
+  return L.divIcon({
+    className: '',
+    iconSize: [size, size],
+    html: `
+      <div class="flex items-center justify-center rounded-full bg-orange-500/90 text-white font-bold border-4 border-orange-200 shadow-lg" style="width:${size}px;height:${size}px">
+        ${count}
+      </div>`,
+  });
+};
@@ -1,10 +1,15 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { Search, Send, Paperclip, MoreVertical, Flag, Archive, Pin, MessageSquare, Users, Bell, Filter, Eye, Trash2, AlertTriangle } from 'lucide-react';
-import { mockMessages, mockUsers } from '../../data/mockData';
+import { dataSource } from '../../data';
+import { useCollection } from '../../hooks/useCollection';
+import { useAuth } from '../../hooks/useAuth';
+import { usePermissions } from '../../hooks/usePermissions';
+import { getUserFullName, getUserInitials } from '../../utils/users';
 import { Message, User } from '../../types';
 
 export default function MessagingSystem() {
-  const [messages] = useState<Message[]>(mockMessages);
+  const { data: messages } = useCollection(dataSource.messages);
+  const { data: users } = useCollection(dataSource.users);
   const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
   const [newMessage, setNewMessage] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
@@ -12,6 +17,10 @@ export default function MessagingSystem() {
   const [isTyping, setIsTyping] = useState(false);
   const [flaggedMessages, setFlaggedMessages] = useState<string[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const { can } = usePermissions();
+  // Les conversations sont celles de l'administrateur connecté
+  const { admin } = useAuth();
+  const adminId = admin?.uid ?? '';
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -26,13 +35,13 @@ export default function MessagingSystem() {
     const convMap = new Map();
     
     messages.filter(m => m.type === 'message').forEach(message => {
-      const otherUserId = message.senderId === '4' ? message.receiverId : message.senderId;
+      const otherUserId = message.senderId === adminId ? message.receiverId : message.senderId;
       const key = otherUserId;
       
       if (!convMap.has(key)) {
         convMap.set(key, {
           userId: otherUserId,
-          user: mockUsers.find(u => u.id === otherUserId),
+          user: users.find(u => u.uid === otherUserId),
           messages: [],
           lastMessage: null,
           unreadCount: 0
@@ -46,7 +55,7 @@ export default function MessagingSystem() {
         conv.lastMessage = message;
       }
       
-      if (message.status === 'non_lu' && message.receiverId === '4') {
+      if (message.status === 'non_lu' && message.receiverId === adminId) {
         conv.unreadCount++;
       }
     });
@@ -54,10 +63,10 @@ export default function MessagingSystem() {
     return Array.from(convMap.values()).sort((a, b) => 
       new Date(b.lastMessage?.timestamp || 0).getTime() - new Date(a.lastMessage?.timestamp || 0).getTime()
     );
-  }, [messages]);
+  }, [messages, users, adminId]);
 
   const filteredConversations = conversations.filter(conv =>
-    conv.user?.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    getUserFullName(conv.user)?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     conv.lastMessage?.content.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
@@ -65,16 +74,16 @@ export default function MessagingSystem() {
     if (!selectedConversation) return [];
     return messages
       .filter(m => 
-        (m.senderId === selectedConversation && m.receiverId === '4') ||
-        (m.senderId === '4' && m.receiverId === selectedConversation)
+        (m.senderId === selectedConversation && m.receiverId === adminId) ||
+        (m.senderId === adminId && m.receiverId === selectedConversation)
       )
       .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-  }, [messages, selectedConversation]);
+  }, [messages, selectedConversation, adminId]);
 
   const moderationMessages = messages.filter(m => m.flagged || flaggedMessages.includes(m.id));
 
   const handleSendMessage = () => {
-    if (!newMessage.trim() || !selectedConversation) return;
+    if (!can('messages.send') || !newMessage.trim() || !selectedConversation) return;
     
     console.log('Envoi message:', newMessage, 'à', selectedConversation);
     setNewMessage('');
@@ -109,7 +118,7 @@ export default function MessagingSystem() {
       <div className="flex items-center space-x-3">
         <div className="relative">
           <div className="w-12 h-12 bg-gradient-to-r from-blue-500 to-orange-500 rounded-full flex items-center justify-center text-white font-semibold">
-            {conversation.user?.name?.split(' ').map((n: string) => n[0]).join('') || '?'}
+            {getUserInitials(conversation.user)}
           </div>
           {conversation.unreadCount > 0 && (
             <div className="absolute -top-1 -right-1 w-5 h-5 bg-red-500 rounded-full flex items-center justify-center">
@@ -121,7 +130,7 @@ export default function MessagingSystem() {
         <div className="flex-1 min-w-0">
           <div className="flex items-center justify-between">
             <h3 className="font-medium text-gray-900 dark:text-white truncate">
-              {conversation.user?.name || 'Utilisateur inconnu'}
+              {getUserFullName(conversation.user) || 'Utilisateur inconnu'}
             </h3>
             <span className="text-xs text-gray-500 dark:text-gray-400">
               {conversation.lastMessage && new Date(conversation.lastMessage.timestamp).toLocaleTimeString([], {
@@ -139,8 +148,8 @@ export default function MessagingSystem() {
   );
 
   const MessageBubble = ({ message }: { message: Message }) => {
-    const isOwn = message.senderId === '4';
-    const sender = mockUsers.find(u => u.id === message.senderId);
+    const isOwn = message.senderId === adminId;
+    const sender = users.find(u => u.uid === message.senderId);
     
     return (
       <div className={`flex ${isOwn ? 'justify-end' : 'justify-start'} mb-4`}>
@@ -151,7 +160,7 @@ export default function MessagingSystem() {
         }`}>
           {!isOwn && (
             <p className="text-xs font-medium mb-1 opacity-70">
-              {sender?.name || 'Inconnu'}
+              {getUserFullName(sender) || 'Inconnu'}
             </p>
           )}
           <p className="text-sm">{message.content}</p>
@@ -274,11 +283,11 @@ export default function MessagingSystem() {
                     <div className="p-4 border-b border-gray-200 dark:border-slate-700 flex items-center justify-between">
                       <div className="flex items-center space-x-3">
                         <div className="w-10 h-10 bg-gradient-to-r from-blue-500 to-orange-500 rounded-full flex items-center justify-center text-white font-semibold">
-                          {mockUsers.find(u => u.id === selectedConversation)?.name?.split(' ').map(n => n[0]).join('') || '?'}
+                          {getUserInitials(users.find(u => u.uid === selectedConversation))}
                         </div>
                         <div>
                           <h3 className="font-medium text-gray-900 dark:text-white">
-                            {mockUsers.find(u => u.id === selectedConversation)?.name || 'Utilisateur inconnu'}
+                            {getUserFullName(users.find(u => u.uid === selectedConversation)) || 'Utilisateur inconnu'}
                           </h3>
                           <p className="text-sm text-gray-500 dark:text-gray-400">
                             {isTyping ? 'En train d\'écrire...' : 'En ligne'}
@@ -336,7 +345,7 @@ export default function MessagingSystem() {
                         </div>
                         <button
                           onClick={handleSendMessage}
-                          disabled={!newMessage.trim()}
+                          disabled={!can('messages.send') || !newMessage.trim()}
                           className="p-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                         >
                           <Send className="w-5 h-5" />
@@ -374,8 +383,8 @@ export default function MessagingSystem() {
               
               <div className="space-y-4">
                 {moderationMessages.map(message => {
-                  const sender = mockUsers.find(u => u.id === message.senderId);
-                  const receiver = mockUsers.find(u => u.id === message.receiverId);
+                  const sender = users.find(u => u.uid === message.senderId);
+                  const receiver = users.find(u => u.uid === message.receiverId);
                   
                   return (
                     <div key={message.id} className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
@@ -389,9 +398,9 @@ export default function MessagingSystem() {
                           </div>
                           <p className="text-gray-900 dark:text-white mb-2">{message.content}</p>
                           <div className="text-sm text-gray-500 dark:text-gray-400">
-                            <span>De: {sender?.name || 'Inconnu'}</span>
+                            <span>De: {getUserFullName(sender) || 'Inconnu'}</span>
                             <span className="mx-2">•</span>
-                            <span>À: {receiver?.name || 'Inconnu'}</span>
+                            <span>À: {getUserFullName(receiver) || 'Inconnu'}</span>
                             <span className="mx-2">•</span>
                             <span>{new Date(message.timestamp).toLocaleString()}</span>
                           </div>
@@ -457,7 +466,10 @@ export default function MessagingSystem() {
                     />
                   </div>
                   
-                  <button className="bg-orange-500 text-white px-6 py-2 rounded-lg hover:bg-orange-600 transition-colors">
+                  <button
+                    disabled={!can('messages.send')}
+                    className="bg-orange-500 text-white px-6 py-2 rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
                     Envoyer notification
                   </button>
                 </div>
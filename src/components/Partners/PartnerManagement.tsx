@@ -1,14 +1,17 @@
 import React, { useState, useMemo } from 'react';
 import { Search, Plus, Edit, Eye, Trash2, Building, Phone, Mail, Calendar, FileText, CheckCircle, AlertTriangle } from 'lucide-react';
-import { mockPartners } from '../../data/mockData';
+import { dataSource } from '../../data';
+import { useCollection } from '../../hooks/useCollection';
+import { usePermissions } from '../../hooks/usePermissions';
 import { Partner } from '../../types';
 
 export default function PartnerManagement() {
-  const [partners] = useState<Partner[]>(mockPartners);
+  const { data: partners } = useCollection(dataSource.partners);
   const [searchTerm, setSearchTerm] = useState('');
   const [typeFilter, setTypeFilter] = useState('all');
   const [selectedPartner, setSelectedPartner] = useState<Partner | null>(null);
   const [showAddModal, setShowAddModal] = useState(false);
+  const { can } = usePermissions();
 
   const filteredPartners = useMemo(() => {
     return partners.filter(partner => {
@@ -88,20 +91,24 @@ export default function PartnerManagement() {
             >
               <Eye className="w-4 h-4" />
             </button>
-            <button
-              onClick={() => handlePartnerAction(partner.id, 'edit')}
-              className="p-2 text-gray-400 hover:text-orange-500 transition-colors"
-              title="Modifier"
-            >
-              <Edit className="w-4 h-4" />
-            </button>
-            <button
-              onClick={() => handlePartnerAction(partner.id, 'delete')}
-              className="p-2 text-gray-400 hover:text-red-500 transition-colors"
-              title="Supprimer"
-            >
-              <Trash2 className="w-4 h-4" />
-            </button>
+            {can('partners.manage') && (
+              <>
+                <button
+                  onClick={() => handlePartnerAction(partner.id, 'edit')}
+                  className="p-2 text-gray-400 hover:text-orange-500 transition-colors"
+                  title="Modifier"
+                >
+                  <Edit className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handlePartnerAction(partner.id, 'delete')}
+                  className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                  title="Supprimer"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </>
+            )}
           </div>
         </div>
         
@@ -162,13 +169,15 @@ export default function PartnerManagement() {
             {filteredPartners.length} partenaire(s) trouvé(s)
           </p>
         </div>
-        <button
-          onClick={() => setShowAddModal(true)}
-          className="flex items-center space-x-2 bg-orange-500 text-white px-4 py-2 rounded-lg hover:bg-orange-600 transition-colors"
-        >
-          <Plus className="w-4 h-4" />
-          <span>Ajouter partenaire</span>
-        </button>
+        {can('partners.manage') && (
+          <button
+            onClick={() => setShowAddModal(true)}
+            className="flex items-center space-x-2 bg-orange-500 text-white px-4 py-2 rounded-lg hover:bg-orange-600 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Ajouter partenaire</span>
+          </button>
+        )}
       </div>
 
       {/* Statistiques rapides */}
@@ -0,0 +1,63 @@
+import { Search } from 'lucide-react';
+import { PropertyFilterState } from '../../utils/properties';
+
+interface PropertyFiltersProps {
+  filters: PropertyFilterState;
+  onChange: (filters: PropertyFilterState) => void;
+}
+
+const selectClassName = 'px-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white';
+
+export default function PropertyFilters({ filters, onChange }: PropertyFiltersProps) {
+  const update = <K extends keyof PropertyFilterState>(key: K, value: PropertyFilterState[K]) =>
+    onChange({ ...filters, [key]: value });
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="relative">
+          <Search className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
+          <input
+            type="text"
+            placeholder="Rechercher par nom ou lieu..."
+            value={filters.searchTerm}
+            onChange={(e) => update('searchTerm', e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+          />
+        </div>
+
+        <select
+          value={filters.type}
+          onChange={(e) => update('type', e.target.value as PropertyFilterState['type'])}
+          className={selectClassName}
+        >
+          <option value="all">Tous les types</option>
+          <option value="residentiel">Résidentiel</option>
+          <option value="commercial">Commercial</option>
+        </select>
+
+        <select
+          value={filters.status}
+          onChange={(e) => update('status', e.target.value as PropertyFilterState['status'])}
+          className={selectClassName}
+        >
+          <option value="all">Tous les statuts</option>
+          <option value="libre">Libre</option>
+          <option value="occupe">Occupé</option>
+          <option value="reserve">Réservé</option>
+        </select>
+
+        <select
+          value={filters.validation}
+          onChange={(e) => update('validation', e.target.value as PropertyFilterState['validation'])}
+          className={selectClassName}
+        >
+          <option value="all">Toutes validations</option>
+          <option value="accepte">Validé</option>
+          <option value="en_attente">En attente</option>
+          <option value="rejete">Rejeté</option>
+        </select>
+      </div>
+    </div>
+  );
+}
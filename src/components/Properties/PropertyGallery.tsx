@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight, ImageOff } from 'lucide-react';
+import { Property } from '../../types';
+import { describeImageComment } from '../../data/propertyImages';
+
+interface PropertyGalleryProps {
+  property: Property;
+}
+
+// Galerie complète d'une annonce : photo affichée, navigation et vignettes ; la première photo est la couverture
+export default function PropertyGallery({ property }: PropertyGalleryProps) {
+  const [index, setIndex] = useState(0);
+  const images = property.images;
+  const current = Math.min(index, images.length - 1);
+
+  if (!images.length) {
+    return (
+      <div className="w-full h-64 flex flex-col items-center justify-center rounded-lg bg-gray-100 dark:bg-slate-700 text-gray-500 dark:text-gray-400">
+        <ImageOff className="w-8 h-8 mb-2" />
+        <span className="text-sm">Aucune photo</span>
+      </div>
+    );
+  }
+
+  const comment = property.imageComments?.find((entry) => entry.image === images[current]);
+
+  return (
+    <div>
+      <div className="relative">
+        <img
+          src={images[current]}
+          alt={`${property.name} - photo ${current + 1}`}
+          className="w-full h-64 object-cover rounded-lg"
+        />
+        {current === 0 && (
+          <span className="absolute top-2 left-2 px-2 py-1 rounded-full text-xs font-medium bg-orange-500 text-white">
+            Couverture
+          </span>
+        )}
+        {images.length > 1 && (
+          <>
+            <button
+              onClick={() => setIndex((current - 1 + images.length) % images.length)}
+              className="absolute left-2 top-1/2 -translate-y-1/2 p-1 rounded-full bg-black/40 text-white hover:bg-black/60"
+              aria-label="Photo précédente"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setIndex((current + 1) % images.length)}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded-full bg-black/40 text-white hover:bg-black/60"
+              aria-label="Photo suivante"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+            <span className="absolute bottom-2 right-2 px-2 py-0.5 rounded-full text-xs bg-black/50 text-white">
+              {current + 1} / {images.length}
+            </span>
+          </>
+        )}
+      </div>
+
+      {comment && <p className="text-xs text-yellow-700 dark:text-yellow-300 mt-2">{describeImageComment(comment)}</p>}
+
+      {images.length > 1 && (
+        <div className="flex space-x-2 mt-2 overflow-x-auto">
+          {images.map((image, position) => (
+            <button
+              key={image}
+              onClick={() => setIndex(position)}
+              className={`flex-shrink-0 rounded-md overflow-hidden border-2 ${
+                position === current ? 'border-orange-500' : 'border-transparent'
+              }`}
+              aria-label={`Afficher la photo ${position + 1}`}
+            >
+              <img src={image} alt="" className="w-16 h-12 object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { ArrowLeft, ArrowRight, Loader2, Star } from 'lucide-react';
+import { PhotoRejectionReason, Property } from '../../types';
+import { dataSource } from '../../data';
+import {
+  GalleryPhoto,
+  GalleryReviewReport,
+  PHOTO_REJECTION_REASONS,
+  createGalleryReview,
+  movePhoto,
+  saveGalleryReview,
+} from '../../data/propertyImages';
+import { useAuth } from '../../hooks/useAuth';
+
+interface PropertyImageReviewModalProps {
+  property: Property;
+  onClose: () => void;
+}
+
+// Modération des photos d'une annonce : retrait, ordre, couverture et remarques au propriétaire
+export default function PropertyImageReviewModal({ property, onClose }: PropertyImageReviewModalProps) {
+  const { admin } = useAuth();
+  const [photos, setPhotos] = useState<GalleryPhoto[]>(() => createGalleryReview(property));
+  const [message, setMessage] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<GalleryReviewReport | null>(null);
+
+  const update = (index: number, changes: Partial<GalleryPhoto>) =>
+    setPhotos(photos.map((photo, position) => (position === index ? { ...photo, ...changes } : photo)));
+
+  // La couverture est la première photo conservée : une photo retirée ne peut pas l'être
+  const coverIndex = photos.findIndex((photo) => !photo.rejectionReason);
+
+  const handleSave = async (requested: boolean) => {
+    try {
+      setSaving(true);
+      setError(null);
+      setReport(await saveGalleryReview(dataSource, property, photos, admin?.uid ?? '', { requested, message }));
+    } catch (err) {
+      console.error(`Erreur lors de la modération des photos de la propriété ${property.id} :`, err);
+      setError(err instanceof Error ? err.message : "Erreur lors de l'enregistrement. Veuillez réessayer.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200 dark:border-slate-700">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">Photos de « {property.name} »</h2>
+        </div>
+
+        {report ? (
+          <div className="p-6 space-y-4">
+            <p className="text-sm text-gray-900 dark:text-white">
+              {report.kept} photo(s) conservée(s), {report.rejected} retirée(s) dont {report.removedFiles} supprimée(s) du
+              stockage.
+            </p>
+            {report.fileFailures.length > 0 && (
+              <div className="text-sm text-red-600">
+                <p>Fichiers à supprimer manuellement :</p>
+                <ul className="list-disc ml-5">
+                  {report.fileFailures.map(({ image, reason }) => (
+                    <li key={image} className="break-all">
+                      {image} : {reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div className="flex justify-end">
+              <button onClick={onClose} className="px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600">
+                Fermer
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="p-6 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {photos.map((photo, index) => (
+                <div
+                  key={photo.image}
+                  className={`border rounded-lg overflow-hidden ${
+                    photo.rejectionReason ? 'border-red-300 dark:border-red-800' : 'border-gray-200 dark:border-slate-700'
+                  }`}
+                >
+                  <div className="relative">
+                    <img
+                      src={photo.image}
+                      alt={`Photo n°${photo.position}`}
+                      className={`w-full h-40 object-cover ${photo.rejectionReason ? 'opacity-40 grayscale' : ''}`}
+                    />
+                    <span className="absolute top-2 left-2 px-2 py-0.5 rounded-full text-xs bg-black/50 text-white">
+                      n°{photo.position}
+                    </span>
+                    {index === coverIndex && (
+                      <span className="absolute top-2 right-2 px-2 py-0.5 rounded-full text-xs font-medium bg-orange-500 text-white">
+                        Couverture
+                      </span>
+                    )}
+                  </div>
+
+                  <div className="p-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-1">
+                        <button
+                          onClick={() => setPhotos(movePhoto(photos, index, index - 1))}
+                          disabled={index === 0}
+                          className="p-1 rounded text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 disabled:opacity-30"
+                          aria-label="Déplacer avant"
+                        >
+                          <ArrowLeft className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setPhotos(movePhoto(photos, index, index + 1))}
+                          disabled={index === photos.length - 1}
+                          className="p-1 rounded text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 disabled:opacity-30"
+                          aria-label="Déplacer après"
+                        >
+                          <ArrowRight className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <button
+                        onClick={() => setPhotos(movePhoto(photos, index, 0))}
+                        disabled={index === coverIndex || !!photo.rejectionReason}
+                        className="flex items-center space-x-1 px-2 py-1 text-xs text-orange-600 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded disabled:opacity-30"
+                      >
+                        <Star className="w-3 h-3" />
+                        <span>Couverture</span>
+                      </button>
+                    </div>
+
+                    <select
+                      value={photo.rejectionReason ?? ''}
+                      onChange={(e) =>
+                        update(index, { rejectionReason: (e.target.value || undefined) as PhotoRejectionReason | undefined })
+                      }
+                      className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-gray-900 dark:text-white"
+                      aria-label={`Décision sur la photo n°${photo.position}`}
+                    >
+                      <option value="">Photo conservée</option>
+                      {(Object.keys(PHOTO_REJECTION_REASONS) as PhotoRejectionReason[]).map((reason) => (
+                        <option key={reason} value={reason}>
+                          Retirer : {PHOTO_REJECTION_REASONS[reason]}
+                        </option>
+                      ))}
+                    </select>
+                    <textarea
+                      value={photo.comment}
+                      onChange={(e) => update(index, { comment: e.target.value })}
+                      rows={2}
+                      placeholder="Remarque pour le propriétaire"
+                      className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-gray-900 dark:text-white"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Message au propriétaire (demande de nouvelle soumission)
+              </label>
+              <textarea
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                rows={3}
+                placeholder="Ajoutez des photos de la cuisine et de la salle de bain..."
+                className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex justify-end space-x-2">
+              <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg">
+                Annuler
+              </button>
+              <button
+                onClick={() => handleSave(true)}
+                disabled={saving}
+                className="px-4 py-2 border border-yellow-400 text-yellow-700 dark:text-yellow-300 rounded-lg hover:bg-yellow-50 dark:hover:bg-yellow-900/20 disabled:opacity-50"
+              >
+                Demander une nouvelle soumission
+              </button>
+              <button
+                onClick={() => handleSave(false)}
+                disabled={saving}
+                className="flex items-center space-x-2 px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:opacity-50"
+              >
+                {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>Enregistrer</span>
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
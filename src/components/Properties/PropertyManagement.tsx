@@ -1,30 +1,132 @@
-import React, { useState, useMemo } from 'react';
-import { Search, Filter, Plus, Edit, Check, X, Eye, MapPin, Euro } from 'lucide-react';
-import { mockProperties } from '../../data/mockData';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Filter, Plus, Edit, Check, X, Eye, MapPin, Euro, PauseCircle } from 'lucide-react';
+import { dataSource } from '../../data';
+import { BatchWrite, generateDocumentId } from '../../data/dataSource';
+import { useCollection } from '../../hooks/useCollection';
+import { useAuth } from '../../hooks/useAuth';
+import { usePermissions } from '../../hooks/usePermissions';
+import { getUserFullName } from '../../utils/users';
+import { DEFAULT_PROPERTY_FILTERS, filterProperties } from '../../utils/properties';
+import PropertyFilters from './PropertyFilters';
+import PropertyGallery from './PropertyGallery';
+import PropertyImageReviewModal from './PropertyImageReviewModal';
 import { Property } from '../../types';
+import { describeImageComment } from '../../data/propertyImages';
 
-export default function PropertyManagement() {
-  const [properties] = useState<Property[]>(mockProperties);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [typeFilter, setTypeFilter] = useState('all');
-  const [statusFilter, setStatusFilter] = useState('all');
-  const [validationFilter, setValidationFilter] = useState('all');
-  const [selectedProperty, setSelectedProperty] = useState<Property | null>(null);
+// Libellés du journal d'activité pour chaque décision de validation
+const VALIDATION_ACTIONS: Record<Property['validationStatus'], string> = {
+  accepte: 'Validation propriété',
+  rejete: 'Rejet propriété',
+  en_attente: 'Mise en attente propriété',
+};
 
-  const filteredProperties = useMemo(() => {
-    return properties.filter(property => {
-      const matchesSearch = property.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                           property.location.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchesType = typeFilter === 'all' || property.type === typeFilter;
-      const matchesStatus = statusFilter === 'all' || property.status === statusFilter;
-      const matchesValidation = validationFilter === 'all' || property.validationStatus === validationFilter;
-      
-      return matchesSearch && matchesType && matchesStatus && matchesValidation;
-    });
-  }, [properties, searchTerm, typeFilter, statusFilter, validationFilter]);
+interface PropertyManagementProps {
+  focusedPropertyId?: string | null;
+  onShowOnMap?: (propertyId: string) => void;
+}
+
+export default function PropertyManagement({ focusedPropertyId, onShowOnMap }: PropertyManagementProps) {
+  const { admin } = useAuth();
+  const { can } = usePermissions();
+  const { data: properties, loading, error: loadError } = useCollection(dataSource.properties);
+  const { data: users } = useCollection(dataSource.users);
+  const [filters, setFilters] = useState(DEFAULT_PROPERTY_FILTERS);
+  const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(focusedPropertyId ?? null);
+  const [rejectingProperty, setRejectingProperty] = useState<Property | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [reviewingImages, setReviewingImages] = useState<Property | null>(null);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // La propriété affichée suit les mises à jour en temps réel de la liste
+  const selectedProperty = properties.find(p => p.id === selectedPropertyId) ?? null;
+
+  // Ouvre le détail demandé depuis une autre section (ex. popup de la carte)
+  useEffect(() => {
+    if (focusedPropertyId) setSelectedPropertyId(focusedPropertyId);
+  }, [focusedPropertyId]);
+
+  const filteredProperties = useMemo(
+    () => filterProperties(properties, filters),
+    [properties, filters]
+  );
+
+  // Enregistre la décision de validation, son auteur et sa date ; un rejet est notifié au propriétaire,
+  // dans le même lot que la décision. Renvoie false si l'enregistrement a échoué.
+  const updateValidationStatus = async (
+    property: Property,
+    validationStatus: Property['validationStatus'],
+    reason = ''
+  ): Promise<boolean> => {
+    try {
+      setActionLoading(property.id);
+      setError(null);
+      const decidedAt = new Date().toISOString();
+      const writes: BatchWrite[] = [{
+        store: 'properties',
+        type: 'update',
+        id: property.id,
+        data: {
+          validationStatus,
+          validatedBy: admin?.uid ?? '',
+          validatedAt: decidedAt,
+          rejectionReason: reason,
+        },
+        audit: { action: VALIDATION_ACTIONS[validationStatus], details: reason },
+      }];
+      if (validationStatus === 'rejete') {
+        writes.push({
+          store: 'messages',
+          type: 'set',
+          id: generateDocumentId(),
+          data: {
+            senderId: admin?.uid ?? '',
+            receiverId: property.ownerId,
+            content: `Votre annonce "${property.name}" a été rejetée. Motif : ${reason}`,
+            timestamp: decidedAt,
+            status: 'non_lu',
+            type: 'notification',
+            flagged: false,
+          },
+          audit: { action: 'Notification rejet propriété', details: `Propriété ${property.id}` },
+        });
+      }
+      await dataSource.runBatch(writes);
+      return true;
+    } catch (err) {
+      console.error(`Erreur lors de la validation de la propriété ${property.id}:`, err);
+      setError('Erreur lors de l\'enregistrement de la décision. Veuillez réessayer.');
+      return false;
+    } finally {
+      setActionLoading(null);
+    }
+  };
 
   const handlePropertyAction = (propertyId: string, action: string) => {
-    console.log(`Action ${action} sur propriété ${propertyId}`);
+    const property = properties.find(p => p.id === propertyId);
+    if (!property) return;
+    switch (action) {
+      case 'approve':
+        updateValidationStatus(property, 'accepte');
+        break;
+      case 'reject':
+        setRejectingProperty(property);
+        setRejectionReason('');
+        break;
+      case 'hold':
+        updateValidationStatus(property, 'en_attente');
+        break;
+      default:
+        console.log(`Action ${action} sur propriété ${propertyId}`);
+    }
+  };
+
+  // En cas d'échec, la fenêtre reste ouverte avec le motif saisi et l'erreur
+  const confirmRejection = async () => {
+    if (!rejectingProperty || !rejectionReason.trim()) return;
+    if (!(await updateValidationStatus(rejectingProperty, 'rejete', rejectionReason.trim()))) return;
+    setRejectingProperty(null);
+    setRejectionReason('');
   };
 
   const PropertyCard = ({ property }: { property: Property }) => (
@@ -94,7 +196,7 @@ export default function PropertyManagement() {
           
           <div className="flex items-center space-x-2">
             <button
-              onClick={() => setSelectedProperty(property)}
+              onClick={() => setSelectedPropertyId(property.id)}
               className="p-2 text-gray-400 hover:text-blue-500 transition-colors"
               title="Voir détails"
             >
@@ -107,12 +209,13 @@ export default function PropertyManagement() {
             >
               <Edit className="w-4 h-4" />
             </button>
-            {property.validationStatus === 'en_attente' && (
+            {!can('properties.validate') ? null : property.validationStatus === 'en_attente' ? (
               <>
                 <button
                   onClick={() => handlePropertyAction(property.id, 'approve')}
                   className="p-2 text-gray-400 hover:text-green-500 transition-colors"
                   title="Valider"
+                  disabled={actionLoading === property.id}
                 >
                   <Check className="w-4 h-4" />
                 </button>
@@ -120,10 +223,20 @@ export default function PropertyManagement() {
                   onClick={() => handlePropertyAction(property.id, 'reject')}
                   className="p-2 text-gray-400 hover:text-red-500 transition-colors"
                   title="Rejeter"
+                  disabled={actionLoading === property.id}
                 >
                   <X className="w-4 h-4" />
                 </button>
               </>
+            ) : (
+              <button
+                onClick={() => handlePropertyAction(property.id, 'hold')}
+                className="p-2 text-gray-400 hover:text-yellow-500 transition-colors"
+                title="Remettre en attente"
+                disabled={actionLoading === property.id}
+              >
+                <PauseCircle className="w-4 h-4" />
+              </button>
             )}
           </div>
         </div>
@@ -131,8 +244,22 @@ export default function PropertyManagement() {
     </div>
   );
 
+  if (loading) {
+    return <div className="p-6">Chargement des propriétés...</div>;
+  }
+
+  if (loadError) {
+    return <div className="p-6 text-red-500">Erreur lors du chargement des propriétés : {loadError}</div>;
+  }
+
   return (
     <div className="p-6 space-y-6">
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg">
+          {error}
+        </div>
+      )}
+
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
@@ -148,52 +275,7 @@ export default function PropertyManagement() {
       </div>
 
       {/* Filtres */}
-      <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700">
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-          <div className="relative">
-            <Search className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
-            <input
-              type="text"
-              placeholder="Rechercher par nom ou lieu..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
-            />
-          </div>
-          
-          <select
-            value={typeFilter}
-            onChange={(e) => setTypeFilter(e.target.value)}
-            className="px-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
-          >
-            <option value="all">Tous les types</option>
-            <option value="residentiel">Résidentiel</option>
-            <option value="commercial">Commercial</option>
-          </select>
-          
-          <select
-            value={statusFilter}
-            onChange={(e) => setStatusFilter(e.target.value)}
-            className="px-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
-          >
-            <option value="all">Tous les statuts</option>
-            <option value="libre">Libre</option>
-            <option value="occupe">Occupé</option>
-            <option value="reserve">Réservé</option>
-          </select>
-          
-          <select
-            value={validationFilter}
-            onChange={(e) => setValidationFilter(e.target.value)}
-            className="px-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
-          >
-            <option value="all">Toutes validations</option>
-            <option value="accepte">Validé</option>
-            <option value="en_attente">En attente</option>
-            <option value="rejete">Rejeté</option>
-          </select>
-        </div>
-      </div>
+      <PropertyFilters filters={filters} onChange={setFilters} />
 
       {/* Grille des propriétés */}
       <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
@@ -212,7 +294,7 @@ export default function PropertyManagement() {
                   {selectedProperty.name}
                 </h2>
                 <button
-                  onClick={() => setSelectedProperty(null)}
+                  onClick={() => setSelectedPropertyId(null)}
                   className="p-2 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
                 >
                   <X className="w-5 h-5" />
@@ -223,11 +305,7 @@ export default function PropertyManagement() {
             <div className="p-6 space-y-6">
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 <div>
-                  <img
-                    src={selectedProperty.images[0]}
-                    alt={selectedProperty.name}
-                    className="w-full h-64 object-cover rounded-lg"
-                  />
+                  <PropertyGallery key={selectedProperty.id} property={selectedProperty} />
                 </div>
                 
                 <div className="space-y-4">
@@ -267,14 +345,96 @@ export default function PropertyManagement() {
                       <button className="w-full text-left px-3 py-2 text-sm text-orange-600 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-lg transition-colors">
                         Modifier la propriété
                       </button>
-                      <button className="w-full text-left px-3 py-2 text-sm text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors">
+                      <button
+                        onClick={() => onShowOnMap?.(selectedProperty.id)}
+                        disabled={!onShowOnMap}
+                        className="w-full text-left px-3 py-2 text-sm text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                      >
                         Voir sur la carte
                       </button>
-                      <button className="w-full text-left px-3 py-2 text-sm text-green-600 hover:bg-green-50 dark:hover:bg-green-900/20 rounded-lg transition-colors">
-                        Valider la propriété
-                      </button>
+                      {can('properties.validate') && (
+                        <button
+                          onClick={() => setReviewingImages(selectedProperty)}
+                          className="w-full text-left px-3 py-2 text-sm text-orange-600 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-lg transition-colors"
+                        >
+                          Modérer les photos
+                        </button>
+                      )}
+                      {can('properties.validate') && selectedProperty.validationStatus !== 'accepte' && (
+                        <button
+                          onClick={() => handlePropertyAction(selectedProperty.id, 'approve')}
+                          disabled={actionLoading === selectedProperty.id}
+                          className="w-full text-left px-3 py-2 text-sm text-green-600 hover:bg-green-50 dark:hover:bg-green-900/20 rounded-lg transition-colors"
+                        >
+                          Valider la propriété
+                        </button>
+                      )}
+                      {can('properties.validate') && selectedProperty.validationStatus !== 'rejete' && (
+                        <button
+                          onClick={() => handlePropertyAction(selectedProperty.id, 'reject')}
+                          disabled={actionLoading === selectedProperty.id}
+                          className="w-full text-left px-3 py-2 text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                        >
+                          Rejeter la propriété
+                        </button>
+                      )}
+                      {can('properties.validate') && selectedProperty.validationStatus !== 'en_attente' && (
+                        <button
+                          onClick={() => handlePropertyAction(selectedProperty.id, 'hold')}
+                          disabled={actionLoading === selectedProperty.id}
+                          className="w-full text-left px-3 py-2 text-sm text-yellow-600 hover:bg-yellow-50 dark:hover:bg-yellow-900/20 rounded-lg transition-colors"
+                        >
+                          Remettre en attente
+                        </button>
+                      )}
                     </div>
                   </div>
+
+                  {selectedProperty.validatedAt && (
+                    <div>
+                      <h4 className="font-medium text-gray-900 dark:text-white mb-2">Dernière décision</h4>
+                      <div className="space-y-2 text-sm">
+                        <div className="flex justify-between">
+                          <span className="text-gray-500 dark:text-gray-400">Par:</span>
+                          <span className="text-gray-900 dark:text-white">
+                            {getUserFullName(users.find(u => u.uid === selectedProperty.validatedBy)) || selectedProperty.validatedBy}
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-500 dark:text-gray-400">Le:</span>
+                          <span className="text-gray-900 dark:text-white">
+                            {new Date(selectedProperty.validatedAt).toLocaleString()}
+                          </span>
+                        </div>
+                        {selectedProperty.validationStatus === 'rejete' && selectedProperty.rejectionReason && (
+                          <div>
+                            <span className="text-gray-500 dark:text-gray-400">Motif du rejet:</span>
+                            <p className="text-gray-900 dark:text-white mt-1">{selectedProperty.rejectionReason}</p>
+                          </div>
+                        )}
+                        {selectedProperty.resubmissionRequestedAt && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-500 dark:text-gray-400">Nouvelle soumission demandée le:</span>
+                            <span className="text-gray-900 dark:text-white">
+                              {new Date(selectedProperty.resubmissionRequestedAt).toLocaleString()}
+                            </span>
+                          </div>
+                        )}
+                        {!!selectedProperty.imageComments?.length && (
+                          <div>
+                            <span className="text-gray-500 dark:text-gray-400">Remarques sur les photos:</span>
+                            <ul className="mt-1 space-y-1">
+                              {selectedProperty.imageComments.map((entry) => (
+                                <li key={entry.position} className="text-gray-900 dark:text-white">
+                                  {describeImageComment(entry)}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
               
@@ -288,6 +448,61 @@ export default function PropertyManagement() {
           </div>
         </div>
       )}
+
+      {/* Modal de rejet */}
+      {rejectingProperty && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-200 dark:border-slate-700">
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                Rejeter « {rejectingProperty.name} »
+              </h2>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Motif du rejet (envoyé au propriétaire)
+                </label>
+                <textarea
+                  value={rejectionReason}
+                  onChange={(e) => setRejectionReason(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+                  rows={4}
+                  placeholder="Photos non conformes, informations incomplètes..."
+                  required
+                />
+              </div>
+
+              {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+              <div className="flex space-x-3">
+                <button
+                  onClick={confirmRejection}
+                  disabled={!rejectionReason.trim() || actionLoading === rejectingProperty.id}
+                  className="flex-1 bg-red-500 text-white px-4 py-2 rounded-lg hover:bg-red-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Confirmer le rejet
+                </button>
+                <button
+                  onClick={() => setRejectingProperty(null)}
+                  className="flex-1 bg-gray-500 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition-colors"
+                >
+                  Annuler
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {reviewingImages && (
+        <PropertyImageReviewModal
+          key={reviewingImages.id}
+          property={reviewingImages}
+          onClose={() => setReviewingImages(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,56 +1,88 @@
-import React, { useState } from 'react';
-import { Save, Bell, Shield, Globe, Palette, Database, Mail, Key, Users, Building, CreditCard, AlertTriangle, CheckCircle } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Save, Bell, Shield, Globe, Palette, Database, Mail, Key, Users, Building, CreditCard, AlertTriangle, CheckCircle, Download, History, RotateCcw } from 'lucide-react';
+import { dataSource } from '../../data';
+import { redactChanges } from '../../data/audit';
+import { LOCKOUT_DURATION_MINUTES, isLockedOut, unlockAccount } from '../../data/accountSecurity';
+import {
+  SETTINGS_GROUP_LABELS,
+  SETTINGS_SECRETS_ID,
+  SettingsGroup,
+  diffSettings,
+  migrateSettingsSecrets,
+  saveSettingsVersion,
+  syncSecurityPolicy,
+  validateSettings,
+  withDefaultSettings,
+  withSecrets,
+} from '../../data/settings';
+import { useAuth } from '../../hooks/useAuth';
+import { useCollection } from '../../hooks/useCollection';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useSettings } from '../../hooks/useSettings';
+import { fetchClientIp } from '../../data/ipAllowlist';
+import { generateFirestoreRules } from '../../firebase/securityRules';
+import { generateFirestoreIndexes } from '../../firebase/firestoreIndexes';
+import { downloadFile } from '../../utils/export';
+import { getUserFullName } from '../../utils/users';
+import { findAllowlistEntry, parseAllowlist } from '../../utils/ipAllowlist';
+import { LoginAttempt, PlatformSettings, SettingsSecrets, SettingsVersion } from '../../types';
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined || value === '' ? '—' : String(value);
 
 export default function Settings() {
+  const { admin } = useAuth();
+  const { can } = usePermissions();
+  const { settings: currentSettings, current, versions, loading } = useSettings();
+  const { data: users } = useCollection(dataSource.users);
+  const { data: loginAttempts } = useCollection(dataSource.loginAttempts);
   const [activeTab, setActiveTab] = useState('general');
-  const [settings, setSettings] = useState({
-    general: {
-      siteName: 'Kinaru',
-      siteDescription: 'Plateforme immobilière moderne',
-      language: 'fr',
-      timezone: 'Europe/Paris',
-      maintenanceMode: false
-    },
-    notifications: {
-      emailNotifications: true,
-      pushNotifications: true,
-      smsNotifications: false,
-      weeklyReports: true,
-      securityAlerts: true
-    },
-    security: {
-      twoFactorAuth: true,
-      sessionTimeout: 30,
-      passwordExpiry: 90,
-      loginAttempts: 5,
-      ipWhitelist: ''
-    },
-    appearance: {
-      theme: 'light',
-      primaryColor: '#F05A25',
-      secondaryColor: '#192A3F',
-      logoUrl: '',
-      favicon: ''
-    },
-    integrations: {
-      stripeEnabled: false,
-      stripePublicKey: '',
-      stripeSecretKey: '',
-      emailProvider: 'smtp',
-      smtpHost: '',
-      smtpPort: 587,
-      smtpUser: '',
-      smtpPassword: ''
-    },
-    business: {
-      companyName: 'Kinaru SAS',
-      companyAddress: '123 Rue de la Paix, 75001 Paris',
-      companyPhone: '+33 1 23 45 67 89',
-      companyEmail: 'contact@kinaru.com',
-      vatNumber: 'FR12345678901',
-      commissionRate: 5
-    }
-  });
+  const [settings, setSettings] = useState<PlatformSettings>(currentSettings);
+  const [savedSettings, setSavedSettings] = useState<PlatformSettings>(currentSettings);
+  const [baseVersion, setBaseVersion] = useState(0);
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [compareFrom, setCompareFrom] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+  const [clientIp, setClientIp] = useState<string | null>(null);
+  // Secrets des intégrations, lus à part : les versions de l'historique n'en contiennent pas
+  const [secrets, setSecrets] = useState<SettingsSecrets | null>(null);
+  const canEdit = can('settings.edit');
+
+  const dirty = useMemo(() => diffSettings(savedSettings, settings).length > 0, [savedSettings, settings]);
+  const validationErrors = useMemo(() => validateSettings(settings), [settings]);
+  const errorGroups = new Set(validationErrors.map(error => error.field.split('.')[0]));
+  const allowlist = useMemo(() => parseAllowlist(settings.security.ipWhitelist).entries, [settings.security.ipWhitelist]);
+  const allowlistMatch = clientIp ? findAllowlistEntry(clientIp, allowlist) : null;
+
+  // Adresse de l'administrateur, pour l'avertir avant qu'il ne s'exclue de la console
+  useEffect(() => {
+    fetchClientIp()
+      .then(setClientIp)
+      .catch(error => console.error("Erreur lors de la détermination de l'adresse IP :", error));
+  }, []);
+
+  useEffect(() => {
+    if (!admin || !canEdit) return;
+    migrateSettingsSecrets(dataSource, admin.uid)
+      .then(setSecrets)
+      .catch(error => {
+        console.error('Erreur lors du chargement des secrets des intégrations :', error);
+        setSaveError('Impossible de charger les secrets des intégrations.');
+      });
+    syncSecurityPolicy(dataSource, admin.uid)
+      .catch(error => console.error('Erreur lors de la mise à jour de la politique de sécurité :', error));
+  }, [admin, canEdit]);
+
+  // Le formulaire suit la version courante tant qu'il n'a pas de modifications en cours
+  useEffect(() => {
+    if (dirty) return;
+    const loaded = withSecrets(currentSettings, secrets);
+    setSettings(loaded);
+    setSavedSettings(loaded);
+    setBaseVersion(current?.version ?? 0);
+  }, [currentSettings, current, secrets, dirty]);
 
   const handleSettingChange = (category: string, key: string, value: any) => {
     setSettings(prev => ({
@@ -62,9 +94,63 @@ export default function Settings() {
     }));
   };
 
-  const saveSettings = () => {
-    console.log('Sauvegarde des paramètres:', settings);
-    // Simulation de sauvegarde
+  const getAuthorName = (adminId: string) => {
+    const author = users.find(user => user.uid === adminId);
+    return author ? getUserFullName(author) : adminId;
+  };
+
+  // Enregistre une nouvelle version à partir de la version chargée dans le formulaire
+  const saveSettings = async () => {
+    if (!admin) return;
+    try {
+      setSaving(true);
+      setSaveError(null);
+      const saved = await saveSettingsVersion(dataSource, settings, admin.uid, baseVersion, { comment });
+      setSavedSettings(settings);
+      setBaseVersion(saved.version);
+      setComment('');
+      setSecrets(await dataSource.settingsSecrets.getById(SETTINGS_SECRETS_ID));
+    } catch (err) {
+      console.error('Erreur lors de la sauvegarde des paramètres :', err);
+      setSaveError(err instanceof Error ? err.message : 'Erreur lors de la sauvegarde des paramètres. Veuillez réessayer.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUnlock = async (attempt: LoginAttempt) => {
+    if (!admin) return;
+    try {
+      setSaveError(null);
+      const user = users.find(u => u.email.toLowerCase() === attempt.id);
+      await unlockAccount(dataSource, attempt, admin.uid, user?.uid);
+    } catch (err) {
+      console.error('Erreur lors du déverrouillage du compte :', err);
+      setSaveError('Erreur lors du déverrouillage du compte. Veuillez réessayer.');
+    }
+  };
+
+  // Restaure une version en l'enregistrant comme nouvelle version courante
+  const restoreVersion = async (version: SettingsVersion) => {
+    if (!admin || !current) return;
+    if (!window.confirm(`Restaurer les paramètres de la version ${version.version} ?`)) return;
+    try {
+      setSaving(true);
+      setSaveError(null);
+      const restored = withDefaultSettings(version.settings);
+      const saved = await saveSettingsVersion(dataSource, restored, admin.uid, current.version, {
+        restoredFrom: version.version,
+      });
+      const restoredSettings = withSecrets(saved.settings, secrets);
+      setSettings(restoredSettings);
+      setSavedSettings(restoredSettings);
+      setBaseVersion(saved.version);
+    } catch (err) {
+      console.error('Erreur lors de la restauration des paramètres :', err);
+      setSaveError(err instanceof Error ? err.message : 'Erreur lors de la restauration des paramètres. Veuillez réessayer.');
+    } finally {
+      setSaving(false);
+    }
   };
 
   const tabs = [
@@ -73,7 +159,8 @@ export default function Settings() {
     { id: 'security', label: 'Sécurité', icon: Shield },
     { id: 'appearance', label: 'Apparence', icon: Palette },
     { id: 'integrations', label: 'Intégrations', icon: Database },
-    { id: 'business', label: 'Entreprise', icon: CreditCard }
+    { id: 'business', label: 'Entreprise', icon: CreditCard },
+    { id: 'history', label: 'Historique', icon: History }
   ];
 
   const SettingCard = ({ title, description, children }: any) => (
@@ -216,7 +303,11 @@ export default function Settings() {
                 Authentification à deux facteurs
               </span>
               <p className="text-sm text-gray-500 dark:text-gray-400">
-                Sécurité renforcée avec un code de vérification
+                Exiger un code d'application d'authentification de tous les administrateurs
+              </p>
+              <p className="text-xs text-yellow-700 dark:text-yellow-300">
+                Le code est vérifié par les fonctions du back-end : ne l'activer qu'une fois celles-ci déployées,
+                sans quoi aucun administrateur ne pourra plus accéder aux données.
               </p>
             </div>
             <input
@@ -251,9 +342,139 @@ export default function Settings() {
                 className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
               />
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Expiration du mot de passe (jours, 0 pour désactiver)
+              </label>
+              <input
+                type="number"
+                min="0"
+                value={settings.security.passwordExpiry}
+                onChange={(e) => handleSettingChange('security', 'passwordExpiry', parseInt(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Alerte d'expiration des CNI (jours avant l'échéance)
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={settings.security.cniExpiryWindowDays}
+                onChange={(e) => handleSettingChange('security', 'cniExpiryWindowDays', parseInt(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Liste blanche d'adresses IP
+            </label>
+            <textarea
+              rows={5}
+              value={settings.security.ipWhitelist}
+              onChange={(e) => handleSettingChange('security', 'ipWhitelist', e.target.value)}
+              placeholder={'# Une adresse ou plage CIDR par ligne, commentaire après #\n203.0.113.0/24  # Bureau Douala\n2001:db8::/32'}
+              className="w-full px-3 py-2 font-mono text-sm border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+            />
+            {allowlist.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                Liste vide : la console est accessible depuis toute adresse.
+              </p>
+            ) : (
+              <p className={`text-sm mt-1 ${allowlistMatch ? 'text-gray-500 dark:text-gray-400' : 'text-red-600'}`}>
+                {allowlist.length} entrée(s).{' '}
+                {!clientIp
+                  ? "Votre adresse IP n'a pas pu être déterminée : l'accès vous sera refusé."
+                  : allowlistMatch
+                  ? `Votre adresse ${clientIp} est autorisée (${allowlistMatch.cidr}${allowlistMatch.comment ? ` · ${allowlistMatch.comment}` : ''}).`
+                  : `Votre adresse ${clientIp} n'est pas couverte : vous perdrez l'accès à la console.`}
+              </p>
+            )}
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Contrôle indicatif : l'adresse est déterminée par un service externe et vérifiée par la console,
+              sans être imposée par les règles Firestore.
+            </p>
+          </div>
+        </div>
+      </SettingCard>
+
+      <SettingCard
+        title="Échecs de connexion"
+        description={`Un compte est verrouillé après ${currentSettings.security.loginAttempts} échecs consécutifs, pendant ${LOCKOUT_DURATION_MINUTES} minutes sans nouvelle tentative`}
+      >
+        {loginAttempts.filter(attempt => attempt.failedCount > 0).length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Aucun échec de connexion en cours.</p>
+        ) : (
+          <div className="divide-y divide-gray-100 dark:divide-slate-700">
+            {loginAttempts
+              .filter(attempt => attempt.failedCount > 0)
+              .map(attempt => {
+                const locked = isLockedOut(attempt, currentSettings.security.loginAttempts);
+                return (
+                  <div key={attempt.id} className="flex items-center justify-between py-3">
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium text-gray-900 dark:text-white">{attempt.id}</span>
+                        {locked && (
+                          <span className="px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400">
+                            Verrouillé
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        {attempt.failedCount} échec(s), dernier le {new Date(attempt.lastFailedAt).toLocaleString('fr-FR')}
+                      </p>
+                    </div>
+                    {can('admins.manage') && (
+                      <button
+                        onClick={() => handleUnlock(attempt)}
+                        className="px-3 py-1 text-sm text-orange-600 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-lg transition-colors"
+                      >
+                        {locked ? 'Déverrouiller' : 'Effacer les échecs'}
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
           </div>
+        )}
+      </SettingCard>
+
+      <SettingCard
+        title="Règles de sécurité Firestore"
+        description="Règles générées à partir des permissions des sous-rôles administrateurs, à déployer avec firebase deploy --only firestore:rules"
+      >
+        <div className="space-y-4">
+          <pre className="max-h-80 overflow-auto p-4 bg-gray-50 dark:bg-slate-900 rounded-lg text-xs text-gray-700 dark:text-gray-300">
+            {generateFirestoreRules()}
+          </pre>
+          <button
+            onClick={() => downloadFile(generateFirestoreRules(), 'firestore.rules', 'text/plain;charset=utf-8')}
+            className="flex items-center space-x-2 px-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            <span>Télécharger firestore.rules</span>
+          </button>
         </div>
       </SettingCard>
+
+      <SettingCard
+        title="Index Firestore"
+        description="Index composites requis par la liste paginée des utilisateurs et leur fil d'activité, à déployer avec firebase deploy --only firestore:indexes"
+      >
+        <button
+          onClick={() => downloadFile(generateFirestoreIndexes(), 'firestore.indexes.json', 'application/json')}
+          className="flex items-center space-x-2 px-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          <span>Télécharger firestore.indexes.json</span>
+        </button>
+      </SettingCard>
     </div>
   );
 
@@ -506,6 +727,128 @@ export default function Settings() {
     </div>
   );
 
+  const renderHistory = () => {
+    const to = versions.find(v => v.version === (compareTo ?? current?.version));
+    const fromVersion = compareFrom ?? (to ? to.version - 1 : null);
+    const from = versions.find(v => v.version === fromVersion);
+    const changes = to && from
+      ? redactChanges(diffSettings(withDefaultSettings(from.settings), withDefaultSettings(to.settings)))
+      : [];
+
+    return (
+      <div className="space-y-6">
+        <SettingCard
+          title="Historique des versions"
+          description="Chaque enregistrement crée une version ; restaurer une version en crée une nouvelle"
+        >
+          {versions.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Aucune version enregistrée : les paramètres par défaut s'appliquent.
+            </p>
+          ) : (
+            <div className="divide-y divide-gray-100 dark:divide-slate-700">
+              {versions.map(version => (
+                <div key={version.id} className="flex items-center justify-between py-3">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900 dark:text-white">Version {version.version}</span>
+                      {version.version === current?.version && (
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400">
+                          Actuelle
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      {getAuthorName(version.adminId)} · {new Date(version.createdAt).toLocaleString('fr-FR')}
+                    </p>
+                    {(version.comment || version.restoredFrom !== undefined) && (
+                      <p className="text-sm text-gray-600 dark:text-gray-300">
+                        {version.restoredFrom !== undefined ? `Restauration de la version ${version.restoredFrom}` : version.comment}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => {
+                        setCompareTo(version.version);
+                        setCompareFrom(version.version - 1);
+                      }}
+                      className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                    >
+                      Voir les changements
+                    </button>
+                    {can('settings.edit') && version.version !== current?.version && (
+                      <button
+                        onClick={() => restoreVersion(version)}
+                        disabled={saving}
+                        className="flex items-center space-x-1 px-3 py-1 text-sm text-orange-600 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                        <span>Restaurer</span>
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </SettingCard>
+
+        {versions.length > 1 && (
+          <SettingCard title="Comparer deux versions">
+            <div className="flex items-center space-x-3 mb-4">
+              <select
+                value={from?.version ?? ''}
+                onChange={(e) => setCompareFrom(Number(e.target.value))}
+                className="px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+              >
+                <option value="" disabled>Version de départ</option>
+                {versions.map(v => <option key={v.id} value={v.version}>Version {v.version}</option>)}
+              </select>
+              <span className="text-gray-500 dark:text-gray-400">→</span>
+              <select
+                value={to?.version ?? ''}
+                onChange={(e) => setCompareTo(Number(e.target.value))}
+                className="px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+              >
+                {versions.map(v => <option key={v.id} value={v.version}>Version {v.version}</option>)}
+              </select>
+            </div>
+            {!from || !to ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Sélectionnez deux versions à comparer.</p>
+            ) : changes.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Aucune différence entre ces versions.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400">
+                    <th className="py-2 pr-4 font-medium">Paramètre</th>
+                    <th className="py-2 pr-4 font-medium">Version {from.version}</th>
+                    <th className="py-2 font-medium">Version {to.version}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-slate-700">
+                  {changes.map(change => {
+                    const [group, field] = change.field.split('.');
+                    return (
+                      <tr key={change.field}>
+                        <td className="py-2 pr-4 text-gray-900 dark:text-white">
+                          {SETTINGS_GROUP_LABELS[group as SettingsGroup]} · {field}
+                        </td>
+                        <td className="py-2 pr-4 text-red-600 dark:text-red-400">{formatValue(change.before)}</td>
+                        <td className="py-2 text-green-600 dark:text-green-400">{formatValue(change.after)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </SettingCard>
+        )}
+      </div>
+    );
+  };
+
   const renderTabContent = () => {
     switch (activeTab) {
       case 'general': return renderGeneralSettings();
@@ -514,6 +857,7 @@ export default function Settings() {
       case 'appearance': return renderAppearanceSettings();
       case 'integrations': return renderIntegrationSettings();
       case 'business': return renderBusinessSettings();
+      case 'history': return renderHistory();
       default: return renderGeneralSettings();
     }
   };
@@ -528,15 +872,53 @@ export default function Settings() {
             Configuration de votre plateforme Kinaru
           </p>
         </div>
-        <button
-          onClick={saveSettings}
-          className="flex items-center space-x-2 bg-orange-500 text-white px-4 py-2 rounded-lg hover:bg-orange-600 transition-colors"
-        >
-          <Save className="w-4 h-4" />
-          <span>Sauvegarder</span>
-        </button>
+        <div className="flex items-center space-x-3">
+          {can('settings.edit') && dirty && (
+            <input
+              type="text"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Commentaire de version (optionnel)"
+              className="px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+            />
+          )}
+          <button
+            onClick={saveSettings}
+            disabled={!can('settings.edit') || !dirty || validationErrors.length > 0 || saving || loading}
+            title={can('settings.edit') ? undefined : 'Réservé aux super administrateurs'}
+            className="flex items-center space-x-2 bg-orange-500 text-white px-4 py-2 rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" />
+            <span>Sauvegarder</span>
+          </button>
+        </div>
       </div>
 
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        {current
+          ? `Version ${current.version} enregistrée par ${getAuthorName(current.adminId)} le ${new Date(current.createdAt).toLocaleString('fr-FR')}`
+          : 'Paramètres par défaut : aucune version enregistrée'}
+        {dirty && ' · modifications non enregistrées'}
+      </p>
+
+      {dirty && validationErrors.length > 0 && (
+        <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200 rounded-lg text-sm">
+          <ul className="list-disc list-inside space-y-1">
+            {validationErrors.map(error => (
+              <li key={error.field}>
+                {SETTINGS_GROUP_LABELS[error.field.split('.')[0] as SettingsGroup]} : {error.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {saveError && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg">
+          {saveError}
+        </div>
+      )}
+
       <div className="flex flex-col lg:flex-row gap-6">
         {/* Navigation des onglets */}
         <div className="lg:w-64">
@@ -556,6 +938,9 @@ export default function Settings() {
                   >
                     <Icon className="w-5 h-5" />
                     <span className="font-medium">{tab.label}</span>
+                    {errorGroups.has(tab.id) && (
+                      <AlertTriangle className="w-4 h-4 text-yellow-500 ml-auto" aria-label="Paramètres invalides" />
+                    )}
                   </button>
                 );
               })}
@@ -0,0 +1,101 @@
+interface BarChartItem {
+  key: string;
+  label: string;
+  value: number;
+}
+
+interface HorizontalBarChartProps {
+  items: BarChartItem[];
+  color: string;
+  selectedKey?: string;
+  formatValue?: (value: number) => string;
+  onSelect?: (key: string) => void;
+}
+
+/**
+ * Barres horizontales triées par valeur décroissante, cliquables pour le détail.
+ */
+export function HorizontalBarChart({ items, color, selectedKey, formatValue = String, onSelect }: HorizontalBarChartProps) {
+  const sorted = [...items].sort((a, b) => b.value - a.value);
+  const max = Math.max(1, ...sorted.map(item => item.value));
+
+  if (sorted.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Aucune donnée sur la période.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {sorted.map(item => (
+        <button
+          key={item.key}
+          onClick={() => onSelect?.(item.key)}
+          className={`w-full text-left p-1 rounded-lg transition-colors ${
+            selectedKey === item.key ? 'bg-orange-50 dark:bg-orange-900/20' : 'hover:bg-gray-50 dark:hover:bg-slate-700'
+          }`}
+        >
+          <div className="flex items-center justify-between text-sm mb-1">
+            <span className="text-gray-700 dark:text-gray-300">{item.label}</span>
+            <span className="font-medium text-gray-900 dark:text-white">{formatValue(item.value)}</span>
+          </div>
+          <div className="h-2 bg-gray-100 dark:bg-slate-700 rounded-full overflow-hidden">
+            <div className={`h-full rounded-full ${color}`} style={{ width: `${(item.value / max) * 100}%` }} />
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface ColumnChartProps {
+  items: BarChartItem[];
+  previousItems?: BarChartItem[];
+  selectedKey?: string;
+  formatValue?: (value: number) => string;
+  onSelect?: (key: string) => void;
+}
+
+/**
+ * Histogramme vertical en SVG, avec superposition facultative de la période précédente.
+ */
+export function ColumnChart({ items, previousItems = [], selectedKey, formatValue = String, onSelect }: ColumnChartProps) {
+  const height = 160;
+  const slot = 48;
+  const max = Math.max(1, ...items.map(item => item.value), ...previousItems.map(item => item.value));
+
+  return (
+    <div className="overflow-x-auto">
+      <svg width={Math.max(items.length * slot, slot)} height={height + 24} className="block">
+        {items.map((item, index) => {
+          const previous = previousItems[index]?.value ?? 0;
+          const barHeight = (item.value / max) * height;
+          const previousHeight = (previous / max) * height;
+          const x = index * slot;
+          return (
+            <g
+              key={item.key}
+              onClick={() => onSelect?.(item.key)}
+              className="cursor-pointer"
+            >
+              <title>{`${item.label} : ${formatValue(item.value)}${previousItems.length ? ` (précédent : ${formatValue(previous)})` : ''}`}</title>
+              <rect x={x} y={0} width={slot} height={height + 24} fill="transparent" />
+              {previousItems.length > 0 && (
+                <rect x={x + 6} y={height - previousHeight} width={16} height={previousHeight} rx={3} className="fill-gray-300 dark:fill-slate-600" />
+              )}
+              <rect
+                x={x + (previousItems.length ? 24 : 12)}
+                y={height - barHeight}
+                width={previousItems.length ? 16 : 24}
+                height={barHeight}
+                rx={3}
+                className={selectedKey === item.key ? 'fill-orange-600' : 'fill-orange-400'}
+              />
+              <text x={x + slot / 2} y={height + 16} textAnchor="middle" className="fill-gray-500 dark:fill-gray-400 text-[10px]">
+                {item.label}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+import { useMemo, useState } from 'react';
+import { Users, Building, CreditCard, Euro, TrendingUp, X, LucideIcon } from 'lucide-react';
+import { dataSource } from '../../data';
+import { useCollection } from '../../hooks/useCollection';
+import { getUserFullName } from '../../utils/users';
+import {
+  DateRange,
+  DateRangePreset,
+  DrillDownTarget,
+  compareStatistics,
+  computeStatistics,
+  createPresetRange,
+  getCityFromAddress,
+  getDrillDownRecords,
+  getPreviousRange,
+} from '../../utils/statistics';
+import { ColumnChart, HorizontalBarChart } from './Charts';
+
+const PRESETS: Array<{ id: DateRangePreset; label: string }> = [
+  { id: '30d', label: '30 jours' },
+  { id: '90d', label: '90 jours' },
+  { id: '12m', label: '12 mois' },
+  { id: 'ytd', label: 'Année en cours' },
+];
+
+const TYPE_LABELS: Record<string, string> = {
+  residentiel: 'Résidentiel',
+  commercial: 'Commercial',
+};
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString('fr-FR', { month: 'short', year: '2-digit' });
+
+const formatEuros = (value: number) => `${value.toLocaleString()}€`;
+
+interface KpiCardProps {
+  title: string;
+  value: string;
+  change?: number | null;
+  icon: LucideIcon;
+  color: string;
+  active?: boolean;
+  onClick?: () => void;
+}
+
+const KpiCard = ({ title, value, change, icon: Icon, color, active, onClick }: KpiCardProps) => (
+  <button
+    onClick={onClick}
+    disabled={!onClick}
+    className={`text-left bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border transition-shadow ${
+      active ? 'border-orange-400' : 'border-gray-100 dark:border-slate-700'
+    } ${onClick ? 'hover:shadow-md' : 'cursor-default'}`}
+  >
+    <div className="flex items-center justify-between">
+      <div>
+        <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{title}</p>
+        <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{value}</p>
+        {change !== undefined && (
+          <p className={`text-sm mt-1 ${
+            change === null ? 'text-gray-400' : change >= 0 ? 'text-green-600' : 'text-red-600'
+          }`}>
+            {change === null ? 'Pas de référence' : `${change > 0 ? '+' : ''}${change}% vs période précédente`}
+          </p>
+        )}
+      </div>
+      <div className={`p-3 rounded-lg ${color}`}>
+        <Icon className="w-6 h-6 text-white" />
+      </div>
+    </div>
+  </button>
+);
+
+export default function StatisticsDashboard() {
+  const { data: users, loading: usersLoading } = useCollection(dataSource.users);
+  const { data: properties, loading: propertiesLoading } = useCollection(dataSource.properties);
+  const { data: transactions, loading: transactionsLoading, error } = useCollection(dataSource.transactions);
+  const [range, setRange] = useState<DateRange>(() => createPresetRange('12m'));
+  const [compare, setCompare] = useState(true);
+  const [drillDown, setDrillDown] = useState<DrillDownTarget | null>(null);
+
+  const loading = usersLoading || propertiesLoading || transactionsLoading;
+  const input = useMemo(() => ({ users, properties, transactions }), [users, properties, transactions]);
+  const previousRange = useMemo(() => getPreviousRange(range), [range]);
+  const statistics = useMemo(() => computeStatistics(input, range), [input, range]);
+  const previousStatistics = useMemo(() => computeStatistics(input, previousRange), [input, previousRange]);
+  const comparison = compare ? compareStatistics(statistics, previousStatistics) : null;
+  const records = useMemo(
+    () => (drillDown ? getDrillDownRecords(input, range, drillDown) : null),
+    [input, range, drillDown]
+  );
+
+  const updateRange = (next: DateRange) => {
+    if (!next.start || !next.end || next.start > next.end) return;
+    setRange(next);
+    setDrillDown(null);
+  };
+
+  const toggleDrillDown = (target: DrillDownTarget) => {
+    setDrillDown(current => (JSON.stringify(current) === JSON.stringify(target) ? null : target));
+  };
+
+  const drillDownTitle = !drillDown ? '' :
+    drillDown.kind === 'users' ? `Utilisateurs${drillDown.city ? ` — ${drillDown.city}` : ''}` :
+    drillDown.kind === 'properties' ? `Propriétés créées${drillDown.type ? ` — ${TYPE_LABELS[drillDown.type]}` : ''}` :
+    `Transactions${drillDown.paidOnly ? ' payées' : ''}${drillDown.month ? ` — ${formatMonth(drillDown.month)}` : ''}`;
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Statistiques Avancées</h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            {loading ? 'Chargement des données...' :
+              `Du ${new Date(range.start).toLocaleDateString()} au ${new Date(range.end).toLocaleDateString()}`}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {PRESETS.map(preset => (
+            <button
+              key={preset.id}
+              onClick={() => updateRange(createPresetRange(preset.id))}
+              className="px-3 py-2 text-sm border border-gray-300 dark:border-slate-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+            >
+              {preset.label}
+            </button>
+          ))}
+          <input
+            type="date"
+            value={range.start}
+            max={range.end}
+            onChange={(e) => updateRange({ ...range, start: e.target.value })}
+            className="px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-gray-900 dark:text-white"
+          />
+          <input
+            type="date"
+            value={range.end}
+            min={range.start}
+            onChange={(e) => updateRange({ ...range, end: e.target.value })}
+            className="px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-gray-900 dark:text-white"
+          />
+          <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={compare}
+              onChange={(e) => setCompare(e.target.checked)}
+              className="rounded border-gray-300 text-orange-500 focus:ring-orange-500"
+            />
+            <span>Comparer à la période précédente</span>
+          </label>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg">
+          Erreur lors du chargement des statistiques : {error}
+        </div>
+      )}
+
+      {/* Indicateurs */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
+        <KpiCard
+          title="Utilisateurs"
+          value={statistics.totalUsers.toLocaleString()}
+          icon={Users}
+          color="bg-blue-500"
+          active={drillDown?.kind === 'users' && !drillDown.city}
+          onClick={() => toggleDrillDown({ kind: 'users' })}
+        />
+        <KpiCard
+          title="Propriétés créées"
+          value={statistics.totalProperties.toLocaleString()}
+          change={comparison?.totalProperties}
+          icon={Building}
+          color="bg-green-500"
+          active={drillDown?.kind === 'properties' && !drillDown.type}
+          onClick={() => toggleDrillDown({ kind: 'properties' })}
+        />
+        <KpiCard
+          title="Transactions"
+          value={statistics.totalTransactions.toLocaleString()}
+          change={comparison?.totalTransactions}
+          icon={CreditCard}
+          color="bg-purple-500"
+          active={drillDown?.kind === 'transactions' && !drillDown.month && !drillDown.paidOnly}
+          onClick={() => toggleDrillDown({ kind: 'transactions' })}
+        />
+        <KpiCard
+          title="Revenus"
+          value={formatEuros(statistics.totalRevenue)}
+          change={comparison?.totalRevenue}
+          icon={Euro}
+          color="bg-orange-500"
+          active={drillDown?.kind === 'transactions' && !drillDown.month && drillDown.paidOnly}
+          onClick={() => toggleDrillDown({ kind: 'transactions', paidOnly: true })}
+        />
+        <KpiCard
+          title="Taux de conversion"
+          value={`${statistics.conversionRate}%`}
+          change={comparison?.conversionRate}
+          icon={TrendingUp}
+          color="bg-teal-500"
+        />
+      </div>
+
+      {/* Graphiques */}
+      <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Revenus mensuels</h2>
+          {compare && (
+            <div className="flex items-center space-x-4 text-xs text-gray-500 dark:text-gray-400">
+              <span className="flex items-center space-x-1"><span className="w-3 h-3 rounded bg-orange-400"></span><span>Période</span></span>
+              <span className="flex items-center space-x-1"><span className="w-3 h-3 rounded bg-gray-300 dark:bg-slate-600"></span><span>Précédente</span></span>
+            </div>
+          )}
+        </div>
+        <ColumnChart
+          items={statistics.monthlyRevenue.map(({ month, revenue }) => ({ key: month, label: formatMonth(month), value: revenue }))}
+          previousItems={compare
+            ? previousStatistics.monthlyRevenue.map(({ month, revenue }) => ({ key: month, label: formatMonth(month), value: revenue }))
+            : []}
+          selectedKey={drillDown?.kind === 'transactions' ? drillDown.month : undefined}
+          formatValue={formatEuros}
+          onSelect={(month) => toggleDrillDown({ kind: 'transactions', month, paidOnly: true })}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Utilisateurs par ville</h2>
+          <HorizontalBarChart
+            items={Object.entries(statistics.usersByCity).map(([city, count]) => ({ key: city, label: city, value: count }))}
+            color="bg-blue-500"
+            selectedKey={drillDown?.kind === 'users' ? drillDown.city : undefined}
+            onSelect={(city) => toggleDrillDown({ kind: 'users', city })}
+          />
+        </div>
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Propriétés par type</h2>
+          <HorizontalBarChart
+            items={Object.entries(statistics.propertiesByType).map(([type, count]) => ({ key: type, label: TYPE_LABELS[type] ?? type, value: count }))}
+            color="bg-green-500"
+            selectedKey={drillDown?.kind === 'properties' ? drillDown.type : undefined}
+            onSelect={(type) => toggleDrillDown({ kind: 'properties', type: type as 'residentiel' | 'commercial' })}
+          />
+        </div>
+      </div>
+
+      {/* Détail */}
+      {drillDown && records && (
+        <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700">
+          <div className="p-6 border-b border-gray-200 dark:border-slate-700 flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {drillDownTitle} ({records.users.length + records.properties.length + records.transactions.length})
+            </h2>
+            <button
+              onClick={() => setDrillDown(null)}
+              className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <div className="overflow-x-auto max-h-96">
+            <table className="w-full text-sm">
+              <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+                {records.users.map(user => (
+                  <tr key={user.uid} className="hover:bg-gray-50 dark:hover:bg-slate-700">
+                    <td className="px-6 py-3 font-medium text-gray-900 dark:text-white">{getUserFullName(user)}</td>
+                    <td className="px-6 py-3 text-gray-500 dark:text-gray-400">{user.email}</td>
+                    <td className="px-6 py-3 text-gray-500 dark:text-gray-400">{getCityFromAddress(user.addresse)}</td>
+                  </tr>
+                ))}
+                {records.properties.map(property => (
+                  <tr key={property.id} className="hover:bg-gray-50 dark:hover:bg-slate-700">
+                    <td className="px-6 py-3 font-medium text-gray-900 dark:text-white">{property.name}</td>
+                    <td className="px-6 py-3 text-gray-500 dark:text-gray-400">{property.location}</td>
+                    <td className="px-6 py-3 text-gray-500 dark:text-gray-400">{new Date(property.createdDate).toLocaleDateString()}</td>
+                    <td className="px-6 py-3 text-right text-gray-900 dark:text-white">{formatEuros(property.price)}</td>
+                  </tr>
+                ))}
+                {records.transactions.map(transaction => (
+                  <tr key={transaction.id} className="hover:bg-gray-50 dark:hover:bg-slate-700">
+                    <td className="px-6 py-3 font-medium text-gray-900 dark:text-white">{transaction.description}</td>
+                    <td className="px-6 py-3 text-gray-500 dark:text-gray-400">
+                      {getUserFullName(users.find(u => u.uid === transaction.userId)) || 'Utilisateur inconnu'}
+                    </td>
+                    <td className="px-6 py-3 text-gray-500 dark:text-gray-400">{new Date(transaction.date).toLocaleDateString()}</td>
+                    <td className="px-6 py-3 text-right text-gray-900 dark:text-white">{formatEuros(transaction.amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {records.users.length + records.properties.length + records.transactions.length === 0 && (
+              <p className="p-6 text-sm text-gray-500 dark:text-gray-400">Aucun enregistrement sur la période.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,14 @@
 import React, { useState, useMemo } from 'react';
 import { Search, Filter, Plus, Eye, Download, AlertTriangle, CheckCircle, XCircle, Calendar, Euro, TrendingUp, TrendingDown } from 'lucide-react';
-import { mockTransactions, mockUsers } from '../../data/mockData';
+import { dataSource } from '../../data';
+import { useCollection } from '../../hooks/useCollection';
+import { usePermissions } from '../../hooks/usePermissions';
+import { getUserFullName } from '../../utils/users';
 import { Transaction } from '../../types';
 
 export default function TransactionManagement() {
-  const [transactions] = useState<Transaction[]>(mockTransactions);
+  const { data: transactions } = useCollection(dataSource.transactions);
+  const { data: users } = useCollection(dataSource.users);
   const [searchTerm, setSearchTerm] = useState('');
   const [typeFilter, setTypeFilter] = useState('all');
   const [statusFilter, setStatusFilter] = useState('all');
@@ -12,12 +16,14 @@ export default function TransactionManagement() {
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
   const [showDisputeModal, setShowDisputeModal] = useState(false);
   const [disputeReason, setDisputeReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const { can } = usePermissions();
 
   const filteredTransactions = useMemo(() => {
     return transactions.filter(transaction => {
-      const user = mockUsers.find(u => u.id === transaction.userId);
+      const user = users.find(u => u.uid === transaction.userId);
       const matchesSearch = transaction.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                           user?.name.toLowerCase().includes(searchTerm.toLowerCase()) || '';
+                           getUserFullName(user)?.toLowerCase().includes(searchTerm.toLowerCase()) || false;
       const matchesType = typeFilter === 'all' || transaction.type === typeFilter;
       const matchesStatus = statusFilter === 'all' || transaction.status === statusFilter;
       
@@ -34,7 +40,7 @@ export default function TransactionManagement() {
       
       return matchesSearch && matchesType && matchesStatus && matchesDate;
     }).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  }, [transactions, searchTerm, typeFilter, statusFilter, dateFilter]);
+  }, [transactions, users, searchTerm, typeFilter, statusFilter, dateFilter]);
 
   const handleTransactionAction = (transactionId: string, action: string) => {
     console.log(`Action ${action} sur transaction ${transactionId}`);
@@ -44,6 +50,20 @@ export default function TransactionManagement() {
     }
   };
 
+  // Clôt un litige : la transaction est annulée, avec le motif et la nature de la décision au journal
+  const resolveDispute = async (transaction: Transaction, action: string) => {
+    try {
+      setError(null);
+      await dataSource.transactions.update(transaction.id, { status: 'annule' }, { action, details: disputeReason });
+      setShowDisputeModal(false);
+      setSelectedTransaction(null);
+      setDisputeReason('');
+    } catch (err) {
+      console.error(`Erreur lors du traitement du litige ${transaction.id}:`, err);
+      setError('Erreur lors du traitement du litige. Veuillez réessayer.');
+    }
+  };
+
   const generateReceipt = (transaction: Transaction) => {
     console.log('Génération du reçu pour:', transaction.id);
     // Simulation de génération de reçu
@@ -58,7 +78,7 @@ export default function TransactionManagement() {
     .reduce((sum, t) => sum + t.amount, 0);
 
   const TransactionCard = ({ transaction }: { transaction: Transaction }) => {
-    const user = mockUsers.find(u => u.id === transaction.userId);
+    const user = users.find(u => u.uid === transaction.userId);
     
     return (
       <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700 hover:shadow-md transition-shadow">
@@ -79,7 +99,7 @@ export default function TransactionManagement() {
             </div>
             
             <div className="flex items-center space-x-4 text-sm text-gray-500 dark:text-gray-400 mb-3">
-              <span>{user?.name || 'Utilisateur inconnu'}</span>
+              <span>{getUserFullName(user) || 'Utilisateur inconnu'}</span>
               <span>•</span>
               <span>{new Date(transaction.date).toLocaleDateString()}</span>
             </div>
@@ -118,7 +138,7 @@ export default function TransactionManagement() {
             >
               <Download className="w-4 h-4" />
             </button>
-            {transaction.status === 'en_attente' && (
+            {can('transactions.refund') && transaction.status === 'en_attente' && (
               <button
                 onClick={() => handleTransactionAction(transaction.id, 'dispute')}
                 className="p-2 text-gray-400 hover:text-red-500 transition-colors"
@@ -298,7 +318,7 @@ export default function TransactionManagement() {
                 <div>
                   <label className="text-sm font-medium text-gray-500 dark:text-gray-400">Utilisateur</label>
                   <p className="text-gray-900 dark:text-white">
-                    {mockUsers.find(u => u.id === selectedTransaction.userId)?.name || 'Inconnu'}
+                    {getUserFullName(users.find(u => u.uid === selectedTransaction.userId)) || 'Inconnu'}
                   </p>
                 </div>
               </div>
@@ -316,7 +336,7 @@ export default function TransactionManagement() {
                   <Download className="w-4 h-4" />
                   <span>Générer reçu</span>
                 </button>
-                {selectedTransaction.status === 'en_attente' && (
+                {can('transactions.refund') && selectedTransaction.status === 'en_attente' && (
                   <button
                     onClick={() => setShowDisputeModal(true)}
                     className="flex items-center space-x-2 bg-red-500 text-white px-4 py-2 rounded-lg hover:bg-red-600 transition-colors"
@@ -342,6 +362,11 @@ export default function TransactionManagement() {
             </div>
             
             <div className="p-6 space-y-4">
+              {error && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                   Raison du litige
@@ -357,23 +382,13 @@ export default function TransactionManagement() {
               
               <div className="flex space-x-3">
                 <button
-                  onClick={() => {
-                    console.log('Transaction annulée:', selectedTransaction.id, disputeReason);
-                    setShowDisputeModal(false);
-                    setSelectedTransaction(null);
-                    setDisputeReason('');
-                  }}
+                  onClick={() => resolveDispute(selectedTransaction, 'Annulation transaction')}
                   className="flex-1 bg-red-500 text-white px-4 py-2 rounded-lg hover:bg-red-600 transition-colors"
                 >
                   Annuler transaction
                 </button>
                 <button
-                  onClick={() => {
-                    console.log('Remboursement initié:', selectedTransaction.id, disputeReason);
-                    setShowDisputeModal(false);
-                    setSelectedTransaction(null);
-                    setDisputeReason('');
-                  }}
+                  onClick={() => resolveDispute(selectedTransaction, 'Remboursement transaction')}
                   className="flex-1 bg-orange-500 text-white px-4 py-2 rounded-lg hover:bg-orange-600 transition-colors"
                 >
                   Rembourser
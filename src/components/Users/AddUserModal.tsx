@@ -0,0 +1,95 @@
+import { FormEvent, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { User } from '../../types';
+import { dataSource } from '../../data';
+import { UserProfileInput, provisionUser, validateUserProfile } from '../../data/userAccounts';
+import { usePermissions } from '../../hooks/usePermissions';
+import UserFormFields from './UserFormFields';
+
+interface AddUserModalProps {
+  onClose: () => void;
+  onCreated: (user: User, invitationSent: boolean) => void;
+}
+
+const EMPTY_USER: UserProfileInput = {
+  nom: '',
+  prenom: '',
+  email: '',
+  telephone: '',
+  addresse: '',
+  typeUsersId: 3,
+  statut: 1,
+};
+
+export default function AddUserModal({ onClose, onCreated }: AddUserModalProps) {
+  const { can } = usePermissions();
+  // Sans droit de bannissement, le statut n'est pas modifiable : le compte est créé en attente de validation
+  const [form, setForm] = useState(() => ({ ...EMPTY_USER, statut: can('users.ban') ? 1 : 2 }));
+  const [showErrors, setShowErrors] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const errors = validateUserProfile(form);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (errors.length) {
+      setShowErrors(true);
+      return;
+    }
+    try {
+      setSaving(true);
+      setError(null);
+      const { uid, invitationSent } = await provisionUser(dataSource, form);
+      const created = await dataSource.users.getById(uid);
+      if (created) onCreated(created, invitationSent);
+    } catch (err) {
+      console.error('Erreur lors de la création de l’utilisateur :', err);
+      setError(err instanceof Error ? err.message : 'Erreur lors de la création de l’utilisateur. Veuillez réessayer.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto p-6">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">Ajouter un utilisateur</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Un compte est créé pour cette adresse, et un lien d'invitation lui est envoyé pour choisir son mot de passe.
+        </p>
+        <form onSubmit={handleSubmit}>
+          <UserFormFields
+            form={form}
+            onChange={setForm}
+            errors={showErrors ? errors : []}
+            canEditRole
+            canEditStatus={can('users.ban')}
+            canEditEmail
+            allowAdminRole={false}
+          />
+          {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+              aria-label="Annuler l'ajout"
+            >
+              Annuler
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center space-x-2 px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:opacity-50"
+              aria-label="Ajouter l'utilisateur"
+            >
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>Ajouter</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react';
+import { Loader2, X } from 'lucide-react';
+import { dataSource } from '../../data';
+import {
+  DUPLICATE_CRITERION_LABELS,
+  DuplicateCandidate,
+  MergeReport,
+  findDuplicateCandidates,
+} from '../../data/userMerge';
+import { User } from '../../types';
+import { USER_ROLE_LABELS } from '../../utils/users';
+import MergeUsersModal from './MergeUsersModal';
+
+interface DuplicateUsersModalProps {
+  onClose: () => void;
+  onMerged: () => void;
+}
+
+// Comptes probablement en double, à fusionner un par un
+export default function DuplicateUsersModal({ onClose, onMerged }: DuplicateUsersModalProps) {
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [mergePair, setMergePair] = useState<DuplicateCandidate | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const loadCandidates = async () => {
+      try {
+        setLoading(true);
+        setCandidates(findDuplicateCandidates(await dataSource.users.getAll()));
+      } catch (err) {
+        console.error('Erreur lors de la recherche des doublons :', err);
+        setError('Erreur lors de la recherche des doublons. Veuillez réessayer.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadCandidates();
+  }, [reloadKey]);
+
+  // Les paires sont recalculées : le doublon n'en fait plus partie et le compte conservé a changé
+  const handleMerged = (kept: User, merged: User, report: MergeReport) => {
+    setMergePair(null);
+    setReloadKey((key) => key + 1);
+    setNotice(
+      `${merged.email} fusionné dans ${kept.email} : ${report.contracts} contrat(s), ${report.transactions} transaction(s), ` +
+        `${report.properties} propriété(s) et ${report.messages} message(s) rattachés.`
+    );
+    onMerged();
+  };
+
+  const describe = (user: User) => (
+    <div className="min-w-0">
+      <p className="font-medium text-gray-900 dark:text-white truncate">
+        {user.prenom} {user.nom}
+      </p>
+      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+        {user.email} · {USER_ROLE_LABELS[user.typeUsersId] ?? 'Rôle inconnu'}
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">Doublons probables</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+            aria-label="Fermer"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {notice && <p className="text-sm text-green-700 dark:text-green-400 mb-4">{notice}</p>}
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+        {loading ? (
+          <div className="flex items-center space-x-2 text-gray-500 dark:text-gray-400">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            <span>Recherche des doublons…</span>
+          </div>
+        ) : !candidates.length ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Aucun doublon probable.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-slate-700">
+            {candidates.map((candidate) => (
+              <li key={`${candidate.first.uid}|${candidate.second.uid}`} className="py-3 flex items-center space-x-4">
+                <span className="w-12 text-center text-sm font-semibold text-orange-600">{candidate.score}%</span>
+                <div className="flex-1 grid grid-cols-2 gap-4 min-w-0">
+                  {describe(candidate.first)}
+                  {describe(candidate.second)}
+                  <div className="col-span-2 flex flex-wrap gap-1">
+                    {candidate.criteria.map((criterion) => (
+                      <span
+                        key={criterion}
+                        className="px-2 py-0.5 rounded-full text-xs bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-300"
+                      >
+                        {DUPLICATE_CRITERION_LABELS[criterion]}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <button
+                  onClick={() => setMergePair(candidate)}
+                  className="px-3 py-2 text-sm text-orange-600 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-lg"
+                >
+                  Fusionner
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {mergePair && (
+        <MergeUsersModal
+          first={mergePair.first}
+          second={mergePair.second}
+          onClose={() => setMergePair(null)}
+          onMerged={handleMerged}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { FormEvent, useState } from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { User } from '../../types';
+import { dataSource } from '../../data';
+import { UserProfileInput, saveUserProfile, validateUserProfile } from '../../data/userAccounts';
+import { usePermissions } from '../../hooks/usePermissions';
+import { ADMIN_ROLE_ID } from '../../utils/users';
+import UserFormFields from './UserFormFields';
+
+interface EditUserModalProps {
+  user: User;
+  onClose: () => void;
+  onSaved: (user: User) => void;
+}
+
+const FIELD_LABELS: Record<keyof UserProfileInput, string> = {
+  nom: 'nom',
+  prenom: 'prénom',
+  email: 'email',
+  telephone: 'téléphone',
+  addresse: 'adresse',
+  typeUsersId: 'rôle',
+  statut: 'statut',
+  adminRole: 'sous-rôle',
+};
+
+const toInput = (user: User): UserProfileInput => ({
+  nom: user.nom,
+  prenom: user.prenom,
+  email: user.email,
+  telephone: user.telephone,
+  addresse: user.addresse,
+  typeUsersId: user.typeUsersId,
+  statut: user.statut,
+  adminRole: user.adminRole,
+});
+
+export default function EditUserModal({ user, onClose, onSaved }: EditUserModalProps) {
+  const { can } = usePermissions();
+  // Profil de référence pour la détection des modifications concurrentes
+  const [base, setBase] = useState(user);
+  const [form, setForm] = useState(() => toInput(user));
+  const [conflict, setConflict] = useState<User | null>(null);
+  const [showErrors, setShowErrors] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const errors = validateUserProfile(form);
+  const conflictFields = conflict
+    ? (Object.keys(FIELD_LABELS) as (keyof UserProfileInput)[]).filter((field) => conflict[field] !== base[field])
+    : [];
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (errors.length) {
+      setShowErrors(true);
+      return;
+    }
+    try {
+      setSaving(true);
+      setError(null);
+      // Seuls les champs autorisés au rôle courant sont envoyés, comme l'exigent les règles Firestore
+      const result = await saveUserProfile(dataSource, base, {
+        nom: form.nom,
+        prenom: form.prenom,
+        telephone: form.telephone,
+        addresse: form.addresse,
+        ...(can('admins.manage') && {
+          typeUsersId: form.typeUsersId,
+          ...(form.typeUsersId === ADMIN_ROLE_ID && form.adminRole && { adminRole: form.adminRole }),
+        }),
+        ...(can('users.ban') && { statut: form.statut }),
+      });
+      if (result.status === 'conflict') setConflict(result.current);
+      else onSaved(result.user);
+    } catch (err) {
+      console.error('Erreur lors de la mise à jour :', err);
+      setError('Erreur lors de la mise à jour de l’utilisateur. Veuillez réessayer.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Recharger le profil actuel, en abandonnant la saisie
+  const handleReload = () => {
+    if (!conflict) return;
+    setBase(conflict);
+    setForm(toInput(conflict));
+    setConflict(null);
+  };
+
+  // Conserver la saisie : le prochain enregistrement remplacera la version actuelle
+  const handleKeep = () => {
+    if (!conflict) return;
+    setBase(conflict);
+    setConflict(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto p-6">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">Modifier l'utilisateur</h2>
+
+        {conflict && (
+          <div className="mb-4 p-4 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200 rounded-lg text-sm">
+            <p className="flex items-center space-x-2 font-medium">
+              <AlertTriangle className="w-4 h-4" />
+              <span>Ce profil a été modifié ailleurs depuis l'ouverture du formulaire.</span>
+            </p>
+            <p className="mt-1">
+              {conflictFields.length
+                ? `Champs modifiés : ${conflictFields.map((field) => FIELD_LABELS[field]).join(', ')}.`
+                : 'Aucun champ du formulaire n’est concerné.'}{' '}
+              Dernière mise à jour le {new Date(conflict.lastUpdated).toLocaleString('fr-FR')}.
+            </p>
+            <div className="flex space-x-2 mt-3">
+              <button
+                type="button"
+                onClick={handleReload}
+                className="px-3 py-1.5 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700"
+              >
+                Recharger le profil
+              </button>
+              <button
+                type="button"
+                onClick={handleKeep}
+                className="px-3 py-1.5 border border-yellow-600 rounded-lg hover:bg-yellow-100 dark:hover:bg-yellow-900/40"
+              >
+                Conserver mes modifications
+              </button>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit}>
+          <UserFormFields
+            form={form}
+            onChange={setForm}
+            errors={showErrors ? errors : []}
+            canEditRole={can('admins.manage')}
+            canEditStatus={can('users.ban')}
+            canEditEmail={false}
+            allowAdminRole
+          />
+          {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+              aria-label="Annuler la modification"
+            >
+              Annuler
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !!conflict}
+              className="flex items-center space-x-2 px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:opacity-50"
+              aria-label="Enregistrer les modifications"
+            >
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>Enregistrer</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { dataSource } from '../../data';
+import { UserListFilters, fetchAllUserPages } from '../../data/userQuery';
+import { USER_EXPORT_COLUMNS, UserExportColumn, getUserExportRows } from '../../data/userTransfer';
+import { downloadFile, toCsv } from '../../utils/export';
+import { toXlsx } from '../../utils/xlsx';
+
+interface ExportUsersModalProps {
+  filters: UserListFilters;
+  total: number;
+  onClose: () => void;
+}
+
+type ExportFormat = 'csv' | 'xlsx';
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const ALL_COLUMNS = Object.keys(USER_EXPORT_COLUMNS) as UserExportColumn[];
+
+// Export de la vue filtrée de la liste des utilisateurs, toutes pages confondues
+export default function ExportUsersModal({ filters, total, onClose }: ExportUsersModalProps) {
+  const [columns, setColumns] = useState<UserExportColumn[]>(ALL_COLUMNS);
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Les colonnes gardent l'ordre de la liste, quel que soit l'ordre des clics
+  const toggleColumn = (column: UserExportColumn) =>
+    setColumns(ALL_COLUMNS.filter((c) => (c === column) !== columns.includes(c)));
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      setError(null);
+      const users = await fetchAllUserPages(dataSource, filters);
+      const rows = getUserExportRows(users, columns);
+      const fileName = `utilisateurs-${new Date().toISOString().slice(0, 10)}`;
+      if (format === 'xlsx') {
+        downloadFile(toXlsx(rows, 'Utilisateurs'), `${fileName}.xlsx`, XLSX_MIME_TYPE);
+      } else {
+        downloadFile(`\uFEFF${toCsv(rows)}`, `${fileName}.csv`, 'text/csv;charset=utf-8');
+      }
+      onClose();
+    } catch (err) {
+      console.error("Erreur lors de l'export des utilisateurs :", err);
+      setError("Erreur lors de l'export des utilisateurs. Veuillez réessayer.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto p-6">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">Exporter les utilisateurs</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          {total} utilisateur(s) correspondant aux filtres et à la recherche en cours.
+        </p>
+
+        <h3 className="font-medium text-gray-900 dark:text-white mb-2">Colonnes</h3>
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          {ALL_COLUMNS.map((column) => (
+            <label key={column} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={columns.includes(column)}
+                onChange={() => toggleColumn(column)}
+                className="w-4 h-4 accent-orange-500"
+              />
+              <span>{USER_EXPORT_COLUMNS[column]}</span>
+            </label>
+          ))}
+        </div>
+
+        <h3 className="font-medium text-gray-900 dark:text-white mb-2">Format</h3>
+        <div className="flex space-x-4 mb-4">
+          {(['xlsx', 'csv'] as ExportFormat[]).map((value) => (
+            <label key={value} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="radio"
+                name="export-format"
+                checked={format === value}
+                onChange={() => setFormat(value)}
+                className="accent-orange-500"
+              />
+              <span>{value === 'xlsx' ? 'Excel (.xlsx)' : 'CSV (.csv)'}</span>
+            </label>
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+        <div className="flex justify-end space-x-2">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg">
+            Annuler
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={exporting || !columns.length || !total}
+            className="flex items-center space-x-2 px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:opacity-50"
+          >
+            {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            <span>Exporter</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
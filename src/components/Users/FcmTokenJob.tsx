@@ -0,0 +1,18 @@
+import { useCallback } from 'react';
+import { dataSource } from '../../data';
+import { FCM_TOKEN_CHECK_JOB_ID, runFcmTokenCheck } from '../../data/notifications';
+import { useAuth } from '../../hooks/useAuth';
+import { useDailyJob } from '../../hooks/useDailyJob';
+import { usePermissions } from '../../hooks/usePermissions';
+
+// Vérification quotidienne des jetons FCM en échec, exécutée par la session d'un administrateur
+// habilité à modifier les utilisateurs
+export default function FcmTokenJob() {
+  const { admin } = useAuth();
+  const { can } = usePermissions();
+
+  const run = useCallback(() => runFcmTokenCheck(dataSource, admin?.uid ?? ''), [admin]);
+  useDailyJob(FCM_TOKEN_CHECK_JOB_ID, run, !!admin && can('users.edit'));
+
+  return null;
+}
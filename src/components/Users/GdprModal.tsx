@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { Download, Loader2, Trash2 } from 'lucide-react';
+import { User } from '../../types';
+import { dataSource } from '../../data';
+import { GdprErasureReport, buildGdprArchive, eraseUserData } from '../../data/gdpr';
+import { downloadFile } from '../../utils/export';
+
+interface GdprModalProps {
+  user: User;
+  adminId: string;
+  onClose: () => void;
+  onErased: () => void;
+}
+
+// Demandes d'accès et d'effacement (RGPD) portant sur un utilisateur
+export default function GdprModal({ user, adminId, onClose, onErased }: GdprModalProps) {
+  const [working, setWorking] = useState<'export' | 'erase' | null>(null);
+  const [confirmation, setConfirmation] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<GdprErasureReport | null>(null);
+
+  const handleExport = async () => {
+    try {
+      setWorking('export');
+      setError(null);
+      const archive = await buildGdprArchive(dataSource, user, adminId);
+      downloadFile(archive.data, archive.fileName, 'application/zip');
+      setNotice(
+        archive.missingFiles.length
+          ? `Archive téléchargée ; ${archive.missingFiles.length} fichier(s) n'ont pas pu y être joints (voir LISEZMOI.txt).`
+          : 'Archive téléchargée.'
+      );
+    } catch (err) {
+      console.error(`Erreur lors de l'export RGPD de ${user.uid} :`, err);
+      setError("Erreur lors de l'export des données. Veuillez réessayer.");
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleErase = async () => {
+    try {
+      setWorking('erase');
+      setError(null);
+      setReport(await eraseUserData(dataSource, user, adminId));
+      onErased();
+    } catch (err) {
+      console.error(`Erreur lors de l'effacement RGPD de ${user.uid} :`, err);
+      setError(
+        err instanceof Error
+          ? `Effacement interrompu : ${err.message}. Il peut être relancé pour terminer.`
+          : "Erreur lors de l'effacement des données. Veuillez réessayer."
+      );
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto p-6">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">Données personnelles (RGPD)</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          {user.prenom} {user.nom} · {user.email}
+        </p>
+
+        {report ? (
+          <div className="space-y-2 text-sm text-gray-700 dark:text-gray-300 mb-4">
+            <p className="font-medium text-green-700 dark:text-green-400">Données effacées.</p>
+            <p>Pseudonyme : {report.pseudonymId}</p>
+            <ul className="list-disc pl-5">
+              <li>{report.transactions} transaction(s) et {report.contracts} contrat(s) pseudonymisés</li>
+              <li>{report.properties} propriété(s) rejetée(s) et pseudonymisée(s)</li>
+              <li>{report.messages} message(s) et {report.pushNotifications} notification(s) supprimés</li>
+              <li>{report.activityLogs} entrée(s) du journal d'activité pseudonymisée(s)</li>
+              <li>{report.removedFiles} fichier(s) supprimé(s) du stockage</li>
+              {!report.accountFailure && <li>Compte de connexion supprimé</li>}
+            </ul>
+            {report.accountFailure && (
+              <p className="text-red-600">
+                Compte de connexion non supprimé ({report.accountFailure}) : à supprimer depuis la console Firebase
+                Authentication. Le compte reste banni.
+              </p>
+            )}
+            {report.fileFailures.length > 0 && (
+              <div>
+                <p className="text-red-600">Fichiers à supprimer manuellement :</p>
+                <ul className="list-disc pl-5 text-xs break-all">
+                  {report.fileFailures.map((failure) => (
+                    <li key={failure.path}>
+                      {failure.path} : {failure.reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div>
+              <p className="font-medium">Données conservées :</p>
+              <ul className="list-disc pl-5 text-xs">
+                {report.retained.map((item) => (
+                  <li key={item}>{item}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        ) : (
+          <>
+            <h3 className="font-medium text-gray-900 dark:text-white mb-1">Droit d'accès</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+              Archive zip du profil, des pièces d'identité, propriétés, contrats, transactions et messages.
+            </p>
+            <button
+              onClick={handleExport}
+              disabled={working !== null}
+              className="flex items-center space-x-2 px-4 py-2 mb-6 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:opacity-50"
+            >
+              {working === 'export' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              <span>Exporter les données</span>
+            </button>
+
+            <h3 className="font-medium text-gray-900 dark:text-white mb-1">Droit à l'effacement</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+              Le profil est anonymisé et le compte banni ; messages, notifications et fichiers sont supprimés.
+              Contrats et transactions, conservés pour les obligations comptables, sont rattachés à un pseudonyme.
+              Les valeurs personnelles du journal d'activité sont masquées, puis le compte de connexion est supprimé ;
+              s'il ne peut pas l'être, il reste banni et est signalé pour une suppression manuelle.
+              Cette opération est irréversible.
+            </p>
+            <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1" htmlFor="gdpr-confirmation">
+              Saisissez l'email de l'utilisateur pour confirmer
+            </label>
+            <input
+              id="gdpr-confirmation"
+              type="email"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              className="w-full p-2 mb-2 border border-gray-300 dark:border-slate-600 rounded-lg dark:bg-slate-700 dark:text-white"
+              placeholder={user.email}
+              autoComplete="off"
+            />
+            <button
+              onClick={handleErase}
+              disabled={working !== null || confirmation.trim().toLowerCase() !== user.email.toLowerCase()}
+              className="flex items-center space-x-2 px-4 py-2 mb-4 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+            >
+              {working === 'erase' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+              <span>Effacer les données</span>
+            </button>
+          </>
+        )}
+
+        {notice && <p className="text-sm text-green-700 dark:text-green-400 mb-4">{notice}</p>}
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+        <div className="flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg">
+            Fermer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
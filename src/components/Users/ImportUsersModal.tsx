@@ -0,0 +1,365 @@
+import { ChangeEvent, useState } from 'react';
+import { Download, Loader2, Upload, X } from 'lucide-react';
+import { dataSource } from '../../data';
+import { BulkProgress } from '../../data/bulkUsers';
+import {
+  IMPORT_FIELD_LABELS,
+  ImportAction,
+  ImportField,
+  ImportMapping,
+  ImportReport,
+  ImportRow,
+  commitUserImport,
+  guessImportMapping,
+  planUserImport,
+} from '../../data/userTransfer';
+import { usePermissions } from '../../hooks/usePermissions';
+import { downloadFile, parseCsv, toCsv } from '../../utils/export';
+import { parseXlsx } from '../../utils/xlsx';
+
+interface ImportUsersModalProps {
+  onClose: () => void;
+  // Appelé après l'import, pour recharger la liste
+  onImported: () => void;
+}
+
+type ImportStep = 'file' | 'mapping' | 'preview' | 'report';
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: 'Création',
+  update: 'Mise à jour',
+  unchanged: 'Inchangé',
+  invalid: 'Rejetée',
+};
+
+const ACTION_COLORS: Record<ImportAction, string> = {
+  create: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300',
+  update: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300',
+  unchanged: 'bg-gray-100 text-gray-700 dark:bg-slate-700 dark:text-gray-300',
+  invalid: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300',
+};
+
+// Lignes affichées dans l'aperçu ; le rapport téléchargeable les reprend toutes
+const PREVIEW_LIMIT = 200;
+
+// Assistant d'import : fichier CSV ou Excel, correspondance des colonnes, aperçu, puis import par lots
+export default function ImportUsersModal({ onClose, onImported }: ImportUsersModalProps) {
+  const { can } = usePermissions();
+  const [step, setStep] = useState<ImportStep>('file');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportMapping>([]);
+  const [plan, setPlan] = useState<ImportRow[]>([]);
+  const [sendInvitations, setSendInvitations] = useState(true);
+  const [progress, setProgress] = useState<BulkProgress | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const counts = plan.reduce<Record<ImportAction, number>>(
+    (total, row) => ({ ...total, [row.action]: total[row.action] + 1 }),
+    { create: 0, update: 0, unchanged: 0, invalid: 0 }
+  );
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      setWorking(true);
+      setError(null);
+      const content = /\.xlsx$/i.test(file.name) ? await parseXlsx(await file.arrayBuffer()) : parseCsv(await file.text());
+      const [header = [], ...data] = content.filter((row) => row.some((cell) => cell.trim() !== ''));
+      if (!data.length) throw new Error('Le fichier ne contient aucune ligne après l’en-tête');
+      setFileName(file.name);
+      setHeaders(header);
+      setRows(data);
+      setMapping(guessImportMapping(header));
+      setStep('mapping');
+    } catch (err) {
+      console.error('Erreur lors de la lecture du fichier :', err);
+      setError(err instanceof Error ? err.message : 'Fichier illisible. Vérifiez son format (CSV ou XLSX).');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleMappingChange = (column: number, field: ImportField | null) =>
+    // Un champ n'alimente qu'une colonne : il est retiré de la colonne qui le portait
+    setMapping(mapping.map((current, index) => (index === column ? field : current === field ? null : current)));
+
+  const handlePreview = async () => {
+    try {
+      setWorking(true);
+      setError(null);
+      const existing = await dataSource.users.getAll();
+      setPlan(
+        planUserImport(rows, mapping, existing, {
+          canEditRole: can('admins.manage'),
+          canEditStatus: can('users.ban'),
+          // Mêmes valeurs par défaut que le formulaire d'ajout
+          defaults: { typeUsersId: 3, statut: can('users.ban') ? 1 : 2 },
+        })
+      );
+      setStep('preview');
+    } catch (err) {
+      console.error("Erreur lors de la préparation de l'import :", err);
+      setError(err instanceof Error ? err.message : "Erreur lors de la préparation de l'import. Veuillez réessayer.");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    try {
+      setWorking(true);
+      setError(null);
+      setReport(await commitUserImport(dataSource, plan, sendInvitations, setProgress));
+      setStep('report');
+      onImported();
+    } catch (err) {
+      console.error("Erreur lors de l'import :", err);
+      setError("Erreur lors de l'import. Veuillez réessayer.");
+    } finally {
+      setWorking(false);
+      setProgress(null);
+    }
+  };
+
+  // Rapport des lignes non importées : rejetées à l'aperçu ou en échec à l'import
+  const handleDownloadErrors = () => {
+    const lines = [
+      ...plan.filter((row) => row.action === 'invalid').map((row) => [row.line, row.email, row.errors.join(' ; ')]),
+      ...(report?.failures ?? []).map((failure) => [failure.line, failure.email, failure.reason]),
+    ].sort((a, b) => Number(a[0]) - Number(b[0]));
+    downloadFile(
+      `\uFEFF${toCsv([['ligne', 'email', 'motif'], ...lines])}`,
+      `import-utilisateurs-erreurs-${new Date().toISOString().slice(0, 10)}.csv`,
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">Importer des utilisateurs</h2>
+            {fileName && <p className="text-sm text-gray-500 dark:text-gray-400">{fileName} · {rows.length} ligne(s)</p>}
+          </div>
+          <button
+            onClick={onClose}
+            disabled={working}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+            aria-label="Fermer l'import"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {step === 'file' && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              Fichier CSV ou Excel (.xlsx) dont la première ligne contient les intitulés des colonnes. Les comptes sont
+              identifiés par leur email : un email inconnu crée un compte, un email existant met à jour le profil.
+            </p>
+            <label className="flex flex-col items-center justify-center p-8 border-2 border-dashed border-gray-300 dark:border-slate-600 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-slate-700">
+              {working ? <Loader2 className="w-6 h-6 animate-spin text-orange-500" /> : <Upload className="w-6 h-6 text-gray-400" />}
+              <span className="mt-2 text-sm text-gray-600 dark:text-gray-300">Choisir un fichier</span>
+              <input type="file" accept=".csv,.xlsx,text/csv" onChange={handleFile} className="hidden" disabled={working} />
+            </label>
+          </div>
+        )}
+
+        {step === 'mapping' && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              Associez chaque colonne à un champ. Les colonnes ignorées et les cellules vides laissent le profil inchangé.
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="py-2">Colonne</th>
+                  <th className="py-2">Exemple</th>
+                  <th className="py-2">Champ</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-slate-700">
+                {headers.map((header, column) => (
+                  <tr key={column}>
+                    <td className="py-2 font-medium text-gray-900 dark:text-white">{header || `Colonne ${column + 1}`}</td>
+                    <td className="py-2 text-gray-500 dark:text-gray-400 truncate max-w-[12rem]">{rows[0]?.[column]}</td>
+                    <td className="py-2">
+                      <select
+                        value={mapping[column] ?? ''}
+                        onChange={(e) => handleMappingChange(column, (e.target.value || null) as ImportField | null)}
+                        className="px-3 py-1.5 border border-gray-300 dark:border-slate-600 rounded-lg dark:bg-slate-700 dark:text-white"
+                        aria-label={`Champ de la colonne ${header}`}
+                      >
+                        <option value="">Ignorer</option>
+                        {(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map((field) => (
+                          <option key={field} value={field}>{IMPORT_FIELD_LABELS[field]}</option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {!mapping.includes('email') && (
+              <p className="text-sm text-yellow-700 dark:text-yellow-300">Une colonne doit correspondre à l'email.</p>
+            )}
+            <div className="flex justify-end space-x-2">
+              <button onClick={() => setStep('file')} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg">
+                Retour
+              </button>
+              <button
+                onClick={handlePreview}
+                disabled={working || !mapping.includes('email')}
+                className="flex items-center space-x-2 px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:opacity-50"
+              >
+                {working && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>Prévisualiser</span>
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(ACTION_LABELS) as ImportAction[]).map((action) => (
+                <span key={action} className={`px-3 py-1 rounded-full text-sm font-medium ${ACTION_COLORS[action]}`}>
+                  {ACTION_LABELS[action]} : {counts[action]}
+                </span>
+              ))}
+            </div>
+            <div className="max-h-80 overflow-y-auto border border-gray-200 dark:border-slate-700 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-gray-50 dark:bg-slate-900">
+                  <tr className="text-left text-gray-500 dark:text-gray-400">
+                    <th className="px-3 py-2">Ligne</th>
+                    <th className="px-3 py-2">Email</th>
+                    <th className="px-3 py-2">Issue</th>
+                    <th className="px-3 py-2">Détail</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-slate-700">
+                  {plan.slice(0, PREVIEW_LIMIT).map((row) => (
+                    <tr key={row.line}>
+                      <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                      <td className="px-3 py-2 text-gray-900 dark:text-white">{row.email || '—'}</td>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_COLORS[row.action]}`}>
+                          {ACTION_LABELS[row.action]}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 text-gray-600 dark:text-gray-300">
+                        {row.action === 'invalid'
+                          ? <span className="text-red-600">{row.errors.join(' ; ')}</span>
+                          : row.changes.map((field) => IMPORT_FIELD_LABELS[field]).join(', ')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {plan.length > PREVIEW_LIMIT && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {PREVIEW_LIMIT} premières lignes affichées sur {plan.length}.
+              </p>
+            )}
+            {counts.create > 0 && (
+              <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={sendInvitations}
+                  onChange={(e) => setSendInvitations(e.target.checked)}
+                  className="w-4 h-4 accent-orange-500"
+                />
+                <span>Envoyer une invitation aux comptes créés</span>
+              </label>
+            )}
+            {progress && (
+              <div className="flex items-center space-x-3">
+                <div className="flex-1 h-2 bg-gray-200 dark:bg-slate-700 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-orange-500 transition-all"
+                    style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                  />
+                </div>
+                <span className="text-sm text-gray-600 dark:text-gray-300">{progress.done} / {progress.total}</span>
+              </div>
+            )}
+            <div className="flex justify-end space-x-2">
+              {counts.invalid > 0 && (
+                <button
+                  onClick={handleDownloadErrors}
+                  className="flex items-center space-x-2 px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>Lignes rejetées</span>
+                </button>
+              )}
+              <button
+                onClick={() => setStep('mapping')}
+                disabled={working}
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+              >
+                Retour
+              </button>
+              <button
+                onClick={handleCommit}
+                disabled={working || !(counts.create + counts.update)}
+                className="flex items-center space-x-2 px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:opacity-50"
+              >
+                {working && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>Importer {counts.create + counts.update} ligne(s)</span>
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'report' && report && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              {report.created} compte(s) créé(s), {report.updated} profil(s) mis à jour, {report.failures.length} échec(s),{' '}
+              {counts.invalid} ligne(s) rejetée(s).
+            </p>
+            {report.invitationFailures.length > 0 && (
+              <p className="text-sm text-yellow-700 dark:text-yellow-300">
+                Invitation non envoyée à : {report.invitationFailures.join(', ')}. Renvoyez-la depuis leur profil.
+              </p>
+            )}
+            {report.failures.length > 0 && (
+              <ul className="divide-y divide-gray-100 dark:divide-slate-700 border border-gray-200 dark:border-slate-700 rounded-lg max-h-60 overflow-y-auto">
+                {report.failures.map((failure) => (
+                  <li key={failure.line} className="px-3 py-2 text-sm">
+                    <p className="font-medium text-gray-900 dark:text-white">Ligne {failure.line} · {failure.email}</p>
+                    <p className="text-red-600">{failure.reason}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex justify-end space-x-2">
+              {report.failures.length + counts.invalid > 0 && (
+                <button
+                  onClick={handleDownloadErrors}
+                  className="flex items-center space-x-2 px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>Rapport d'erreurs</span>
+                </button>
+              )}
+              <button onClick={onClose} className="px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600">
+                Fermer
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { ArrowLeftRight, Loader2 } from 'lucide-react';
+import { User } from '../../types';
+import { dataSource } from '../../data';
+import { KYC_STATUS_LABELS } from '../../data/kyc';
+import {
+  MERGE_FIELD_LABELS,
+  MergeField,
+  MergeReport,
+  MergeSelection,
+  MergeSide,
+  getDefaultMergeSelection,
+  mergeUsers,
+} from '../../data/userMerge';
+
+interface MergeUsersModalProps {
+  first: User;
+  second: User;
+  onClose: () => void;
+  onMerged: (kept: User, merged: User, report: MergeReport) => void;
+}
+
+const MERGE_FIELDS = Object.keys(MERGE_FIELD_LABELS) as MergeField[];
+
+// Valeur affichée d'un champ de fusion
+const describe = (user: User, field: MergeField): string => {
+  if (field === 'cni') {
+    if (!user.cniNumber && !user.cniRecto) return '—';
+    const status = user.kycStatus ? KYC_STATUS_LABELS[user.kycStatus] : 'non examinée';
+    return `${user.cniNumber || 'sans numéro'} · ${status}`;
+  }
+  if (field === 'photoProfil') return user.photoProfil ? 'Photo déposée' : '—';
+  return user[field] || '—';
+};
+
+// Écran de fusion de deux comptes : choix du compte conservé puis de chaque valeur reprise
+export default function MergeUsersModal({ first, second, onClose, onMerged }: MergeUsersModalProps) {
+  const [keptUid, setKeptUid] = useState(first.uid);
+  const [selection, setSelection] = useState<MergeSelection>(() => getDefaultMergeSelection(first, second));
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const kept = keptUid === first.uid ? first : second;
+  const merged = keptUid === first.uid ? second : first;
+  const columns: [MergeSide, User][] = [
+    ['kept', kept],
+    ['merged', merged],
+  ];
+
+  const handleSwap = () => {
+    setKeptUid(merged.uid);
+    setSelection(getDefaultMergeSelection(merged, kept));
+  };
+
+  const handleMerge = async () => {
+    if (!window.confirm(`Fusionner ${merged.email} dans ${kept.email} ? Le doublon sera banni.`)) return;
+    try {
+      setMerging(true);
+      setError(null);
+      onMerged(kept, merged, await mergeUsers(dataSource, kept, merged, selection));
+    } catch (err) {
+      console.error(`Erreur lors de la fusion de ${merged.uid} dans ${kept.uid} :`, err);
+      setError(err instanceof Error ? err.message : 'Erreur lors de la fusion. Veuillez réessayer.');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">Fusionner deux comptes</h2>
+          <button
+            onClick={handleSwap}
+            className="flex items-center space-x-2 px-3 py-2 text-sm text-orange-600 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-lg"
+          >
+            <ArrowLeftRight className="w-4 h-4" />
+            <span>Inverser</span>
+          </button>
+        </div>
+
+        <table className="w-full text-sm mb-4">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400">
+              <th className="py-2 pr-2 font-medium" />
+              <th className="py-2 px-2 font-medium">
+                Compte conservé
+                <span className="block text-xs font-normal">{kept.email}</span>
+              </th>
+              <th className="py-2 px-2 font-medium">
+                Doublon (banni après fusion)
+                <span className="block text-xs font-normal">{merged.email}</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {MERGE_FIELDS.map((field) => (
+              <tr key={field} className="border-t border-gray-200 dark:border-slate-700">
+                <td className="py-2 pr-2 text-gray-500 dark:text-gray-400">{MERGE_FIELD_LABELS[field]}</td>
+                {columns.map(([side, user]) => (
+                  <td key={side} className="py-2 px-2">
+                    <label className="flex items-center space-x-2 text-gray-900 dark:text-white">
+                      <input
+                        type="radio"
+                        name={`merge-${field}`}
+                        checked={selection[field] === side}
+                        onChange={() => setSelection({ ...selection, [field]: side })}
+                        className="accent-orange-500"
+                      />
+                      <span className="break-all">{describe(user, field)}</span>
+                    </label>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          L'email de connexion reste celui du compte conservé. Contrats, transactions, propriétés et messages du
+          doublon lui sont rattachés en une seule opération.
+        </p>
+
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+        <div className="flex justify-end space-x-2">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg">
+            Annuler
+          </button>
+          <button
+            onClick={handleMerge}
+            disabled={merging}
+            className="flex items-center space-x-2 px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:opacity-50"
+          >
+            {merging && <Loader2 className="w-4 h-4 animate-spin" />}
+            <span>Fusionner</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
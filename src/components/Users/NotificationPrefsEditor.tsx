@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { NotificationCategory, User } from '../../types';
+import { dataSource } from '../../data';
+import { NOTIFICATION_CATEGORY_LABELS, isFcmTokenStale } from '../../data/notifications';
+import { usePermissions } from '../../hooks/usePermissions';
+
+interface NotificationPrefsEditorProps {
+  user: User;
+  onSaved: (user: User) => void;
+}
+
+const CATEGORIES = Object.keys(NOTIFICATION_CATEGORY_LABELS) as NotificationCategory[];
+
+// Préférences de notification d'un utilisateur et état de son appareil
+export default function NotificationPrefsEditor({ user, onSaved }: NotificationPrefsEditorProps) {
+  const { can } = usePermissions();
+  const [prefs, setPrefs] = useState(user.notificationPrefs);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const editable = can('users.edit');
+  const changed = CATEGORIES.filter((category) => prefs[category] !== user.notificationPrefs[category]);
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const updateData: Partial<User> = { notificationPrefs: prefs, lastUpdated: new Date().toISOString() };
+      await dataSource.users.update(user.uid, updateData, {
+        action: 'Modification préférences de notification',
+        details: changed
+          .map((category) => `${NOTIFICATION_CATEGORY_LABELS[category]} : ${prefs[category] ? 'activé' : 'désactivé'}`)
+          .join(', '),
+      });
+      onSaved({ ...user, ...updateData });
+    } catch (err) {
+      console.error(`Erreur lors de la mise à jour des préférences de ${user.uid} :`, err);
+      setError('Erreur lors de la mise à jour des préférences. Veuillez réessayer.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <p className="text-sm mb-3">
+        <span className="text-gray-500 dark:text-gray-400">Appareil :</span>
+        {!user.fcmToken ? (
+          <span className="ml-2 text-gray-900 dark:text-white">Aucun appareil enregistré</span>
+        ) : isFcmTokenStale(user) ? (
+          <span className="ml-2 text-red-600">
+            Injoignable depuis le {new Date(user.staleFcmTokenAt ?? '').toLocaleDateString('fr-FR')}
+          </span>
+        ) : (
+          <span className="ml-2 text-green-600">Joignable</span>
+        )}
+      </p>
+
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        {CATEGORIES.map((category) => (
+          <label key={category} className="flex items-center space-x-2 text-sm text-gray-900 dark:text-white">
+            <input
+              type="checkbox"
+              checked={prefs[category]}
+              onChange={(e) => setPrefs({ ...prefs, [category]: e.target.checked })}
+              disabled={!editable || saving}
+              className="accent-orange-500"
+            />
+            <span>{NOTIFICATION_CATEGORY_LABELS[category]}</span>
+          </label>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+      {editable && (
+        <button
+          onClick={handleSave}
+          disabled={!changed.length || saving}
+          className="flex items-center space-x-2 px-3 py-2 text-sm text-orange-600 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          <span>Enregistrer les préférences</span>
+        </button>
+      )}
+    </div>
+  );
+}
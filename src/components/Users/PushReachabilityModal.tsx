@@ -0,0 +1,137 @@
+import { useMemo, useState } from 'react';
+import { Loader2, Play, X } from 'lucide-react';
+import { NotificationCategory } from '../../types';
+import { dataSource } from '../../data';
+import {
+  FCM_TOKEN_CHECK_JOB_ID,
+  NOTIFICATION_CATEGORY_LABELS,
+  PUSH_OUTCOME_LABELS,
+  PushOutcome,
+  getPushReachability,
+  runFcmTokenCheck,
+} from '../../data/notifications';
+import { useAuth } from '../../hooks/useAuth';
+import { useCollection } from '../../hooks/useCollection';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useSettings } from '../../hooks/useSettings';
+
+interface PushReachabilityModalProps {
+  onClose: () => void;
+}
+
+const CATEGORIES = Object.keys(NOTIFICATION_CATEGORY_LABELS) as NotificationCategory[];
+
+// Raisons d'injoignabilité détaillées dans le rapport ; 'disabled' s'affiche en bandeau
+const UNREACHABLE_OUTCOMES: PushOutcome[] = ['opted_out', 'no_token', 'stale_token'];
+
+// Rapport de joignabilité par notification push, par catégorie de notification
+export default function PushReachabilityModal({ onClose }: PushReachabilityModalProps) {
+  const { admin } = useAuth();
+  const { can } = usePermissions();
+  const { settings } = useSettings();
+  const { data: users, loading } = useCollection(dataSource.users);
+  const { data: jobRuns } = useCollection(dataSource.jobRuns);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reachability = useMemo(() => getPushReachability(users, settings), [users, settings]);
+  const lastRun = jobRuns.find((run) => run.id === FCM_TOKEN_CHECK_JOB_ID);
+
+  const handleRun = async () => {
+    try {
+      setRunning(true);
+      setError(null);
+      await runFcmTokenCheck(dataSource, admin?.uid ?? '');
+    } catch (err) {
+      console.error('Erreur lors de la vérification des jetons FCM :', err);
+      setError('La vérification des jetons a échoué. Veuillez réessayer.');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">Joignabilité par notification push</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+            aria-label="Fermer"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!settings.notifications.pushNotifications && (
+          <p className="text-sm text-red-600 mb-4">{PUSH_OUTCOME_LABELS.disabled} : aucun utilisateur n'est joignable.</p>
+        )}
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+        {loading ? (
+          <div className="flex items-center space-x-2 text-gray-500 dark:text-gray-400">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            <span>Chargement des utilisateurs…</span>
+          </div>
+        ) : (
+          <table className="w-full text-sm mb-4">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="py-2 pr-2 font-medium">Catégorie</th>
+                <th className="py-2 px-2 font-medium">Joignables</th>
+                {UNREACHABLE_OUTCOMES.map((outcome) => (
+                  <th key={outcome} className="py-2 px-2 font-medium">
+                    {PUSH_OUTCOME_LABELS[outcome]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {CATEGORIES.map((category) => {
+                const counts = reachability[category];
+                const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+                return (
+                  <tr key={category} className="border-t border-gray-200 dark:border-slate-700">
+                    <td className="py-2 pr-2 text-gray-900 dark:text-white">{NOTIFICATION_CATEGORY_LABELS[category]}</td>
+                    <td className="py-2 px-2 font-semibold text-green-600">
+                      {counts.enqueued} / {total}
+                    </td>
+                    {UNREACHABLE_OUTCOMES.map((outcome) => (
+                      <td key={outcome} className="py-2 px-2 text-gray-600 dark:text-gray-300">
+                        {counts[outcome]}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          Utilisateurs actifs, hors administrateurs. Un jeton est périmé lorsque le dernier envoi vers l'appareil
+          a échoué ; il est remplacé à la prochaine connexion de l'utilisateur à l'application.
+        </p>
+
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-gray-400">
+            {lastRun
+              ? `Dernière vérification des jetons le ${new Date(lastRun.lastRunAt).toLocaleString('fr-FR')} : ${lastRun.summary}`
+              : "La vérification quotidienne des jetons n'a pas encore été exécutée."}
+          </p>
+          {can('users.edit') && (
+            <button
+              onClick={handleRun}
+              disabled={running}
+              className="flex items-center space-x-2 px-3 py-2 text-sm border border-orange-300 text-orange-600 rounded-lg hover:bg-orange-50 dark:hover:bg-orange-900/20 transition-colors disabled:opacity-50"
+            >
+              {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+              <span>Vérifier les jetons</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
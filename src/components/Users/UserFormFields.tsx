@@ -0,0 +1,108 @@
+import { AdminRole } from '../../types';
+import { UserProfileInput, UserValidationError } from '../../data/userAccounts';
+import { ADMIN_ROLE_LABELS } from '../../utils/permissions';
+import { ADMIN_ROLE_ID, USER_ROLE_LABELS } from '../../utils/users';
+
+interface UserFormFieldsProps {
+  form: UserProfileInput;
+  onChange: (form: UserProfileInput) => void;
+  errors: UserValidationError[];
+  canEditRole: boolean;
+  canEditStatus: boolean;
+  // L'email, identifiant de connexion, n'est saisi qu'à la création du compte
+  canEditEmail: boolean;
+  // Le rôle administrateur n'est proposé qu'à la modification, avec son sous-rôle
+  allowAdminRole: boolean;
+}
+
+const inputClassName = 'w-full p-2 border border-gray-300 rounded-lg dark:bg-slate-700 dark:text-white disabled:opacity-60';
+
+// Champs communs aux formulaires d'ajout et de modification d'un utilisateur
+export default function UserFormFields({
+  form,
+  onChange,
+  errors,
+  canEditRole,
+  canEditStatus,
+  canEditEmail,
+  allowAdminRole,
+}: UserFormFieldsProps) {
+  const errorOf = (field: keyof UserProfileInput) => errors.find((error) => error.field === field)?.message;
+
+  const textField = (
+    field: 'nom' | 'prenom' | 'email' | 'telephone' | 'addresse',
+    label: string,
+    type = 'text',
+    readOnlyHint?: string
+  ) => {
+    const error = errorOf(field);
+    return (
+      <div className="mb-4">
+        <input
+          type={type}
+          value={form[field]}
+          onChange={(e) => onChange({ ...form, [field]: e.target.value })}
+          className={`${inputClassName} ${error ? 'border-red-500' : ''}`}
+          placeholder={label}
+          aria-label={label}
+          aria-invalid={!!error}
+          disabled={!!readOnlyHint}
+        />
+        {readOnlyHint && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{readOnlyHint}</p>}
+        {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      {textField('nom', 'Nom')}
+      {textField('prenom', 'Prénom')}
+      {textField(
+        'email',
+        'Email',
+        'email',
+        canEditEmail ? undefined : "Identifiant de connexion : il ne peut pas être modifié depuis la console"
+      )}
+      {textField('telephone', 'Téléphone', 'tel')}
+      {textField('addresse', 'Adresse')}
+      <select
+        value={form.typeUsersId}
+        onChange={(e) => onChange({ ...form, typeUsersId: Number(e.target.value) })}
+        className={`${inputClassName} mb-4`}
+        aria-label="Rôle de l'utilisateur"
+        disabled={!canEditRole}
+      >
+        {Object.entries(USER_ROLE_LABELS)
+          .filter(([id]) => allowAdminRole || Number(id) !== ADMIN_ROLE_ID)
+          .map(([id, label]) => (
+            <option key={id} value={id}>{label}</option>
+          ))}
+      </select>
+      <select
+        value={form.statut}
+        onChange={(e) => onChange({ ...form, statut: Number(e.target.value) })}
+        className={`${inputClassName} mb-4`}
+        aria-label="Statut de l'utilisateur"
+        disabled={!canEditStatus}
+      >
+        <option value={1}>Actif</option>
+        <option value={0}>Banni</option>
+        <option value={2}>En attente</option>
+      </select>
+      {allowAdminRole && form.typeUsersId === ADMIN_ROLE_ID && canEditRole && (
+        <select
+          value={form.adminRole ?? ''}
+          onChange={(e) => onChange({ ...form, adminRole: e.target.value as AdminRole })}
+          className={`${inputClassName} mb-4`}
+          aria-label="Sous-rôle de l'administrateur"
+        >
+          <option value="" disabled>Sous-rôle administrateur</option>
+          {(Object.keys(ADMIN_ROLE_LABELS) as AdminRole[]).map((role) => (
+            <option key={role} value={role}>{ADMIN_ROLE_LABELS[role]}</option>
+          ))}
+        </select>
+      )}
+    </>
+  );
+}
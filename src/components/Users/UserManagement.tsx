@@ -1,64 +1,62 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { Search, Plus, Edit, Ban, Check, X, Eye } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Search, Plus, Edit, Ban, Check, X, Eye, ShieldCheck, Download, MessageSquare, Loader2, ChevronLeft, ChevronRight, RefreshCw, Upload, FileLock, Users, History, BellRing } from 'lucide-react';
 import { User } from '../../types';
-import { getCollection, updateDocument } from '../../firebase/firebaseService';
-
-// Interface User pour un typage strict
-
-
-// Fonction fetchUsers avec gestion des erreurs
-export const fetchUsers = async (): Promise<User[]> => {
-  try {
-    const users = await getCollection('Users');
-    return users.map((user: any) => ({
-      uid: user.id,
-      nom: user.nom || '',
-      prenom: user.prenom || '',
-      email: user.email || '',
-      telephone: user.telephone || '',
-      photoProfil: user.photoProfil || '',
-      cniNumber: user.cniNumber || '',
-      CNIDateDelivrer: user.CNIDateDelivrer || '',
-      cniExpirationDate: user.cniExpirationDate || '',
-      cniRecto: user.cniRecto || '',
-      cniVerso: user.cniVerso || '',
-      addresse: user.addresse || '',
-      fcmToken: user.fcmToken || '',
-      lastUpdated: user.lastUpdated || '',
-      etat: user.etat ?? 1,
-      statut: user.statut ?? 1,
-      typeUsersId: user.typeUsersId ?? 3,
-      notificationPrefs: {
-        messages: user.notificationPrefs?.messages ?? true,
-        newProperties: user.notificationPrefs?.newProperties ?? true,
-        payments: user.notificationPrefs?.payments ?? true,
-        reservations: user.notificationPrefs?.reservations ?? true,
-        visits: user.notificationPrefs?.visits ?? true,
-      },
-    })) as User[];
-  } catch (error) {
-    console.error('Erreur lors de la récupération des utilisateurs :', error);
-    throw error;
-  }
-};
-
-// Mappage des rôles et statuts 
-const roleMap: { [key: number]: string } = {
-  1: 'Visiteurs',
-  2: 'Locataires',
-  3: 'Proprietaire',
-  4: 'Administrateur',
-  6: 'Agence immobilière',
-};
+import { dataSource } from '../../data';
+import { StoreCursor } from '../../data/dataSource';
+import { useAuth } from '../../hooks/useAuth';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useUrlState } from '../../hooks/useUrlState';
+import { ADMIN_ROLE_ID, USER_ROLE_LABELS } from '../../utils/users';
+import { disableTwoFactor } from '../../data/twoFactor';
+import { getKycStatus } from '../../data/kyc';
+import {
+  BulkPlanner,
+  BulkProgress,
+  BulkReport,
+  planApproval,
+  planBan,
+  planMessage,
+  planRoleChange,
+  runBulkUserOperation,
+} from '../../data/bulkUsers';
+import {
+  USER_PAGE_SIZE,
+  USER_SEARCH_FIELD_LABELS,
+  UserListFilters,
+  UserSearchField,
+  countUsers,
+  fetchUserPage,
+  findUsersToIndex,
+  planSearchFields,
+} from '../../data/userQuery';
+import { sendPasswordResetLink } from '../../data/userAccounts';
+import { getUserExportRows } from '../../data/userTransfer';
+import { downloadFile, toCsv } from '../../utils/export';
+import AddUserModal from './AddUserModal';
+import EditUserModal from './EditUserModal';
+import ExportUsersModal from './ExportUsersModal';
+import ImportUsersModal from './ImportUsersModal';
+import GdprModal from './GdprModal';
+import DuplicateUsersModal from './DuplicateUsersModal';
+import UserTimeline from './UserTimeline';
+import NotificationPrefsEditor from './NotificationPrefsEditor';
+import PushReachabilityModal from './PushReachabilityModal';
 
+// Mappage des statuts ; les rôles sont dans USER_ROLE_LABELS
 const statusMap: { [key: number]: string } = {
   1: 'actif',
   0: 'banni',
   2: 'en_attente',
 };
 
+// Paramètres d'URL de la liste (page, filtres, recherche et tri), omis quand ils valent leur défaut
+const URL_DEFAULTS = { page: '1', role: '', statut: '', q: '', by: 'nom', sort: 'lastUpdated' };
+
+// Délai de saisie avant de lancer la recherche
+const SEARCH_DEBOUNCE_MS = 300;
+
 // Fonctions utilitaires
-const getRoleLabel = (typeUsersId: number) => roleMap[typeUsersId] || 'Inconnu';
+const getRoleLabel = (typeUsersId: number) => USER_ROLE_LABELS[typeUsersId] || 'Inconnu';
 const getStatusLabel = (statut: number) => statusMap[statut] || 'Inconnu';
 const formatDate = (dateString: string) => {
   const date = new Date(dateString);
@@ -67,81 +65,239 @@ const formatDate = (dateString: string) => {
 
 export default function UserManagement() {
   const [users, setUsers] = useState<User[]>([]);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [roleFilter, setRoleFilter] = useState('all');
-  const [statusFilter, setStatusFilter] = useState('all');
-  const [sortBy, setSortBy] = useState('lastUpdated');
+  const [urlState, setUrlState] = useUrlState(URL_DEFAULTS);
+  const [searchInput, setSearchInput] = useState(urlState.q);
+  const [total, setTotal] = useState(0);
+  const [hasNextPage, setHasNextPage] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showDuplicatesModal, setShowDuplicatesModal] = useState(false);
+  const [showReachabilityModal, setShowReachabilityModal] = useState(false);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [editUser, setEditUser] = useState<User | null>(null);
-  const [newUser, setNewUser] = useState<Partial<User>>({
-    nom: '',
-    prenom: '',
-    email: '',
-    typeUsersId: 3,
-    statut: 1,
-  });
+  const [gdprUser, setGdprUser] = useState<User | null>(null);
+  // Fil d'activité affiché dans le profil, tant que le même utilisateur reste sélectionné
+  const [timelineUid, setTimelineUid] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkRole, setBulkRole] = useState('');
+  const [showBulkMessage, setShowBulkMessage] = useState(false);
+  const [bulkMessage, setBulkMessage] = useState('');
+  const [bulkProgress, setBulkProgress] = useState<BulkProgress | null>(null);
+  const [bulkReport, setBulkReport] = useState<{ title: string; report: BulkReport } | null>(null);
+  // Curseur de début de chaque page déjà parcourue (null pour la première), pour les filtres courants
+  const pageCursors = useRef<{ key: string; cursors: (StoreCursor | null)[] }>({ key: '', cursors: [null] });
+  const { admin } = useAuth();
+  const { can } = usePermissions();
+
+  const page = Math.max(1, Math.floor(Number(urlState.page)) || 1);
+  const pageCount = Math.max(1, Math.ceil(total / USER_PAGE_SIZE));
+  const filters = useMemo<UserListFilters>(
+    () => ({
+      role: urlState.role ? Number(urlState.role) : null,
+      statut: urlState.statut ? Number(urlState.statut) : null,
+      search: urlState.q,
+      searchField: Object.keys(USER_SEARCH_FIELD_LABELS).includes(urlState.by) ? (urlState.by as UserSearchField) : 'nom',
+      sort: urlState.sort === 'name' ? 'name' : 'lastUpdated',
+    }),
+    [urlState.role, urlState.statut, urlState.q, urlState.by, urlState.sort]
+  );
 
-  // Charger les utilisateurs
+  // Lancer la recherche une fois la saisie terminée, en revenant à la première page
   useEffect(() => {
-    const loadUsers = async () => {
+    const timeout = window.setTimeout(() => {
+      if (searchInput !== urlState.q) setUrlState({ q: searchInput, page: '1' });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timeout);
+  }, [searchInput, urlState.q, setUrlState]);
+
+  // Charger la page courante, filtrée et triée par Firestore
+  useEffect(() => {
+    let cancelled = false;
+    const loadPage = async () => {
       try {
         setLoading(true);
-        const fetchedUsers = await fetchUsers();
-        setUsers(fetchedUsers);
+        setError(null);
+        const key = JSON.stringify(filters);
+        if (pageCursors.current.key !== key) pageCursors.current = { key, cursors: [null] };
+        const { cursors } = pageCursors.current;
+        // Une page ouverte directement depuis l'URL est atteinte en parcourant les précédentes
+        let index = Math.min(page, cursors.length) - 1;
+        let result = await fetchUserPage(dataSource, filters, cursors[index]);
+        while (index < page - 1 && result.cursor !== null) {
+          index += 1;
+          cursors[index] = result.cursor;
+          result = await fetchUserPage(dataSource, filters, result.cursor);
+        }
+        if (result.cursor !== null) cursors[index + 1] = result.cursor;
+        const count = await countUsers(dataSource, filters);
+        if (cancelled) return;
+        setUsers(result.items);
+        setHasNextPage(result.cursor !== null);
+        setTotal(count);
+        // Page demandée au-delà de la dernière : afficher la dernière
+        if (index + 1 !== page) setUrlState({ page: String(index + 1) });
       } catch (err) {
         setError('Erreur lors du chargement des utilisateurs. Veuillez réessayer plus tard.');
         console.error(err);
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
-    loadUsers();
-  }, []);
-
-  // Filtrer et trier les utilisateurs avec useMemo
-  const filteredUsers = useMemo(() => {
-    return users
-      .filter(user => {
-        const matchesSearch =
-          `${user.nom} ${user.prenom}`.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          user.email.toLowerCase().includes(searchTerm.toLowerCase());
-        const matchesRole = roleFilter === 'all' || getRoleLabel(user.typeUsersId) === roleFilter;
-        const matchesStatus = statusFilter === 'all' || getStatusLabel(user.statut) === statusFilter;
-        return matchesSearch && matchesRole && matchesStatus;
-      })
-      .sort((a, b) => {
-        if (sortBy === 'lastUpdated') {
-          const dateA = new Date(a.lastUpdated);
-          const dateB = new Date(b.lastUpdated);
-          if (dateA.toString() === 'Invalid Date') return 1;
-          if (dateB.toString() === 'Invalid Date') return -1;
-          return dateB.getTime() - dateA.getTime();
-        }
-        if (sortBy === 'name') {
-          return `${a.nom} ${a.prenom}`.localeCompare(`${b.nom} ${b.prenom}`);
-        }
-        return 0;
-      });
-  }, [users, searchTerm, roleFilter, statusFilter, sortBy]);
+    loadPage();
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, page, reloadKey, setUrlState]);
+
+  // Modifier un filtre ramène à la première page
+  const updateFilter = (changes: Partial<typeof URL_DEFAULTS>) => setUrlState({ ...changes, page: '1' });
+
+  // Indexer pour la recherche et le tri les profils créés sans champs en minuscules ni date de mise à
+  // jour (application mobile, anciens comptes)
+  const handleReindexSearch = async () => {
+    try {
+      setBulkProgress({ done: 0, total: 0 });
+      const pending = await findUsersToIndex(dataSource);
+      const report = await runBulkUserOperation(dataSource, pending, planSearchFields, setBulkProgress);
+      setBulkReport({ title: 'Indexation de la recherche', report });
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      console.error("Erreur lors de l'indexation de la recherche :", error);
+      setError("Erreur lors de l'indexation de la recherche. Veuillez réessayer.");
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  // Sélection multiple, limitée aux utilisateurs de la page affichée
+  const selectedUsers = useMemo(
+    () => users.filter(user => selectedIds.has(user.uid)),
+    [users, selectedIds]
+  );
+  const allSelected = users.length > 0 && selectedUsers.length === users.length;
+
+  const toggleSelection = (userId: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(userId)) next.delete(userId);
+    else next.add(userId);
+    setSelectedIds(next);
+  };
+
+  const toggleAll = () => setSelectedIds(allSelected ? new Set() : new Set(users.map(user => user.uid)));
+
+  // Appliquer une action groupée par lots, puis afficher le rapport des échecs
+  const handleBulkAction = async (title: string, planner: BulkPlanner, updateData?: Partial<User>) => {
+    try {
+      setBulkProgress({ done: 0, total: selectedUsers.length });
+      const report = await runBulkUserOperation(dataSource, selectedUsers, planner, setBulkProgress);
+      const succeeded = new Set(report.succeeded.map(user => user.uid));
+      if (updateData) {
+        setUsers(users.map(user => (succeeded.has(user.uid) ? { ...user, ...updateData } : user)));
+      }
+      // Les utilisateurs en échec restent sélectionnés pour une nouvelle tentative
+      setSelectedIds(new Set(report.failures.map(failure => failure.user.uid)));
+      setBulkReport({ title, report });
+    } catch (error) {
+      console.error(`Erreur lors de l'action groupée "${title}" :`, error);
+      setError(`Erreur lors de l'action groupée "${title}". Veuillez réessayer.`);
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  const handleBulkBan = () => {
+    if (!window.confirm(`Bannir ${selectedUsers.length} utilisateur(s) ?`)) return;
+    handleBulkAction('Bannissement', planBan(admin?.uid ?? ''), { statut: 0 });
+  };
+
+  const handleBulkRoleChange = () => {
+    const typeUsersId = Number(bulkRole);
+    if (!window.confirm(`Attribuer le rôle ${getRoleLabel(typeUsersId)} à ${selectedUsers.length} utilisateur(s) ?`)) return;
+    handleBulkAction('Changement de rôle', planRoleChange(typeUsersId, ADMIN_ROLE_ID), { typeUsersId });
+    setBulkRole('');
+  };
+
+  const handleBulkMessage = async () => {
+    try {
+      const planner = planMessage(admin?.uid ?? '', bulkMessage);
+      setShowBulkMessage(false);
+      setBulkMessage('');
+      await handleBulkAction('Envoi de message', planner);
+    } catch (error) {
+      console.error("Erreur lors de la préparation du message groupé :", error);
+      setError("Erreur lors de la préparation du message. Veuillez réessayer.");
+    }
+  };
+
+  const handleBulkExport = () => {
+    downloadFile(
+      `\uFEFF${toCsv(getUserExportRows(selectedUsers))}`,
+      `utilisateurs-${new Date().toISOString().slice(0, 10)}.csv`,
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  // Envoyer un lien de (ré)initialisation du mot de passe, qui sert aussi à renvoyer une invitation
+  const handleSendResetLink = async (user: User) => {
+    try {
+      setActionLoading(user.uid);
+      await sendPasswordResetLink(dataSource, user, admin?.uid ?? '');
+      setNotice(`Lien de réinitialisation envoyé à ${user.email}.`);
+    } catch (error) {
+      console.error(`Erreur lors de l'envoi du lien de réinitialisation à ${user.uid}:`, error);
+      setError("Erreur lors de l'envoi du lien de réinitialisation. Veuillez réessayer.");
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  // Exiger ou réinitialiser la double authentification d'un administrateur
+  const handleTwoFactorAction = async (user: User, action: 'require' | 'unrequire' | 'reset') => {
+    try {
+      setActionLoading(user.uid);
+      let updateData: Partial<User>;
+      if (action === 'reset') {
+        if (!window.confirm(`Réinitialiser la double authentification de ${user.prenom} ${user.nom} ?`)) return;
+        await disableTwoFactor(dataSource, admin?.uid ?? '', user.uid, 'Réinitialisation double authentification');
+        updateData = { twoFactorEnabled: false };
+      } else {
+        updateData = { twoFactorRequired: action === 'require' };
+        await dataSource.users.update(user.uid, updateData, { action: 'Exigence double authentification' });
+      }
+      setUsers(users.map((u) => (u.uid === user.uid ? { ...u, ...updateData } : u)));
+      setSelectedUser({ ...user, ...updateData });
+    } catch (error) {
+      console.error(`Erreur lors de la mise à jour de la double authentification de ${user.uid}:`, error);
+      setError('Erreur lors de la mise à jour de la double authentification. Veuillez réessayer.');
+    } finally {
+      setActionLoading(null);
+    }
+  };
 
   // Gérer les actions sur les utilisateurs
   const handleUserAction = async (userId: string, action: string) => {
     try {
       setActionLoading(userId);
       let updateData: Partial<User> = {};
+      let auditAction = '';
       switch (action) {
         case 'approve':
           updateData = { statut: 1 };
+          auditAction = 'Validation utilisateur';
           break;
         case 'reject':
           updateData = { statut: 2 };
+          auditAction = 'Rejet inscription';
           break;
         case 'ban':
           updateData = { statut: 0 };
+          auditAction = 'Bannissement utilisateur';
           break;
         case 'edit':
           const user = users.find(u => u.uid === userId);
@@ -150,7 +306,7 @@ export default function UserManagement() {
         default:
           return;
       }
-      await updateDocument('Users', userId, updateData);
+      await dataSource.users.update(userId, updateData, { action: auditAction });
       setUsers(users.map(user => (user.uid === userId ? { ...user, ...updateData } : user)));
     } catch (error) {
       console.error(`Erreur lors de l'action ${action} pour l'utilisateur ${userId}:`, error);
@@ -165,6 +321,13 @@ export default function UserManagement() {
     <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700 hover:shadow-md transition-shadow">
       <div className="flex items-start justify-between">
         <div className="flex items-center space-x-4">
+          <input
+            type="checkbox"
+            checked={selectedIds.has(user.uid)}
+            onChange={() => toggleSelection(user.uid)}
+            className="w-4 h-4 accent-orange-500"
+            aria-label={`Sélectionner ${user.prenom} ${user.nom}`}
+          />
           <div className="w-12 h-12 bg-gradient-to-r from-blue-500 to-orange-500 rounded-full flex items-center justify-center text-white font-semibold">
            
             {user.photoProfil ? (
@@ -226,16 +389,18 @@ export default function UserManagement() {
           >
             <Eye className="w-4 h-4" />
           </button>
-          <button
-            onClick={() => handleUserAction(user.uid, 'edit')}
-            className="p-2 text-gray-400 hover:text-orange-500 transition-colors"
-            title="Modifier"
-            aria-label="Modifier l'utilisateur"
-            disabled={actionLoading === user.uid}
-          >
-            <Edit className="w-4 h-4" />
-          </button>
-          {getStatusLabel(user.statut) === 'en_attente' && (
+          {can('users.edit') && (
+            <button
+              onClick={() => handleUserAction(user.uid, 'edit')}
+              className="p-2 text-gray-400 hover:text-orange-500 transition-colors"
+              title="Modifier"
+              aria-label="Modifier l'utilisateur"
+              disabled={actionLoading === user.uid}
+            >
+              <Edit className="w-4 h-4" />
+            </button>
+          )}
+          {can('users.approve') && getStatusLabel(user.statut) === 'en_attente' && (
             <>
               <button
                 onClick={() => handleUserAction(user.uid, 'approve')}
@@ -257,7 +422,7 @@ export default function UserManagement() {
               </button>
             </>
           )}
-          {getStatusLabel(user.statut) !== 'banni' && (
+          {can('users.ban') && getStatusLabel(user.statut) !== 'banni' && (
             <button
               onClick={() => handleUserAction(user.uid, 'ban')}
               className="p-2 text-gray-400 hover:text-red-500 transition-colors"
@@ -282,7 +447,7 @@ export default function UserManagement() {
         </div>
       </div>
 
-      {(user.cniRecto || user.cniVerso) && (
+      {getKycStatus(user) === 'en_attente' && (
         <div className="mt-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
           <p className="text-sm text-yellow-800 dark:text-yellow-200 font-medium">
             Documents en attente de validation
@@ -304,10 +469,6 @@ export default function UserManagement() {
     </div>
   );
 
-  if (loading) {
-    return <div className="p-6">Chargement des utilisateurs...</div>;
-  }
-
   if (error) {
     return <div className="p-6 text-red-500">{error}</div>;
   }
@@ -319,64 +480,139 @@ export default function UserManagement() {
         <div>
           <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Gestion des Utilisateurs</h1>
           <p className="text-gray-500 dark:text-gray-400">
-            {filteredUsers.length} utilisateur(s) trouvé(s)
+            {total} utilisateur(s) trouvé(s)
           </p>
         </div>
-        <button
-          onClick={() => setShowAddModal(true)}
-          className="flex items-center space-x-2 bg-orange-500 text-white px-4 py-2 rounded-lg hover:bg-orange-600 transition-colors"
-          aria-label="Ajouter un nouvel utilisateur"
-        >
-          <Plus className="w-4 h-4" />
-          <span>Ajouter utilisateur</span>
-        </button>
+        <div className="flex items-center space-x-2">
+          {can('admins.manage') && (
+            <button
+              onClick={handleReindexSearch}
+              disabled={!!bulkProgress}
+              className="flex items-center space-x-2 px-4 py-2 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-slate-600 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+              title="Renseigner les champs de recherche et la date de mise à jour des profils qui n'en ont pas"
+            >
+              <RefreshCw className="w-4 h-4" />
+              <span>Indexer la recherche</span>
+            </button>
+          )}
+          {can('users.merge') && (
+            <button
+              onClick={() => setShowDuplicatesModal(true)}
+              className="flex items-center space-x-2 px-4 py-2 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-slate-600 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+              aria-label="Rechercher les comptes en double"
+            >
+              <Users className="w-4 h-4" />
+              <span>Doublons</span>
+            </button>
+          )}
+          <button
+            onClick={() => setShowReachabilityModal(true)}
+            className="flex items-center space-x-2 px-4 py-2 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-slate-600 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+            aria-label="Afficher la joignabilité par notification push"
+          >
+            <BellRing className="w-4 h-4" />
+            <span>Joignabilité</span>
+          </button>
+          <button
+            onClick={() => setShowExportModal(true)}
+            className="flex items-center space-x-2 px-4 py-2 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-slate-600 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+            aria-label="Exporter la liste filtrée"
+          >
+            <Download className="w-4 h-4" />
+            <span>Exporter</span>
+          </button>
+          {can('users.create') && (
+            <button
+              onClick={() => setShowImportModal(true)}
+              className="flex items-center space-x-2 px-4 py-2 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-slate-600 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+              aria-label="Importer des utilisateurs depuis un fichier"
+            >
+              <Upload className="w-4 h-4" />
+              <span>Importer</span>
+            </button>
+          )}
+          {can('users.create') && (
+            <button
+              onClick={() => setShowAddModal(true)}
+              className="flex items-center space-x-2 bg-orange-500 text-white px-4 py-2 rounded-lg hover:bg-orange-600 transition-colors"
+              aria-label="Ajouter un nouvel utilisateur"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Ajouter utilisateur</span>
+            </button>
+          )}
+        </div>
       </div>
 
+      {notice && (
+        <div className="flex items-center justify-between p-4 bg-blue-50 dark:bg-blue-900/20 text-blue-800 dark:text-blue-200 rounded-lg text-sm">
+          <span>{notice}</span>
+          <button onClick={() => setNotice(null)} className="p-1 rounded hover:bg-blue-100 dark:hover:bg-blue-900/40" aria-label="Fermer">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Filtres */}
       <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700">
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-          <div className="relative">
-            <Search className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
-            <input
-              type="text"
-              placeholder="Rechercher par nom ou email..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
-              aria-label="Rechercher des utilisateurs par nom ou email"
-            />
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="relative md:col-span-2 flex">
+            <select
+              value={filters.searchField}
+              onChange={(e) => updateFilter({ by: e.target.value })}
+              className="px-3 py-2 border border-r-0 border-gray-300 dark:border-slate-600 rounded-l-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+              aria-label="Champ de recherche"
+            >
+              {(Object.keys(USER_SEARCH_FIELD_LABELS) as UserSearchField[]).map((field) => (
+                <option key={field} value={field}>{USER_SEARCH_FIELD_LABELS[field]}</option>
+              ))}
+            </select>
+            <div className="relative flex-1">
+              <Search className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
+              <input
+                type="text"
+                placeholder="Commence par..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-slate-600 rounded-r-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+                aria-label="Rechercher des utilisateurs par début de nom, prénom ou email"
+              />
+            </div>
           </div>
 
           <select
-            value={roleFilter}
-            onChange={(e) => setRoleFilter(e.target.value)}
+            value={urlState.role}
+            onChange={(e) => updateFilter({ role: e.target.value })}
             className="px-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
             aria-label="Filtrer par rôle"
           >
-            <option value="all">Tous les rôles</option>
-            <option value="Visiteurs">Visiteurs</option>
-            <option value="Locataires">Locataires</option>
-            <option value="Proprietaire">Propriétaire</option>
-            <option value="Agence immobilière">Agence immobilière</option>
+            <option value="">Tous les rôles</option>
+            {Object.entries(USER_ROLE_LABELS)
+              .filter(([id]) => Number(id) !== ADMIN_ROLE_ID)
+              .map(([id, label]) => (
+                <option key={id} value={id}>{label}</option>
+              ))}
           </select>
 
           <select
-            value={statusFilter}
-            onChange={(e) => setStatusFilter(e.target.value)}
+            value={urlState.statut}
+            onChange={(e) => updateFilter({ statut: e.target.value })}
             className="px-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
             aria-label="Filtrer par statut"
           >
-            <option value="all">Tous les statuts</option>
-            <option value="actif">Actif</option>
-            <option value="en_attente">En attente</option>
-            <option value="banni">Banni</option>
+            <option value="">Tous les statuts</option>
+            <option value="1">Actif</option>
+            <option value="2">En attente</option>
+            <option value="0">Banni</option>
           </select>
 
           <select
-            value={sortBy}
-            onChange={(e) => setSortBy(e.target.value)}
-            className="px-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+            value={filters.sort}
+            onChange={(e) => updateFilter({ sort: e.target.value })}
+            disabled={!!filters.search.trim()}
+            className="px-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent dark:bg-slate-700 dark:text-white disabled:opacity-60"
             aria-label="Trier par"
+            title={filters.search.trim() ? 'Une recherche trie les résultats sur le champ recherché' : undefined}
           >
             <option value="lastUpdated">Dernière mise à jour</option>
             <option value="name">Nom</option>
@@ -384,11 +620,135 @@ export default function UserManagement() {
         </div>
       </div>
 
+      {/* Sélection et actions groupées */}
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={toggleAll}
+            className="w-4 h-4 accent-orange-500"
+            aria-label="Sélectionner tous les utilisateurs affichés"
+          />
+          <span>
+            {selectedUsers.length ? `${selectedUsers.length} sélectionné(s)` : 'Tout sélectionner'}
+          </span>
+        </label>
+        {selectedUsers.length > 0 && !bulkProgress && (
+          <>
+            {can('users.approve') && (
+              <button
+                onClick={() => handleBulkAction('Validation', planApproval, { statut: 1 })}
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm text-green-600 border border-green-300 rounded-lg hover:bg-green-50 dark:hover:bg-green-900/20 transition-colors"
+              >
+                <Check className="w-4 h-4" />
+                <span>Valider</span>
+              </button>
+            )}
+            {can('users.ban') && (
+              <button
+                onClick={handleBulkBan}
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm text-red-600 border border-red-300 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+              >
+                <Ban className="w-4 h-4" />
+                <span>Bannir</span>
+              </button>
+            )}
+            {can('admins.manage') && (
+              <div className="flex items-center space-x-1">
+                <select
+                  value={bulkRole}
+                  onChange={(e) => setBulkRole(e.target.value)}
+                  className="px-3 py-1.5 text-sm border border-gray-300 dark:border-slate-600 rounded-lg dark:bg-slate-700 dark:text-white"
+                  aria-label="Nouveau rôle des utilisateurs sélectionnés"
+                >
+                  <option value="">Changer le rôle…</option>
+                  {Object.entries(USER_ROLE_LABELS)
+                    .filter(([id]) => Number(id) !== ADMIN_ROLE_ID)
+                    .map(([id, label]) => (
+                      <option key={id} value={id}>{label}</option>
+                    ))}
+                </select>
+                <button
+                  onClick={handleBulkRoleChange}
+                  disabled={!bulkRole}
+                  className="px-3 py-1.5 text-sm text-orange-600 border border-orange-300 rounded-lg hover:bg-orange-50 dark:hover:bg-orange-900/20 transition-colors disabled:opacity-50"
+                >
+                  Appliquer
+                </button>
+              </div>
+            )}
+            {can('messages.send') && (
+              <button
+                onClick={() => setShowBulkMessage(true)}
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm text-blue-600 border border-blue-300 rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors"
+              >
+                <MessageSquare className="w-4 h-4" />
+                <span>Message</span>
+              </button>
+            )}
+            <button
+              onClick={handleBulkExport}
+              className="flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-slate-600 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              <span>Exporter</span>
+            </button>
+          </>
+        )}
+        {bulkProgress && (
+          <div className="flex items-center space-x-3 flex-1 min-w-[200px]">
+            <Loader2 className="w-4 h-4 animate-spin text-orange-500" />
+            <div className="flex-1 h-2 bg-gray-200 dark:bg-slate-700 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-orange-500 transition-all"
+                style={{ width: `${bulkProgress.total ? (bulkProgress.done / bulkProgress.total) * 100 : 0}%` }}
+              />
+            </div>
+            <span className="text-sm text-gray-600 dark:text-gray-300">
+              {bulkProgress.done} / {bulkProgress.total}
+            </span>
+          </div>
+        )}
+      </div>
+
       {/* Liste des utilisateurs */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {filteredUsers.map(user => (
-          <UserCard key={user.uid} user={user} />
-        ))}
+      {loading ? (
+        <div className="flex items-center space-x-2 text-gray-500 dark:text-gray-400">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>Chargement des utilisateurs...</span>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {users.map(user => (
+            <UserCard key={user.uid} user={user} />
+          ))}
+        </div>
+      )}
+
+      {/* Pagination */}
+      <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-300">
+        <span>Page {page} / {pageCount}</span>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => setUrlState({ page: String(page - 1) })}
+            disabled={loading || page <= 1}
+            className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 dark:border-slate-600 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+            aria-label="Page précédente"
+          >
+            <ChevronLeft className="w-4 h-4" />
+            <span>Précédent</span>
+          </button>
+          <button
+            onClick={() => setUrlState({ page: String(page + 1) })}
+            disabled={loading || !hasNextPage || page >= pageCount}
+            className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 dark:border-slate-600 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+            aria-label="Page suivante"
+          >
+            <span>Suivant</span>
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
       </div>
 
       {/* Modal de profil utilisateur */}
@@ -475,231 +835,260 @@ export default function UserManagement() {
                 <div>
                   <h4 className="font-medium text-gray-900 dark:text-white mb-2">Actions</h4>
                   <div className="space-y-2">
+                    {can('users.edit') && (
+                      <button
+                        onClick={() => handleUserAction(selectedUser.uid, 'edit')}
+                        className="w-full text-left px-3 py-2 text-sm text-orange-600 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-lg transition-colors"
+                        aria-label="Modifier les informations de l'utilisateur"
+                        disabled={actionLoading === selectedUser.uid}
+                      >
+                        Modifier les informations
+                      </button>
+                    )}
+                    {can('users.edit') && (
+                      <button
+                        onClick={() => handleSendResetLink(selectedUser)}
+                        className="w-full text-left px-3 py-2 text-sm text-orange-600 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-lg transition-colors"
+                        aria-label="Envoyer un lien de réinitialisation du mot de passe"
+                        disabled={actionLoading === selectedUser.uid}
+                      >
+                        Envoyer un lien de réinitialisation
+                      </button>
+                    )}
                     <button
-                      onClick={() => handleUserAction(selectedUser.uid, 'edit')}
-                      className="w-full text-left px-3 py-2 text-sm text-orange-600 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-lg transition-colors"
-                      aria-label="Modifier les informations de l'utilisateur"
-                      disabled={actionLoading === selectedUser.uid}
-                    >
-                      Modifier les informations
-                    </button>
-                    <button
+                      onClick={() => setTimelineUid(timelineUid === selectedUser.uid ? null : selectedUser.uid)}
                       className="w-full text-left px-3 py-2 text-sm text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
                       aria-label="Voir l'historique de l'utilisateur"
-                      disabled
+                      aria-expanded={timelineUid === selectedUser.uid}
                     >
-                      Voir l'historique
+                      {timelineUid === selectedUser.uid ? "Masquer l'historique" : "Voir l'historique"}
                     </button>
+                    {can('users.ban') && (
+                      <button
+                        onClick={() => handleUserAction(selectedUser.uid, 'ban')}
+                        className="w-full text-left px-3 py-2 text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                        aria-label="Suspendre le compte de l'utilisateur"
+                        disabled={actionLoading === selectedUser.uid}
+                      >
+                        Suspendre le compte
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {selectedUser.typeUsersId === ADMIN_ROLE_ID && can('admins.manage') && (
+                <div className="border-t border-gray-200 dark:border-slate-700 pt-4">
+                  <h4 className="flex items-center space-x-2 font-medium text-gray-900 dark:text-white mb-2">
+                    <ShieldCheck className="w-4 h-4" />
+                    <span>Double authentification</span>
+                  </h4>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                    {selectedUser.twoFactorEnabled ? 'Activée' : 'Non configurée'}
+                    {selectedUser.twoFactorRequired && ' · exigée pour ce compte'}
+                  </p>
+                  <div className="flex space-x-2">
                     <button
-                      onClick={() => handleUserAction(selectedUser.uid, 'ban')}
-                      className="w-full text-left px-3 py-2 text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
-                      aria-label="Suspendre le compte de l'utilisateur"
+                      onClick={() =>
+                        handleTwoFactorAction(selectedUser, selectedUser.twoFactorRequired ? 'unrequire' : 'require')
+                      }
+                      className="px-3 py-2 text-sm text-orange-600 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-lg transition-colors"
                       disabled={actionLoading === selectedUser.uid}
                     >
-                      Suspendre le compte
+                      {selectedUser.twoFactorRequired ? "Ne plus l'exiger" : 'Exiger'}
                     </button>
+                    {selectedUser.twoFactorEnabled && (
+                      <button
+                        onClick={() => handleTwoFactorAction(selectedUser, 'reset')}
+                        className="px-3 py-2 text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                        disabled={actionLoading === selectedUser.uid}
+                      >
+                        Réinitialiser
+                      </button>
+                    )}
                   </div>
                 </div>
-              </div>
+              )}
+
+              {selectedUser.typeUsersId !== ADMIN_ROLE_ID && (
+                <div className="border-t border-gray-200 dark:border-slate-700 pt-4">
+                  <h4 className="flex items-center space-x-2 font-medium text-gray-900 dark:text-white mb-3">
+                    <BellRing className="w-4 h-4" />
+                    <span>Notifications</span>
+                  </h4>
+                  <NotificationPrefsEditor
+                    key={selectedUser.uid}
+                    user={selectedUser}
+                    onSaved={(updated) => {
+                      setUsers(users.map((u) => (u.uid === updated.uid ? updated : u)));
+                      setSelectedUser(updated);
+                    }}
+                  />
+                </div>
+              )}
+
+              {timelineUid === selectedUser.uid && (
+                <div className="border-t border-gray-200 dark:border-slate-700 pt-4">
+                  <h4 className="flex items-center space-x-2 font-medium text-gray-900 dark:text-white mb-3">
+                    <History className="w-4 h-4" />
+                    <span>Activité</span>
+                  </h4>
+                  <UserTimeline user={selectedUser} />
+                </div>
+              )}
+
+              {can('users.gdpr') && selectedUser.typeUsersId !== ADMIN_ROLE_ID && (
+                <div className="border-t border-gray-200 dark:border-slate-700 pt-4">
+                  <h4 className="flex items-center space-x-2 font-medium text-gray-900 dark:text-white mb-2">
+                    <FileLock className="w-4 h-4" />
+                    <span>Données personnelles (RGPD)</span>
+                  </h4>
+                  {selectedUser.erasedAt ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      Données effacées le {formatDate(selectedUser.erasedAt)} · pseudonyme {selectedUser.pseudonymId}
+                    </p>
+                  ) : (
+                    <button
+                      onClick={() => setGdprUser(selectedUser)}
+                      className="px-3 py-2 text-sm text-orange-600 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-lg transition-colors"
+                    >
+                      Exporter ou effacer les données
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         </div>
       )}
 
-      {/* Modal d'édition */}
-      {editUser && (
+      {/* Modal RGPD */}
+      {gdprUser && (
+        <GdprModal
+          user={gdprUser}
+          adminId={admin?.uid ?? ''}
+          onClose={() => setGdprUser(null)}
+          onErased={() => {
+            setSelectedUser(null);
+            setReloadKey((key) => key + 1);
+          }}
+        />
+      )}
+
+      {/* Modal de message groupé */}
+      {showBulkMessage && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-2xl w-full p-6">
-            <h2 className="text-xl font-bold text-gray-900 dark:text-white">Modifier l'utilisateur</h2>
-            <form
-              onSubmit={async (e) => {
-                e.preventDefault();
-                try {
-                  await updateDocument('Users', editUser.uid, {
-                    nom: editUser.nom,
-                    prenom: editUser.prenom,
-                    email: editUser.email,
-                    typeUsersId: editUser.typeUsersId,
-                    statut: editUser.statut,
-                  });
-                  setUsers(users.map(user => (user.uid === editUser.uid ? editUser : user)));
-                  setEditUser(null);
-                } catch (error) {
-                  console.error('Erreur lors de la mise à jour :', error);
-                  setError('Erreur lors de la mise à jour de l’utilisateur. Veuillez réessayer.');
-                }
-              }}
-            >
-              <input
-                type="text"
-                value={editUser.nom}
-                onChange={(e) => setEditUser({ ...editUser, nom: e.target.value })}
-                className="w-full p-2 mb-4 border border-gray-300 rounded-lg dark:bg-slate-700 dark:text-white"
-                placeholder="Nom"
-                required
-                aria-label="Nom de l'utilisateur"
-              />
-              <input
-                type="text"
-                value={editUser.prenom}
-                onChange={(e) => setEditUser({ ...editUser, prenom: e.target.value })}
-                className="w-full p-2 mb-4 border border-gray-300 rounded-lg dark:bg-slate-700 dark:text-white"
-                placeholder="Prénom"
-                required
-                aria-label="Prénom de l'utilisateur"
-              />
-              <input
-                type="email"
-                value={editUser.email}
-                onChange={(e) => setEditUser({ ...editUser, email: e.target.value })}
-                className="w-full p-2 mb-4 border border-gray-300 rounded-lg dark:bg-slate-700 dark:text-white"
-                placeholder="Email"
-                required
-                aria-label="Email de l'utilisateur"
-              />
-              <select
-                value={editUser.typeUsersId}
-                onChange={(e) => setEditUser({ ...editUser, typeUsersId: Number(e.target.value) })}
-                className="w-full p-2 mb-4 border border-gray-300 rounded-lg dark:bg-slate-700 dark:text-white"
-                aria-label="Rôle de l'utilisateur"
+          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-lg w-full p-6">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
+              Message à {selectedUsers.length} utilisateur(s)
+            </h2>
+            <textarea
+              value={bulkMessage}
+              onChange={(e) => setBulkMessage(e.target.value)}
+              rows={5}
+              className="w-full p-2 mb-4 border border-gray-300 dark:border-slate-600 rounded-lg dark:bg-slate-700 dark:text-white"
+              placeholder="Contenu de la notification"
+              aria-label="Contenu du message groupé"
+            />
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={() => setShowBulkMessage(false)}
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg"
               >
-                <option value={1}>Client</option>
-                <option value={2}>Propriétaire</option>
-                <option value={3}>Agent</option>
-                <option value={4}>Agence</option>
-              </select>
-              <select
-                value={editUser.statut}
-                onChange={(e) => setEditUser({ ...editUser, statut: Number(e.target.value) })}
-                className="w-full p-2 mb-4 border border-gray-300 rounded-lg dark:bg-slate-700 dark:text-white"
-                aria-label="Statut de l'utilisateur"
+                Annuler
+              </button>
+              <button
+                onClick={handleBulkMessage}
+                disabled={!bulkMessage.trim()}
+                className="px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:opacity-50"
               >
-                <option value={1}>Actif</option>
-                <option value={0}>Banni</option>
-                <option value={2}>En attente</option>
-              </select>
-              <div className="flex justify-end space-x-2">
-                <button
-                  type="button"
-                  onClick={() => setEditUser(null)}
-                  className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg"
-                  aria-label="Annuler la modification"
-                >
-                  Annuler
-                </button>
-                <button
-                  type="submit"
-                  className="px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600"
-                  aria-label="Enregistrer les modifications"
-                >
-                  Enregistrer
-                </button>
-              </div>
-            </form>
+                Envoyer
+              </button>
+            </div>
           </div>
         </div>
       )}
 
-      {/* Modal d'ajout */}
-      {showAddModal && (
+      {/* Rapport d'action groupée */}
+      {bulkReport && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-2xl w-full p-6">
-            <h2 className="text-xl font-bold text-gray-900 dark:text-white">Ajouter un utilisateur</h2>
-            <form
-              onSubmit={async (e) => {
-                e.preventDefault();
-                try {
-                  const userData = {
-                    ...newUser,
-                    uid: newUser.email || Date.now().toString(), // À ajuster selon votre logique Firestore
-                    lastUpdated: new Date().toISOString(),
-                    notificationPrefs: {
-                      messages: true,
-                      newProperties: true,
-                      payments: true,
-                      reservations: true,
-                      visits: true,
-                    },
-                  };
-                  await updateDocument('Users', userData.uid, userData);
-                  setUsers([...users, userData as User]);
-                  setShowAddModal(false);
-                  setNewUser({ nom: '', prenom: '', email: '', typeUsersId: 3, statut: 1 });
-                } catch (error) {
-                  console.error('Erreur lors de la création de l’utilisateur :', error);
-                  setError('Erreur lors de la création de l’utilisateur. Veuillez réessayer.');
-                }
-              }}
-            >
-              <input
-                type="text"
-                value={newUser.nom || ''}
-                onChange={(e) => setNewUser({ ...newUser, nom: e.target.value })}
-                className="w-full p-2 mb-4 border border-gray-300 rounded-lg dark:bg-slate-700 dark:text-white"
-                placeholder="Nom"
-                required
-                aria-label="Nom du nouvel utilisateur"
-              />
-              <input
-                type="text"
-                value={newUser.prenom || ''}
-                onChange={(e) => setNewUser({ ...newUser, prenom: e.target.value })}
-                className="w-full p-2 mb-4 border border-gray-300 rounded-lg dark:bg-slate-700 dark:text-white"
-                placeholder="Prénom"
-                required
-                aria-label="Prénom du nouvel utilisateur"
-              />
-              <input
-                type="email"
-                value={newUser.email || ''}
-                onChange={(e) => setNewUser({ ...newUser, email: e.target.value })}
-                className="w-full p-2 mb-4 border border-gray-300 rounded-lg dark:bg-slate-700 dark:text-white"
-                placeholder="Email"
-                required
-                aria-label="Email du nouvel utilisateur"
-              />
-              <select
-                value={newUser.typeUsersId}
-                onChange={(e) => setNewUser({ ...newUser, typeUsersId: Number(e.target.value) })}
-                className="w-full p-2 mb-4 border border-gray-300 rounded-lg dark:bg-slate-700 dark:text-white"
-                aria-label="Rôle du nouvel utilisateur"
-              >
-                <option value={1}>Client</option>
-                <option value={2}>Propriétaire</option>
-                <option value={3}>Agent</option>
-                <option value={4}>Agence</option>
-              </select>
-              <select
-                value={newUser.statut}
-                onChange={(e) => setNewUser({ ...newUser, statut: Number(e.target.value) })}
-                className="w-full p-2 mb-4 border border-gray-300 rounded-lg dark:bg-slate-700 dark:text-white"
-                aria-label="Statut du nouvel utilisateur"
+          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">{bulkReport.title}</h2>
+              <button
+                onClick={() => setBulkReport(null)}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                aria-label="Fermer le rapport"
               >
-                <option value={1}>Actif</option>
-                <option value={0}>Banni</option>
-                <option value={2}>En attente</option>
-              </select>
-              <div className="flex justify-end space-x-2">
-                <button
-                  type="button"
-                  onClick={() => setShowAddModal(false)}
-                  className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg"
-                  aria-label="Annuler l'ajout"
-                >
-                  Annuler
-                </button>
-                <button
-                  type="submit"
-                  className="px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600"
-                  aria-label="Ajouter l'utilisateur"
-                >
-                  Ajouter
-                </button>
-              </div>
-            </form>
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <p className="text-sm text-gray-700 dark:text-gray-300 mb-4">
+              {bulkReport.report.succeeded.length} utilisateur(s) traité(s), {bulkReport.report.failures.length} échec(s).
+            </p>
+            {bulkReport.report.failures.length > 0 && (
+              <ul className="divide-y divide-gray-100 dark:divide-slate-700 border border-gray-200 dark:border-slate-700 rounded-lg">
+                {bulkReport.report.failures.map(({ user, reason }) => (
+                  <li key={user.uid} className="px-3 py-2 text-sm">
+                    <p className="font-medium text-gray-900 dark:text-white">{`${user.prenom} ${user.nom}`}</p>
+                    <p className="text-red-600">{reason}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         </div>
       )}
+
+      {/* Modal d'édition */}
+      {editUser && (
+        <EditUserModal
+          user={editUser}
+          onClose={() => setEditUser(null)}
+          onSaved={(saved) => {
+            setUsers(users.map(user => (user.uid === saved.uid ? saved : user)));
+            setEditUser(null);
+          }}
+        />
+      )}
+
+      {/* Export de la vue filtrée */}
+      {showExportModal && (
+        <ExportUsersModal filters={filters} total={total} onClose={() => setShowExportModal(false)} />
+      )}
+
+      {/* Assistant d'import */}
+      {showImportModal && (
+        <ImportUsersModal
+          onClose={() => setShowImportModal(false)}
+          onImported={() => setReloadKey((key) => key + 1)}
+        />
+      )}
+
+      {showDuplicatesModal && (
+        <DuplicateUsersModal
+          onClose={() => setShowDuplicatesModal(false)}
+          onMerged={() => setReloadKey((key) => key + 1)}
+        />
+      )}
+
+      {showReachabilityModal && <PushReachabilityModal onClose={() => setShowReachabilityModal(false)} />}
+
+      {/* Modal d'ajout */}
+      {showAddModal && (
+        <AddUserModal
+          onClose={() => setShowAddModal(false)}
+          onCreated={(created, invitationSent) => {
+            setShowAddModal(false);
+            setReloadKey((key) => key + 1);
+            setNotice(
+              invitationSent
+                ? `Compte créé : une invitation a été envoyée à ${created.email}.`
+                : `Compte créé, mais l'invitation n'a pas pu être envoyée à ${created.email}. Renvoyez-la depuis son profil.`
+            );
+          }}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { User } from '../../types';
+import { dataSource } from '../../data';
+import {
+  TIMELINE_EVENT_LABELS,
+  TimelineEvent,
+  TimelineEventType,
+  createUserTimeline,
+} from '../../data/userTimeline';
+import { usePermissions } from '../../hooks/usePermissions';
+import { canAccessSection } from '../../utils/permissions';
+
+interface UserTimelineProps {
+  user: User;
+}
+
+const EVENT_COLORS: Record<TimelineEventType, string> = {
+  account: 'bg-blue-500',
+  property: 'bg-green-500',
+  contract: 'bg-purple-500',
+  payment: 'bg-emerald-500',
+  message: 'bg-gray-400',
+  moderation: 'bg-red-500',
+  admin: 'bg-orange-500',
+};
+
+// Fil d'activité d'un utilisateur, chargé page par page et filtrable par catégorie
+export default function UserTimeline({ user }: UserTimelineProps) {
+  const { role } = usePermissions();
+  // Les messages et le journal ne sont lisibles qu'avec l'accès aux sections correspondantes
+  const availableTypes = useMemo(
+    () =>
+      (Object.keys(TIMELINE_EVENT_LABELS) as TimelineEventType[]).filter((type) => {
+        if (type === 'admin') return canAccessSection(role, 'logs');
+        if (type === 'message' || type === 'moderation') return canAccessSection(role, 'messaging');
+        return true;
+      }),
+    [role]
+  );
+  const [types, setTypes] = useState<TimelineEventType[]>(availableTypes);
+  const [events, setEvents] = useState<TimelineEvent[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const timeline = useRef<ReturnType<typeof createUserTimeline> | null>(null);
+
+  const loadPage = useCallback(async (current: ReturnType<typeof createUserTimeline>, reset: boolean) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const page = await current.loadMore();
+      // Un changement de filtre pendant le chargement remplace le fil : la page obtenue est ignorée
+      if (timeline.current !== current) return;
+      setEvents((previous) => (reset ? page.events : [...previous, ...page.events]));
+      setHasMore(page.hasMore);
+    } catch (err) {
+      console.error(`Erreur lors du chargement de l'activité de ${user.uid} :`, err);
+      setError("Erreur lors du chargement de l'activité. Veuillez réessayer.");
+    } finally {
+      if (timeline.current === current) setLoading(false);
+    }
+  }, [user.uid]);
+
+  useEffect(() => {
+    const current = createUserTimeline(dataSource, user, types);
+    timeline.current = current;
+    setEvents([]);
+    loadPage(current, true);
+  }, [user, types, loadPage]);
+
+  const toggleType = (type: TimelineEventType) =>
+    setTypes(availableTypes.filter((t) => (t === type) !== types.includes(t)));
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2 mb-4">
+        {availableTypes.map((type) => (
+          <button
+            key={type}
+            onClick={() => toggleType(type)}
+            className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+              types.includes(type)
+                ? 'bg-orange-100 text-orange-800 border-orange-200 dark:bg-orange-900/20 dark:text-orange-300 dark:border-orange-800'
+                : 'text-gray-500 border-gray-300 dark:text-gray-400 dark:border-slate-600'
+            }`}
+            aria-pressed={types.includes(type)}
+          >
+            {TIMELINE_EVENT_LABELS[type]}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+      {!loading && !events.length && !error && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Aucune activité pour ces catégories.</p>
+      )}
+
+      <ol className="relative border-l border-gray-200 dark:border-slate-700 ml-2 space-y-4">
+        {events.map((event) => (
+          <li key={event.id} className="ml-4">
+            <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${EVENT_COLORS[event.type]}`} />
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {new Date(event.date).toLocaleString()} · {TIMELINE_EVENT_LABELS[event.type]}
+            </p>
+            <p className="text-sm font-medium text-gray-900 dark:text-white">{event.title}</p>
+            {event.details && <p className="text-sm text-gray-600 dark:text-gray-300 break-words">{event.details}</p>}
+          </li>
+        ))}
+      </ol>
+
+      {loading ? (
+        <div className="flex items-center space-x-2 mt-4 text-sm text-gray-500 dark:text-gray-400">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>Chargement…</span>
+        </div>
+      ) : (
+        hasMore && (
+          <button
+            onClick={() => timeline.current && loadPage(timeline.current, false)}
+            className="mt-4 px-3 py-2 text-sm text-orange-600 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-lg"
+          >
+            Afficher plus
+          </button>
+        )
+      )}
+    </div>
+  );
+}
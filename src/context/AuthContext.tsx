@@ -0,0 +1,208 @@
+import { ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { dataSource } from '../data';
+import { AuthAccount } from '../data/dataSource';
+import { getCurrentAdminId, setCurrentAdminId } from '../data/session';
+import { loadSettings } from '../data/settings';
+import { checkIpAllowlist } from '../data/ipAllowlist';
+import {
+  LOCKOUT_DURATION_MINUTES,
+  getPasswordPolicyError,
+  isLockedOut,
+  isPasswordExpired,
+  normalizeEmail,
+  recordFailedLogin,
+  resetLoginAttempts,
+} from '../data/accountSecurity';
+import { ADMIN_ROLE_ID } from '../utils/users';
+import { User } from '../types';
+import {
+  clearTwoFactorVerification,
+  isTwoFactorRequired,
+  isTwoFactorVerified,
+  markTwoFactorVerified,
+  verifySecondFactor,
+} from '../data/twoFactor';
+import { AuthContext, AuthState, AuthStatus } from './authState';
+
+/**
+ * Vérifie qu'un compte authentifié correspond à un administrateur actif de Users.
+ * @param account - Compte authentifié.
+ * @returns Document Users de l'administrateur.
+ * @throws Error si le compte n'a pas le rôle Administrateur ou est banni.
+ */
+const loadAdmin = async (account: AuthAccount): Promise<User> => {
+  const user = await dataSource.users.getById(account.uid);
+  if (!user || user.typeUsersId !== ADMIN_ROLE_ID || user.statut === 0) {
+    throw new Error('Accès réservé aux administrateurs de la plateforme.');
+  }
+  return user;
+};
+
+/**
+ * Applique le verrouillage après trop d'échecs de connexion (mot de passe ou second facteur). La
+ * vérification a lieu une fois le mot de passe accepté par Firebase Authentication, qui limite seul
+ * les tentatives : le verrouillage ferme la session de la console, sans être imposé par les règles.
+ * @param email - Email du compte.
+ * @param maxAttempts - Nombre d'échecs autorisés.
+ * @throws Error si le compte est verrouillé.
+ */
+const checkLockout = async (email: string, maxAttempts: number): Promise<void> => {
+  const attempt = await dataSource.loginAttempts.getById(normalizeEmail(email));
+  if (isLockedOut(attempt, maxAttempts)) {
+    throw new Error(
+      `Compte verrouillé après ${attempt?.failedCount} échecs de connexion. Réessayez dans ${LOCKOUT_DURATION_MINUTES} minutes ou demandez à un super administrateur de le déverrouiller.`
+    );
+  }
+};
+
+/**
+ * Démarre le décompte d'expiration pour un administrateur dont la date de changement
+ * de mot de passe n'est pas encore connue.
+ * @param admin - Document Users de l'administrateur connecté.
+ * @returns Document à jour.
+ */
+const ensurePasswordDate = async (admin: User): Promise<User> => {
+  if (admin.passwordChangedAt) return admin;
+  const passwordChangedAt = new Date().toISOString();
+  await dataSource.users.update(admin.uid, { passwordChangedAt }, { action: 'Initialisation date mot de passe' });
+  return { ...admin, passwordChangedAt };
+};
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [state, setState] = useState<AuthState>({ status: 'loading', account: null, admin: null, error: null });
+  // Message à afficher après une déconnexion forcée (rôle refusé)
+  const pendingError = useRef<string | null>(null);
+  // État atteint une fois le second facteur vérifié
+  const afterSecondFactor = useRef<AuthStatus>('ready');
+
+  useEffect(() => {
+    let latest = 0;
+    return dataSource.auth.onChange(async (account) => {
+      const check = ++latest;
+      if (!account) {
+        setCurrentAdminId(null);
+        clearTwoFactorVerification();
+        setState({ status: 'signedOut', account: null, admin: null, error: pendingError.current });
+        pendingError.current = null;
+        return;
+      }
+
+      setState((prev) => ({ ...prev, status: 'loading', error: null }));
+      try {
+        let admin = await loadAdmin(account);
+        const { security } = await loadSettings(dataSource);
+        await checkLockout(account.email, security.loginAttempts);
+        await checkIpAllowlist(dataSource, admin, security.ipWhitelist);
+        if (check !== latest) return;
+        setCurrentAdminId(admin.uid);
+        const enrolled = !!admin.twoFactorEnabled;
+        let secondFactor: AuthStatus | null = null;
+        if (enrolled && !isTwoFactorVerified(admin.uid)) secondFactor = 'twoFactorChallenge';
+        else if (!enrolled && isTwoFactorRequired(admin, security.twoFactorAuth)) secondFactor = 'twoFactorSetup';
+        // Un compte Google seul n'a pas de mot de passe à renouveler ; les règles n'autorisent
+        // l'écriture de la date qu'une fois le second facteur vérifié
+        if (account.hasPassword && !secondFactor) admin = await ensurePasswordDate(admin);
+        if (check !== latest) return;
+
+        const expired = account.hasPassword && isPasswordExpired(admin.passwordChangedAt, security.passwordExpiry);
+        afterSecondFactor.current = expired ? 'passwordExpired' : 'ready';
+        const status = secondFactor ?? afterSecondFactor.current;
+        // Les échecs ne sont effacés qu'une fois tous les facteurs vérifiés
+        if (!secondFactor) await resetLoginAttempts(dataSource, account.email);
+        setState({ status, account, admin, error: null });
+      } catch (err) {
+        console.error('Erreur lors de la vérification du compte administrateur :', err);
+        pendingError.current = err instanceof Error ? err.message : 'Impossible de vérifier vos droits.';
+        await dataSource.auth.signOut();
+      }
+    });
+  }, []);
+
+  // Les échecs sont comptés par email ; le verrouillage est appliqué à la connexion suivante
+  const signIn = useCallback(async (email: string, password: string) => {
+    try {
+      await dataSource.auth.signInWithEmail(email, password);
+    } catch (err) {
+      if (email.trim() && password) {
+        await recordFailedLogin(dataSource, email).catch((error) =>
+          console.error("Erreur lors de l'enregistrement de l'échec de connexion :", error)
+        );
+      }
+      throw err;
+    }
+  }, []);
+
+  const signInWithGoogle = useCallback(async () => {
+    await dataSource.auth.signInWithGoogle();
+  }, []);
+
+  const sendPasswordReset = useCallback((email: string) => dataSource.auth.sendPasswordReset(email), []);
+
+  // Termine la connexion une fois le second facteur vérifié
+  const completeSecondFactor = useCallback(async (enrolled: boolean) => {
+    const uid = getCurrentAdminId();
+    markTwoFactorVerified(uid);
+    await resetLoginAttempts(dataSource, state.account?.email ?? '');
+    const admin = state.admin && state.account?.hasPassword ? await ensurePasswordDate(state.admin) : state.admin;
+    setState((prev) => ({
+      ...prev,
+      status: afterSecondFactor.current,
+      admin: admin && { ...admin, ...(enrolled ? { twoFactorEnabled: true } : {}) },
+    }));
+  }, [state.account, state.admin]);
+
+  // Un code erroné compte comme un échec de connexion et peut verrouiller le compte
+  const verifyTwoFactor = useCallback(async (code: string) => {
+    const email = state.account?.email ?? '';
+    if (!(await verifySecondFactor(dataSource, code))) {
+      await recordFailedLogin(dataSource, email);
+      const { security } = await loadSettings(dataSource);
+      try {
+        await checkLockout(email, security.loginAttempts);
+      } catch (err) {
+        pendingError.current = (err as Error).message;
+        await dataSource.auth.signOut();
+      }
+      throw new Error('Code invalide');
+    }
+    await completeSecondFactor(false);
+  }, [state.account, completeSecondFactor]);
+
+  // Appelé après l'enrôlement imposé, une fois les codes de secours affichés
+  const completeTwoFactorSetup = useCallback(() => completeSecondFactor(true), [completeSecondFactor]);
+
+  const changePassword = useCallback(async (currentPassword: string, newPassword: string) => {
+    const policyError = getPasswordPolicyError(currentPassword, newPassword);
+    if (policyError) throw new Error(policyError);
+    await dataSource.auth.changePassword(currentPassword, newPassword);
+    const passwordChangedAt = new Date().toISOString();
+    await dataSource.users.update(getCurrentAdminId(), { passwordChangedAt }, { action: 'Changement mot de passe' });
+    setState((prev) => ({
+      ...prev,
+      status: 'ready',
+      admin: prev.admin && { ...prev.admin, passwordChangedAt },
+    }));
+  }, []);
+
+  // Le motif éventuel (session expirée…) est affiché sur l'écran de connexion
+  const signOut = useCallback(async (reason?: string) => {
+    pendingError.current = reason ?? null;
+    await dataSource.auth.signOut();
+  }, []);
+
+  const value = useMemo(
+    () => ({
+      ...state,
+      signIn,
+      signInWithGoogle,
+      sendPasswordReset,
+      verifyTwoFactor,
+      completeTwoFactorSetup,
+      changePassword,
+      signOut,
+    }),
+    [state, signIn, signInWithGoogle, sendPasswordReset, verifyTwoFactor, completeTwoFactorSetup, changePassword, signOut]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
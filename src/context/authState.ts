@@ -0,0 +1,34 @@
+import { createContext } from 'react';
+import { AuthAccount } from '../data/dataSource';
+import { User } from '../types';
+
+// Statuts intermédiaires : la console reste fermée tant que le second facteur n'est pas vérifié
+// (twoFactorChallenge) ou configuré alors qu'il est exigé (twoFactorSetup), puis tant que
+// le mot de passe expiré n'est pas renouvelé (passwordExpired)
+export type AuthStatus =
+  | 'loading'
+  | 'signedOut'
+  | 'twoFactorChallenge'
+  | 'twoFactorSetup'
+  | 'passwordExpired'
+  | 'ready';
+
+export interface AuthState {
+  status: AuthStatus;
+  account: AuthAccount | null;
+  admin: User | null;
+  error: string | null;
+}
+
+export interface AuthContextValue extends AuthState {
+  signIn: (email: string, password: string) => Promise<void>;
+  signInWithGoogle: () => Promise<void>;
+  sendPasswordReset: (email: string) => Promise<void>;
+  verifyTwoFactor: (code: string) => Promise<void>;
+  completeTwoFactorSetup: () => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  signOut: (reason?: string) => Promise<void>;
+}
+
+// Contexte partagé entre AuthProvider et le hook useAuth
+export const AuthContext = createContext<AuthContextValue | null>(null);
@@ -0,0 +1,130 @@
+import { LoginAttempt } from '../types';
+import { DataSource } from './dataSource';
+import { createActivityLog } from './audit';
+
+// Un compte verrouillé se déverrouille seul après ce délai sans nouvel échec
+export const LOCKOUT_DURATION_MINUTES = 30;
+
+export const MIN_PASSWORD_LENGTH = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Normalise un email pour servir d'identifiant de document LoginAttempts.
+ * @param email - Email saisi.
+ * @returns Email en minuscules, sans espaces.
+ */
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * Indique si le délai de verrouillage est écoulé depuis le dernier échec.
+ * @param attempt - Échecs enregistrés pour le compte.
+ * @param now - Date de référence.
+ * @returns true si le décompte doit repartir de zéro.
+ */
+export const isLockExpired = (attempt: LoginAttempt, now = new Date()): boolean =>
+  now.getTime() - new Date(attempt.lastFailedAt).getTime() >= LOCKOUT_DURATION_MINUTES * 60 * 1000;
+
+/**
+ * Indique si les échecs enregistrés verrouillent le compte.
+ * @param attempt - Échecs enregistrés pour le compte, null si aucun.
+ * @param maxAttempts - Nombre d'échecs autorisés (paramètre security.loginAttempts).
+ * @param now - Date de référence.
+ * @returns true tant que le seuil est atteint et que le délai de verrouillage n'est pas écoulé.
+ */
+export const isLockedOut = (attempt: LoginAttempt | null, maxAttempts: number, now = new Date()): boolean =>
+  !!attempt && attempt.failedCount >= maxAttempts && !isLockExpired(attempt, now);
+
+/**
+ * Comptabilise un échec de connexion. Appelé avant authentification : l'écriture n'est pas journalisée,
+ * et le décompte, lisible des seuls administrateurs, n'est pas relu. L'échec y est ajouté, ce que les
+ * règles n'acceptent que dans le délai de verrouillage du précédent : au-delà, le décompte repart de 1.
+ * @param source - Source de données.
+ * @param email - Email utilisé pour la tentative.
+ * @returns Résolu lorsque l'échec est enregistré.
+ */
+export const recordFailedLogin = async (source: DataSource, email: string): Promise<void> => {
+  const id = normalizeEmail(email);
+  if (!id) return;
+  try {
+    await source.loginAttempts.recordFailure(id, false);
+  } catch {
+    await source.loginAttempts.recordFailure(id, true);
+  }
+};
+
+/**
+ * Remet à zéro les échecs d'un compte après une connexion réussie.
+ * @param source - Source de données.
+ * @param email - Email du compte connecté.
+ * @returns Résolu lorsque le décompte est effacé.
+ */
+export const resetLoginAttempts = async (source: DataSource, email: string): Promise<void> => {
+  const id = normalizeEmail(email);
+  const attempt = await source.loginAttempts.getById(id);
+  if (attempt && attempt.failedCount > 0) await source.loginAttempts.update(id, { failedCount: 0 });
+};
+
+/**
+ * Déverrouille un compte et journalise l'opération.
+ * @param source - Source de données.
+ * @param attempt - Échecs enregistrés pour le compte.
+ * @param adminId - Super administrateur à l'origine du déverrouillage.
+ * @param userId - UID du compte déverrouillé, s'il est connu.
+ * @returns Résolu lorsque le compte est déverrouillé.
+ */
+export const unlockAccount = async (
+  source: DataSource,
+  attempt: LoginAttempt,
+  adminId: string,
+  userId?: string
+): Promise<void> => {
+  await source.loginAttempts.remove(attempt.id);
+  await source.activityLogs.create(createActivityLog({
+    adminId,
+    action: 'Déverrouillage compte',
+    targetType: 'user',
+    targetId: userId ?? attempt.id,
+    details: `${attempt.failedCount} échec(s) de connexion effacé(s) pour ${attempt.id}`,
+  }));
+};
+
+/**
+ * Calcule la date d'expiration d'un mot de passe.
+ * @param passwordChangedAt - Date du dernier changement (ISO).
+ * @param expiryDays - Durée de validité en jours (paramètre security.passwordExpiry), 0 pour désactiver.
+ * @returns Date d'expiration, ou null si l'expiration est désactivée ou la date inconnue.
+ */
+export const getPasswordExpiryDate = (passwordChangedAt: string | undefined, expiryDays: number): Date | null => {
+  if (!expiryDays || !passwordChangedAt) return null;
+  return new Date(new Date(passwordChangedAt).getTime() + expiryDays * DAY_MS);
+};
+
+/**
+ * Indique si le mot de passe doit être renouvelé.
+ * @param passwordChangedAt - Date du dernier changement (ISO).
+ * @param expiryDays - Durée de validité en jours, 0 pour désactiver.
+ * @param now - Date de référence.
+ * @returns true si la date d'expiration est dépassée.
+ */
+export const isPasswordExpired = (passwordChangedAt: string | undefined, expiryDays: number, now = new Date()): boolean => {
+  const expiry = getPasswordExpiryDate(passwordChangedAt, expiryDays);
+  return !!expiry && expiry.getTime() <= now.getTime();
+};
+
+/**
+ * Vérifie qu'un nouveau mot de passe respecte la politique de la console.
+ * @param currentPassword - Mot de passe actuel.
+ * @param newPassword - Nouveau mot de passe.
+ * @returns Message d'erreur, ou null si le mot de passe est acceptable.
+ */
+export const getPasswordPolicyError = (currentPassword: string, newPassword: string): string | null => {
+  if (newPassword.length < MIN_PASSWORD_LENGTH) {
+    return `Le mot de passe doit contenir au moins ${MIN_PASSWORD_LENGTH} caractères`;
+  }
+  if (!/[a-z]/.test(newPassword) || !/[A-Z]/.test(newPassword) || !/\d/.test(newPassword)) {
+    return 'Le mot de passe doit contenir une minuscule, une majuscule et un chiffre';
+  }
+  if (newPassword === currentPassword) return "Le nouveau mot de passe doit être différent de l'actuel";
+  return null;
+};
@@ -0,0 +1,244 @@
+import { Contract, Property, Transaction, User } from '../types';
+import { ADMIN_ROLE_ID, AGENCY_ROLE_ID, getUserFullName } from '../utils/users';
+import { DateRange } from '../utils/statistics';
+import { countBatchWrites } from './audit';
+import { BatchWrite, DataSource, MAX_BATCH_WRITES, readAllPages } from './dataSource';
+
+// Données lues par le tableau de bord et le rapport de commissions d'une agence
+export interface AgencyInput {
+  users: User[];
+  properties: Property[];
+  contracts: Contract[];
+  transactions: Transaction[];
+}
+
+// Activité d'un membre de l'agence (le compte agence lui-même ou l'un de ses agents)
+export interface AgentSummary {
+  agent: User;
+  properties: number;
+  occupied: number;
+  activeContracts: number;
+  monthlyRent: number;
+}
+
+export interface AgencyOverview {
+  agents: User[];
+  // Portefeuille : propriétés détenues par le compte agence ou par l'un de ses agents
+  portfolio: Property[];
+  pendingProperties: number;
+  occupancyRate: number;
+  activeContracts: number;
+  monthlyRent: number;
+  members: AgentSummary[];
+}
+
+export interface CommissionRow {
+  agent: User;
+  rents: number;
+  commissions: number;
+  pendingCommissions: number;
+}
+
+/**
+ * Indique si un utilisateur est un compte d'agence immobilière.
+ * @param user - Utilisateur.
+ * @returns true pour un compte agence non effacé.
+ */
+export const isAgency = (user: User): boolean => user.typeUsersId === AGENCY_ROLE_ID && !user.erasedAt;
+
+/**
+ * Liste les membres d'une agence : le compte agence, qui peut détenir des propriétés, puis ses agents.
+ * @param users - Utilisateurs.
+ * @param agency - Compte agence.
+ * @returns Membres de l'agence.
+ */
+export const getAgencyMembers = (users: User[], agency: User): User[] => [
+  agency,
+  ...users.filter((user) => user.agencyId === agency.uid && user.uid !== agency.uid),
+];
+
+const isActiveContract = (contract: Contract) => contract.status === 'actif';
+
+/**
+ * Calcule le tableau de bord d'une agence : portefeuille, occupation, contrats actifs et loyers,
+ * au total et par membre.
+ * @param input - Données de la plateforme.
+ * @param agency - Compte agence.
+ * @returns Indicateurs de l'agence.
+ */
+export const getAgencyOverview = (input: AgencyInput, agency: User): AgencyOverview => {
+  const members = getAgencyMembers(input.users, agency);
+  const memberIds = new Set(members.map((member) => member.uid));
+  const portfolio = input.properties.filter((property) => memberIds.has(property.ownerId));
+  const portfolioIds = new Set(portfolio.map((property) => property.id));
+  const contracts = input.contracts.filter((contract) => portfolioIds.has(contract.propertyId) && isActiveContract(contract));
+  const ownerOf = new Map(portfolio.map((property) => [property.id, property.ownerId]));
+  const listed = portfolio.filter((property) => property.validationStatus === 'accepte');
+
+  return {
+    agents: members.slice(1),
+    portfolio,
+    pendingProperties: portfolio.filter((property) => property.validationStatus === 'en_attente').length,
+    occupancyRate: listed.length
+      ? Math.round((listed.filter((property) => property.status === 'occupe').length / listed.length) * 100)
+      : 0,
+    activeContracts: contracts.length,
+    monthlyRent: contracts.reduce((sum, contract) => sum + contract.monthlyRent, 0),
+    members: members.map((agent) => {
+      const owned = portfolio.filter((property) => property.ownerId === agent.uid);
+      const agentContracts = contracts.filter((contract) => ownerOf.get(contract.propertyId) === agent.uid);
+      return {
+        agent,
+        properties: owned.length,
+        occupied: owned.filter((property) => property.status === 'occupe').length,
+        activeContracts: agentContracts.length,
+        monthlyRent: agentContracts.reduce((sum, contract) => sum + contract.monthlyRent, 0),
+      };
+    }),
+  };
+};
+
+/**
+ * Calcule les loyers encaissés et les commissions des propriétés du portefeuille d'une agence
+ * sur une période, par membre. Une commission revient au membre qui l'a réglée ; les loyers
+ * reviennent au détenteur actuel de la propriété, qui en reprend l'historique lors d'un transfert.
+ * @param input - Données de la plateforme.
+ * @param agency - Compte agence.
+ * @param range - Période, selon la date des transactions.
+ * @returns Une ligne par membre de l'agence.
+ */
+export const getCommissionReport = (input: AgencyInput, agency: User, range: DateRange): CommissionRow[] => {
+  const members = getAgencyMembers(input.users, agency);
+  const memberIds = new Set(members.map((member) => member.uid));
+  const ownerOf = new Map(
+    input.properties.filter((property) => memberIds.has(property.ownerId)).map((property) => [property.id, property.ownerId])
+  );
+  const rows = new Map(members.map((agent) => [agent.uid, { agent, rents: 0, commissions: 0, pendingCommissions: 0 }]));
+
+  input.transactions.forEach((transaction) => {
+    const day = transaction.date.slice(0, 10);
+    const owner = transaction.propertyId ? ownerOf.get(transaction.propertyId) : undefined;
+    if (!owner || day < range.start || day > range.end) return;
+    if (transaction.type === 'loyer' && transaction.status === 'paye') {
+      rows.get(owner)!.rents += transaction.amount;
+    } else if (transaction.type === 'commission' && transaction.status !== 'annule') {
+      const row = rows.get(memberIds.has(transaction.userId) ? transaction.userId : owner)!;
+      if (transaction.status === 'paye') row.commissions += transaction.amount;
+      else row.pendingCommissions += transaction.amount;
+    }
+  });
+  return Array.from(rows.values());
+};
+
+/**
+ * Rattache un utilisateur à une agence en tant qu'agent ; ses propriétés entrent dans le
+ * portefeuille de l'agence.
+ * @param source - Source de données.
+ * @param agency - Compte agence.
+ * @param agent - Utilisateur à rattacher.
+ * @throws Error si l'utilisateur ne peut pas devenir agent ou appartient déjà à une agence.
+ */
+export const attachAgent = async (source: DataSource, agency: User, agent: User): Promise<void> => {
+  const current = await source.users.getById(agent.uid);
+  if (!current) throw new Error('Utilisateur introuvable');
+  if (current.typeUsersId === ADMIN_ROLE_ID || current.typeUsersId === AGENCY_ROLE_ID) {
+    throw new Error('Un administrateur ou un compte agence ne peut pas devenir agent');
+  }
+  if (current.erasedAt || current.mergedInto) throw new Error('Ce compte a été effacé ou fusionné');
+  if (current.agencyId) {
+    throw new Error(
+      current.agencyId === agency.uid
+        ? 'Cet utilisateur est déjà agent de cette agence'
+        : "Cet utilisateur est déjà agent d'une autre agence"
+    );
+  }
+  await source.users.update(
+    agent.uid,
+    { agencyId: agency.uid, lastUpdated: new Date().toISOString() },
+    { action: 'Rattachement agent', details: `Agent de ${getUserFullName(agency)}` }
+  );
+};
+
+/**
+ * Détache un agent de son agence. Ses propriétés devant rester dans le portefeuille, elles sont
+ * à transférer au préalable à un autre membre de l'agence.
+ * @param source - Source de données.
+ * @param agency - Compte agence.
+ * @param agent - Agent à détacher.
+ * @throws Error si l'utilisateur n'est pas agent de l'agence ou détient encore des propriétés.
+ */
+export const detachAgent = async (source: DataSource, agency: User, agent: User): Promise<void> => {
+  const current = await source.users.getById(agent.uid);
+  if (current?.agencyId !== agency.uid) throw new Error("Cet utilisateur n'est pas agent de cette agence");
+  const owned = await source.properties.count([{ field: 'ownerId', op: '==', value: agent.uid }]);
+  if (owned) {
+    throw new Error(`Transférez d'abord les ${owned} propriété(s) de cet agent à un autre membre de l'agence`);
+  }
+  await source.users.update(
+    agent.uid,
+    { agencyId: '', lastUpdated: new Date().toISOString() },
+    { action: 'Détachement agent', details: `Ancien agent de ${getUserFullName(agency)}` }
+  );
+};
+
+/**
+ * Transfère des propriétés du portefeuille d'une agence à l'un de ses membres, en une seule
+ * transaction ; les contrats actifs de ces propriétés suivent le nouveau détenteur.
+ * @param source - Source de données.
+ * @param agency - Compte agence.
+ * @param propertyIds - Propriétés à transférer.
+ * @param recipient - Membre de l'agence qui reprend les propriétés.
+ * @returns Nombre de propriétés et de contrats transférés.
+ * @throws Error si une propriété ou le destinataire n'appartient pas à l'agence, ou si le
+ * transfert dépasse la taille d'une transaction.
+ */
+export const transferProperties = async (
+  source: DataSource,
+  agency: User,
+  propertyIds: string[],
+  recipient: User
+): Promise<{ properties: number; contracts: number }> => {
+  const contracts = (
+    await Promise.all(
+      propertyIds.map((id) => readAllPages(source.contracts, { filters: [{ field: 'propertyId', op: '==', value: id }] }))
+    )
+  )
+    .flat()
+    .filter(isActiveContract);
+
+  return source.runTransaction(async (transaction) => {
+    const isMember = (user: User | null) => !!user && (user.uid === agency.uid || user.agencyId === agency.uid);
+    const target = await transaction.get('users', recipient.uid);
+    if (!isMember(target)) throw new Error("Le destinataire n'est pas membre de cette agence");
+    const audit = { action: 'Transfert de propriété', details: `Vers ${getUserFullName(target)}` };
+
+    const writes: BatchWrite[] = [];
+    const owners = new Map<string, User | null>();
+    for (const id of propertyIds) {
+      const property = await transaction.get('properties', id);
+      if (!property) throw new Error(`Propriété ${id} introuvable`);
+      if (property.ownerId === recipient.uid) continue;
+      if (!owners.has(property.ownerId)) owners.set(property.ownerId, await transaction.get('users', property.ownerId));
+      if (!isMember(owners.get(property.ownerId) ?? null)) {
+        throw new Error(`La propriété ${property.name} n'appartient pas au portefeuille de l'agence`);
+      }
+      writes.push({ store: 'properties', type: 'update', id, data: { ownerId: recipient.uid }, audit });
+    }
+    const transferred = new Set(writes.map((write) => write.id));
+
+    let contractCount = 0;
+    for (const { id } of contracts) {
+      const contract = await transaction.get('contracts', id);
+      if (!contract || !transferred.has(contract.propertyId) || !isActiveContract(contract)) continue;
+      writes.push({ store: 'contracts', type: 'update', id, data: { ownerId: recipient.uid }, audit });
+      contractCount += 1;
+    }
+
+    const size = countBatchWrites(writes);
+    if (size > MAX_BATCH_WRITES) {
+      throw new Error(`Trop de documents pour un seul transfert (${size} écritures, maximum ${MAX_BATCH_WRITES})`);
+    }
+    writes.forEach(transaction.write);
+    return { properties: transferred.size, contracts: contractCount };
+  });
+};
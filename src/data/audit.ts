@@ -0,0 +1,287 @@
+import { ActivityLog, ActivityLogChange, ActivityTargetType } from '../types';
+import {
+  AuditContext,
+  BatchStoreName,
+  BatchWrite,
+  DataSource,
+  EntityStore,
+  generateDocumentId,
+} from './dataSource';
+
+// Libellés des entités, utilisés pour le champ "target" du journal
+export const ACTIVITY_TARGET_LABELS: Record<ActivityTargetType, string> = {
+  user: 'Utilisateur',
+  property: 'Propriété',
+  transaction: 'Transaction',
+  contract: 'Contrat',
+  message: 'Message',
+  partner: 'Partenaire',
+  settings: 'Paramètres',
+};
+
+// Collections métier journalisées par withAudit, avec le type d'entité qu'elles portent
+const AUDITED_STORES: Partial<Record<BatchStoreName, ActivityTargetType>> = {
+  users: 'user',
+  properties: 'property',
+  transactions: 'transaction',
+  contracts: 'contract',
+  messages: 'message',
+  partners: 'partner',
+};
+
+/**
+ * Compte les écritures d'un lot une fois journalisé : chaque écriture sur une collection
+ * métier est accompagnée de son entrée de journal.
+ * @param writes - Écritures du lot.
+ * @returns Nombre d'écritures à comparer à MAX_BATCH_WRITES.
+ */
+export const countBatchWrites = (writes: BatchWrite[]): number =>
+  writes.length + writes.filter(write => AUDITED_STORES[write.store]).length;
+
+// Entrée de journal avant horodatage
+export interface ActivityEntry {
+  adminId: string;
+  action: string;
+  targetType: ActivityTargetType;
+  targetId: string;
+  changes?: ActivityLogChange[];
+  details?: string;
+}
+
+// Firestore refuse les valeurs undefined : elles sont enregistrées comme null
+const normalize = (value: unknown) => (value === undefined ? null : value);
+
+/**
+ * Calcule les champs modifiés entre deux états d'une entité.
+ * @param before - État avant la mutation (null pour une création).
+ * @param after - État après la mutation (null pour une suppression).
+ * @returns Liste des champs dont la valeur a changé, avec leurs valeurs avant et après.
+ */
+export const diffChanges = (
+  before: object | null,
+  after: object | null
+): ActivityLogChange[] => {
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+
+  return Array.from(fields)
+    .filter(field => JSON.stringify(previous[field]) !== JSON.stringify(next[field]))
+    .map(field => ({ field, before: normalize(previous[field]), after: normalize(next[field]) }));
+};
+
+/**
+ * Masque les valeurs des champs sensibles (mots de passe, clés secrètes) avant journalisation.
+ * @param changes - Modifications à journaliser.
+ * @param pattern - Motif des noms de champs sensibles.
+ * @returns Modifications dont les valeurs sensibles sont remplacées par "••••".
+ */
+export const redactChanges = (
+  changes: ActivityLogChange[],
+  pattern: RegExp = /password|secret/i
+): ActivityLogChange[] =>
+  changes.map(change =>
+    pattern.test(change.field)
+      ? { field: change.field, before: change.before ? '••••' : null, after: change.after ? '••••' : null }
+      : change
+  );
+
+/**
+ * Applique au journal d'une mutation le masquage demandé par son contexte.
+ * @param changes - Modifications de la mutation.
+ * @param audit - Contexte de journalisation.
+ * @returns Modifications, toutes valeurs masquées si audit.redact est vrai.
+ */
+const applyRedaction = (changes: ActivityLogChange[], audit?: AuditContext): ActivityLogChange[] =>
+  audit?.redact ? redactChanges(changes, /./) : changes;
+
+/**
+ * Construit un enregistrement de journal horodaté.
+ * @param entry - Auteur, action, cible et modifications.
+ * @param timestamp - Date de l'action (maintenant par défaut).
+ * @returns Enregistrement prêt à être écrit dans ActivityLogs.
+ */
+export const createActivityLog = (
+  entry: ActivityEntry,
+  timestamp: string = new Date().toISOString()
+): Omit<ActivityLog, 'id'> => ({
+  adminId: entry.adminId,
+  action: entry.action,
+  target: `${ACTIVITY_TARGET_LABELS[entry.targetType]} ${entry.targetId}`,
+  targetType: entry.targetType,
+  targetId: entry.targetId,
+  timestamp,
+  details: entry.details ?? '',
+  changes: entry.changes ?? [],
+});
+
+/**
+ * Enveloppe un magasin d'entités pour journaliser chaque mutation réussie avec l'état
+ * avant/après des champs touchés.
+ * @param store - Magasin d'origine.
+ * @param targetType - Type d'entité gérée par le magasin.
+ * @param record - Écriture d'une entrée de journal.
+ * @param getAdminId - Fournit l'auteur de la mutation.
+ * @returns Magasin journalisé.
+ */
+const auditStore = <T extends object, K extends keyof T>(
+  store: EntityStore<T, K>,
+  targetType: ActivityTargetType,
+  record: (entry: ActivityEntry) => Promise<void>,
+  getAdminId: () => string
+): EntityStore<T, K> => {
+  const label = ACTIVITY_TARGET_LABELS[targetType].toLowerCase();
+  const entry = (
+    adminId: string,
+    audit: AuditContext | undefined,
+    fallback: string,
+    targetId: string,
+    changes: ActivityLogChange[]
+  ) =>
+    record({
+      adminId,
+      action: audit?.action ?? fallback,
+      details: audit?.details,
+      targetType,
+      targetId,
+      changes: applyRedaction(changes, audit),
+    });
+
+  // L'auteur est résolu avant la mutation : sans administrateur connecté, rien n'est écrit
+  return {
+    ...store,
+
+    create: async (data, audit) => {
+      const adminId = getAdminId();
+      const id = await store.create(data);
+      await entry(adminId, audit, `Création ${label}`, id, diffChanges(null, data));
+      return id;
+    },
+
+    set: async (id, data, audit) => {
+      const adminId = getAdminId();
+      const before = await store.getById(id);
+      await store.set(id, data);
+      await entry(adminId, audit, `Enregistrement ${label}`, id, diffChanges(before, { ...before, ...data }));
+      return id;
+    },
+
+    update: async (id, data, audit) => {
+      const adminId = getAdminId();
+      const before = (await store.getById(id)) as Record<string, unknown> | null;
+      await store.update(id, data);
+      const touched = Object.fromEntries(Object.keys(data).map(field => [field, before?.[field]]));
+      await entry(adminId, audit, `Modification ${label}`, id, diffChanges(touched, data));
+    },
+
+    remove: async (id, audit) => {
+      const adminId = getAdminId();
+      const before = await store.getById(id);
+      await store.remove(id);
+      await entry(adminId, audit, `Suppression ${label}`, id, diffChanges(before, null));
+    },
+  };
+};
+
+/**
+ * Prépare l'entrée de journal d'une écriture sur une collection métier.
+ * @param write - Écriture journalisée.
+ * @param before - État du document avant l'écriture (null s'il n'existe pas).
+ * @param adminId - Auteur de l'écriture.
+ * @returns Écriture de l'entrée de journal, null si la collection n'est pas journalisée.
+ */
+const toAuditWrite = (write: BatchWrite, before: object | null, adminId: string): BatchWrite | null => {
+  const targetType = AUDITED_STORES[write.store];
+  if (!targetType) return null;
+  const label = ACTIVITY_TARGET_LABELS[targetType].toLowerCase();
+  const previous = before as Record<string, unknown> | null;
+
+  let fallback: string;
+  let changes: ActivityLogChange[];
+  if (write.type === 'update') {
+    const touched = Object.fromEntries(Object.keys(write.data).map(field => [field, previous?.[field]]));
+    fallback = `Modification ${label}`;
+    changes = diffChanges(touched, write.data);
+  } else if (write.type === 'set') {
+    fallback = `Enregistrement ${label}`;
+    changes = diffChanges(previous, { ...previous, ...write.data });
+  } else {
+    fallback = `Suppression ${label}`;
+    changes = diffChanges(previous, null);
+  }
+
+  const log = createActivityLog({
+    adminId,
+    action: write.audit?.action ?? fallback,
+    details: write.audit?.details,
+    targetType,
+    targetId: write.id,
+    changes: applyRedaction(changes, write.audit),
+  });
+  return { store: 'activityLogs', type: 'set', id: generateDocumentId(), data: log };
+};
+
+/**
+ * Enveloppe l'application de lots pour ajouter au même lot une entrée de journal par écriture
+ * sur une collection métier : les modifications et leur trace sont validées ensemble.
+ * @param source - Source de données d'origine.
+ * @param getAdminId - Fournit l'auteur des écritures.
+ * @returns Fonction runBatch journalisée.
+ */
+const auditBatch = (source: DataSource, getAdminId: () => string) => async (writes: BatchWrite[]) => {
+  const adminId = getAdminId();
+  const logs = await Promise.all(
+    writes.map(async write =>
+      AUDITED_STORES[write.store] ? toAuditWrite(write, await source[write.store].getById(write.id), adminId) : null
+    )
+  );
+  await source.runBatch([...writes, ...logs.filter((log): log is BatchWrite => log !== null)]);
+};
+
+/**
+ * Enveloppe les transactions pour y ajouter une entrée de journal par écriture sur une collection
+ * métier, l'état avant l'écriture étant lu dans la transaction.
+ * @param source - Source de données d'origine.
+ * @param getAdminId - Fournit l'auteur des écritures.
+ * @returns Fonction runTransaction journalisée.
+ */
+const auditTransaction = (source: DataSource, getAdminId: () => string): DataSource['runTransaction'] => work => {
+  const adminId = getAdminId();
+  return source.runTransaction(async transaction => {
+    const writes: BatchWrite[] = [];
+    const result = await work({ get: transaction.get, write: write => writes.push(write) });
+    const logs: BatchWrite[] = [];
+    for (const write of writes) {
+      const log = AUDITED_STORES[write.store] ? toAuditWrite(write, await transaction.get(write.store, write.id), adminId) : null;
+      if (log) logs.push(log);
+    }
+    [...writes, ...logs].forEach(transaction.write);
+    return result;
+  });
+};
+
+/**
+ * Ajoute la journalisation automatique à toutes les collections métier d'une source de données.
+ * Le journal lui-même n'est pas journalisé, ni l'historique des paramètres, que saveSettingsVersion
+ * journalise champ par champ avec les secrets masqués.
+ * @param source - Source de données d'origine.
+ * @param getAdminId - Fournit l'identifiant de l'administrateur connecté au moment de l'action.
+ * @returns Source de données journalisée.
+ */
+export const withAudit = (source: DataSource, getAdminId: () => string): DataSource => {
+  const record = async (entry: ActivityEntry) => {
+    await source.activityLogs.create(createActivityLog(entry));
+  };
+
+  return {
+    ...source,
+    users: auditStore(source.users, 'user', record, getAdminId),
+    properties: auditStore(source.properties, 'property', record, getAdminId),
+    transactions: auditStore(source.transactions, 'transaction', record, getAdminId),
+    contracts: auditStore(source.contracts, 'contract', record, getAdminId),
+    messages: auditStore(source.messages, 'message', record, getAdminId),
+    partners: auditStore(source.partners, 'partner', record, getAdminId),
+    runBatch: auditBatch(source, getAdminId),
+    runTransaction: auditTransaction(source, getAdminId),
+  };
+};
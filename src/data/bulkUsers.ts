@@ -0,0 +1,179 @@
+import { Message, User } from '../types';
+import { BatchWrite, DataSource, MAX_BATCH_WRITES, generateDocumentId } from './dataSource';
+import { countBatchWrites } from './audit';
+
+// Préparation des écritures d'un utilisateur ; lève une Error pour l'exclure de l'opération
+export type BulkPlanner = (user: User) => BatchWrite[];
+
+export interface BulkFailure {
+  user: User;
+  reason: string;
+}
+
+export interface BulkReport {
+  succeeded: User[];
+  failures: BulkFailure[];
+}
+
+export interface BulkProgress {
+  done: number;
+  total: number;
+}
+
+interface BulkPlan {
+  user: User;
+  writes: BatchWrite[];
+}
+
+const BULK_DETAILS = 'Action groupée';
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const updateUser = (user: User, data: Partial<User>, action: string): BatchWrite[] => [
+  { store: 'users', type: 'update', id: user.uid, data, audit: { action, details: BULK_DETAILS } },
+];
+
+/**
+ * Prépare la validation d'une inscription en attente.
+ * @param user - Utilisateur.
+ * @returns Écritures de l'utilisateur.
+ * @throws Error si l'inscription n'est pas en attente.
+ */
+export const planApproval: BulkPlanner = (user) => {
+  if (user.statut !== 2) throw new Error('Inscription non en attente');
+  return updateUser(user, { statut: 1 }, 'Validation utilisateur');
+};
+
+/**
+ * Prépare le bannissement d'un utilisateur.
+ * @param adminId - Administrateur à l'origine de l'opération, qui ne peut se bannir lui-même.
+ * @returns Planificateur de l'opération.
+ */
+export const planBan = (adminId: string): BulkPlanner => (user) => {
+  if (user.uid === adminId) throw new Error('Impossible de bannir son propre compte');
+  if (user.statut === 0) throw new Error('Compte déjà banni');
+  return updateUser(user, { statut: 0 }, 'Bannissement utilisateur');
+};
+
+/**
+ * Prépare le changement de rôle (typeUsersId) d'utilisateurs non administrateurs ; le rôle
+ * administrateur, qui exige un sous-rôle, s'attribue depuis la fiche de l'utilisateur.
+ * @param typeUsersId - Nouveau rôle.
+ * @param adminRoleId - Valeur de typeUsersId des administrateurs.
+ * @returns Planificateur de l'opération.
+ */
+export const planRoleChange = (typeUsersId: number, adminRoleId: number): BulkPlanner => (user) => {
+  if (typeUsersId === adminRoleId) throw new Error('Le rôle administrateur s’attribue individuellement');
+  if (user.typeUsersId === adminRoleId) throw new Error('Compte administrateur : rôle à modifier depuis sa fiche');
+  if (user.typeUsersId === typeUsersId) throw new Error('Rôle déjà attribué');
+  return updateUser(user, { typeUsersId }, 'Changement de rôle');
+};
+
+/**
+ * Prépare l'envoi d'une notification dans la messagerie de chaque utilisateur.
+ * @param senderId - Administrateur expéditeur.
+ * @param content - Texte du message.
+ * @returns Planificateur de l'opération.
+ * @throws Error si le message est vide.
+ */
+export const planMessage = (senderId: string, content: string): BulkPlanner => {
+  const trimmed = content.trim();
+  if (!trimmed) throw new Error('Le message ne peut pas être vide');
+  const timestamp = new Date().toISOString();
+  return (user) => {
+    const message: Omit<Message, 'id'> = {
+      senderId,
+      receiverId: user.uid,
+      content: trimmed,
+      timestamp,
+      status: 'non_lu',
+      type: 'notification',
+      flagged: false,
+    };
+    return [
+      {
+        store: 'messages',
+        type: 'set',
+        id: generateDocumentId(),
+        data: message,
+        audit: { action: 'Message groupé', details: `Utilisateur ${user.uid}` },
+      },
+    ];
+  };
+};
+
+/**
+ * Regroupe les plans en lots respectant MAX_BATCH_WRITES, entrées de journal comprises,
+ * sans jamais répartir les écritures d'un même utilisateur sur deux lots.
+ * @param plans - Écritures par utilisateur.
+ * @returns Lots de plans.
+ */
+const chunkPlans = (plans: BulkPlan[]): BulkPlan[][] => {
+  const chunks: BulkPlan[][] = [];
+  let current: BulkPlan[] = [];
+  let size = 0;
+  plans.forEach((plan) => {
+    const cost = countBatchWrites(plan.writes);
+    if (current.length && size + cost > MAX_BATCH_WRITES) {
+      chunks.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(plan);
+    size += cost;
+  });
+  if (current.length) chunks.push(current);
+  return chunks;
+};
+
+/**
+ * Applique une opération à plusieurs utilisateurs par lots atomiques (runBatch). Lorsqu'un lot
+ * échoue, ses utilisateurs sont repris un par un pour isoler ceux en cause.
+ * @param source - Source de données.
+ * @param users - Utilisateurs sélectionnés.
+ * @param planner - Préparation des écritures de chaque utilisateur.
+ * @param onProgress - Avancement, appelé après chaque lot.
+ * @returns Utilisateurs traités et échecs avec leur motif.
+ */
+export const runBulkUserOperation = async (
+  source: DataSource,
+  users: User[],
+  planner: BulkPlanner,
+  onProgress?: (progress: BulkProgress) => void
+): Promise<BulkReport> => {
+  const report: BulkReport = { succeeded: [], failures: [] };
+  const plans: BulkPlan[] = [];
+  users.forEach((user) => {
+    try {
+      plans.push({ user, writes: planner(user) });
+    } catch (error) {
+      report.failures.push({ user, reason: errorMessage(error) });
+    }
+  });
+
+  const progress = { done: report.failures.length, total: users.length };
+  onProgress?.({ ...progress });
+
+  for (const chunk of chunkPlans(plans)) {
+    try {
+      await source.runBatch(chunk.flatMap((plan) => plan.writes));
+      report.succeeded.push(...chunk.map((plan) => plan.user));
+    } catch (error) {
+      if (chunk.length === 1) {
+        report.failures.push({ user: chunk[0].user, reason: errorMessage(error) });
+      } else {
+        for (const plan of chunk) {
+          try {
+            await source.runBatch(plan.writes);
+            report.succeeded.push(plan.user);
+          } catch (planError) {
+            report.failures.push({ user: plan.user, reason: errorMessage(planError) });
+          }
+        }
+      }
+    }
+    progress.done += chunk.length;
+    onProgress?.({ ...progress });
+  }
+  return report;
+};
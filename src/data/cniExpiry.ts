@@ -0,0 +1,95 @@
+import { PlatformSettings, User } from '../types';
+import { DataSource } from './dataSource';
+import { queuePushNotification } from './notifications';
+
+// Identifiant du document JobRuns de la tâche quotidienne
+export const CNI_EXPIRY_JOB_ID = 'cniExpiry';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// CNI expirée ou expirant dans le délai d'alerte
+export interface ExpiringCni {
+  user: User;
+  daysLeft: number;
+}
+
+export interface CniExpiryReport {
+  flagged: number;
+  // Notifications mises en file d'attente, envoyées ensuite par le back-end
+  enqueued: number;
+  unreachable: number;
+}
+
+/**
+ * Calcule le nombre de jours avant l'expiration de la CNI déclarée.
+ * @param user - Utilisateur.
+ * @param now - Date de référence.
+ * @returns Jours restants (négatif si expirée), ou null sans date d'expiration.
+ */
+export const getDaysUntilCniExpiry = (user: User, now = new Date()): number | null => {
+  if (!user.cniExpirationDate) return null;
+  return Math.ceil((new Date(user.cniExpirationDate).getTime() - now.getTime()) / DAY_MS);
+};
+
+/**
+ * Liste les utilisateurs dont la CNI est expirée ou expire dans le délai d'alerte.
+ * @param users - Utilisateurs.
+ * @param windowDays - Délai d'alerte en jours (paramètre security.cniExpiryWindowDays).
+ * @param now - Date de référence.
+ * @returns CNI concernées, de la plus anciennement expirée à la plus lointaine.
+ */
+export const findExpiringCnis = (users: User[], windowDays: number, now = new Date()): ExpiringCni[] =>
+  users
+    .map((user) => ({ user, daysLeft: getDaysUntilCniExpiry(user, now) }))
+    .filter((entry): entry is ExpiringCni => entry.daysLeft !== null && entry.daysLeft <= windowDays)
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+
+/**
+ * Passe en re-vérification les utilisateurs dont la CNI expire ou a expiré, et met en file d'attente
+ * une notification push pour les en informer, dans la limite de leurs préférences.
+ * @param source - Source de données.
+ * @param settings - Paramètres de la plateforme.
+ * @param adminId - Administrateur dont la session exécute la tâche.
+ * @param now - Date de référence.
+ * @returns Nombre d'utilisateurs passés en re-vérification, de notifications mises en file et d'injoignables.
+ */
+export const runCniExpiryCheck = async (
+  source: DataSource,
+  settings: PlatformSettings,
+  adminId: string,
+  now = new Date()
+): Promise<CniExpiryReport> => {
+  const report: CniExpiryReport = { flagged: 0, enqueued: 0, unreachable: 0 };
+  // Les utilisateurs déjà en re-vérification ne sont ni modifiés ni notifiés de nouveau
+  const expiring = findExpiringCnis(await source.users.getAll(), settings.security.cniExpiryWindowDays, now)
+    .filter(({ user }) => user.kycStatus !== 'a_reverifier');
+
+  for (const { user, daysLeft } of expiring) {
+    const date = new Date(user.cniExpirationDate).toLocaleDateString('fr-FR');
+    const expired = daysLeft <= 0;
+    await source.users.update(user.uid, { kycStatus: 'a_reverifier' }, {
+      action: 'Demande de re-vérification identité',
+      details: expired ? `CNI expirée le ${date}` : `CNI expirant le ${date}`,
+    });
+    report.flagged++;
+
+    // Les avis relatifs au compte suivent la préférence « messages » de l'utilisateur
+    const outcome = await queuePushNotification(
+      source,
+      user,
+      'messages',
+      expired ? "Votre pièce d'identité a expiré" : "Votre pièce d'identité arrive à expiration",
+      `Votre CNI ${expired ? 'a expiré' : 'expire'} le ${date}. Déposez votre nouvelle pièce depuis l'application pour conserver l'accès à vos services.`,
+      settings
+    );
+    if (outcome === 'enqueued') report.enqueued++;
+    else report.unreachable++;
+  }
+
+  await source.jobRuns.set(CNI_EXPIRY_JOB_ID, {
+    lastRunAt: now.toISOString(),
+    adminId,
+    summary: `${report.flagged} utilisateur(s) passé(s) en re-vérification, ${report.enqueued} notification(s) mise(s) en file d'attente, ${report.unreachable} injoignable(s)`,
+  });
+  return report;
+};
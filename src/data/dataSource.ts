@@ -0,0 +1,204 @@
+import {
+  User,
+  Property,
+  Transaction,
+  Contract,
+  Message,
+  Partner,
+  ActivityLog,
+  SettingsVersion,
+  SettingsSecrets,
+  SecurityPolicy,
+  LoginAttempt,
+  AdminSecurity,
+  PushNotification,
+  JobRun,
+} from '../types';
+
+// Libellé et précisions enregistrés au journal d'activité avec une mutation ; redact masque les
+// valeurs avant/après, pour ne pas recopier au journal des données personnelles effacées
+export interface AuditContext {
+  action: string;
+  details?: string;
+  redact?: boolean;
+}
+
+// Condition d'une requête paginée ; les comparaisons de chaînes suivent l'ordre lexicographique, comme Firestore
+export interface StoreFilter {
+  field: string;
+  op: '==' | '>=' | '<=';
+  value: string | number | boolean;
+}
+
+// Curseur opaque de reprise après la dernière entité d'une page
+export type StoreCursor = unknown;
+
+// Requête paginée ; un filtre d'inégalité impose de trier d'abord sur le même champ
+export interface StoreQuery {
+  filters?: StoreFilter[];
+  orderBy?: { field: string; direction: 'asc' | 'desc' };
+  pageSize: number;
+  after?: StoreCursor | null;
+}
+
+// Page de résultats ; curseur null après la dernière page
+export interface StorePage<T> {
+  items: T[];
+  cursor: StoreCursor | null;
+}
+
+// Magasin d'entités commun aux sources Firestore et en mémoire
+export interface EntityStore<T, K extends keyof T> {
+  getAll: () => Promise<T[]>;
+  getById: (id: string) => Promise<T | null>;
+  query: (query: StoreQuery) => Promise<StorePage<T>>;
+  count: (filters?: StoreFilter[]) => Promise<number>;
+  create: (data: Omit<T, K>, audit?: AuditContext) => Promise<string>;
+  set: (id: string, data: Omit<T, K>, audit?: AuditContext) => Promise<string>;
+  update: (id: string, data: Partial<Omit<T, K>>, audit?: AuditContext) => Promise<void>;
+  remove: (id: string, audit?: AuditContext) => Promise<void>;
+  subscribe: (callback: (items: T[]) => void, onError?: (error: Error) => void) => () => void;
+}
+
+// Échecs de connexion, comptés avant authentification sans pouvoir relire le décompte : l'échec est
+// ajouté au document (restart : décompte relancé à 1), horodaté par le serveur
+export interface LoginAttemptStore extends EntityStore<LoginAttempt, 'id'> {
+  recordFailure: (id: string, restart: boolean) => Promise<void>;
+}
+
+// Compte authentifié, identifié par l'UID de son document Users ; hasPassword est faux pour un compte Google seul
+export interface AuthAccount {
+  uid: string;
+  email: string;
+  hasPassword: boolean;
+}
+
+// Authentification de la console, commune aux sources Firestore et en mémoire
+export interface AuthService {
+  signInWithEmail: (email: string, password: string) => Promise<AuthAccount>;
+  signInWithGoogle: () => Promise<AuthAccount>;
+  sendPasswordReset: (email: string) => Promise<void>;
+  // Crée un compte à mot de passe aléatoire sans changer la session de la console ; renvoie son UID
+  createAccount: (email: string) => Promise<string>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  // Second facteur, vérifié et enregistré par le serveur : le secret TOTP n'est jamais relu par la console,
+  // et seule une vérification réussie ouvre à la session l'accès aux données
+  enrollSecondFactor: (secret: string, code: string) => Promise<string[]>;
+  verifySecondFactor: (code: string) => Promise<boolean>;
+  regenerateRecoveryCodes: () => Promise<string[]>;
+  // Supprime le second facteur du compte connecté ou, pour un super administrateur, d'un autre compte
+  disableSecondFactor: (uid: string) => Promise<void>;
+  // Supprime le compte de connexion d'un utilisateur effacé (RGPD) ; refusé pour un administrateur
+  deleteAccount: (uid: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  onChange: (callback: (account: AuthAccount | null) => void) => () => void;
+}
+
+// Fichiers déposés par les utilisateurs (CNI, photos) ; les chemins sont relatifs au bucket
+export interface FileStorage {
+  getUrl: (path: string) => Promise<string>;
+  upload: (path: string, file: Blob) => Promise<string>;
+  remove: (path: string) => Promise<void>;
+}
+
+/**
+ * Indique si une référence de fichier est déjà une URL affichable plutôt qu'un chemin de stockage
+ * (documents enregistrés avec leur URL de téléchargement par l'application).
+ * @param path - Chemin ou URL.
+ * @returns true pour une URL http(s), data ou blob.
+ */
+export const isFileUrl = (path: string): boolean => /^(https?|data|blob):/i.test(path);
+
+// Taille des pages lues pour charger tous les résultats d'une requête
+const FULL_READ_PAGE_SIZE = 500;
+
+/**
+ * Charge tous les résultats d'une requête, page par page.
+ * @param store - Magasin interrogé.
+ * @param query - Filtres et tri de la requête.
+ * @returns Entités correspondantes, dans l'ordre de la requête.
+ */
+export const readAllPages = async <T, K extends keyof T>(
+  store: EntityStore<T, K>,
+  query: Omit<StoreQuery, 'pageSize' | 'after'>
+): Promise<T[]> => {
+  const items: T[] = [];
+  let after: StoreCursor | null = null;
+  do {
+    const page: StorePage<T> = await store.query({ ...query, pageSize: FULL_READ_PAGE_SIZE, after });
+    items.push(...page.items);
+    after = page.cursor;
+  } while (after !== null);
+  return items;
+};
+
+// Nombre maximal d'écritures d'un lot atomique (limite Firestore)
+export const MAX_BATCH_WRITES = 500;
+
+// Collections de la source modifiables par lot
+export type BatchStoreName = Exclude<keyof DataSource, 'kind' | 'auth' | 'storage' | 'runBatch' | 'runTransaction'>;
+
+// Écriture d'un lot ; les données n'incluent pas l'identifiant, porté par id
+export type BatchWrite =
+  | { store: BatchStoreName; type: 'set' | 'update'; id: string; data: object; audit?: AuditContext }
+  | { store: BatchStoreName; type: 'delete'; id: string; audit?: AuditContext };
+
+// Entité portée par une collection modifiable par lot
+export type StoreEntity<S extends BatchStoreName> = NonNullable<Awaited<ReturnType<DataSource[S]['getById']>>>;
+
+// Transaction en cours : les écritures sont appliquées ensemble, après toutes les lectures
+export interface StoreTransaction {
+  get: <S extends BatchStoreName>(store: S, id: string) => Promise<StoreEntity<S> | null>;
+  write: (write: BatchWrite) => void;
+}
+
+const DOCUMENT_ID_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+/**
+ * Génère un identifiant de document aléatoire au format Firestore (20 caractères), pour
+ * créer des documents au sein d'un lot.
+ * @returns Identifiant de document.
+ */
+export const generateDocumentId = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(20)), (byte) => DOCUMENT_ID_CHARS[byte % DOCUMENT_ID_CHARS.length]).join('');
+
+// Source de données complète de la console
+export interface DataSource {
+  kind: 'firestore' | 'memory';
+  auth: AuthService;
+  storage: FileStorage;
+  users: EntityStore<User, 'uid'>;
+  properties: EntityStore<Property, 'id'>;
+  transactions: EntityStore<Transaction, 'id'>;
+  contracts: EntityStore<Contract, 'id'>;
+  messages: EntityStore<Message, 'id'>;
+  partners: EntityStore<Partner, 'id'>;
+  activityLogs: EntityStore<ActivityLog, 'id'>;
+  settingsVersions: EntityStore<SettingsVersion, 'id'>;
+  settingsSecrets: EntityStore<SettingsSecrets, 'id'>;
+  securityPolicy: EntityStore<SecurityPolicy, 'id'>;
+  loginAttempts: LoginAttemptStore;
+  adminSecurity: EntityStore<AdminSecurity, 'id'>;
+  pushNotifications: EntityStore<PushNotification, 'id'>;
+  jobRuns: EntityStore<JobRun, 'id'>;
+  // Applique les écritures ensemble ou aucune ; MAX_BATCH_WRITES au plus, entrées de journal comprises
+  runBatch: (writes: BatchWrite[]) => Promise<void>;
+  // Exécute work puis applique ses écritures ensemble ; relancé si un document lu a changé entre-temps.
+  // MAX_BATCH_WRITES écritures au plus, entrées de journal comprises
+  runTransaction: <R>(work: (transaction: StoreTransaction) => Promise<R>) => Promise<R>;
+}
+
+export type DataSourceKind = DataSource['kind'];
+
+/**
+ * Lit le type de source de données depuis VITE_DATA_SOURCE ("firestore" par défaut).
+ * @returns Type de source de données.
+ * @throws Error si la valeur de la variable d'environnement est inconnue.
+ */
+export const getDataSourceKind = (): DataSourceKind => {
+  const value = (import.meta.env.VITE_DATA_SOURCE || 'firestore').toLowerCase();
+  if (value !== 'firestore' && value !== 'memory') {
+    throw new Error(`VITE_DATA_SOURCE invalide : "${value}" (attendu "firestore" ou "memory")`);
+  }
+  return value;
+};
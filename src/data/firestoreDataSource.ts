@@ -0,0 +1,220 @@
+import { Transaction as FirestoreTransaction } from 'firebase/firestore';
+import {
+  AuthAccount,
+  AuthService,
+  BatchStoreName,
+  BatchWrite,
+  DataSource,
+  EntityStore,
+  FileStorage,
+  LoginAttemptStore,
+  MAX_BATCH_WRITES,
+  StoreEntity,
+  StoreTransaction,
+  isFileUrl,
+} from './dataSource';
+import {
+  signInWithEmail,
+  signInWithGoogle,
+  sendReset,
+  changePassword,
+  logout,
+  onAuthChanged,
+  getFileURL,
+  uploadFile,
+  deleteFile,
+  runBatch,
+  runFsTransaction,
+  setDocument,
+  increment,
+  serverTimestamp,
+} from '../firebase/firebaseService';
+import { createAuthAccount } from '../firebase/accountProvisioning';
+import {
+  deleteUserAccount,
+  disableSecondFactor,
+  enrollSecondFactor,
+  regenerateRecoveryCodes,
+  verifySecondFactor,
+} from '../firebase/adminFunctions';
+import {
+  COLLECTIONS,
+  addTransactionOperation,
+  createBatchOperation,
+  Repository,
+  RepositoryQueryOptions,
+  usersRepository,
+  propertiesRepository,
+  transactionsRepository,
+  contractsRepository,
+  messagesRepository,
+  partnersRepository,
+  activityLogsRepository,
+  settingsVersionsRepository,
+  settingsSecretsRepository,
+  securityPolicyRepository,
+  loginAttemptsRepository,
+  adminSecurityRepository,
+  pushNotificationsRepository,
+  jobRunsRepository,
+} from '../firebase/repositories';
+
+/**
+ * Adapte un repository Firestore à l'interface EntityStore.
+ * @param repository - Repository typé.
+ * @returns Magasin d'entités.
+ */
+const fromRepository = <T, K extends keyof T>(repository: Repository<T, K>): EntityStore<T, K> => ({
+  getAll: repository.getAll,
+  getById: repository.getById,
+  query: async ({ filters = [], orderBy, pageSize, after }) => {
+    const { data, lastVisible } = await repository.query({
+      conditions: filters,
+      orders: orderBy ? [orderBy] : [],
+      pageSize,
+      startAfterDoc: (after ?? undefined) as RepositoryQueryOptions['startAfterDoc'],
+    });
+    return { items: data, cursor: data.length < pageSize ? null : lastVisible };
+  },
+  count: (filters) => repository.count(filters),
+  create: repository.create,
+  set: (id, data) => repository.set(id, data),
+  update: repository.update,
+  remove: repository.remove,
+  subscribe: (callback, onError) => repository.listen({}, callback, onError),
+});
+
+// Avant authentification, les règles n'acceptent qu'un échec à la fois, daté par le serveur
+const loginAttempts: LoginAttemptStore = {
+  ...fromRepository(loginAttemptsRepository),
+  recordFailure: async (id, restart) => {
+    await setDocument(COLLECTIONS.loginAttempts, id, {
+      failedCount: restart ? 1 : increment(1),
+      lastFailedAt: serverTimestamp(),
+    });
+  },
+};
+
+const toAccount = (user: {
+  uid: string;
+  email: string | null;
+  providerData: { providerId: string }[];
+}): AuthAccount => ({
+  uid: user.uid,
+  email: user.email ?? '',
+  hasPassword: user.providerData.some((provider) => provider.providerId === 'password'),
+});
+
+// Authentification Firebase, via les helpers de firebaseService
+const firebaseAuth: AuthService = {
+  signInWithEmail: async (email, password) => toAccount((await signInWithEmail(email, password)).user),
+  signInWithGoogle: async () => toAccount((await signInWithGoogle()).user),
+  sendPasswordReset: sendReset,
+  createAccount: createAuthAccount,
+  changePassword,
+  enrollSecondFactor,
+  verifySecondFactor,
+  regenerateRecoveryCodes,
+  disableSecondFactor,
+  deleteAccount: deleteUserAccount,
+  signOut: logout,
+  onChange: (callback) => onAuthChanged((user) => callback(user ? toAccount(user) : null)),
+};
+
+// Firebase Storage
+const firebaseStorage: FileStorage = {
+  getUrl: async (path) => (isFileUrl(path) ? path : getFileURL(path)),
+  upload: uploadFile,
+  remove: deleteFile,
+};
+
+/**
+ * Valide un lot d'écritures en une seule opération Firestore.
+ * @param writes - Écritures du lot.
+ * @returns Résolu lorsque le lot est validé.
+ * @throws Error si le lot dépasse MAX_BATCH_WRITES ou si la validation échoue.
+ */
+const commitBatch = async (writes: BatchWrite[]): Promise<void> => {
+  if (!writes.length) return;
+  if (writes.length > MAX_BATCH_WRITES) {
+    throw new Error(`Lot trop volumineux : ${writes.length} écritures (maximum ${MAX_BATCH_WRITES})`);
+  }
+  await runBatch(
+    writes.map((write) =>
+      createBatchOperation(COLLECTIONS[write.store], write.id, write.type, write.type === 'delete' ? undefined : write.data)
+    )
+  );
+};
+
+// Repositories des collections modifiables par lot, pour les lectures transactionnelles
+const REPOSITORIES = {
+  users: usersRepository,
+  properties: propertiesRepository,
+  transactions: transactionsRepository,
+  contracts: contractsRepository,
+  messages: messagesRepository,
+  partners: partnersRepository,
+  activityLogs: activityLogsRepository,
+  settingsVersions: settingsVersionsRepository,
+  settingsSecrets: settingsSecretsRepository,
+  securityPolicy: securityPolicyRepository,
+  loginAttempts: loginAttemptsRepository,
+  adminSecurity: adminSecurityRepository,
+  pushNotifications: pushNotificationsRepository,
+  jobRuns: jobRunsRepository,
+};
+
+/**
+ * Exécute une transaction Firestore. Les écritures de work sont mises de côté puis appliquées
+ * à la fin, Firestore exigeant toutes les lectures avant la première écriture.
+ * @param work - Lectures et écritures de la transaction.
+ * @returns Résultat de work.
+ * @throws Error si la transaction dépasse MAX_BATCH_WRITES écritures ou si elle échoue.
+ */
+const commitTransaction = <R>(work: (transaction: StoreTransaction) => Promise<R>): Promise<R> =>
+  runFsTransaction(async (transaction: FirestoreTransaction) => {
+    const writes: BatchWrite[] = [];
+    const result = await work({
+      get: <S extends BatchStoreName>(store: S, id: string) =>
+        (REPOSITORIES[store] as unknown as Repository<StoreEntity<S>, never>).getInTransaction(transaction, id),
+      write: (write) => {
+        writes.push(write);
+      },
+    });
+    if (writes.length > MAX_BATCH_WRITES) {
+      throw new Error(`Transaction trop volumineuse : ${writes.length} écritures (maximum ${MAX_BATCH_WRITES})`);
+    }
+    writes.forEach((write) =>
+      addTransactionOperation(
+        transaction,
+        createBatchOperation(COLLECTIONS[write.store], write.id, write.type, write.type === 'delete' ? undefined : write.data)
+      )
+    );
+    return result;
+  });
+
+/**
+ * Crée la source de données de production, adossée à Firestore.
+ * @returns Source de données Firestore.
+ */
+export const createFirestoreDataSource = (): DataSource => ({
+  kind: 'firestore',
+  auth: firebaseAuth,
+  storage: firebaseStorage,
+  users: fromRepository(usersRepository),
+  properties: fromRepository(propertiesRepository),
+  transactions: fromRepository(transactionsRepository),
+  contracts: fromRepository(contractsRepository),
+  messages: fromRepository(messagesRepository),
+  partners: fromRepository(partnersRepository),
+  activityLogs: fromRepository(activityLogsRepository),
+  settingsVersions: fromRepository(settingsVersionsRepository),
+  settingsSecrets: fromRepository(settingsSecretsRepository),
+  securityPolicy: fromRepository(securityPolicyRepository),
+  loginAttempts,
+  adminSecurity: fromRepository(adminSecurityRepository),
+  pushNotifications: fromRepository(pushNotificationsRepository),
+  jobRuns: fromRepository(jobRunsRepository),
+  runBatch: commitBatch,
+  runTransaction: commitTransaction,
+});
@@ -0,0 +1,429 @@
+import { User, Property, Transaction, Contract, Message, Partner, ActivityLog, ActivityTargetType, AdminRole } from '../types';
+import { ACTIVITY_TARGET_LABELS } from './audit';
+import { getUserSearchFields } from './userQuery';
+
+// Jeu de données cohérent produit par le générateur
+export interface Fixtures {
+  users: User[];
+  properties: Property[];
+  transactions: Transaction[];
+  contracts: Contract[];
+  messages: Message[];
+  partners: Partner[];
+  activityLogs: ActivityLog[];
+}
+
+// Options du générateur ; toutes les tailles sont facultatives
+export interface FixtureOptions {
+  seed?: number;
+  users?: number;
+  properties?: number;
+  contracts?: number;
+  transactions?: number;
+  conversations?: number;
+  messagesPerConversation?: number;
+  partners?: number;
+  activityLogs?: number;
+  referenceDate?: string;
+}
+
+// Identifiant de l'administrateur utilisé dans la messagerie
+export const FIXTURE_ADMIN_ID = '4';
+
+// Un compte administrateur par sous-rôle, pour démontrer la matrice de permissions
+const FIXTURE_ADMIN_ROLES: Record<string, AdminRole> = {
+  [FIXTURE_ADMIN_ID]: 'super_admin',
+  '5': 'moderator',
+  '6': 'finance',
+  '7': 'support',
+};
+
+const DEFAULT_OPTIONS: Required<FixtureOptions> = {
+  seed: 42,
+  users: 40,
+  properties: 25,
+  contracts: 20,
+  transactions: 50,
+  conversations: 15,
+  messagesPerConversation: 10,
+  partners: 10,
+  activityLogs: 100,
+  referenceDate: '2025-01-28T00:00:00.000Z',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FIRST_NAMES = [
+  'Jean', 'Marie', 'Pierre', 'Sophie', 'Luc', 'Camille', 'Thomas', 'Julie', 'Nicolas', 'Claire',
+  'Antoine', 'Élodie', 'Hugo', 'Chloé', 'Louis', 'Inès', 'Mathieu', 'Léa', 'Karim', 'Aïcha',
+];
+
+const LAST_NAMES = [
+  'Dupont', 'Martin', 'Bernard', 'Dubois', 'Thomas', 'Robert', 'Richard', 'Petit', 'Durand', 'Leroux',
+  'Moreau', 'Simon', 'Laurent', 'Lefèvre', 'Michel', 'Garcia', 'Fontaine', 'Chevalier', 'Benali', 'Nguyen',
+];
+
+const STREETS = [
+  'rue de la République', 'avenue Victor Hugo', 'boulevard Pasteur', 'rue Nationale',
+  'place de la Mairie', 'rue des Lilas', 'allée des Tilleuls', 'quai Saint-Michel',
+];
+
+const CITIES = [
+  { name: 'Paris', postalCode: '75001', coordinates: [48.8566, 2.3522] },
+  { name: 'Lyon', postalCode: '69003', coordinates: [45.764, 4.8357] },
+  { name: 'Marseille', postalCode: '13001', coordinates: [43.2965, 5.3698] },
+  { name: 'Toulouse', postalCode: '31000', coordinates: [43.6047, 1.4442] },
+  { name: 'Nice', postalCode: '06000', coordinates: [43.7102, 7.262] },
+  { name: 'Bordeaux', postalCode: '33000', coordinates: [44.8378, -0.5792] },
+] as const;
+
+const PARTNER_SERVICES: Record<Partner['type'], string[]> = {
+  banque: ['Prêts immobiliers', 'Garanties locatives', 'Comptes séquestres'],
+  assurance: ['Assurance habitation', 'Assurance propriétaire', 'Loyers impayés'],
+  maintenance: ['Plomberie', 'Électricité', 'Serrurerie', 'Nettoyage'],
+};
+
+const ADMIN_ACTIONS = [
+  'Création utilisateur',
+  'Modification propriété',
+  'Validation contrat',
+  'Suppression message',
+];
+
+/**
+ * Crée un générateur pseudo-aléatoire déterministe (mulberry32).
+ * @param seed - Graine entière.
+ * @returns Fonctions de tirage reproductibles pour une même graine.
+ */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (min: number, max: number) => Math.floor(next() * (max - min + 1)) + min;
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)];
+  const chance = (probability: number) => next() < probability;
+  const dateBetween = (from: number, to: number) => new Date(from + next() * (to - from));
+
+  return { next, int, pick, chance, dateBetween };
+};
+
+/**
+ * Calcule des options proportionnelles à un nombre d'utilisateurs, en gardant les
+ * ratios du jeu par défaut (40 utilisateurs).
+ * @param users - Nombre d'utilisateurs visé (ex. 10 000 pour les tests de charge).
+ * @param seed - Graine facultative.
+ * @returns Options du générateur.
+ */
+export const scaleFixtureOptions = (users: number, seed?: number): FixtureOptions => {
+  const ratio = users / DEFAULT_OPTIONS.users;
+  const scale = (value: number) => Math.max(1, Math.round(value * ratio));
+  // Sans graine, celle par défaut est conservée : une clé undefined l'écraserait
+  return {
+    ...(seed !== undefined ? { seed } : {}),
+    users,
+    properties: scale(DEFAULT_OPTIONS.properties),
+    contracts: scale(DEFAULT_OPTIONS.contracts),
+    transactions: scale(DEFAULT_OPTIONS.transactions),
+    conversations: scale(DEFAULT_OPTIONS.conversations),
+    partners: scale(DEFAULT_OPTIONS.partners),
+    activityLogs: scale(DEFAULT_OPTIONS.activityLogs),
+  };
+};
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const slugify = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+/**
+ * Génère un jeu de données déterministe et référentiellement cohérent : les propriétés
+ * appartiennent à des propriétaires existants, les contrats lient ces propriétés à des
+ * locataires, et les transactions et conversations pointent vers ces mêmes entités.
+ * @param options - Graine et tailles du jeu de données.
+ * @returns Jeu de données complet.
+ */
+export const generateFixtures = (options: FixtureOptions = {}): Fixtures => {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const random = createRandom(opts.seed);
+  const now = new Date(opts.referenceDate).getTime();
+  const daysAgo = (days: number) => now - days * DAY_MS;
+
+  /* ---------- Utilisateurs ---------- */
+  // Les premiers comptes fixent les rôles indispensables : un locataire, un propriétaire,
+  // un second locataire, puis les administrateurs (dont celui de la messagerie).
+  const fixedRoles: Record<number, number> = {
+    1: 2,
+    2: 3,
+    3: 2,
+    ...Object.fromEntries(Object.keys(FIXTURE_ADMIN_ROLES).map((uid) => [Number(uid), 4])),
+  };
+  const userCities: Record<string, (typeof CITIES)[number]> = {};
+
+  const users: User[] = Array.from({ length: opts.users }, (_, index) => {
+    const id = index + 1;
+    const uid = String(id);
+    const prenom = random.pick(FIRST_NAMES);
+    const nom = random.pick(LAST_NAMES);
+    const city = random.pick(CITIES);
+    userCities[uid] = city;
+    const roll = random.next();
+    const typeUsersId = fixedRoles[id] ?? (roll < 0.25 ? 1 : roll < 0.7 ? 2 : roll < 0.95 ? 3 : 6);
+    const issued = random.dateBetween(daysAgo(365 * 9), daysAgo(30));
+    const expires = new Date(issued.getTime() + 10 * 365 * DAY_MS);
+    const email = `${slugify(prenom)}.${slugify(nom)}${id}@email.com`;
+
+    return {
+      uid,
+      nom,
+      prenom,
+      email,
+      ...getUserSearchFields({ nom, prenom, email }),
+      telephone: `+336${String(random.int(10000000, 99999999))}`,
+      photoProfil: `https://i.pravatar.cc/150?u=${uid}`,
+      cniNumber: `FR${String(random.int(100000000, 999999999))}`,
+      CNIDateDelivrer: toDay(issued),
+      cniExpirationDate: toDay(expires),
+      cniRecto: `cni/${uid}/recto.jpg`,
+      cniVerso: `cni/${uid}/verso.jpg`,
+      addresse: `${random.int(1, 150)} ${random.pick(STREETS)}, ${city.postalCode} ${city.name}`,
+      fcmToken: random.chance(0.85) ? `fcm-token-${uid}` : '',
+      lastUpdated: random.dateBetween(daysAgo(90), now).toISOString(),
+      etat: 1,
+      statut: typeUsersId === 4 ? 1 : random.pick([1, 1, 1, 2, 0]),
+      typeUsersId,
+      notificationPrefs: {
+        messages: random.chance(0.9),
+        newProperties: random.chance(0.6),
+        payments: random.chance(0.9),
+        reservations: random.chance(0.8),
+        visits: random.chance(0.7),
+      },
+      ...(FIXTURE_ADMIN_ROLES[uid] ? { adminRole: FIXTURE_ADMIN_ROLES[uid] } : {}),
+    };
+  });
+
+  // Agents des agences immobilières : un propriétaire sur trois, répartis entre les agences sans
+  // tirage, pour ne pas modifier les autres données générées
+  const agencies = users.filter((u) => u.typeUsersId === 6);
+  if (agencies.length) {
+    users
+      .filter((u) => u.typeUsersId === 3)
+      .forEach((owner, index) => {
+        if (index % 3 === 0) owner.agencyId = agencies[(index / 3) % agencies.length].uid;
+      });
+  }
+
+  const owners = users.filter((u) => u.typeUsersId === 3 || u.typeUsersId === 6);
+  const tenants = users.filter((u) => u.typeUsersId === 2);
+  const clients = users.filter((u) => u.typeUsersId !== 4);
+
+  /* ---------- Propriétés ---------- */
+  const properties: Property[] = owners.length
+    ? Array.from({ length: opts.properties }, (_, index) => {
+        const id = String(index + 1);
+        const owner = random.pick(owners);
+        const city = random.chance(0.7) ? userCities[owner.uid] : random.pick(CITIES);
+        const type = random.chance(0.7) ? 'residentiel' : 'commercial';
+        const surface = random.int(type === 'residentiel' ? 12 : 40, type === 'residentiel' ? 180 : 400);
+
+        return {
+          id,
+          name: `${type === 'residentiel' ? 'Logement' : 'Local'} ${city.name} ${id}`,
+          description: `${type === 'residentiel' ? 'Bien résidentiel' : 'Local commercial'} de ${surface}m² à ${city.name}`,
+          type,
+          status: random.pick(['libre', 'libre', 'occupe', 'reserve'] as const),
+          validationStatus: random.pick(['accepte', 'accepte', 'accepte', 'en_attente', 'rejete'] as const),
+          price: Math.round((surface * random.int(12, 35)) / 10) * 10,
+          location: city.name,
+          coordinates: [
+            Number((city.coordinates[0] + (random.next() - 0.5) * 0.08).toFixed(5)),
+            Number((city.coordinates[1] + (random.next() - 0.5) * 0.12).toFixed(5)),
+          ],
+          surface,
+          images: [`https://picsum.photos/seed/kinaru-${id}/300/200`],
+          ownerId: owner.uid,
+          createdDate: toDay(random.dateBetween(daysAgo(365), now)),
+        };
+      })
+    : [];
+
+  /* ---------- Contrats ---------- */
+  const leasable = properties.filter((p) => p.validationStatus === 'accepte');
+  const contracts: Contract[] =
+    leasable.length && tenants.length
+      ? Array.from({ length: opts.contracts }, (_, index) => {
+          const property = random.pick(leasable);
+          const tenant = random.pick(tenants);
+          const start = random.dateBetween(daysAgo(540), daysAgo(-30));
+          const end = new Date(start.getTime() + 365 * DAY_MS);
+          const expired = end.getTime() < now;
+
+          return {
+            id: String(index + 1),
+            tenantId: tenant.uid,
+            ownerId: property.ownerId,
+            propertyId: property.id,
+            startDate: toDay(start),
+            endDate: toDay(end),
+            monthlyRent: property.price,
+            status: expired ? 'expire' : random.chance(0.1) ? 'resilié' : 'actif',
+            signatureStatus: expired || random.chance(0.8) ? 'signe' : 'en_attente',
+          };
+        })
+      : [];
+
+  /* ---------- Transactions ---------- */
+  const transactions: Transaction[] = Array.from({ length: opts.transactions }, (_, index) => {
+    const id = String(index + 1);
+    const status = random.pick(['paye', 'paye', 'paye', 'en_attente', 'annule'] as const);
+    const contract = contracts.length && random.chance(0.6) ? random.pick(contracts) : null;
+
+    if (contract) {
+      const start = new Date(contract.startDate).getTime();
+      const end = Math.min(new Date(contract.endDate).getTime(), now);
+      const date = random.dateBetween(start, Math.max(start, end));
+      return {
+        id,
+        amount: contract.monthlyRent,
+        type: 'loyer',
+        date: date.toISOString(),
+        status,
+        userId: contract.tenantId,
+        propertyId: contract.propertyId,
+        description: `Loyer ${date.toLocaleDateString('fr-FR', { month: 'long', year: 'numeric' })} - contrat #${contract.id}`,
+      };
+    }
+
+    const type = random.pick(['frais_reservation', 'abonnement', 'commission'] as const);
+    const date = random.dateBetween(daysAgo(365), now).toISOString();
+    const property = properties.length ? random.pick(properties) : null;
+
+    if (type === 'frais_reservation' && property) {
+      const tenant = tenants.length ? random.pick(tenants) : random.pick(clients);
+      return {
+        id,
+        amount: Math.round(property.price * 0.1),
+        type,
+        date,
+        status,
+        userId: tenant.uid,
+        propertyId: property.id,
+        description: `Frais de réservation - ${property.name}`,
+      };
+    }
+
+    if (type === 'commission' && property) {
+      return {
+        id,
+        amount: Math.round(property.price * 0.05),
+        type,
+        date,
+        status,
+        userId: property.ownerId,
+        propertyId: property.id,
+        description: `Commission - ${property.name}`,
+      };
+    }
+
+    const subscriber = owners.length ? random.pick(owners) : random.pick(clients);
+    return {
+      id,
+      amount: random.pick([19, 49, 99]),
+      type: 'abonnement',
+      date,
+      status,
+      userId: subscriber.uid,
+      description: `Abonnement mensuel - ${subscriber.prenom} ${subscriber.nom}`,
+    };
+  });
+
+  /* ---------- Conversations ---------- */
+  const messages: Message[] = [];
+  const correspondents = [...clients];
+  const conversationCount = Math.min(opts.conversations, correspondents.length);
+  for (let c = 0; c < conversationCount; c++) {
+    const [user] = correspondents.splice(random.int(0, correspondents.length - 1), 1);
+    let timestamp = random.dateBetween(daysAgo(60), daysAgo(1)).getTime();
+    let fromUser = true;
+
+    for (let m = 0; m < opts.messagesPerConversation; m++) {
+      timestamp += random.int(2, 240) * 60 * 1000;
+      const isLast = m === opts.messagesPerConversation - 1;
+      messages.push({
+        id: String(messages.length + 1),
+        senderId: fromUser ? user.uid : FIXTURE_ADMIN_ID,
+        receiverId: fromUser ? FIXTURE_ADMIN_ID : user.uid,
+        content: fromUser
+          ? `Bonjour, j'ai une question concernant mon dossier (${m + 1}).`
+          : `Bonjour ${user.prenom}, nous revenons vers vous rapidement.`,
+        timestamp: new Date(Math.min(timestamp, now)).toISOString(),
+        status: fromUser && isLast ? 'non_lu' : 'lu',
+        type: 'message',
+        flagged: fromUser && random.chance(0.05),
+      });
+      fromUser = random.chance(0.5) ? !fromUser : fromUser;
+    }
+
+    if (random.chance(0.3)) {
+      messages.push({
+        id: String(messages.length + 1),
+        senderId: FIXTURE_ADMIN_ID,
+        receiverId: user.uid,
+        content: 'Votre dossier a été mis à jour.',
+        timestamp: new Date(Math.min(timestamp + DAY_MS, now)).toISOString(),
+        status: 'non_lu',
+        type: 'notification',
+        flagged: false,
+      });
+    }
+  }
+
+  /* ---------- Partenaires ---------- */
+  const partners: Partner[] = Array.from({ length: opts.partners }, (_, index) => {
+    const id = index + 1;
+    const type = random.pick(['banque', 'assurance', 'maintenance'] as const);
+    const services = PARTNER_SERVICES[type].filter(() => random.chance(0.6));
+    return {
+      id: String(id),
+      name: `${type === 'banque' ? 'Banque' : type === 'assurance' ? 'Assurance' : 'Services'} ${random.pick(LAST_NAMES)} ${id}`,
+      type,
+      contact: `+33 1 ${String(random.int(10, 99))} ${String(random.int(10, 99))} ${String(random.int(10, 99))} ${String(random.int(10, 99))}`,
+      email: `partenariat@partenaire${id}.fr`,
+      services: services.length ? services : [PARTNER_SERVICES[type][0]],
+      contractEnd: toDay(random.dateBetween(daysAgo(60), daysAgo(-540))),
+    };
+  });
+
+  /* ---------- Journal d'activité ---------- */
+  const activityLogs: ActivityLog[] = Array.from({ length: opts.activityLogs }, (_, index) => {
+    const action = random.pick(ADMIN_ACTIONS);
+    const [targetType, targetId]: [ActivityTargetType, string] =
+      action === 'Modification propriété' && properties.length
+        ? ['property', random.pick(properties).id]
+        : action === 'Validation contrat' && contracts.length
+          ? ['contract', random.pick(contracts).id]
+          : action === 'Suppression message' && messages.length
+            ? ['message', random.pick(messages).id]
+            : ['user', random.pick(users).uid];
+    const target = `${ACTIVITY_TARGET_LABELS[targetType]} ${targetId}`;
+    return {
+      id: String(index + 1),
+      adminId: FIXTURE_ADMIN_ID,
+      action,
+      target,
+      targetType,
+      targetId,
+      timestamp: random.dateBetween(daysAgo(30), now).toISOString(),
+      details: `${action} (${target})`,
+    };
+  });
+
+  return { users, properties, transactions, contracts, messages, partners, activityLogs };
+};
@@ -0,0 +1,335 @@
+import { ActivityLog, User } from '../types';
+import { ADMIN_ROLE_ID } from '../utils/users';
+import { ZipEntry, createZip } from '../utils/zip';
+import { countBatchWrites, createActivityLog, redactChanges } from './audit';
+import { AuditContext, BatchWrite, DataSource, MAX_BATCH_WRITES, generateDocumentId, readAllPages } from './dataSource';
+import { getUserSearchFields } from './userQuery';
+import { getUserRecords } from './userRecords';
+
+// Fichier d'une archive qui n'a pas pu être récupéré ou supprimé
+export interface GdprFileFailure {
+  path: string;
+  reason: string;
+}
+
+export interface GdprArchive {
+  data: Uint8Array;
+  fileName: string;
+  missingFiles: GdprFileFailure[];
+}
+
+export interface GdprErasureReport {
+  pseudonymId: string;
+  properties: number;
+  contracts: number;
+  transactions: number;
+  messages: number;
+  pushNotifications: number;
+  activityLogs: number;
+  removedFiles: number;
+  fileFailures: GdprFileFailure[];
+  // Motif de l'échec de la suppression du compte de connexion, absent si le compte est supprimé
+  accountFailure?: string;
+  // Données conservées après l'effacement, à indiquer dans la réponse à la personne concernée
+  retained: string[];
+}
+
+// Toutes les écritures d'un effacement sont journalisées sous cette action, valeurs masquées
+const ERASURE_AUDIT: AuditContext = { action: 'Effacement RGPD', redact: true };
+
+const ERASED_PROPERTY_REASON = 'Compte propriétaire supprimé (RGPD)';
+
+// Champs personnels du profil, dont les valeurs avant/après sont masquées dans le journal de l'utilisateur effacé
+const PERSONAL_FIELDS =
+  /^(nom|prenom|email|nomLower|prenomLower|emailLower|telephone|addresse|photoProfil|cniNumber|CNIDateDelivrer|cniExpirationDate|cniRecto|cniVerso|fcmToken|staleFcmToken|kycComment)$/;
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'application/pdf': 'pdf',
+};
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Télécharge un fichier déposé par l'utilisateur.
+ * @param source - Source de données.
+ * @param path - Chemin de stockage ou URL du fichier.
+ * @returns Contenu et extension du fichier.
+ * @throws Error si le fichier est introuvable.
+ */
+const downloadStoredFile = async (source: DataSource, path: string) => {
+  const response = await fetch(await source.storage.getUrl(path));
+  if (!response.ok) throw new Error(`Téléchargement impossible (HTTP ${response.status})`);
+  const blob = await response.blob();
+  return { data: new Uint8Array(await blob.arrayBuffer()), extension: FILE_EXTENSIONS[blob.type.split(';')[0]] ?? 'bin' };
+};
+
+/**
+ * Rassemble dans une archive zip toutes les données liées à un utilisateur, pour répondre à une
+ * demande d'accès (RGPD) : profil, fichiers de CNI et photo, propriétés, contrats, transactions
+ * et messages. L'export est journalisé.
+ * @param source - Source de données.
+ * @param user - Utilisateur concerné.
+ * @param adminId - Administrateur à l'origine de l'export.
+ * @returns Archive, avec les fichiers qui n'ont pas pu y être joints.
+ * @throws Error si la lecture des documents échoue.
+ */
+export const buildGdprArchive = async (source: DataSource, user: User, adminId: string): Promise<GdprArchive> => {
+  const records = await getUserRecords(source, user.uid);
+  const encoder = new TextEncoder();
+  const json = (name: string, value: unknown): ZipEntry => ({ name, data: encoder.encode(JSON.stringify(value, null, 2)) });
+
+  const entries: ZipEntry[] = [
+    json('profil.json', user),
+    json('proprietes.json', records.properties),
+    json('contrats.json', records.contracts),
+    json('transactions.json', records.transactions),
+    json('messages.json', records.messages),
+    json('notifications.json', records.pushNotifications),
+  ];
+
+  const files: [string, string][] = [
+    ['cni/recto', user.cniRecto],
+    ['cni/verso', user.cniVerso],
+    ['photo-profil', user.photoProfil],
+  ];
+  const missingFiles: GdprFileFailure[] = [];
+  for (const [name, path] of files.filter(([, path]) => path)) {
+    try {
+      const file = await downloadStoredFile(source, path);
+      entries.push({ name: `${name}.${file.extension}`, data: file.data });
+    } catch (error) {
+      missingFiles.push({ path, reason: errorMessage(error) });
+    }
+  }
+
+  const exportedAt = new Date().toISOString();
+  const readme = [
+    `Données personnelles de ${user.prenom} ${user.nom} (${user.email})`,
+    `Identifiant : ${user.uid}`,
+    `Exporté le : ${exportedAt}`,
+    '',
+    'profil.json : informations du compte',
+    'proprietes.json, contrats.json, transactions.json : biens, contrats et paiements',
+    'messages.json, notifications.json : messages envoyés ou reçus, notifications push',
+    'cni/, photo-profil : pièces d’identité et photo déposées',
+    ...(missingFiles.length
+      ? ['', 'Fichiers non récupérés :', ...missingFiles.map((failure) => `- ${failure.path} : ${failure.reason}`)]
+      : []),
+  ].join('\n');
+  entries.unshift({ name: 'LISEZMOI.txt', data: encoder.encode(readme) });
+
+  await source.activityLogs.create(createActivityLog({
+    adminId,
+    action: 'Export RGPD',
+    targetType: 'user',
+    targetId: user.uid,
+    details: `${entries.length} fichier(s)${missingFiles.length ? `, ${missingFiles.length} manquant(s)` : ''}`,
+  }));
+
+  return {
+    data: createZip(entries),
+    fileName: `rgpd-${user.uid}-${exportedAt.slice(0, 10)}.zip`,
+    missingFiles,
+  };
+};
+
+/**
+ * Remplace dans un texte les nom, prénom et email d'un utilisateur par son pseudonyme.
+ * @param text - Texte à pseudonymiser.
+ * @param user - Utilisateur effacé.
+ * @param pseudonymId - Pseudonyme de l'utilisateur.
+ * @returns Texte pseudonymisé.
+ */
+const pseudonymiseText = (text: string, user: User, pseudonymId: string): string => {
+  const terms = [`${user.prenom} ${user.nom}`, `${user.nom} ${user.prenom}`, user.email, user.nom, user.prenom]
+    .map((term) => term.trim())
+    .filter((term) => term.length > 1);
+  if (!terms.length) return text;
+  return text.replace(new RegExp(terms.map(escapeRegExp).join('|'), 'gi'), pseudonymId);
+};
+
+/**
+ * Prépare la pseudonymisation d'une entrée du journal portant sur l'utilisateur effacé : valeurs
+ * des champs personnels masquées, nom et email des précisions remplacés par le pseudonyme.
+ * @param log - Entrée du journal.
+ * @param user - Utilisateur effacé.
+ * @param pseudonymId - Pseudonyme de l'utilisateur.
+ * @returns Écriture à appliquer, ou null si l'entrée ne contient aucune donnée personnelle.
+ */
+const redactActivityLog = (log: ActivityLog, user: User, pseudonymId: string): BatchWrite | null => {
+  const changes = redactChanges(log.changes ?? [], PERSONAL_FIELDS);
+  const details = pseudonymiseText(log.details, user, pseudonymId);
+  if (details === log.details && JSON.stringify(changes) === JSON.stringify(log.changes ?? [])) return null;
+  return { store: 'activityLogs', type: 'update', id: log.id, data: { changes, details } };
+};
+
+/**
+ * Regroupe des écritures en lots respectant MAX_BATCH_WRITES, entrées de journal comprises.
+ * @param writes - Écritures à appliquer.
+ * @returns Lots d'écritures, dans l'ordre.
+ */
+const chunkWrites = (writes: BatchWrite[]): BatchWrite[][] => {
+  const chunks: BatchWrite[][] = [];
+  let current: BatchWrite[] = [];
+  let size = 0;
+  writes.forEach((write) => {
+    const cost = countBatchWrites([write]);
+    if (current.length && size + cost > MAX_BATCH_WRITES) {
+      chunks.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(write);
+    size += cost;
+  });
+  if (current.length) chunks.push(current);
+  return chunks;
+};
+
+/**
+ * Efface les données personnelles d'un utilisateur (droit à l'effacement, RGPD) :
+ * - le profil est anonymisé et le compte banni ;
+ * - contrats et transactions, à conserver pour les obligations comptables, sont rattachés à un pseudonyme ;
+ * - les propriétés détenues sont rejetées, pseudonymisées et privées de leurs photos ;
+ * - messages et notifications push sont supprimés ;
+ * - les entrées du journal d'activité portant sur l'utilisateur sont conservées, valeurs personnelles masquées ;
+ * - les fichiers (CNI, photo, photos des propriétés) sont supprimés du stockage ;
+ * - le compte de connexion est supprimé, en dernier.
+ * Les lots sont appliqués dans l'ordre, le profil en dernier : après un échec, l'effacement peut être
+ * relancé et reprend avec le même pseudonyme. Les valeurs effacées ne sont pas recopiées au journal.
+ * Un échec de la suppression du compte de connexion ou des fichiers n'interrompt pas l'effacement :
+ * il est signalé dans le bilan, avec les données conservées.
+ * @param source - Source de données.
+ * @param user - Utilisateur à effacer.
+ * @param adminId - Administrateur à l'origine de l'effacement.
+ * @returns Bilan de l'effacement, avec les fichiers qui n'ont pas pu être supprimés.
+ * @throws Error si le compte est un administrateur, celui de l'auteur, déjà effacé, ou si une écriture échoue.
+ */
+export const eraseUserData = async (source: DataSource, user: User, adminId: string): Promise<GdprErasureReport> => {
+  if (user.uid === adminId) throw new Error('Impossible d’effacer son propre compte');
+  if (user.typeUsersId === ADMIN_ROLE_ID) throw new Error('Les comptes administrateurs ne peuvent pas être effacés');
+  if (user.erasedAt) throw new Error('Les données de cet utilisateur ont déjà été effacées');
+
+  const records = await getUserRecords(source, user.uid);
+  const logs = await readAllPages(source.activityLogs, { filters: [{ field: 'targetId', op: '==', value: user.uid }] });
+
+  // Le pseudonyme est enregistré avant tout le reste, pour qu'une reprise réutilise le même
+  const pseudonymId = user.pseudonymId ?? `anon-${generateDocumentId()}`;
+  if (!user.pseudonymId) await source.users.update(user.uid, { pseudonymId }, ERASURE_AUDIT);
+
+  const writes: BatchWrite[] = [
+    ...records.transactions.map((transaction): BatchWrite => ({
+      store: 'transactions',
+      type: 'update',
+      id: transaction.id,
+      data: { userId: pseudonymId, description: pseudonymiseText(transaction.description, user, pseudonymId) },
+      audit: ERASURE_AUDIT,
+    })),
+    ...records.contracts.map((contract): BatchWrite => ({
+      store: 'contracts',
+      type: 'update',
+      id: contract.id,
+      data: {
+        ...(contract.tenantId === user.uid ? { tenantId: pseudonymId } : {}),
+        ...(contract.ownerId === user.uid ? { ownerId: pseudonymId } : {}),
+      },
+      audit: ERASURE_AUDIT,
+    })),
+    ...records.properties.map((property): BatchWrite => ({
+      store: 'properties',
+      type: 'update',
+      id: property.id,
+      data: { ownerId: pseudonymId, validationStatus: 'rejete', rejectionReason: ERASED_PROPERTY_REASON, images: [] },
+      audit: ERASURE_AUDIT,
+    })),
+    ...records.messages.map((message): BatchWrite => ({ store: 'messages', type: 'delete', id: message.id, audit: ERASURE_AUDIT })),
+    ...records.pushNotifications.map((notification): BatchWrite => ({
+      store: 'pushNotifications',
+      type: 'delete',
+      id: notification.id,
+    })),
+  ];
+
+  const anonymous = { nom: 'Anonymisé', prenom: 'Utilisateur', email: `${pseudonymId}@anonyme.invalid` };
+  const erasedAt = new Date().toISOString();
+  const profile: Partial<User> = {
+    ...anonymous,
+    ...getUserSearchFields(anonymous),
+    telephone: '',
+    addresse: '',
+    photoProfil: '',
+    cniNumber: '',
+    CNIDateDelivrer: '',
+    cniExpirationDate: '',
+    cniRecto: '',
+    cniVerso: '',
+    fcmToken: '',
+    kycComment: '',
+    statut: 0,
+    lastUpdated: erasedAt,
+    erasedAt,
+    pseudonymId,
+  };
+  const logWrites = logs
+    .map((log) => redactActivityLog(log, user, pseudonymId))
+    .filter((write): write is BatchWrite => write !== null);
+  writes.push(...logWrites);
+  writes.push({ store: 'users', type: 'update', id: user.uid, data: profile, audit: ERASURE_AUDIT });
+
+  for (const chunk of chunkWrites(writes)) await source.runBatch(chunk);
+
+  // Les fichiers ne sont supprimés qu'une fois plus aucun document n'y fait référence
+  const paths = [user.cniRecto, user.cniVerso, user.photoProfil, ...records.properties.flatMap((property) => property.images)]
+    .filter(Boolean);
+  const fileFailures: GdprFileFailure[] = [];
+  for (const path of new Set(paths)) {
+    try {
+      await source.storage.remove(path);
+    } catch (error) {
+      fileFailures.push({ path, reason: errorMessage(error) });
+    }
+  }
+
+  // Le compte de connexion est supprimé en dernier, par une fonction du back-end : s'il échoue, le
+  // reste de l'effacement est acquis et le compte, banni, est signalé pour une suppression manuelle
+  let accountFailure: string | undefined;
+  try {
+    await source.auth.deleteAccount(user.uid);
+  } catch (error) {
+    accountFailure = errorMessage(error);
+  }
+
+  const retained = [
+    `Profil anonymisé : identifiant ${user.uid}, pseudonyme et date d'effacement`,
+    `${records.contracts.length} contrat(s) et ${records.transactions.length} transaction(s), rattachés au pseudonyme pour les obligations comptables`,
+    ...(records.properties.length
+      ? [`${records.properties.length} propriété(s) rejetée(s), sans photos, rattachée(s) au pseudonyme`]
+      : []),
+    `${logs.length} entrée(s) du journal d'activité, dont ${logWrites.length} pseudonymisée(s) ; valeurs personnelles masquées`,
+    ...(accountFailure
+      ? [`Compte de connexion non supprimé (${accountFailure}) : à supprimer depuis la console Firebase Authentication`]
+      : []),
+    ...(fileFailures.length ? [`${fileFailures.length} fichier(s) à supprimer manuellement du stockage`] : []),
+  ];
+
+  return {
+    pseudonymId,
+    properties: records.properties.length,
+    contracts: records.contracts.length,
+    transactions: records.transactions.length,
+    messages: records.messages.length,
+    pushNotifications: records.pushNotifications.length,
+    activityLogs: logWrites.length,
+    removedFiles: new Set(paths).size - fileFailures.length,
+    fileFailures,
+    ...(accountFailure ? { accountFailure } : {}),
+    retained,
+  };
+};
@@ -0,0 +1,31 @@
+import { DataSource, getDataSourceKind } from './dataSource';
+import { createFirestoreDataSource } from './firestoreDataSource';
+import { createMemoryDataSource } from './memoryDataSource';
+import { generateFixtures, scaleFixtureOptions } from './fixtures';
+import { withAudit } from './audit';
+import { getCurrentAdminId } from './session';
+
+/**
+ * Construit la source en mémoire ; VITE_FIXTURE_USERS et VITE_FIXTURE_SEED permettent de
+ * générer un jeu de données plus volumineux (tests de charge des listes) au lieu de mockData,
+ * et VITE_DEMO_PASSWORD remplace le mot de passe de démonstration.
+ * @returns Source de données en mémoire.
+ */
+const createConfiguredMemoryDataSource = (): DataSource => {
+  const users = Number(import.meta.env.VITE_FIXTURE_USERS);
+  const seed = import.meta.env.VITE_FIXTURE_SEED ? Number(import.meta.env.VITE_FIXTURE_SEED) : undefined;
+  const demoPassword = import.meta.env.VITE_DEMO_PASSWORD || undefined;
+  if (!users && seed === undefined) return createMemoryDataSource(undefined, demoPassword);
+  return createMemoryDataSource(
+    generateFixtures(users ? scaleFixtureOptions(users, seed) : { seed }),
+    demoPassword
+  );
+};
+
+// Source de données unique de la console, choisie via VITE_DATA_SOURCE ; chaque mutation est journalisée
+export const dataSource: DataSource = withAudit(
+  getDataSourceKind() === 'memory' ? createConfiguredMemoryDataSource() : createFirestoreDataSource(),
+  getCurrentAdminId
+);
+
+export type { AuditContext, AuthAccount, AuthService, DataSource, EntityStore } from './dataSource';
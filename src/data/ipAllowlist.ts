@@ -0,0 +1,66 @@
+import { User } from '../types';
+import { findAllowlistEntry, parseAllowlist } from '../utils/ipAllowlist';
+import { createActivityLog } from './audit';
+import { DataSource } from './dataSource';
+
+// Action journalisée lors d'un accès refusé, seule entrée que les règles acceptent avant le second facteur
+export const BLOCKED_IP_ACTION = 'Accès bloqué (IP)';
+
+// Service renvoyant l'adresse publique du navigateur au format { "ip": "..." }
+const IP_LOOKUP_URL = import.meta.env.VITE_IP_LOOKUP_URL || 'https://api.ipify.org?format=json';
+
+/**
+ * Détermine l'adresse IP publique du navigateur, que le client ne peut pas lire lui-même.
+ * @returns Adresse IP.
+ * @throws Error si le service est injoignable ou sa réponse inexploitable.
+ */
+export const fetchClientIp = async (): Promise<string> => {
+  const response = await fetch(IP_LOOKUP_URL, { cache: 'no-store' });
+  if (!response.ok) throw new Error(`Service d'adresse IP indisponible (HTTP ${response.status})`);
+  const { ip } = (await response.json()) as { ip?: unknown };
+  if (typeof ip !== 'string' || !ip) throw new Error("Réponse du service d'adresse IP invalide");
+  return ip;
+};
+
+/**
+ * Refuse l'accès à la console depuis une adresse hors de la liste blanche et journalise la tentative.
+ * Une liste vide n'impose aucune restriction ; une adresse indéterminée est refusée.
+ * Le contrôle est indicatif : l'adresse est fournie au navigateur par un service externe et la
+ * vérification, faite par la console, n'est pas imposée par les règles Firestore.
+ * @param source - Source de données.
+ * @param admin - Administrateur authentifié.
+ * @param ipWhitelist - Paramètre security.ipWhitelist.
+ * @returns Résolu si l'accès est autorisé.
+ * @throws Error si l'adresse n'est pas autorisée.
+ */
+export const checkIpAllowlist = async (source: DataSource, admin: User, ipWhitelist: string): Promise<void> => {
+  const { entries } = parseAllowlist(ipWhitelist);
+  if (!entries.length) return;
+
+  let ip: string | null = null;
+  try {
+    ip = await fetchClientIp();
+  } catch (error) {
+    console.error("Erreur lors de la détermination de l'adresse IP :", error);
+  }
+  if (ip && findAllowlistEntry(ip, entries)) return;
+
+  try {
+    await source.activityLogs.create(createActivityLog({
+      adminId: admin.uid,
+      action: BLOCKED_IP_ACTION,
+      targetType: 'user',
+      targetId: admin.uid,
+      details: ip
+        ? `Connexion de ${admin.email} refusée depuis ${ip}, hors liste blanche`
+        : `Connexion de ${admin.email} refusée : adresse IP indéterminée`,
+    }));
+  } catch (error) {
+    console.error("Erreur lors de la journalisation de l'accès bloqué :", error);
+  }
+  throw new Error(
+    ip
+      ? `Accès à la console refusé depuis l'adresse ${ip}, absente de la liste blanche.`
+      : "Accès à la console refusé : votre adresse IP n'a pas pu être vérifiée."
+  );
+};
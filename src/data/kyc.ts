@@ -0,0 +1,104 @@
+import { KycRejectionReason, KycStatus, User } from '../types';
+import { DataSource } from './dataSource';
+
+export const KYC_STATUS_LABELS: Record<KycStatus, string> = {
+  en_attente: 'En attente',
+  verifie: 'Vérifiée',
+  rejete: 'Rejetée',
+  a_reverifier: 'À re-vérifier',
+};
+
+// Motifs de rejet proposés au vérificateur, repris dans la notification envoyée à l'utilisateur
+export const KYC_REJECTION_REASONS: Record<KycRejectionReason, string> = {
+  illisible: 'Document illisible ou flou',
+  incomplet: 'Recto ou verso manquant',
+  expire: 'Pièce expirée',
+  non_concordant: 'Informations non concordantes avec le profil',
+  falsification: 'Suspicion de falsification',
+  autre: 'Autre motif',
+};
+
+/**
+ * Détermine l'état de vérification de la CNI d'un utilisateur. Un document déposé sans
+ * décision est en attente.
+ * @param user - Utilisateur.
+ * @returns État KYC, ou null si aucun document n'a été déposé.
+ */
+export const getKycStatus = (user: User): KycStatus | null => {
+  if (user.kycStatus) return user.kycStatus;
+  return user.cniRecto || user.cniVerso ? 'en_attente' : null;
+};
+
+/**
+ * Indique si la CNI déclarée est expirée.
+ * @param user - Utilisateur.
+ * @param now - Date de référence.
+ * @returns true si la date d'expiration est passée.
+ */
+export const isCniExpired = (user: User, now = new Date()): boolean =>
+  !!user.cniExpirationDate && new Date(user.cniExpirationDate).getTime() < now.getTime();
+
+/**
+ * Valide l'identité d'un utilisateur après contrôle de sa CNI.
+ * @param source - Source de données.
+ * @param user - Utilisateur contrôlé.
+ * @param reviewerId - UID de l'administrateur vérificateur.
+ * @returns Champs KYC enregistrés.
+ * @throws Error si le recto ou le verso manque.
+ */
+export const approveKyc = async (source: DataSource, user: User, reviewerId: string): Promise<Partial<User>> => {
+  if (!user.cniRecto || !user.cniVerso) throw new Error('Le recto et le verso de la CNI sont nécessaires pour valider');
+  // Le motif d'un rejet antérieur n'est affiché que pour le statut "rejete"
+  const decision: Partial<User> = {
+    kycStatus: 'verifie',
+    kycComment: '',
+    kycReviewedBy: reviewerId,
+    kycReviewedAt: new Date().toISOString(),
+  };
+  await source.users.update(user.uid, decision, {
+    action: 'Validation identité',
+    details: `CNI ${user.cniNumber || 'sans numéro'}`,
+  });
+  return decision;
+};
+
+/**
+ * Rejette la CNI d'un utilisateur et l'en informe par une notification.
+ * @param source - Source de données.
+ * @param user - Utilisateur contrôlé.
+ * @param reviewerId - UID de l'administrateur vérificateur.
+ * @param reason - Motif du rejet.
+ * @param comment - Précisions, obligatoires pour le motif "autre".
+ * @returns Champs KYC enregistrés.
+ * @throws Error si le motif "autre" n'est pas précisé.
+ */
+export const rejectKyc = async (
+  source: DataSource,
+  user: User,
+  reviewerId: string,
+  reason: KycRejectionReason,
+  comment = ''
+): Promise<Partial<User>> => {
+  const trimmed = comment.trim();
+  if (reason === 'autre' && !trimmed) throw new Error('Précisez le motif du rejet');
+  const reviewedAt = new Date().toISOString();
+  const decision: Partial<User> = {
+    kycStatus: 'rejete',
+    kycRejectionReason: reason,
+    kycComment: trimmed,
+    kycReviewedBy: reviewerId,
+    kycReviewedAt: reviewedAt,
+  };
+  const label = trimmed ? `${KYC_REJECTION_REASONS[reason]} (${trimmed})` : KYC_REJECTION_REASONS[reason];
+  await source.users.update(user.uid, decision, { action: 'Rejet identité', details: label });
+  await source.messages.create({
+    senderId: reviewerId,
+    receiverId: user.uid,
+    content: `Votre pièce d'identité n'a pas pu être validée. Motif : ${label}. Merci d'en déposer une nouvelle depuis l'application.`,
+    timestamp: reviewedAt,
+    status: 'non_lu',
+    type: 'notification',
+    flagged: false,
+  }, { action: 'Notification rejet identité', details: `Utilisateur ${user.uid}` });
+  return decision;
+};
@@ -0,0 +1,467 @@
+import {
+  AuthAccount,
+  AuthService,
+  BatchStoreName,
+  BatchWrite,
+  DataSource,
+  EntityStore,
+  FileStorage,
+  LoginAttemptStore,
+  MAX_BATCH_WRITES,
+  StoreFilter,
+  generateDocumentId,
+  isFileUrl,
+} from './dataSource';
+import {
+  AdminSecurity,
+  JobRun,
+  LoginAttempt,
+  PushNotification,
+  SecurityPolicy,
+  SettingsSecrets,
+  SettingsVersion,
+  User,
+} from '../types';
+import {
+  mockUsers,
+  mockProperties,
+  mockTransactions,
+  mockContracts,
+  mockMessages,
+  mockPartners,
+  mockActivityLogs,
+} from './mockData';
+import { Fixtures } from './fixtures';
+import { isLockExpired } from './accountSecurity';
+import { generateRecoveryCodes, hashRecoveryCode } from './twoFactor';
+import { verifyTotp } from '../utils/totp';
+import { canPerform, getAdminRole } from '../utils/permissions';
+import { ADMIN_ROLE_ID } from '../utils/users';
+
+// Données initiales d'une source en mémoire ; sans version enregistrée, les paramètres par défaut s'appliquent
+export type MemorySeed = Fixtures & {
+  settingsVersions: SettingsVersion[];
+  settingsSecrets: SettingsSecrets[];
+  securityPolicy: SecurityPolicy[];
+  loginAttempts: LoginAttempt[];
+  adminSecurity: AdminSecurity[];
+  pushNotifications: PushNotification[];
+  jobRuns: JobRun[];
+};
+
+const compareValues = (a: unknown, b: unknown): number =>
+  a === b ? 0 : (a as string | number) < (b as string | number) ? -1 : 1;
+
+const fieldOf = (item: unknown, field: string): unknown => (item as Record<string, unknown>)[field];
+
+// Comme Firestore, un document sans le champ filtré ne correspond à aucune condition
+const matchesFilters = (item: unknown, filters: StoreFilter[]): boolean =>
+  filters.every(({ field, op, value }) => {
+    const current = fieldOf(item, field);
+    if (current === undefined || current === null) return false;
+    if (op === '==') return current === value;
+    const order = compareValues(current, value);
+    return op === '>=' ? order >= 0 : order <= 0;
+  });
+
+/**
+ * Crée un magasin d'entités en mémoire, avec notification synchrone des abonnés.
+ * Les entités sont copiées pour que les mutations n'altèrent pas les données d'amorçage.
+ * @param idKey - Champ de l'entité portant l'ID.
+ * @param seed - Entités initiales.
+ * @returns Magasin d'entités.
+ */
+export const createMemoryStore = <T, K extends keyof T>(idKey: K, seed: T[]): EntityStore<T, K> => {
+  const items = new Map<string, T>();
+  seed.forEach((item) => items.set(String(item[idKey]), structuredClone(item)));
+
+  const listeners = new Set<(items: T[]) => void>();
+  let nextId = items.size + 1;
+
+  const snapshot = () => Array.from(items.values()).map((item) => structuredClone(item));
+  const notify = () => {
+    const current = snapshot();
+    listeners.forEach((listener) => listener(current));
+  };
+
+  const requireItem = (id: string) => {
+    const item = items.get(id);
+    if (!item) throw new Error(`Document introuvable : ${id}`);
+    return item;
+  };
+
+  return {
+    getAll: async () => snapshot(),
+
+    getById: async (id) => {
+      const item = items.get(id);
+      return item ? structuredClone(item) : null;
+    },
+
+    // Le curseur est la position de la prochaine entité ; comme Firestore, le tri écarte les
+    // documents sans le champ trié et départage les égalités par identifiant
+    query: async ({ filters = [], orderBy, pageSize, after }) => {
+      let results = Array.from(items.entries()).filter(([, item]) => matchesFilters(item, filters));
+      if (orderBy) {
+        const direction = orderBy.direction === 'desc' ? -1 : 1;
+        results = results
+          .filter(([, item]) => fieldOf(item, orderBy.field) !== undefined && fieldOf(item, orderBy.field) !== null)
+          .sort(([idA, a], [idB, b]) =>
+            compareValues(fieldOf(a, orderBy.field), fieldOf(b, orderBy.field)) * direction || compareValues(idA, idB)
+          );
+      }
+      const start = typeof after === 'number' ? after : 0;
+      const page = results.slice(start, start + pageSize).map(([, item]) => structuredClone(item));
+      return { items: page, cursor: page.length < pageSize ? null : start + page.length };
+    },
+
+    count: async (filters = []) => Array.from(items.values()).filter((item) => matchesFilters(item, filters)).length,
+
+    create: async (data) => {
+      while (items.has(String(nextId))) nextId++;
+      const id = String(nextId++);
+      items.set(id, { ...structuredClone(data), [idKey]: id } as T);
+      notify();
+      return id;
+    },
+
+    set: async (id, data) => {
+      const existing = items.get(id);
+      items.set(id, { ...existing, ...structuredClone(data), [idKey]: id } as T);
+      notify();
+      return id;
+    },
+
+    update: async (id, data) => {
+      const existing = requireItem(id);
+      items.set(id, { ...existing, ...structuredClone(data), [idKey]: id });
+      notify();
+    },
+
+    remove: async (id) => {
+      requireItem(id);
+      items.delete(id);
+      notify();
+    },
+
+    subscribe: (callback) => {
+      listeners.add(callback);
+      callback(snapshot());
+      return () => {
+        listeners.delete(callback);
+      };
+    },
+  };
+};
+
+/**
+ * Crée le magasin des échecs de connexion en mémoire. Comme les règles Firestore, un échec n'est
+ * ajouté au décompte que dans le délai de verrouillage du précédent, qui ne repart de 1 qu'au-delà.
+ * @param seed - Échecs initiaux.
+ * @returns Magasin des échecs de connexion.
+ */
+const createMemoryLoginAttemptStore = (seed: LoginAttempt[]): LoginAttemptStore => {
+  const store = createMemoryStore('id', seed);
+  return {
+    ...store,
+    recordFailure: async (id, restart) => {
+      const previous = await store.getById(id);
+      const now = new Date();
+      if (previous && restart !== isLockExpired(previous, now)) throw new Error('Échec de connexion refusé');
+      await store.set(id, {
+        failedCount: previous && !restart ? previous.failedCount + 1 : 1,
+        lastFailedAt: now.toISOString(),
+      });
+    },
+  };
+};
+
+// Session de démonstration conservée jusqu'à la fermeture de l'onglet
+const MEMORY_SESSION_KEY = 'kinaru.memoryAuth';
+
+const readSession = (): AuthAccount | null => {
+  try {
+    const value = sessionStorage.getItem(MEMORY_SESSION_KEY);
+    return value ? (JSON.parse(value) as AuthAccount) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Crée une authentification hors ligne : tout utilisateur du magasin peut se connecter
+ * avec le mot de passe de démonstration, ou celui qu'il a choisi depuis le chargement de la page.
+ * Les contrôles de rôle restent ceux de la console ; le second facteur est géré comme par le serveur.
+ * @param users - Magasin des utilisateurs.
+ * @param adminSecurity - Magasin des seconds facteurs.
+ * @param demoPassword - Mot de passe commun à tous les comptes.
+ * @returns Service d'authentification en mémoire.
+ */
+export const createMemoryAuth = (
+  users: EntityStore<User, 'uid'>,
+  adminSecurity: EntityStore<AdminSecurity, 'id'>,
+  demoPassword: string
+): AuthService => {
+  let current = readSession();
+  const listeners = new Set<(account: AuthAccount | null) => void>();
+  const passwords = new Map<string, string>();
+  // Comptes supprimés : le document Users est conservé, anonymisé, mais la connexion est refusée
+  const deleted = new Set<string>();
+
+  const setCurrent = (account: AuthAccount | null) => {
+    current = account;
+    if (account) sessionStorage.setItem(MEMORY_SESSION_KEY, JSON.stringify(account));
+    else sessionStorage.removeItem(MEMORY_SESSION_KEY);
+    listeners.forEach((listener) => listener(account));
+  };
+
+  const requireCurrent = (): AuthAccount => {
+    if (!current) throw new Error('Aucun utilisateur connecté');
+    return current;
+  };
+
+  const findByEmail = async (email: string) => {
+    const normalized = email.trim().toLowerCase();
+    return (await users.getAll()).find((user) => user.email.toLowerCase() === normalized) ?? null;
+  };
+
+  return {
+    signInWithEmail: async (email, password) => {
+      if (!email.trim()) throw new Error("Format d'email invalide");
+      if (!password) throw new Error('Le mot de passe ne peut pas être vide');
+      const user = await findByEmail(email);
+      if (!user || deleted.has(user.uid) || password !== (passwords.get(user.uid) ?? demoPassword)) {
+        throw new Error('Échec de la connexion : identifiants invalides');
+      }
+      const account = { uid: user.uid, email: user.email, hasPassword: true };
+      setCurrent(account);
+      return account;
+    },
+
+    signInWithGoogle: async () => {
+      throw new Error('Échec de la connexion Google : indisponible en mode hors ligne');
+    },
+
+    // Comme Firebase, ne révèle pas si l'adresse correspond à un compte
+    sendPasswordReset: async (email) => {
+      if (!email.trim()) throw new Error("Format d'email invalide");
+    },
+
+    // Le compte existe dès que son document Users est enregistré, avec le mot de passe de démonstration
+    createAccount: async (email) => {
+      if (!email.trim()) throw new Error("Format d'email invalide");
+      if (await findByEmail(email)) throw new Error('Adresse email déjà utilisée par un compte');
+      return generateDocumentId();
+    },
+
+    changePassword: async (currentPassword, newPassword) => {
+      if (!current) throw new Error('Aucun utilisateur connecté');
+      if (!currentPassword || !newPassword) throw new Error('Le mot de passe ne peut pas être vide');
+      if (currentPassword !== (passwords.get(current.uid) ?? demoPassword)) {
+        throw new Error('Échec du changement de mot de passe : mot de passe actuel incorrect');
+      }
+      passwords.set(current.uid, newPassword);
+    },
+
+    enrollSecondFactor: async (secret, code) => {
+      const { uid } = requireCurrent();
+      if (!(await verifyTotp(secret, code))) {
+        throw new Error("Code invalide : vérifiez l'heure de votre appareil et réessayez");
+      }
+      const recoveryCodes = generateRecoveryCodes();
+      await adminSecurity.set(uid, {
+        totpSecret: secret,
+        recoveryCodes: await Promise.all(recoveryCodes.map(hashRecoveryCode)),
+        enrolledAt: new Date().toISOString(),
+      });
+      await users.update(uid, { twoFactorEnabled: true });
+      return recoveryCodes;
+    },
+
+    verifySecondFactor: async (code) => {
+      const security = await adminSecurity.getById(requireCurrent().uid);
+      if (!security) return false;
+      if (await verifyTotp(security.totpSecret, code)) return true;
+
+      const hash = await hashRecoveryCode(code);
+      if (!security.recoveryCodes.includes(hash)) return false;
+      await adminSecurity.update(security.id, { recoveryCodes: security.recoveryCodes.filter((c) => c !== hash) });
+      return true;
+    },
+
+    regenerateRecoveryCodes: async () => {
+      const { uid } = requireCurrent();
+      if (!(await adminSecurity.getById(uid))) throw new Error("La double authentification n'est pas activée");
+      const recoveryCodes = generateRecoveryCodes();
+      await adminSecurity.update(uid, { recoveryCodes: await Promise.all(recoveryCodes.map(hashRecoveryCode)) });
+      return recoveryCodes;
+    },
+
+    disableSecondFactor: async (uid) => {
+      const caller = await users.getById(requireCurrent().uid);
+      const target = await users.getById(uid);
+      if (!caller || !target) throw new Error('Compte introuvable');
+      if (uid !== caller.uid && !canPerform(getAdminRole(caller), 'admins.manage')) {
+        throw new Error('Action non autorisée pour ce compte');
+      }
+      if (uid === caller.uid && target.twoFactorRequired) {
+        throw new Error('La double authentification est exigée pour ce compte');
+      }
+      if (await adminSecurity.getById(uid)) await adminSecurity.remove(uid);
+      await users.update(uid, { twoFactorEnabled: false });
+    },
+
+    deleteAccount: async (uid) => {
+      const caller = await users.getById(requireCurrent().uid);
+      const target = await users.getById(uid);
+      if (!caller || !target) throw new Error('Compte introuvable');
+      if (!canPerform(getAdminRole(caller), 'users.gdpr')) throw new Error('Action non autorisée pour ce compte');
+      if (target.typeUsersId === ADMIN_ROLE_ID) throw new Error('Ce compte ne peut pas être supprimé');
+      deleted.add(uid);
+      passwords.delete(uid);
+    },
+
+    signOut: async () => setCurrent(null),
+
+    onChange: (callback) => {
+      listeners.add(callback);
+      callback(current);
+      return () => {
+        listeners.delete(callback);
+      };
+    },
+  };
+};
+
+// Image de substitution des fichiers référencés par les données de démonstration
+const placeholderImage = (path: string): string =>
+  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="640" height="400"><rect width="100%" height="100%" fill="#e2e8f0"/>` +
+      `<text x="50%" y="50%" font-family="sans-serif" font-size="20" fill="#475569" text-anchor="middle">${path
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')}</text></svg>`
+  )}`;
+
+/**
+ * Crée un stockage de fichiers hors ligne : les fichiers déposés sont servis par des URL blob,
+ * les autres chemins par une image de substitution.
+ * @returns Stockage en mémoire.
+ */
+export const createMemoryStorage = (): FileStorage => {
+  const files = new Map<string, string>();
+  const removed = new Set<string>();
+
+  return {
+    getUrl: async (path) => {
+      if (isFileUrl(path)) return path;
+      if (removed.has(path)) throw new Error(`Échec de la récupération de l'URL du fichier : ${path} introuvable`);
+      return files.get(path) ?? placeholderImage(path);
+    },
+    upload: async (path, file) => {
+      const previous = files.get(path);
+      if (previous) URL.revokeObjectURL(previous);
+      const url = URL.createObjectURL(file);
+      files.set(path, url);
+      removed.delete(path);
+      return url;
+    },
+    remove: async (path) => {
+      const url = files.get(path);
+      if (url) URL.revokeObjectURL(url);
+      files.delete(path);
+      removed.add(path);
+    },
+  };
+};
+
+/**
+ * Crée l'application de lots d'une source en mémoire. Comme un lot Firestore, il est refusé
+ * en entier si une mise à jour vise un document absent ; la suppression d'un document absent est sans effet.
+ * @param stores - Magasins de la source.
+ * @returns Fonction runBatch de la source.
+ */
+export const createMemoryBatch = (stores: Pick<DataSource, BatchStoreName>) => async (writes: BatchWrite[]) => {
+  if (writes.length > MAX_BATCH_WRITES) {
+    throw new Error(`Lot trop volumineux : ${writes.length} écritures (maximum ${MAX_BATCH_WRITES})`);
+  }
+  const storeOf = (write: BatchWrite) => stores[write.store] as unknown as EntityStore<object, never>;
+  const existing = await Promise.all(writes.map((write) => storeOf(write).getById(write.id)));
+  writes.forEach((write, index) => {
+    if (write.type === 'update' && !existing[index]) {
+      throw new Error(`Échec de l'opération de lot : document introuvable (${write.id})`);
+    }
+  });
+
+  for (const [index, write] of writes.entries()) {
+    const store = storeOf(write);
+    if (write.type === 'set') await store.set(write.id, write.data);
+    else if (write.type === 'update') await store.update(write.id, write.data);
+    else if (existing[index]) await store.remove(write.id);
+  }
+};
+
+/**
+ * Crée l'exécution de transactions d'une source en mémoire : les lectures sont directes et les
+ * écritures appliquées en un lot à la fin. Les transactions s'exécutent l'une après l'autre, chacune
+ * lisant les écritures des précédentes, comme Firestore rejoue celle dont les lectures ont changé.
+ * @param stores - Magasins de la source.
+ * @param runBatch - Application des lots de la source.
+ * @returns Fonction runTransaction de la source.
+ */
+export const createMemoryTransaction = (
+  stores: Pick<DataSource, BatchStoreName>,
+  runBatch: DataSource['runBatch']
+): DataSource['runTransaction'] => {
+  let queue: Promise<unknown> = Promise.resolve();
+  return (work) => {
+    const run = queue.then(async () => {
+      const writes: BatchWrite[] = [];
+      const result = await work({
+        get: async (store, id) => (await stores[store].getById(id)) as never,
+        write: (write) => {
+          writes.push(write);
+        },
+      });
+      if (writes.length) await runBatch(writes);
+      return result;
+    });
+    queue = run.catch(() => undefined);
+    return run;
+  };
+};
+
+/**
+ * Crée une source de données hors ligne, amorcée par défaut avec mockData.
+ * @param seed - Données initiales à utiliser à la place de mockData.
+ * @param demoPassword - Mot de passe de démonstration de tous les comptes.
+ * @returns Source de données en mémoire.
+ */
+export const createMemoryDataSource = (seed?: Partial<MemorySeed>, demoPassword = 'demo'): DataSource => {
+  const users = createMemoryStore('uid', seed?.users ?? mockUsers);
+  const adminSecurity = createMemoryStore('id', seed?.adminSecurity ?? []);
+  const stores = {
+    users,
+    properties: createMemoryStore('id', seed?.properties ?? mockProperties),
+    transactions: createMemoryStore('id', seed?.transactions ?? mockTransactions),
+    contracts: createMemoryStore('id', seed?.contracts ?? mockContracts),
+    messages: createMemoryStore('id', seed?.messages ?? mockMessages),
+    partners: createMemoryStore('id', seed?.partners ?? mockPartners),
+    activityLogs: createMemoryStore('id', seed?.activityLogs ?? mockActivityLogs),
+    settingsVersions: createMemoryStore('id', seed?.settingsVersions ?? []),
+    settingsSecrets: createMemoryStore('id', seed?.settingsSecrets ?? []),
+    securityPolicy: createMemoryStore('id', seed?.securityPolicy ?? []),
+    loginAttempts: createMemoryLoginAttemptStore(seed?.loginAttempts ?? []),
+    adminSecurity,
+    pushNotifications: createMemoryStore('id', seed?.pushNotifications ?? []),
+    jobRuns: createMemoryStore('id', seed?.jobRuns ?? []),
+  };
+  const runBatch = createMemoryBatch(stores);
+  return {
+    kind: 'memory',
+    auth: createMemoryAuth(users, adminSecurity, demoPassword),
+    storage: createMemoryStorage(),
+    ...stores,
+    runBatch,
+    runTransaction: createMemoryTransaction(stores, runBatch),
+  };
+};
@@ -0,0 +1,160 @@
+import { NotificationCategory, PlatformSettings, User } from '../types';
+import { ADMIN_ROLE_ID } from '../utils/users';
+import { DataSource, readAllPages } from './dataSource';
+
+export const NOTIFICATION_CATEGORY_LABELS: Record<NotificationCategory, string> = {
+  messages: 'Messages',
+  newProperties: 'Nouvelles propriétés',
+  payments: 'Paiements',
+  reservations: 'Réservations',
+  visits: 'Visites',
+};
+
+// Issue d'une demande d'envoi : mise en file d'attente, ou raison pour laquelle l'utilisateur n'est pas
+// joignable. L'envoi lui-même revient à une fonction du back-end, hors de ce dépôt : une notification
+// en file n'est pas pour autant reçue.
+export type PushOutcome = 'enqueued' | 'disabled' | 'opted_out' | 'no_token' | 'stale_token';
+
+export const PUSH_OUTCOME_LABELS: Record<PushOutcome, string> = {
+  enqueued: "Notification mise en file d'attente",
+  disabled: 'Notifications push désactivées sur la plateforme',
+  opted_out: "Catégorie désactivée par l'utilisateur",
+  no_token: "Aucun appareil enregistré (fcmToken absent)",
+  stale_token: 'Appareil injoignable (dernier envoi en échec)',
+};
+
+export const FCM_TOKEN_CHECK_JOB_ID = 'fcmTokenCheck';
+
+/**
+ * Indique si le jeton FCM actuel d'un utilisateur a été marqué comme périmé ; un nouveau jeton
+ * enregistré par l'application n'est pas concerné.
+ * @param user - Utilisateur.
+ * @returns true si les envois vers l'appareil de l'utilisateur échouent.
+ */
+export const isFcmTokenStale = (user: User): boolean => !!user.fcmToken && user.staleFcmToken === user.fcmToken;
+
+/**
+ * Indique si un utilisateur peut recevoir une notification push d'une catégorie.
+ * @param user - Destinataire.
+ * @param category - Catégorie de la notification, soumise à notificationPrefs.
+ * @param settings - Paramètres de la plateforme (notifications.pushNotifications).
+ * @returns 'enqueued' si l'envoi est possible, sinon la raison du refus.
+ */
+export const getPushOutcome = (
+  user: User,
+  category: NotificationCategory,
+  settings: PlatformSettings
+): PushOutcome => {
+  if (!settings.notifications.pushNotifications) return 'disabled';
+  if (!user.notificationPrefs[category]) return 'opted_out';
+  if (!user.fcmToken) return 'no_token';
+  if (isFcmTokenStale(user)) return 'stale_token';
+  return 'enqueued';
+};
+
+/**
+ * Met une notification push en file d'envoi vers l'appareil de l'utilisateur, si ses
+ * préférences et les paramètres de la plateforme le permettent.
+ * @param source - Source de données.
+ * @param user - Destinataire.
+ * @param category - Catégorie de la notification.
+ * @param title - Titre affiché.
+ * @param body - Texte affiché.
+ * @param settings - Paramètres de la plateforme.
+ * @returns Issue de la demande.
+ */
+export const queuePushNotification = async (
+  source: DataSource,
+  user: User,
+  category: NotificationCategory,
+  title: string,
+  body: string,
+  settings: PlatformSettings
+): Promise<PushOutcome> => {
+  const outcome = getPushOutcome(user, category, settings);
+  if (outcome !== 'enqueued') return outcome;
+  await source.pushNotifications.create({
+    userId: user.uid,
+    fcmToken: user.fcmToken,
+    category,
+    title,
+    body,
+    status: 'en_attente',
+    createdAt: new Date().toISOString(),
+  });
+  return outcome;
+};
+
+export interface FcmTokenCheckReport {
+  failed: number;
+  marked: number;
+}
+
+/**
+ * Marque comme périmés les jetons FCM dont le dernier envoi traité par la Cloud Function a
+ * échoué ; les envois suivants vers ces appareils sont refusés jusqu'à l'enregistrement d'un
+ * nouveau jeton.
+ * @param source - Source de données.
+ * @param adminId - Administrateur dont la session exécute la tâche.
+ * @param now - Date de référence.
+ * @returns Nombre de jetons en échec et de jetons nouvellement marqués.
+ */
+export const runFcmTokenCheck = async (
+  source: DataSource,
+  adminId: string,
+  now = new Date()
+): Promise<FcmTokenCheckReport> => {
+  const failures = await readAllPages(source.pushNotifications, {
+    filters: [{ field: 'status', op: '==', value: 'echec' }],
+  });
+  const report: FcmTokenCheckReport = { failed: 0, marked: 0 };
+  for (const token of new Set(failures.map((notification) => notification.fcmToken))) {
+    // Un envoi réussi après l'échec montre que le jeton est toujours valide
+    const processed = (
+      await readAllPages(source.pushNotifications, { filters: [{ field: 'fcmToken', op: '==', value: token }] })
+    ).filter((notification) => notification.status !== 'en_attente');
+    const latest = processed.reduce((a, b) => (a.createdAt >= b.createdAt ? a : b));
+    if (latest.status !== 'echec') continue;
+    report.failed++;
+
+    // Un jeton remplacé depuis l'échec, ou déjà marqué, est laissé tel quel
+    const user = await source.users.getById(latest.userId);
+    if (!user || user.fcmToken !== token || isFcmTokenStale(user)) continue;
+    await source.users.update(user.uid, { staleFcmToken: token, staleFcmTokenAt: now.toISOString() }, {
+      action: 'Jeton FCM périmé',
+      details: latest.error || `Échec de l'envoi « ${latest.title} »`,
+    });
+    report.marked++;
+  }
+
+  await source.jobRuns.set(FCM_TOKEN_CHECK_JOB_ID, {
+    lastRunAt: now.toISOString(),
+    adminId,
+    summary: `${report.failed} jeton(s) en échec, dont ${report.marked} nouvellement marqué(s) comme périmé(s)`,
+  });
+  return report;
+};
+
+// Répartition des utilisateurs d'une catégorie selon l'issue d'un envoi
+export type PushReachability = Record<NotificationCategory, Record<PushOutcome, number>>;
+
+/**
+ * Compte, pour chaque catégorie, les utilisateurs actifs joignables par notification push et
+ * ceux qui ne le sont pas, par raison ; les administrateurs, les comptes bannis ou en attente
+ * et les comptes effacés ne reçoivent pas de notifications.
+ * @param users - Utilisateurs.
+ * @param settings - Paramètres de la plateforme.
+ * @returns Nombre d'utilisateurs par catégorie et par issue.
+ */
+export const getPushReachability = (users: User[], settings: PlatformSettings): PushReachability => {
+  const recipients = users.filter((user) => user.typeUsersId !== ADMIN_ROLE_ID && user.statut === 1 && !user.erasedAt);
+  const categories = Object.keys(NOTIFICATION_CATEGORY_LABELS) as NotificationCategory[];
+  const outcomes = Object.keys(PUSH_OUTCOME_LABELS) as PushOutcome[];
+  return Object.fromEntries(
+    categories.map((category) => {
+      const counts = Object.fromEntries(outcomes.map((outcome) => [outcome, 0])) as Record<PushOutcome, number>;
+      recipients.forEach((user) => counts[getPushOutcome(user, category, settings)]++);
+      return [category, counts];
+    })
+  ) as PushReachability;
+};
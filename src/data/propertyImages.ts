@@ -0,0 +1,198 @@
+import { PhotoRejectionReason, Property, PropertyImageComment } from '../types';
+import { BatchWrite, DataSource, generateDocumentId } from './dataSource';
+
+export const PHOTO_REJECTION_REASONS: Record<PhotoRejectionReason, string> = {
+  visage: 'Visage identifiable',
+  coordonnees: 'Numéro de téléphone ou coordonnées visibles',
+  filigrane: 'Filigrane ou logo',
+  hors_sujet: 'Sans rapport avec le bien',
+  qualite: 'Qualité insuffisante',
+  autre: 'Autre motif',
+};
+
+// Photo de la galerie en cours de modération, dans l'ordre affiché : la première est la couverture.
+// position est le rang de la photo dans la galerie soumise par le propriétaire.
+export interface GalleryPhoto {
+  image: string;
+  position: number;
+  rejectionReason?: PhotoRejectionReason;
+  comment: string;
+}
+
+export interface GalleryReviewReport {
+  kept: number;
+  rejected: number;
+  removedFiles: number;
+  // Photos retirées de l'annonce mais restées dans le stockage, avec la cause de l'échec
+  fileFailures: { image: string; reason: string }[];
+}
+
+/**
+ * Prépare la modération de la galerie d'une propriété, en reprenant les remarques encore
+ * attachées aux photos conservées lors de la modération précédente.
+ * @param property - Propriété.
+ * @returns Photos de la galerie, dans l'ordre de l'annonce.
+ */
+export const createGalleryReview = (property: Property): GalleryPhoto[] =>
+  property.images.map((image, index) => ({
+    image,
+    position: index + 1,
+    comment: property.imageComments?.find((entry) => entry.image === image)?.comment ?? '',
+  }));
+
+/**
+ * Déplace une photo de la galerie.
+ * @param photos - Photos de la galerie.
+ * @param from - Index de la photo à déplacer.
+ * @param to - Index de destination ; 0 en fait la couverture.
+ * @returns Nouvelle galerie.
+ */
+export const movePhoto = (photos: GalleryPhoto[], from: number, to: number): GalleryPhoto[] => {
+  if (to < 0 || to >= photos.length || from === to) return photos;
+  const next = [...photos];
+  const [photo] = next.splice(from, 1);
+  next.splice(to, 0, photo);
+  return next;
+};
+
+/**
+ * Rédige la remarque transmise au propriétaire pour une photo.
+ * @param entry - Remarque enregistrée.
+ * @returns Texte de la remarque.
+ */
+export const describeImageComment = (entry: PropertyImageComment): string => {
+  const parts = [
+    entry.rejectionReason ? `retirée (${PHOTO_REJECTION_REASONS[entry.rejectionReason]})` : '',
+    entry.comment,
+  ].filter(Boolean);
+  return `Photo n°${entry.position} : ${parts.join(' - ')}`;
+};
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Enregistre la modération de la galerie d'une propriété : ordre et couverture des photos
+ * conservées, remarques par photo, et éventuellement une demande de nouvelle soumission qui remet
+ * l'annonce en attente. Le propriétaire est notifié des photos retirées et des remarques ; les
+ * photos retirées sont ensuite supprimées du stockage.
+ * @param source - Source de données.
+ * @param property - Propriété telle qu'affichée à l'ouverture de la galerie.
+ * @param photos - Galerie modérée, dans l'ordre voulu.
+ * @param adminId - Administrateur qui modère l'annonce.
+ * @param resubmission - Demande de nouvelle soumission et message au propriétaire.
+ * @returns Nombre de photos conservées, retirées et supprimées du stockage.
+ * @throws Error si la galerie a changé entre-temps ou si la modération est incomplète.
+ */
+export const saveGalleryReview = async (
+  source: DataSource,
+  property: Property,
+  photos: GalleryPhoto[],
+  adminId: string,
+  resubmission: { requested: boolean; message: string }
+): Promise<GalleryReviewReport> => {
+  const current = await source.properties.getById(property.id);
+  if (!current) throw new Error('Propriété introuvable');
+  if (JSON.stringify(current.images) !== JSON.stringify(property.images)) {
+    throw new Error('Les photos de cette annonce ont été modifiées entre-temps : rouvrez la galerie');
+  }
+
+  const unexplained = photos.find((photo) => photo.rejectionReason === 'autre' && !photo.comment.trim());
+  if (unexplained) throw new Error(`Précisez le motif de retrait de la photo n°${unexplained.position}`);
+  const kept = photos.filter((photo) => !photo.rejectionReason);
+  const rejected = photos.filter((photo) => photo.rejectionReason);
+  if (!kept.length && !resubmission.requested) {
+    throw new Error("Une annonce sans photo doit faire l'objet d'une demande de nouvelle soumission");
+  }
+
+  const imageComments: PropertyImageComment[] = photos
+    .filter((photo) => photo.rejectionReason || photo.comment.trim())
+    .map((photo) => ({
+      position: photo.position,
+      ...(photo.rejectionReason ? { rejectionReason: photo.rejectionReason } : { image: photo.image }),
+      comment: photo.comment.trim(),
+    }))
+    .sort((a, b) => a.position - b.position);
+  const message = resubmission.message.trim();
+  if (resubmission.requested && !imageComments.length && !message) {
+    throw new Error('Indiquez au propriétaire ce que la nouvelle soumission doit corriger');
+  }
+
+  const images = kept.map((photo) => photo.image);
+  const reordered = JSON.stringify(images) !== JSON.stringify(current.images.filter((image) => images.includes(image)));
+  const now = new Date().toISOString();
+  const writes: BatchWrite[] = [
+    {
+      store: 'properties',
+      type: 'update',
+      id: property.id,
+      data: {
+        images,
+        imageComments,
+        ...(resubmission.requested
+          ? {
+              validationStatus: 'en_attente' as const,
+              validatedBy: adminId,
+              validatedAt: now,
+              rejectionReason: '',
+              resubmissionRequestedAt: now,
+            }
+          : {}),
+      },
+      audit: {
+        action: resubmission.requested ? 'Demande de nouvelle soumission propriété' : 'Modération photos propriété',
+        details: [
+          rejected.length ? `${rejected.length} photo(s) retirée(s)` : '',
+          reordered ? 'ordre des photos modifié' : '',
+          imageComments.length ? `${imageComments.length} remarque(s)` : '',
+        ]
+          .filter(Boolean)
+          .join(', '),
+      },
+    },
+  ];
+
+  if (resubmission.requested || rejected.length) {
+    const lines = [
+      resubmission.requested
+        ? `Votre annonce "${property.name}" est en attente : merci de soumettre de nouveau ses photos.`
+        : `Des photos de votre annonce "${property.name}" ont été retirées.`,
+      ...imageComments.map(describeImageComment),
+      message,
+    ];
+    writes.push({
+      store: 'messages',
+      type: 'set',
+      id: generateDocumentId(),
+      data: {
+        senderId: adminId,
+        receiverId: property.ownerId,
+        content: lines.filter(Boolean).join('\n'),
+        timestamp: now,
+        status: 'non_lu',
+        type: 'notification',
+        flagged: false,
+      },
+      audit: { action: 'Notification modération photos', details: `Propriété ${property.id}` },
+    });
+  }
+
+  // L'annonce et la notification au propriétaire sont enregistrées ensemble
+  await source.runBatch(writes);
+
+  // Les fichiers ne sont supprimés qu'une fois l'annonce enregistrée sans eux
+  const fileFailures: GalleryReviewReport['fileFailures'] = [];
+  for (const { image } of rejected) {
+    try {
+      await source.storage.remove(image);
+    } catch (error) {
+      fileFailures.push({ image, reason: errorMessage(error) });
+    }
+  }
+
+  return {
+    kept: kept.length,
+    rejected: rejected.length,
+    removedFiles: rejected.length - fileFailures.length,
+    fileFailures,
+  };
+};
@@ -0,0 +1,20 @@
+// Administrateur connecté, renseigné par AuthContext une fois son rôle vérifié
+let currentAdminId: string | null = null;
+
+/**
+ * Enregistre l'administrateur connecté, auteur des actions journalisées.
+ * @param adminId - UID de l'administrateur, ou null à la déconnexion.
+ */
+export const setCurrentAdminId = (adminId: string | null): void => {
+  currentAdminId = adminId;
+};
+
+/**
+ * Renvoie l'administrateur connecté.
+ * @returns UID de l'administrateur.
+ * @throws Error si aucun administrateur n'est connecté.
+ */
+export const getCurrentAdminId = (): string => {
+  if (!currentAdminId) throw new Error('Aucun administrateur connecté');
+  return currentAdminId;
+};
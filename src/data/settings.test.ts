@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DataSource } from './dataSource';
+import { createMemoryDataSource } from './memoryDataSource';
+import { DEFAULT_SETTINGS, saveSettingsVersion } from './settings';
+
+/**
+ * Paramètres par défaut dont le nom du site est modifié.
+ * @param siteName - Nom du site.
+ * @returns Paramètres à enregistrer.
+ */
+const withSiteName = (siteName: string) => ({ ...DEFAULT_SETTINGS, general: { ...DEFAULT_SETTINGS.general, siteName } });
+
+describe('saveSettingsVersion', () => {
+  let source: DataSource;
+
+  beforeEach(() => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal('sessionStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+    });
+    source = createMemoryDataSource();
+  });
+
+  it('enregistre la version suivante de la version modifiée', async () => {
+    const first = await saveSettingsVersion(source, withSiteName('Kinaru Pro'), '4', 0);
+    const second = await saveSettingsVersion(source, withSiteName('Kinaru Plus'), '4', first.version);
+    expect(second.version).toBe(2);
+    expect((await source.settingsVersions.getAll()).map((version) => version.id).sort()).toEqual(['1', '2']);
+  });
+
+  it("refuse le second de deux enregistrements concurrents fondés sur la même version", async () => {
+    const results = await Promise.allSettled([
+      saveSettingsVersion(source, withSiteName('Kinaru Pro'), '4', 0),
+      saveSettingsVersion(source, withSiteName('Kinaru Plus'), '4', 0),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason.message).toContain('modifiés par un autre administrateur');
+    const versions = await source.settingsVersions.getAll();
+    expect(versions).toHaveLength(1);
+    expect(versions[0].settings.general.siteName).toBe('Kinaru Pro');
+  });
+
+  it("refuse un enregistrement fondé sur une version dépassée", async () => {
+    await saveSettingsVersion(source, withSiteName('Kinaru Pro'), '4', 0);
+    await expect(saveSettingsVersion(source, withSiteName('Kinaru Plus'), '4', 0)).rejects.toThrow(
+      'modifiés par un autre administrateur (version 1)'
+    );
+  });
+});
@@ -0,0 +1,388 @@
+import { ActivityLogChange, PlatformSettings, SecurityPolicy, SettingsSecrets, SettingsVersion } from '../types';
+import { BatchWrite, DataSource, MAX_BATCH_WRITES } from './dataSource';
+import { createActivityLog, diffChanges, redactChanges } from './audit';
+import { parseAllowlist } from '../utils/ipAllowlist';
+
+// Paramètres appliqués tant qu'aucune version n'a été enregistrée. La double authentification reste
+// désactivée par défaut : elle n'est vérifiée que par les fonctions du back-end (src/firebase/adminFunctions.ts),
+// à déployer avant de l'activer
+export const DEFAULT_SETTINGS: PlatformSettings = {
+  general: {
+    siteName: 'Kinaru',
+    siteDescription: 'Plateforme immobilière moderne',
+    language: 'fr',
+    timezone: 'Europe/Paris',
+    maintenanceMode: false,
+  },
+  notifications: {
+    emailNotifications: true,
+    pushNotifications: true,
+    smsNotifications: false,
+    weeklyReports: true,
+    securityAlerts: true,
+  },
+  security: {
+    twoFactorAuth: false,
+    sessionTimeout: 30,
+    passwordExpiry: 90,
+    loginAttempts: 5,
+    ipWhitelist: '',
+    cniExpiryWindowDays: 30,
+  },
+  appearance: {
+    theme: 'light',
+    primaryColor: '#F05A25',
+    secondaryColor: '#192A3F',
+    logoUrl: '',
+    favicon: '',
+  },
+  integrations: {
+    stripeEnabled: false,
+    stripePublicKey: '',
+    stripeSecretKey: '',
+    emailProvider: 'smtp',
+    smtpHost: '',
+    smtpPort: 587,
+    smtpUser: '',
+    smtpPassword: '',
+  },
+  business: {
+    companyName: 'Kinaru SAS',
+    companyAddress: '123 Rue de la Paix, 75001 Paris',
+    companyPhone: '+33 1 23 45 67 89',
+    companyEmail: 'contact@kinaru.com',
+    vatNumber: 'FR12345678901',
+    commissionRate: 5,
+  },
+};
+
+// Document unique des secrets des intégrations, lisible par les seuls administrateurs qui modifient les paramètres
+export const SETTINGS_SECRETS_ID = 'integrations';
+
+// Document unique de la politique de sécurité, relu par les règles Firestore
+export const SECURITY_POLICY_ID = 'current';
+
+// Champs secrets des intégrations, jamais enregistrés dans une version de l'historique
+const SECRET_FIELDS = ['stripeSecretKey', 'smtpPassword'] as const;
+
+const hasSecrets = (settings: Partial<PlatformSettings>): boolean =>
+  SECRET_FIELDS.some(field => !!settings.integrations?.[field]);
+
+/**
+ * Complète des paramètres avec les secrets des intégrations.
+ * @param settings - Paramètres, secrets vides.
+ * @param secrets - Secrets en vigueur (null s'ils n'ont jamais été renseignés).
+ * @returns Paramètres complets.
+ */
+export const withSecrets = (settings: PlatformSettings, secrets: SettingsSecrets | null): PlatformSettings => ({
+  ...settings,
+  integrations: {
+    ...settings.integrations,
+    stripeSecretKey: secrets?.stripeSecretKey ?? '',
+    smtpPassword: secrets?.smtpPassword ?? '',
+  },
+});
+
+export type SettingsGroup = keyof PlatformSettings;
+
+export const SETTINGS_GROUP_LABELS: Record<SettingsGroup, string> = {
+  general: 'Général',
+  notifications: 'Notifications',
+  security: 'Sécurité',
+  appearance: 'Apparence',
+  integrations: 'Intégrations',
+  business: 'Entreprise',
+};
+
+// Erreur de validation rattachée à un champ "groupe.champ"
+export interface SettingsValidationError {
+  field: string;
+  message: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+const URL_PATTERN = /^https?:\/\/\S+$/i;
+
+const isIntegerBetween = (value: number, min: number, max: number) =>
+  Number.isInteger(value) && value >= min && value <= max;
+
+/**
+ * Complète des paramètres enregistrés avec les valeurs par défaut, pour les champs
+ * ajoutés après l'enregistrement de la version. Les secrets des intégrations restent vides,
+ * y compris ceux d'une version antérieure à leur séparation : ils ne sont lus que via withSecrets.
+ * @param settings - Paramètres lus depuis une version.
+ * @returns Paramètres complets, sans secrets.
+ */
+export const withDefaultSettings = (settings: Partial<PlatformSettings>): PlatformSettings => ({
+  general: { ...DEFAULT_SETTINGS.general, ...settings.general },
+  notifications: { ...DEFAULT_SETTINGS.notifications, ...settings.notifications },
+  security: { ...DEFAULT_SETTINGS.security, ...settings.security },
+  appearance: { ...DEFAULT_SETTINGS.appearance, ...settings.appearance },
+  integrations: { ...DEFAULT_SETTINGS.integrations, ...settings.integrations, stripeSecretKey: '', smtpPassword: '' },
+  business: { ...DEFAULT_SETTINGS.business, ...settings.business },
+});
+
+/**
+ * Vérifie la cohérence des paramètres avant enregistrement.
+ * @param settings - Paramètres à valider.
+ * @returns Liste des erreurs, vide si les paramètres sont valides.
+ */
+export const validateSettings = (settings: PlatformSettings): SettingsValidationError[] => {
+  const errors: SettingsValidationError[] = [];
+  const check = (valid: boolean, field: string, message: string) => {
+    if (!valid) errors.push({ field, message });
+  };
+  const { general, security, appearance, integrations, business } = settings;
+
+  check(general.siteName.trim() !== '', 'general.siteName', 'Le nom du site est obligatoire');
+  check(['fr', 'en', 'es'].includes(general.language), 'general.language', 'Langue non prise en charge');
+
+  check(isIntegerBetween(security.sessionTimeout, 5, 1440), 'security.sessionTimeout',
+    'Le timeout de session doit être compris entre 5 et 1440 minutes');
+  check(isIntegerBetween(security.passwordExpiry, 0, 365), 'security.passwordExpiry',
+    "L'expiration du mot de passe doit être comprise entre 0 (désactivée) et 365 jours");
+  check(isIntegerBetween(security.loginAttempts, 1, 20), 'security.loginAttempts',
+    'Le nombre de tentatives de connexion doit être compris entre 1 et 20');
+  check(isIntegerBetween(security.cniExpiryWindowDays, 1, 365), 'security.cniExpiryWindowDays',
+    "Le délai d'alerte d'expiration des CNI doit être compris entre 1 et 365 jours");
+  const [allowlistError] = parseAllowlist(security.ipWhitelist).errors;
+  check(!allowlistError, 'security.ipWhitelist', allowlistError?.message ?? '');
+
+  check(['light', 'dark', 'auto'].includes(appearance.theme), 'appearance.theme', 'Thème inconnu');
+  check(COLOR_PATTERN.test(appearance.primaryColor), 'appearance.primaryColor', 'Couleur principale invalide (#RRGGBB)');
+  check(COLOR_PATTERN.test(appearance.secondaryColor), 'appearance.secondaryColor', 'Couleur secondaire invalide (#RRGGBB)');
+  check(!appearance.logoUrl || URL_PATTERN.test(appearance.logoUrl), 'appearance.logoUrl', 'URL du logo invalide');
+  check(!appearance.favicon || URL_PATTERN.test(appearance.favicon), 'appearance.favicon', 'URL du favicon invalide');
+
+  if (integrations.stripeEnabled) {
+    check(integrations.stripePublicKey.startsWith('pk_'), 'integrations.stripePublicKey',
+      'La clé publique Stripe doit commencer par pk_');
+    check(integrations.stripeSecretKey.startsWith('sk_'), 'integrations.stripeSecretKey',
+      'La clé secrète Stripe doit commencer par sk_');
+  }
+  check(isIntegerBetween(integrations.smtpPort, 1, 65535), 'integrations.smtpPort',
+    'Le port SMTP doit être compris entre 1 et 65535');
+
+  check(business.companyName.trim() !== '', 'business.companyName', "Le nom de l'entreprise est obligatoire");
+  check(EMAIL_PATTERN.test(business.companyEmail), 'business.companyEmail', "Email de l'entreprise invalide");
+  check(Number.isFinite(business.commissionRate) && business.commissionRate >= 0 && business.commissionRate <= 100,
+    'business.commissionRate', 'Le taux de commission doit être compris entre 0 et 100 %');
+
+  return errors;
+};
+
+/**
+ * Compare deux jeux de paramètres champ par champ.
+ * @param before - Paramètres de référence.
+ * @param after - Paramètres comparés.
+ * @returns Modifications, nommées "groupe.champ".
+ */
+export const diffSettings = (before: PlatformSettings, after: PlatformSettings): ActivityLogChange[] =>
+  (Object.keys(SETTINGS_GROUP_LABELS) as SettingsGroup[]).flatMap(group =>
+    diffChanges(before[group], after[group]).map(change => ({ ...change, field: `${group}.${change.field}` }))
+  );
+
+/**
+ * Renvoie la version la plus récente de l'historique.
+ * @param versions - Versions enregistrées.
+ * @returns Version courante, ou null si aucune n'a été enregistrée.
+ */
+export const getCurrentVersion = (versions: SettingsVersion[]): SettingsVersion | null =>
+  versions.reduce<SettingsVersion | null>(
+    (current, version) => (!current || version.version > current.version ? version : current),
+    null
+  );
+
+/**
+ * Lit les paramètres en vigueur.
+ * @param source - Source de données.
+ * @returns Paramètres de la version courante, ou paramètres par défaut.
+ */
+export const loadSettings = async (source: DataSource): Promise<PlatformSettings> => {
+  const current = getCurrentVersion(await source.settingsVersions.getAll());
+  return current ? withDefaultSettings(current.settings) : DEFAULT_SETTINGS;
+};
+
+/**
+ * Prépare l'enregistrement de la politique de sécurité relue par les règles Firestore, lorsqu'elle
+ * ne correspond plus aux paramètres.
+ * @param policy - Politique enregistrée (null si elle ne l'a jamais été).
+ * @param settings - Paramètres en vigueur.
+ * @param adminId - Administrateur à l'origine de l'écriture.
+ * @param updatedAt - Date de l'écriture.
+ * @returns Écriture à appliquer, aucune si la politique est à jour.
+ */
+const planSecurityPolicy = (
+  policy: SecurityPolicy | null,
+  settings: PlatformSettings,
+  adminId: string,
+  updatedAt: string
+): BatchWrite[] =>
+  (policy?.twoFactorRequired ?? false) === settings.security.twoFactorAuth
+    ? []
+    : [{
+        store: 'securityPolicy',
+        type: 'set',
+        id: SECURITY_POLICY_ID,
+        data: { twoFactorRequired: settings.security.twoFactorAuth, updatedBy: adminId, updatedAt },
+      }];
+
+/**
+ * Aligne la politique de sécurité relue par les règles Firestore sur la version courante des
+ * paramètres, pour les versions enregistrées avant son introduction.
+ * @param source - Source de données.
+ * @param adminId - Administrateur qui ouvre les paramètres.
+ * @returns Résolu une fois la politique à jour.
+ */
+export const syncSecurityPolicy = async (source: DataSource, adminId: string): Promise<void> => {
+  const writes = planSecurityPolicy(
+    await source.securityPolicy.getById(SECURITY_POLICY_ID),
+    await loadSettings(source),
+    adminId,
+    new Date().toISOString()
+  );
+  if (writes.length) await source.runBatch(writes);
+};
+
+// Options d'enregistrement d'une version
+export interface SaveSettingsOptions {
+  comment?: string;
+  restoredFrom?: number;
+}
+
+/**
+ * Erreur d'un enregistrement fondé sur une version dépassée.
+ * @param version - Version enregistrée entre-temps.
+ * @returns Erreur à afficher.
+ */
+const concurrentEditError = (version: number): Error =>
+  new Error(`Les paramètres ont été modifiés par un autre administrateur (version ${version}). Rechargez avant d'enregistrer.`);
+
+/**
+ * Enregistre une nouvelle version des paramètres et la journalise, secrets masqués.
+ * L'identifiant du document est le numéro de version, ce qui rend les versions immuables ; son
+ * absence est vérifiée dans la transaction qui l'enregistre, si bien que de deux enregistrements
+ * concurrents fondés sur la même version, seul le premier aboutit. Les secrets des intégrations
+ * sont enregistrés à part, dans la même transaction ; une restauration conserve les secrets en vigueur.
+ * La politique de sécurité relue par les règles Firestore suit la double authentification.
+ * @param source - Source de données.
+ * @param settings - Paramètres à enregistrer, secrets compris.
+ * @param adminId - Administrateur auteur de la version.
+ * @param baseVersion - Numéro de la version modifiée (0 si aucune).
+ * @param options - Commentaire et version restaurée éventuels.
+ * @returns Version enregistrée.
+ * @throws Error si les paramètres sont invalides, inchangés ou si une version plus récente existe.
+ */
+export const saveSettingsVersion = async (
+  source: DataSource,
+  settings: PlatformSettings,
+  adminId: string,
+  baseVersion: number,
+  options: SaveSettingsOptions = {}
+): Promise<SettingsVersion> => {
+  const secrets = await source.settingsSecrets.getById(SETTINGS_SECRETS_ID);
+  const next = options.restoredFrom !== undefined ? withSecrets(settings, secrets) : settings;
+  const errors = validateSettings(next);
+  if (errors.length) throw new Error(errors[0].message);
+
+  const current = getCurrentVersion(await source.settingsVersions.getAll());
+  if ((current?.version ?? 0) !== baseVersion) throw concurrentEditError(current?.version ?? 0);
+
+  const previous = withSecrets(current ? withDefaultSettings(current.settings) : DEFAULT_SETTINGS, secrets);
+  const changes = diffSettings(previous, next);
+  if (!changes.length) throw new Error('Aucune modification à enregistrer');
+
+  const version = baseVersion + 1;
+  const id = String(version);
+  const createdAt = new Date().toISOString();
+  const data: Omit<SettingsVersion, 'id'> = {
+    version,
+    settings: withDefaultSettings(next),
+    adminId,
+    createdAt,
+    comment: options.comment?.trim() ?? '',
+    ...(options.restoredFrom !== undefined ? { restoredFrom: options.restoredFrom } : {}),
+  };
+  const writes: BatchWrite[] = [{ store: 'settingsVersions', type: 'set', id, data }];
+  if (SECRET_FIELDS.some(field => next.integrations[field] !== previous.integrations[field])) {
+    const { stripeSecretKey, smtpPassword } = next.integrations;
+    writes.push({
+      store: 'settingsSecrets',
+      type: 'set',
+      id: SETTINGS_SECRETS_ID,
+      data: { stripeSecretKey, smtpPassword, updatedBy: adminId, updatedAt: createdAt },
+    });
+  }
+  await source.runTransaction(async (transaction) => {
+    if (await transaction.get('settingsVersions', id)) throw concurrentEditError(version);
+    const policy = await transaction.get('securityPolicy', SECURITY_POLICY_ID);
+    [...writes, ...planSecurityPolicy(policy, next, adminId, createdAt)].forEach((write) => transaction.write(write));
+  });
+
+  await source.activityLogs.create(createActivityLog({
+    adminId,
+    action: options.restoredFrom !== undefined ? 'Restauration paramètres' : 'Modification paramètres',
+    targetType: 'settings',
+    targetId: 'plateforme',
+    details: options.restoredFrom !== undefined
+      ? `Version ${version} : restauration de la version ${options.restoredFrom}`
+      : `Version ${version}`,
+    changes: redactChanges(changes),
+  }));
+
+  return { id, ...data };
+};
+
+/**
+ * Déplace vers le document des secrets ceux de la version courante enregistrée avant leur séparation,
+ * puis efface les secrets de toutes les versions de l'historique. Sans effet une fois l'historique purgé.
+ * @param source - Source de données.
+ * @param adminId - Administrateur qui ouvre les paramètres.
+ * @returns Secrets en vigueur, null s'ils n'ont jamais été renseignés.
+ */
+export const migrateSettingsSecrets = async (source: DataSource, adminId: string): Promise<SettingsSecrets | null> => {
+  const secrets = await source.settingsSecrets.getById(SETTINGS_SECRETS_ID);
+  const versions = await source.settingsVersions.getAll();
+  const legacy = versions.filter(version => hasSecrets(version.settings));
+  if (!legacy.length) return secrets;
+
+  const now = new Date().toISOString();
+  const current = getCurrentVersion(versions);
+  let migrated = secrets;
+  const writes: BatchWrite[] = [];
+  if (!secrets && current && hasSecrets(current.settings)) {
+    const data = {
+      stripeSecretKey: current.settings.integrations.stripeSecretKey ?? '',
+      smtpPassword: current.settings.integrations.smtpPassword ?? '',
+      updatedBy: adminId,
+      updatedAt: now,
+    };
+    writes.push({ store: 'settingsSecrets', type: 'set', id: SETTINGS_SECRETS_ID, data });
+    migrated = { id: SETTINGS_SECRETS_ID, ...data };
+  }
+  // Seuls les champs secrets changent : les autres valeurs des versions restent telles qu'enregistrées
+  legacy.forEach(version =>
+    writes.push({
+      store: 'settingsVersions',
+      type: 'update',
+      id: version.id,
+      data: {
+        settings: { ...version.settings, integrations: { ...version.settings.integrations, stripeSecretKey: '', smtpPassword: '' } },
+      },
+    })
+  );
+  // Le document des secrets, en tête, est créé avec le premier lot
+  for (let start = 0; start < writes.length; start += MAX_BATCH_WRITES) {
+    await source.runBatch(writes.slice(start, start + MAX_BATCH_WRITES));
+  }
+
+  await source.activityLogs.create(createActivityLog({
+    adminId,
+    action: "Purge des secrets de l'historique des paramètres",
+    targetType: 'settings',
+    targetId: 'plateforme',
+    details: `${legacy.length} version(s) purgée(s)`,
+  }));
+  return migrated;
+};
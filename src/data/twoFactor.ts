@@ -0,0 +1,135 @@
+import { User } from '../types';
+import { DataSource } from './dataSource';
+import { createActivityLog } from './audit';
+import { base32Encode, buildOtpauthUri, generateTotpSecret } from '../utils/totp';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// Vérification du second facteur conservée jusqu'à la fermeture de l'onglet ; l'accès aux données
+// dépend de la revendication posée par le serveur, ce marqueur ne sert qu'à l'affichage
+const TWO_FACTOR_SESSION_KEY = 'kinaru.twoFactorVerified';
+
+// Enrôlement en cours, tant que le premier code n'a pas été confirmé
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+const normalizeRecoveryCode = (code: string) => code.replace(/[\s-]/g, '').toUpperCase();
+
+/**
+ * Calcule l'empreinte SHA-256 d'un code de secours ; seules les empreintes sont enregistrées.
+ * Le serveur et la source en mémoire, qui le reproduit, en dépendent.
+ * @param code - Code de secours.
+ * @returns Empreinte hexadécimale.
+ */
+export const hashRecoveryCode = async (code: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeRecoveryCode(code)));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const generateRecoveryCodes = (): string[] =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(crypto.getRandomValues(new Uint8Array(5)));
+    return `${code.slice(0, 4)}-${code.slice(4, 8)}`;
+  });
+
+/**
+ * Prépare l'enrôlement d'une application d'authentification. Rien n'est enregistré avant confirmation.
+ * @param email - Email du compte, affiché dans l'application.
+ * @returns Secret et URI à encoder dans le QR code.
+ */
+export const createEnrollment = (email: string): TwoFactorEnrollment => {
+  const secret = generateTotpSecret();
+  return { secret, otpauthUri: buildOtpauthUri(secret, email) };
+};
+
+/**
+ * Journalise l'activation ou la suppression du second facteur, enregistrée par le serveur.
+ * @param source - Source de données.
+ * @param adminId - Auteur de l'action.
+ * @param uid - Compte concerné.
+ * @param enabled - Nouvel état de la double authentification.
+ * @param action - Libellé journalisé.
+ */
+const recordTwoFactorChange = async (
+  source: DataSource,
+  adminId: string,
+  uid: string,
+  enabled: boolean,
+  action: string
+): Promise<void> => {
+  await source.activityLogs.create(createActivityLog({
+    adminId,
+    action,
+    targetType: 'user',
+    targetId: uid,
+    changes: [{ field: 'twoFactorEnabled', before: !enabled, after: enabled }],
+  }));
+};
+
+/**
+ * Active la double authentification après vérification d'un premier code par le serveur,
+ * qui enregistre le secret et ouvre l'accès de la session en cours.
+ * @param source - Source de données.
+ * @param admin - Administrateur qui s'enrôle.
+ * @param enrollment - Enrôlement en cours.
+ * @param code - Code affiché par l'application.
+ * @returns Codes de secours, affichés une seule fois.
+ * @throws Error si le code est invalide.
+ */
+export const confirmEnrollment = async (
+  source: DataSource,
+  admin: User,
+  enrollment: TwoFactorEnrollment,
+  code: string
+): Promise<string[]> => {
+  const recoveryCodes = await source.auth.enrollSecondFactor(enrollment.secret, code);
+  await recordTwoFactorChange(source, admin.uid, admin.uid, true, 'Activation double authentification');
+  return recoveryCodes;
+};
+
+/**
+ * Vérifie un code TOTP ou, à défaut, un code de secours, qui est alors consommé.
+ * @param source - Source de données.
+ * @param code - Code saisi.
+ * @returns true si le code est valide.
+ */
+export const verifySecondFactor = (source: DataSource, code: string): Promise<boolean> =>
+  source.auth.verifySecondFactor(code);
+
+/**
+ * Remplace les codes de secours de l'administrateur connecté.
+ * @param source - Source de données.
+ * @returns Nouveaux codes de secours.
+ */
+export const regenerateRecoveryCodes = (source: DataSource): Promise<string[]> => source.auth.regenerateRecoveryCodes();
+
+/**
+ * Supprime le second facteur d'un administrateur, qui devra s'enrôler de nouveau si la 2FA est exigée.
+ * @param source - Source de données.
+ * @param adminId - Auteur de l'action : le titulaire ou un super administrateur.
+ * @param uid - UID de l'administrateur.
+ * @param action - Libellé journalisé (désactivation par le titulaire ou réinitialisation par un super administrateur).
+ * @returns Résolu lorsque le second facteur est supprimé.
+ * @throws Error si le titulaire tente de supprimer un second facteur qui lui est imposé.
+ */
+export const disableTwoFactor = async (source: DataSource, adminId: string, uid: string, action: string): Promise<void> => {
+  await source.auth.disableSecondFactor(uid);
+  await recordTwoFactorChange(source, adminId, uid, false, action);
+};
+
+/**
+ * Indique si la double authentification est exigée pour un administrateur.
+ * @param admin - Administrateur.
+ * @param requiredForAll - Paramètre security.twoFactorAuth.
+ * @returns true si l'administrateur doit être enrôlé.
+ */
+export const isTwoFactorRequired = (admin: User, requiredForAll: boolean): boolean =>
+  requiredForAll || !!admin.twoFactorRequired;
+
+export const markTwoFactorVerified = (uid: string): void => sessionStorage.setItem(TWO_FACTOR_SESSION_KEY, uid);
+
+export const isTwoFactorVerified = (uid: string): boolean => sessionStorage.getItem(TWO_FACTOR_SESSION_KEY) === uid;
+
+export const clearTwoFactorVerification = (): void => sessionStorage.removeItem(TWO_FACTOR_SESSION_KEY);
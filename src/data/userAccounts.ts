@@ -0,0 +1,203 @@
+import { AdminRole, User } from '../types';
+import { createActivityLog } from './audit';
+import { DataSource } from './dataSource';
+import { getUserSearchFields } from './userQuery';
+
+// Champs saisis dans les formulaires d'ajout et de modification d'un utilisateur
+export interface UserProfileInput {
+  nom: string;
+  prenom: string;
+  email: string;
+  telephone: string;
+  addresse: string;
+  typeUsersId: number;
+  statut: number;
+  adminRole?: AdminRole;
+}
+
+// Erreur de validation rattachée à un champ du formulaire
+export interface UserValidationError {
+  field: keyof UserProfileInput;
+  message: string;
+}
+
+// Issue d'une modification : enregistrée, ou refusée car le profil a changé depuis son ouverture
+export type UserEditResult = { status: 'saved'; user: User } | { status: 'conflict'; current: User };
+
+export interface ProvisionResult {
+  uid: string;
+  invitationSent: boolean;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Numéro international ou national : indicatif "+" facultatif puis 8 à 15 chiffres
+const PHONE_PATTERN = /^\+?\d{8,15}$/;
+// Séparateurs tolérés à la saisie d'un numéro
+const PHONE_SEPARATORS = /[\s.\-()]/g;
+
+/**
+ * Vérifie les champs d'un profil utilisateur avant enregistrement.
+ * @param input - Champs saisis.
+ * @returns Liste des erreurs, vide si le profil est valide.
+ */
+export const validateUserProfile = (input: UserProfileInput): UserValidationError[] => {
+  const errors: UserValidationError[] = [];
+  const check = (valid: boolean, field: keyof UserProfileInput, message: string) => {
+    if (!valid) errors.push({ field, message });
+  };
+
+  check(input.nom.trim() !== '', 'nom', 'Le nom est obligatoire');
+  check(input.prenom.trim() !== '', 'prenom', 'Le prénom est obligatoire');
+  check(EMAIL_PATTERN.test(input.email.trim()), 'email', "Format d'email invalide");
+  check(
+    !input.telephone.trim() || PHONE_PATTERN.test(input.telephone.replace(PHONE_SEPARATORS, '')),
+    'telephone',
+    'Numéro de téléphone invalide (8 à 15 chiffres, indicatif international facultatif)'
+  );
+  return errors;
+};
+
+/**
+ * Normalise les champs saisis : espaces superflus retirés, email en minuscules.
+ * @param input - Champs saisis.
+ * @returns Champs à enregistrer.
+ */
+export const normalizeProfile = (input: UserProfileInput): UserProfileInput => ({
+  ...input,
+  nom: input.nom.trim(),
+  prenom: input.prenom.trim(),
+  email: input.email.trim().toLowerCase(),
+  telephone: input.telephone.trim(),
+  addresse: input.addresse.trim(),
+});
+
+const assertValid = (input: UserProfileInput) => {
+  const errors = validateUserProfile(input);
+  if (errors.length) throw new Error(errors.map((error) => error.message).join(' ; '));
+};
+
+/**
+ * Construit le document Users d'un nouveau compte, avec les préférences de notification par défaut.
+ * @param profile - Champs saisis, normalisés.
+ * @returns Document à enregistrer sous l'UID du compte.
+ */
+export const buildUserDocument = (profile: UserProfileInput): Omit<User, 'uid'> => ({
+  nom: profile.nom,
+  prenom: profile.prenom,
+  email: profile.email,
+  ...getUserSearchFields(profile),
+  telephone: profile.telephone,
+  addresse: profile.addresse,
+  photoProfil: '',
+  cniNumber: '',
+  CNIDateDelivrer: '',
+  cniExpirationDate: '',
+  cniRecto: '',
+  cniVerso: '',
+  fcmToken: '',
+  lastUpdated: new Date().toISOString(),
+  etat: 1,
+  statut: profile.statut,
+  typeUsersId: profile.typeUsersId,
+  notificationPrefs: {
+    messages: true,
+    newProperties: true,
+    payments: true,
+    reservations: true,
+    visits: true,
+  },
+});
+
+/**
+ * Crée un utilisateur : compte d'authentification, document Users correspondant, puis
+ * invitation par un lien de définition du mot de passe.
+ * @param source - Source de données.
+ * @param input - Champs saisis.
+ * @returns UID du compte, et si l'invitation a pu être envoyée.
+ * @throws Error si le profil est invalide, l'email déjà utilisé ou la création échoue.
+ */
+export const provisionUser = async (source: DataSource, input: UserProfileInput): Promise<ProvisionResult> => {
+  assertValid(input);
+  const profile = normalizeProfile(input);
+
+  // Le service d'authentification refuse une adresse déjà utilisée
+  const uid = await source.auth.createAccount(profile.email);
+  const user = buildUserDocument(profile);
+  try {
+    await source.users.set(uid, user, { action: 'Création utilisateur', details: profile.email });
+  } catch (error) {
+    // Le compte d'authentification existe déjà : l'administrateur doit pouvoir le retrouver
+    throw new Error(`Compte ${uid} créé mais profil non enregistré : ${(error as Error).message}`);
+  }
+
+  try {
+    await source.auth.sendPasswordReset(profile.email);
+    return { uid, invitationSent: true };
+  } catch (error) {
+    console.error(`Erreur lors de l'envoi de l'invitation à ${profile.email} :`, error);
+    return { uid, invitationSent: false };
+  }
+};
+
+/**
+ * Envoie à un utilisateur un lien de (ré)initialisation de son mot de passe et journalise l'envoi.
+ * @param source - Source de données.
+ * @param user - Destinataire.
+ * @param adminId - Administrateur à l'origine de l'envoi.
+ * @returns Résolu une fois le lien envoyé.
+ * @throws Error si l'envoi échoue.
+ */
+export const sendPasswordResetLink = async (source: DataSource, user: User, adminId: string): Promise<void> => {
+  await source.auth.sendPasswordReset(user.email);
+  await source.activityLogs.create(createActivityLog({
+    adminId,
+    action: 'Envoi lien de réinitialisation',
+    targetType: 'user',
+    targetId: user.uid,
+    details: user.email,
+  }));
+};
+
+/**
+ * Enregistre la modification d'un profil, sauf s'il a été modifié ailleurs depuis l'ouverture
+ * du formulaire (lastUpdated différent) ; seuls les champs changés sont écrits. La comparaison et
+ * l'écriture ont lieu dans une même transaction. L'email, identifiant de connexion du compte
+ * d'authentification, n'est pas modifiable ici.
+ * @param source - Source de données.
+ * @param original - Profil tel qu'affiché à l'ouverture du formulaire.
+ * @param changes - Champs modifiables par l'administrateur, avec leur nouvelle valeur.
+ * @returns Profil enregistré, ou version actuelle en cas de conflit.
+ * @throws Error si le profil est invalide, introuvable, si l'email change ou si l'enregistrement échoue.
+ */
+export const saveUserProfile = async (
+  source: DataSource,
+  original: User,
+  changes: Partial<UserProfileInput>
+): Promise<UserEditResult> => {
+  const profile = normalizeProfile({ ...original, ...changes });
+  assertValid(profile);
+  if (changes.email !== undefined && profile.email !== original.email.trim().toLowerCase()) {
+    throw new Error("L'email de connexion ne peut pas être modifié depuis la console");
+  }
+
+  const modified = (Object.keys(changes) as (keyof UserProfileInput)[]).filter(
+    (field) => profile[field] !== original[field]
+  );
+
+  return source.runTransaction(async (transaction): Promise<UserEditResult> => {
+    const current = await transaction.get('users', original.uid);
+    if (!current) throw new Error(`Utilisateur introuvable : ${original.uid}`);
+    if (current.lastUpdated !== original.lastUpdated) return { status: 'conflict', current };
+    if (!modified.length) return { status: 'saved', user: current };
+
+    const data: Partial<User> = {
+      ...Object.fromEntries(modified.map((field) => [field, profile[field]])),
+      // Les champs de recherche suivent nom, prénom et email
+      ...(modified.some((field) => field === 'nom' || field === 'prenom' || field === 'email') &&
+        getUserSearchFields(profile)),
+      lastUpdated: new Date().toISOString(),
+    };
+    transaction.write({ store: 'users', type: 'update', id: original.uid, data, audit: { action: 'Modification utilisateur' } });
+    return { status: 'saved', user: { ...current, ...data } };
+  });
+};
@@ -0,0 +1,300 @@
+import { User } from '../types';
+import { ADMIN_ROLE_ID } from '../utils/users';
+import { countBatchWrites } from './audit';
+import { AuditContext, BatchWrite, DataSource, MAX_BATCH_WRITES } from './dataSource';
+import { getUserSearchFields, normalizeSearchText } from './userQuery';
+import { getUserRecords } from './userRecords';
+
+// Critère de rapprochement de deux comptes
+export type DuplicateCriterion = 'cni' | 'telephone' | 'name' | 'address';
+
+export const DUPLICATE_CRITERION_LABELS: Record<DuplicateCriterion, string> = {
+  cni: 'Même numéro de CNI',
+  telephone: 'Même téléphone',
+  name: 'Même nom',
+  address: 'Même adresse',
+};
+
+// Poids de chaque critère dans le score (sur 100)
+const DUPLICATE_WEIGHTS: Record<DuplicateCriterion, number> = {
+  cni: 40,
+  telephone: 30,
+  name: 20,
+  address: 10,
+};
+
+// Score à partir duquel une paire est proposée : un nom identique ne suffit pas seul
+export const DUPLICATE_MIN_SCORE = 30;
+
+// Au-delà, une valeur partagée (numéro de test, nom très courant) ne rapproche plus les comptes
+const MAX_GROUP_SIZE = 20;
+
+export interface DuplicateCandidate {
+  first: User;
+  second: User;
+  score: number;
+  criteria: DuplicateCriterion[];
+}
+
+// Champ ou groupe de champs dont la valeur conservée se choisit lors d'une fusion
+export type MergeField = 'nom' | 'prenom' | 'telephone' | 'addresse' | 'photoProfil' | 'cni';
+
+export const MERGE_FIELD_LABELS: Record<MergeField, string> = {
+  nom: 'Nom',
+  prenom: 'Prénom',
+  telephone: 'Téléphone',
+  addresse: 'Adresse',
+  photoProfil: 'Photo de profil',
+  cni: "Pièce d'identité et vérification",
+};
+
+// La CNI et sa vérification (KYC) sont reprises ensemble, d'un seul des deux comptes
+const CNI_FIELDS = ['cniNumber', 'CNIDateDelivrer', 'cniExpirationDate', 'cniRecto', 'cniVerso'] as const;
+
+// Compte dont une valeur est reprise : le compte conservé ou le doublon fusionné
+export type MergeSide = 'kept' | 'merged';
+
+export type MergeSelection = Record<MergeField, MergeSide>;
+
+export interface MergeReport {
+  properties: number;
+  contracts: number;
+  transactions: number;
+  messages: number;
+}
+
+const MERGE_AUDIT = 'Fusion de comptes';
+
+const normalizeCni = (value: string): string => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Chiffres seuls, sans l'indicatif pays : les 9 derniers chiffres identifient la ligne
+const normalizePhone = (value: string): string => {
+  const digits = value.replace(/\D/g, '');
+  return digits.length >= 6 ? digits.slice(-9) : '';
+};
+
+// Prénom et nom dans n'importe quel ordre
+const normalizeName = (user: User): string =>
+  normalizeSearchText(`${user.prenom} ${user.nom}`).split(/\s+/).filter(Boolean).sort().join(' ');
+
+const normalizeAddress = (value: string): string =>
+  normalizeSearchText(value).replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Clé normalisée de chaque critère ; une clé vide ne rapproche pas
+const CRITERION_KEYS: Record<DuplicateCriterion, (user: User) => string> = {
+  cni: (user) => normalizeCni(user.cniNumber),
+  telephone: (user) => normalizePhone(user.telephone),
+  name: normalizeName,
+  address: (user) => normalizeAddress(user.addresse),
+};
+
+/**
+ * Indique si un compte peut être rapproché ou fusionné : ni administrateur, ni effacé, ni déjà fusionné.
+ * @param user - Utilisateur.
+ * @returns Vrai si le compte peut être fusionné.
+ */
+export const isMergeable = (user: User): boolean =>
+  user.typeUsersId !== ADMIN_ROLE_ID && !user.erasedAt && !user.mergedInto;
+
+/**
+ * Détecte les comptes probablement en double. Les paires sont formées parmi les comptes partageant
+ * un numéro de CNI, un téléphone ou un nom normalisés, puis notées sur ces critères et l'adresse.
+ * @param users - Utilisateurs à examiner.
+ * @returns Paires dont le score atteint DUPLICATE_MIN_SCORE, de la plus probable à la moins probable.
+ */
+export const findDuplicateCandidates = (users: User[]): DuplicateCandidate[] => {
+  const candidates = users.filter(isMergeable);
+  const pairs = new Map<string, [User, User]>();
+
+  (['cni', 'telephone', 'name'] as const).forEach((criterion) => {
+    const groups = new Map<string, User[]>();
+    candidates.forEach((user) => {
+      const key = CRITERION_KEYS[criterion](user);
+      if (key) groups.set(key, [...(groups.get(key) ?? []), user]);
+    });
+    groups.forEach((group) => {
+      if (group.length < 2 || group.length > MAX_GROUP_SIZE) return;
+      group.forEach((first, index) =>
+        group.slice(index + 1).forEach((second) => {
+          const [a, b] = first.uid < second.uid ? [first, second] : [second, first];
+          pairs.set(`${a.uid}|${b.uid}`, [a, b]);
+        })
+      );
+    });
+  });
+
+  return Array.from(pairs.values())
+    .map(([first, second]) => {
+      const criteria = (Object.keys(CRITERION_KEYS) as DuplicateCriterion[]).filter((criterion) => {
+        const key = CRITERION_KEYS[criterion](first);
+        return key !== '' && key === CRITERION_KEYS[criterion](second);
+      });
+      const score = criteria.reduce((total, criterion) => total + DUPLICATE_WEIGHTS[criterion], 0);
+      return { first, second, score, criteria };
+    })
+    .filter((candidate) => candidate.score >= DUPLICATE_MIN_SCORE)
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Indique si un compte renseigne un champ de fusion.
+ * @param user - Utilisateur.
+ * @param field - Champ de fusion.
+ * @returns Vrai si la valeur est renseignée.
+ */
+const hasValue = (user: User, field: MergeField): boolean =>
+  field === 'cni' ? CNI_FIELDS.some((key) => user[key]) : Boolean(user[field]);
+
+/**
+ * Propose les valeurs à conserver : celles du compte conservé, sauf champ vide complété par le
+ * doublon ; la pièce d'identité vérifiée est préférée.
+ * @param kept - Compte conservé.
+ * @param merged - Doublon fusionné.
+ * @returns Sélection par défaut.
+ */
+export const getDefaultMergeSelection = (kept: User, merged: User): MergeSelection => {
+  const pick = (field: MergeField): MergeSide => (!hasValue(kept, field) && hasValue(merged, field) ? 'merged' : 'kept');
+  const cniVerified = (user: User) => user.kycStatus === 'verifie';
+  return {
+    nom: pick('nom'),
+    prenom: pick('prenom'),
+    telephone: pick('telephone'),
+    addresse: pick('addresse'),
+    photoProfil: pick('photoProfil'),
+    cni: cniVerified(merged) && !cniVerified(kept) ? 'merged' : pick('cni'),
+  };
+};
+
+/**
+ * Calcule les champs du compte conservé repris du doublon.
+ * @param kept - Compte conservé.
+ * @param merged - Doublon fusionné.
+ * @param selection - Compte d'origine de chaque valeur.
+ * @returns Champs à enregistrer sur le compte conservé (vide si rien n'est repris).
+ */
+export const buildMergedProfile = (kept: User, merged: User, selection: MergeSelection): Partial<User> => {
+  const data: Partial<User> = {};
+  (['nom', 'prenom', 'telephone', 'addresse', 'photoProfil'] as const).forEach((field) => {
+    if (selection[field] === 'merged' && merged[field] !== kept[field]) data[field] = merged[field];
+  });
+  if (selection.cni === 'merged') {
+    CNI_FIELDS.forEach((field) => {
+      data[field] = merged[field];
+    });
+    // Une CNI jamais examinée est mise en attente de vérification
+    data.kycStatus = merged.kycStatus ?? 'en_attente';
+    data.kycComment = merged.kycComment ?? '';
+    data.kycReviewedBy = merged.kycReviewedBy ?? '';
+    data.kycReviewedAt = merged.kycReviewedAt ?? '';
+    if (merged.kycRejectionReason) data.kycRejectionReason = merged.kycRejectionReason;
+  }
+  if (data.nom !== undefined || data.prenom !== undefined) {
+    Object.assign(data, getUserSearchFields({ ...kept, ...data }));
+  }
+  return data;
+};
+
+/**
+ * Fusionne un doublon dans le compte conservé, en une seule transaction : les valeurs choisies sont
+ * reprises, contrats, transactions, propriétés et messages du doublon sont rattachés au compte
+ * conservé, et le doublon est banni avec la référence du compte conservé. La transaction est refusée
+ * si l'un des deux comptes a été modifié depuis l'affichage de l'écran de fusion.
+ * @param source - Source de données.
+ * @param kept - Compte conservé, tel qu'affiché.
+ * @param merged - Doublon, tel qu'affiché.
+ * @param selection - Compte d'origine de chaque valeur.
+ * @returns Nombre de documents rattachés au compte conservé.
+ * @throws Error si la fusion n'est pas possible, si un compte a changé ou si la transaction échoue.
+ */
+export const mergeUsers = async (
+  source: DataSource,
+  kept: User,
+  merged: User,
+  selection: MergeSelection
+): Promise<MergeReport> => {
+  if (kept.uid === merged.uid) throw new Error('Impossible de fusionner un compte avec lui-même');
+  if (!isMergeable(kept) || !isMergeable(merged)) {
+    throw new Error('Les comptes administrateurs, effacés ou déjà fusionnés ne peuvent pas être fusionnés');
+  }
+
+  // Les requêtes ne peuvent pas s'exécuter dans une transaction : chaque document est relu et revérifié dedans
+  const records = await getUserRecords(source, merged.uid);
+  const audit: AuditContext = { action: MERGE_AUDIT, details: `Compte ${merged.uid} fusionné dans ${kept.uid}` };
+  const repoint = (id: string) => (id === merged.uid ? kept.uid : id);
+
+  return source.runTransaction(async (transaction) => {
+    const [currentKept, currentMerged] = await Promise.all([
+      transaction.get('users', kept.uid),
+      transaction.get('users', merged.uid),
+    ]);
+    if (!currentKept || !currentMerged) throw new Error('Un des deux comptes est introuvable');
+    if (currentKept.lastUpdated !== kept.lastUpdated || currentMerged.lastUpdated !== merged.lastUpdated) {
+      throw new Error("Un des deux comptes a été modifié entre-temps : rouvrez l'écran de fusion");
+    }
+
+    const writes: BatchWrite[] = [];
+    const report: MergeReport = { properties: 0, contracts: 0, transactions: 0, messages: 0 };
+
+    for (const { id } of records.contracts) {
+      const contract = await transaction.get('contracts', id);
+      if (!contract || (contract.tenantId !== merged.uid && contract.ownerId !== merged.uid)) continue;
+      writes.push({
+        store: 'contracts',
+        type: 'update',
+        id,
+        data: { tenantId: repoint(contract.tenantId), ownerId: repoint(contract.ownerId) },
+        audit,
+      });
+      report.contracts += 1;
+    }
+    for (const { id } of records.transactions) {
+      const current = await transaction.get('transactions', id);
+      if (current?.userId !== merged.uid) continue;
+      writes.push({ store: 'transactions', type: 'update', id, data: { userId: kept.uid }, audit });
+      report.transactions += 1;
+    }
+    for (const { id } of records.properties) {
+      const property = await transaction.get('properties', id);
+      if (property?.ownerId !== merged.uid) continue;
+      writes.push({ store: 'properties', type: 'update', id, data: { ownerId: kept.uid }, audit });
+      report.properties += 1;
+    }
+    for (const { id } of records.messages) {
+      const message = await transaction.get('messages', id);
+      if (!message || (message.senderId !== merged.uid && message.receiverId !== merged.uid)) continue;
+      writes.push({
+        store: 'messages',
+        type: 'update',
+        id,
+        data: { senderId: repoint(message.senderId), receiverId: repoint(message.receiverId) },
+        audit,
+      });
+      report.messages += 1;
+    }
+
+    const mergedAt = new Date().toISOString();
+    writes.push(
+      {
+        store: 'users',
+        type: 'update',
+        id: kept.uid,
+        data: { ...buildMergedProfile(currentKept, currentMerged, selection), lastUpdated: mergedAt },
+        audit,
+      },
+      {
+        store: 'users',
+        type: 'update',
+        id: merged.uid,
+        data: { statut: 0, fcmToken: '', mergedInto: kept.uid, mergedAt, lastUpdated: mergedAt },
+        audit,
+      }
+    );
+
+    const size = countBatchWrites(writes);
+    if (size > MAX_BATCH_WRITES) {
+      throw new Error(`Trop de documents à rattacher pour une seule transaction (${size} écritures, maximum ${MAX_BATCH_WRITES})`);
+    }
+    writes.forEach(transaction.write);
+    return report;
+  });
+};
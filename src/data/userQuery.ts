@@ -0,0 +1,176 @@
+import { User } from '../types';
+import { BulkPlanner } from './bulkUsers';
+import { DataSource, StoreCursor, StoreFilter, StorePage, StoreQuery, readAllPages } from './dataSource';
+
+export const USER_PAGE_SIZE = 20;
+
+// Champ sur lequel porte la recherche par préfixe
+export type UserSearchField = 'nom' | 'prenom' | 'email';
+
+export type UserSort = 'lastUpdated' | 'name';
+
+// Filtres de la liste des utilisateurs, appliqués côté serveur ; null pour « tous »
+export interface UserListFilters {
+  role: number | null;
+  statut: number | null;
+  search: string;
+  searchField: UserSearchField;
+  sort: UserSort;
+}
+
+export const USER_SEARCH_FIELD_LABELS: Record<UserSearchField, string> = {
+  nom: 'Nom',
+  prenom: 'Prénom',
+  email: 'Email',
+};
+
+// Champ indexé en minuscules de chaque champ de recherche
+const SEARCH_INDEX_FIELDS = {
+  nom: 'nomLower',
+  prenom: 'prenomLower',
+  email: 'emailLower',
+} as const satisfies Record<UserSearchField, keyof User>;
+
+// Champs filtrés par égalité (rôle, statut), combinables avec chaque tri de la liste
+export const USER_EQUALITY_FIELDS = ['typeUsersId', 'statut'] as const;
+
+// Tris possibles de la liste : date de mise à jour, ou champ de recherche par ordre alphabétique
+export const USER_LIST_ORDERINGS: NonNullable<StoreQuery['orderBy']>[] = [
+  { field: 'lastUpdated', direction: 'desc' },
+  ...Object.values(SEARCH_INDEX_FIELDS).map((field) => ({ field, direction: 'asc' as const })),
+];
+
+// Plus grand caractère du plan multilingue de base : borne supérieure d'un préfixe
+const PREFIX_UPPER_BOUND = '\uf8ff';
+
+/**
+ * Normalise un texte pour la recherche : minuscules, sans accents ni espaces superflus.
+ * @param value - Texte saisi ou enregistré.
+ * @returns Texte normalisé.
+ */
+export const normalizeSearchText = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+/**
+ * Calcule les champs de recherche d'un utilisateur, à enregistrer avec nom, prénom et email.
+ * @param user - Nom, prénom et email.
+ * @returns Champs nomLower, prenomLower et emailLower.
+ */
+export const getUserSearchFields = (user: Pick<User, 'nom' | 'prenom' | 'email'>) => ({
+  nomLower: normalizeSearchText(user.nom),
+  prenomLower: normalizeSearchText(user.prenom),
+  emailLower: normalizeSearchText(user.email),
+});
+
+/**
+ * Traduit les filtres de la liste en conditions Firestore (égalités sur le rôle et le statut,
+ * intervalle de préfixe sur le champ de recherche).
+ * @param filters - Filtres de la liste.
+ * @returns Conditions de la requête.
+ */
+const toStoreFilters = (filters: UserListFilters): StoreFilter[] => {
+  const conditions: StoreFilter[] = [];
+  if (filters.role !== null) conditions.push({ field: 'typeUsersId', op: '==', value: filters.role });
+  if (filters.statut !== null) conditions.push({ field: 'statut', op: '==', value: filters.statut });
+  const prefix = normalizeSearchText(filters.search);
+  if (prefix) {
+    const field = SEARCH_INDEX_FIELDS[filters.searchField];
+    conditions.push({ field, op: '>=', value: prefix }, { field, op: '<=', value: prefix + PREFIX_UPPER_BOUND });
+  }
+  return conditions;
+};
+
+/**
+ * Construit la requête d'une page de la liste. Une recherche impose le tri sur le champ
+ * recherché, seul champ d'inégalité autorisé par Firestore.
+ * @param filters - Filtres de la liste.
+ * @param after - Curseur de fin de la page précédente.
+ * @param pageSize - Taille de page.
+ * @returns Requête paginée.
+ */
+export const buildUserQuery = (
+  filters: UserListFilters,
+  after: StoreCursor | null,
+  pageSize = USER_PAGE_SIZE
+): StoreQuery => {
+  const orderBy = normalizeSearchText(filters.search)
+    ? { field: SEARCH_INDEX_FIELDS[filters.searchField], direction: 'asc' as const }
+    : filters.sort === 'name'
+      ? { field: SEARCH_INDEX_FIELDS.nom, direction: 'asc' as const }
+      : { field: 'lastUpdated', direction: 'desc' as const };
+  return { filters: toStoreFilters(filters), orderBy, pageSize, after };
+};
+
+/**
+ * Charge une page de la liste des utilisateurs.
+ * @param source - Source de données.
+ * @param filters - Filtres de la liste.
+ * @param after - Curseur de fin de la page précédente (null pour la première page).
+ * @returns Utilisateurs de la page et curseur de la suivante.
+ */
+export const fetchUserPage = (
+  source: DataSource,
+  filters: UserListFilters,
+  after: StoreCursor | null
+): Promise<StorePage<User>> => source.users.query(buildUserQuery(filters, after));
+
+/**
+ * Charge tous les utilisateurs correspondant aux filtres, page par page, dans l'ordre de la liste.
+ * @param source - Source de données.
+ * @param filters - Filtres de la liste.
+ * @returns Utilisateurs filtrés.
+ */
+export const fetchAllUserPages = (source: DataSource, filters: UserListFilters): Promise<User[]> => {
+  const { filters: conditions, orderBy } = buildUserQuery(filters, null);
+  return readAllPages(source.users, { filters: conditions, orderBy });
+};
+
+/**
+ * Compte les utilisateurs correspondant aux filtres, par agrégation côté serveur.
+ * @param source - Source de données.
+ * @param filters - Filtres de la liste.
+ * @returns Nombre d'utilisateurs.
+ */
+export const countUsers = (source: DataSource, filters: UserListFilters): Promise<number> =>
+  source.users.count(toStoreFilters(filters));
+
+/**
+ * Indique si les champs de recherche d'un utilisateur sont absents ou périmés
+ * (documents créés par l'application mobile avant leur introduction).
+ * @param user - Utilisateur.
+ * @returns true si l'utilisateur doit être réindexé.
+ */
+export const needsSearchFields = (user: User): boolean => {
+  const fields = getUserSearchFields(user);
+  return (Object.keys(fields) as (keyof typeof fields)[]).some((field) => user[field] !== fields[field]);
+};
+
+/**
+ * Liste les utilisateurs à réindexer : champs de recherche absents ou périmés, ou date de mise à
+ * jour absente du document, que Firestore écarte alors du tri par défaut de la liste.
+ * @param source - Source de données.
+ * @returns Utilisateurs à réindexer.
+ */
+export const findUsersToIndex = async (source: DataSource): Promise<User[]> => {
+  const users = await source.users.getAll();
+  const dated = await readAllPages(source.users, { orderBy: { field: 'lastUpdated', direction: 'desc' } });
+  const datedIds = new Set(dated.map((user) => user.uid));
+  return users.filter((user) => needsSearchFields(user) || !datedIds.has(user.uid));
+};
+
+/**
+ * Prépare l'enregistrement des champs de recherche et de la date de mise à jour d'un utilisateur,
+ * pour runBulkUserOperation. La date affichée (dernière écriture du document, à défaut sa création)
+ * est conservée.
+ * @param user - Utilisateur.
+ * @returns Écritures de l'utilisateur.
+ */
+export const planSearchFields: BulkPlanner = (user) => [
+  {
+    store: 'users',
+    type: 'update',
+    id: user.uid,
+    data: { ...getUserSearchFields(user), lastUpdated: user.lastUpdated || user.createdAt || new Date().toISOString() },
+    audit: { action: 'Indexation recherche utilisateur' },
+  },
+];
@@ -0,0 +1,41 @@
+import { Contract, Message, Property, PushNotification, Transaction } from '../types';
+import { DataSource, EntityStore, readAllPages } from './dataSource';
+
+// Documents liés à un utilisateur par son uid
+export interface UserRecords {
+  properties: Property[];
+  contracts: Contract[];
+  transactions: Transaction[];
+  messages: Message[];
+  pushNotifications: PushNotification[];
+}
+
+/**
+ * Charge les documents liés à un utilisateur : propriétés détenues, contrats comme locataire
+ * ou propriétaire, transactions, messages envoyés ou reçus et notifications push.
+ * @param source - Source de données.
+ * @param uid - UID de l'utilisateur.
+ * @returns Documents liés.
+ */
+export const getUserRecords = async (source: DataSource, uid: string): Promise<UserRecords> => {
+  const byField = <T, K extends keyof T>(store: EntityStore<T, K>, field: string) =>
+    readAllPages(store, { filters: [{ field, op: '==', value: uid }] });
+  const [properties, tenantContracts, ownerContracts, transactions, sent, received, pushNotifications] = await Promise.all([
+    byField(source.properties, 'ownerId'),
+    byField(source.contracts, 'tenantId'),
+    byField(source.contracts, 'ownerId'),
+    byField(source.transactions, 'userId'),
+    byField(source.messages, 'senderId'),
+    byField(source.messages, 'receiverId'),
+    byField(source.pushNotifications, 'userId'),
+  ]);
+  // Un contrat ou un message peut relier l'utilisateur à lui-même : chaque document n'est gardé qu'une fois
+  const unique = <T extends { id: string }>(items: T[]) => Array.from(new Map(items.map((item) => [item.id, item])).values());
+  return {
+    properties,
+    contracts: unique([...tenantContracts, ...ownerContracts]),
+    transactions,
+    messages: unique([...sent, ...received]),
+    pushNotifications,
+  };
+};
@@ -0,0 +1,246 @@
+import { Contract, Transaction, User } from '../types';
+import { BatchStoreName, EntityStore, DataSource, StoreCursor } from './dataSource';
+import { KYC_REJECTION_REASONS, KYC_STATUS_LABELS } from './kyc';
+
+// Catégorie d'un événement du fil d'activité d'un utilisateur
+export type TimelineEventType = 'account' | 'property' | 'contract' | 'payment' | 'message' | 'moderation' | 'admin';
+
+export const TIMELINE_EVENT_LABELS: Record<TimelineEventType, string> = {
+  account: 'Compte',
+  property: 'Propriétés',
+  contract: 'Contrats',
+  payment: 'Paiements',
+  message: 'Messages',
+  moderation: 'Modération',
+  admin: 'Actions administrateur',
+};
+
+export interface TimelineEvent {
+  id: string;
+  type: TimelineEventType;
+  date: string;
+  title: string;
+  details?: string;
+}
+
+export interface TimelinePage {
+  events: TimelineEvent[];
+  hasMore: boolean;
+}
+
+// Requête d'une source du fil : documents liés à l'utilisateur par field, du plus récent au plus ancien.
+// Comme Firestore, le tri écarte les documents dépourvus du champ orderBy.
+interface TimelineQuery {
+  store: BatchStoreName;
+  field: string;
+  orderBy: string;
+  types: readonly TimelineEventType[];
+}
+
+const TIMELINE_QUERIES = {
+  properties: { store: 'properties', field: 'ownerId', orderBy: 'createdDate', types: ['property'] },
+  tenantContracts: { store: 'contracts', field: 'tenantId', orderBy: 'startDate', types: ['contract'] },
+  ownerContracts: { store: 'contracts', field: 'ownerId', orderBy: 'startDate', types: ['contract'] },
+  transactions: { store: 'transactions', field: 'userId', orderBy: 'date', types: ['payment'] },
+  sentMessages: { store: 'messages', field: 'senderId', orderBy: 'timestamp', types: ['message', 'moderation'] },
+  receivedMessages: { store: 'messages', field: 'receiverId', orderBy: 'timestamp', types: ['message', 'moderation'] },
+  adminActions: { store: 'activityLogs', field: 'targetId', orderBy: 'timestamp', types: ['admin'] },
+} as const satisfies Record<string, TimelineQuery>;
+
+// Requêtes du fil, dont chacune exige un index composite (égalité puis tri décroissant)
+export const USER_TIMELINE_QUERIES: TimelineQuery[] = Object.values(TIMELINE_QUERIES);
+
+export const TIMELINE_PAGE_SIZE = 20;
+
+const MESSAGE_EXCERPT_LENGTH = 120;
+
+const TRANSACTION_STATUS_LABELS: Record<Transaction['status'], string> = {
+  paye: 'payé',
+  en_attente: 'en attente',
+  annule: 'annulé',
+};
+
+const CONTRACT_STATUS_LABELS: Record<Contract['status'], string> = {
+  actif: 'actif',
+  expire: 'expiré',
+  resilié: 'résilié',
+};
+
+// Source du fil, lue dans l'ordre chronologique inverse
+interface TimelineFeed {
+  types: readonly TimelineEventType[];
+  // Prochain événement de la source, chargé si besoin ; null une fois la source épuisée
+  peek: () => Promise<TimelineEvent | null>;
+  take: () => TimelineEvent | undefined;
+}
+
+const toTime = (date: string): number => Date.parse(date) || 0;
+
+const excerpt = (text: string): string =>
+  text.length > MESSAGE_EXCERPT_LENGTH ? `${text.slice(0, MESSAGE_EXCERPT_LENGTH)}…` : text;
+
+/**
+ * Crée une source du fil alimentée page par page par une requête.
+ * @param store - Magasin interrogé.
+ * @param query - Champ lié à l'utilisateur et champ de tri.
+ * @param uid - UID de l'utilisateur.
+ * @param toEvent - Conversion d'un document en événement.
+ * @returns Source du fil.
+ */
+const queryFeed = <T, K extends keyof T>(
+  store: EntityStore<T, K>,
+  query: TimelineQuery,
+  uid: string,
+  toEvent: (item: T) => TimelineEvent
+): TimelineFeed => {
+  let buffer: TimelineEvent[] = [];
+  let cursor: StoreCursor | null = null;
+  let exhausted = false;
+  return {
+    types: query.types,
+    peek: async () => {
+      if (!buffer.length && !exhausted) {
+        const page = await store.query({
+          filters: [{ field: query.field, op: '==', value: uid }],
+          orderBy: { field: query.orderBy, direction: 'desc' },
+          pageSize: TIMELINE_PAGE_SIZE,
+          after: cursor,
+        });
+        buffer = page.items.map(toEvent);
+        cursor = page.cursor;
+        exhausted = page.cursor === null;
+      }
+      return buffer[0] ?? null;
+    },
+    take: () => buffer.shift(),
+  };
+};
+
+/**
+ * Crée une source du fil à partir d'événements déjà connus.
+ * @param events - Événements de la source.
+ * @returns Source du fil.
+ */
+const staticFeed = (events: TimelineEvent[]): TimelineFeed => {
+  const buffer = [...events].sort((a, b) => toTime(b.date) - toTime(a.date));
+  return {
+    types: Array.from(new Set(events.map((event) => event.type))),
+    peek: async () => buffer[0] ?? null,
+    take: () => buffer.shift(),
+  };
+};
+
+/**
+ * Déduit des champs du profil les événements du compte : inscription, mise à jour, vérification
+ * d'identité, effacement ou fusion.
+ * @param user - Utilisateur.
+ * @returns Événements du profil.
+ */
+const getProfileEvents = (user: User): TimelineEvent[] => {
+  const events: TimelineEvent[] = [];
+  const add = (id: string, type: TimelineEventType, date: string | undefined, title: string, details?: string) => {
+    if (date) events.push({ id: `profile-${id}`, type, date, title, details });
+  };
+  add('created', 'account', user.createdAt, 'Inscription', user.email);
+  add('updated', 'account', user.lastUpdated, 'Dernière mise à jour du profil');
+  if (user.kycStatus && user.kycStatus !== 'en_attente') {
+    const reason = user.kycStatus === 'rejete' && user.kycRejectionReason
+      ? KYC_REJECTION_REASONS[user.kycRejectionReason]
+      : undefined;
+    add('kyc', 'moderation', user.kycReviewedAt, `Pièce d'identité : ${KYC_STATUS_LABELS[user.kycStatus]}`, reason);
+  }
+  add('erased', 'account', user.erasedAt, 'Données effacées (RGPD)');
+  add('merged', 'account', user.mergedAt, 'Compte fusionné', user.mergedInto && `Dans le compte ${user.mergedInto}`);
+  return events;
+};
+
+/**
+ * Construit les sources du fil d'un utilisateur.
+ * @param source - Source de données.
+ * @param user - Utilisateur.
+ * @returns Sources du fil.
+ */
+const getTimelineFeeds = (source: DataSource, user: User): TimelineFeed[] => {
+  const q = TIMELINE_QUERIES;
+  const uid = user.uid;
+  return [
+    staticFeed(getProfileEvents(user)),
+    queryFeed(source[q.properties.store], q.properties, uid, (property) => ({
+      id: `property-${property.id}`,
+      type: 'property',
+      date: property.createdDate,
+      title: `Propriété soumise : ${property.name}`,
+      details:
+        property.validationStatus === 'accepte'
+          ? 'Acceptée'
+          : property.validationStatus === 'rejete'
+            ? `Rejetée${property.rejectionReason ? ` : ${property.rejectionReason}` : ''}`
+            : 'En attente de validation',
+    })),
+    ...[q.tenantContracts, q.ownerContracts].map((query) =>
+      queryFeed(source[query.store], query, uid, (contract) => ({
+        id: `contract-${contract.id}`,
+        type: 'contract',
+        date: contract.startDate,
+        title: contract.tenantId === uid ? 'Contrat de location (locataire)' : 'Contrat de location (propriétaire)',
+        details: `${contract.monthlyRent.toLocaleString()}€ / mois · ${CONTRACT_STATUS_LABELS[contract.status]} · jusqu'au ${new Date(contract.endDate).toLocaleDateString()}`,
+      }))
+    ),
+    queryFeed(source[q.transactions.store], q.transactions, uid, (transaction) => ({
+      id: `transaction-${transaction.id}`,
+      type: 'payment',
+      date: transaction.date,
+      title: `Paiement de ${transaction.amount.toLocaleString()}€ (${TRANSACTION_STATUS_LABELS[transaction.status]})`,
+      details: transaction.description,
+    })),
+    ...[q.sentMessages, q.receivedMessages].map((query) =>
+      queryFeed(source[query.store], query, uid, (message) => ({
+        id: `message-${message.id}`,
+        type: message.flagged ? 'moderation' : 'message',
+        date: message.timestamp,
+        title: `${message.flagged ? 'Message signalé' : 'Message'} ${message.senderId === uid ? 'envoyé' : 'reçu'}`,
+        details: excerpt(message.content),
+      }))
+    ),
+    queryFeed(source[q.adminActions.store], q.adminActions, uid, (log) => ({
+      id: `log-${log.id}`,
+      type: 'admin',
+      date: log.timestamp,
+      title: log.action,
+      details: log.details || undefined,
+    })),
+  ];
+};
+
+/**
+ * Ouvre le fil d'activité d'un utilisateur, chargé progressivement : chaque appel de loadMore
+ * fusionne les sources par date décroissante jusqu'à TIMELINE_PAGE_SIZE événements.
+ * @param source - Source de données.
+ * @param user - Utilisateur.
+ * @param types - Catégories d'événements affichées.
+ * @returns Chargement de la page suivante du fil.
+ */
+export const createUserTimeline = (source: DataSource, user: User, types: TimelineEventType[]) => {
+  const feeds = getTimelineFeeds(source, user).filter((feed) => feed.types.some((type) => types.includes(type)));
+  // Un contrat ou un message de l'utilisateur à lui-même provient de deux sources
+  const seen = new Set<string>();
+
+  const loadMore = async (): Promise<TimelinePage> => {
+    const events: TimelineEvent[] = [];
+    while (events.length < TIMELINE_PAGE_SIZE) {
+      const heads = await Promise.all(feeds.map((feed) => feed.peek()));
+      let latest = -1;
+      heads.forEach((head, index) => {
+        if (head && (latest < 0 || toTime(head.date) > toTime(heads[latest]!.date))) latest = index;
+      });
+      if (latest < 0) return { events, hasMore: false };
+      const event = feeds[latest].take();
+      if (event && !seen.has(event.id) && types.includes(event.type)) events.push(event);
+      if (event) seen.add(event.id);
+    }
+    const heads = await Promise.all(feeds.map((feed) => feed.peek()));
+    return { events, hasMore: heads.some(Boolean) };
+  };
+
+  return { loadMore };
+};
@@ -0,0 +1,347 @@
+import { User } from '../types';
+import { ADMIN_ROLE_ID, USER_ROLE_LABELS } from '../utils/users';
+import { BatchWrite, DataSource } from './dataSource';
+import { BulkProgress, runBulkUserOperation } from './bulkUsers';
+import { UserProfileInput, buildUserDocument, normalizeProfile, validateUserProfile } from './userAccounts';
+import { getUserSearchFields, normalizeSearchText } from './userQuery';
+
+// Colonnes proposées à l'export ; l'en-tête reprend le nom du champ, reconnu tel quel à l'import
+export const USER_EXPORT_COLUMNS = {
+  uid: 'Identifiant',
+  nom: 'Nom',
+  prenom: 'Prénom',
+  email: 'Email',
+  telephone: 'Téléphone',
+  addresse: 'Adresse',
+  typeUsersId: 'Rôle',
+  statut: 'Statut',
+  kycStatus: 'Statut KYC',
+  lastUpdated: 'Dernière mise à jour',
+} satisfies Partial<Record<keyof User, string>>;
+
+export type UserExportColumn = keyof typeof USER_EXPORT_COLUMNS;
+
+// Champs renseignables par import
+export type ImportField = 'nom' | 'prenom' | 'email' | 'telephone' | 'addresse' | 'typeUsersId' | 'statut';
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  nom: 'Nom',
+  prenom: 'Prénom',
+  email: 'Email',
+  telephone: 'Téléphone',
+  addresse: 'Adresse',
+  typeUsersId: 'Rôle',
+  statut: 'Statut',
+};
+
+// Champ alimenté par chaque colonne du fichier, null pour une colonne ignorée
+export type ImportMapping = (ImportField | null)[];
+
+// Issue prévue d'une ligne : création, mise à jour (clé : email), aucun changement ou ligne rejetée
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'invalid';
+
+export interface ImportRow {
+  // Numéro de la ligne, en-tête compris et lignes vides exclues
+  line: number;
+  email: string;
+  action: ImportAction;
+  // Profil complet après import, normalisé
+  profile?: UserProfileInput;
+  // Compte existant portant cet email
+  user?: User;
+  // Champs modifiés par une mise à jour
+  changes: ImportField[];
+  errors: string[];
+}
+
+// Droits de l'administrateur et valeurs des champs absents à la création
+export interface ImportOptions {
+  canEditRole: boolean;
+  canEditStatus: boolean;
+  defaults: Pick<UserProfileInput, 'typeUsersId' | 'statut'>;
+}
+
+export interface ImportFailure {
+  line: number;
+  email: string;
+  reason: string;
+}
+
+export interface ImportReport {
+  created: number;
+  updated: number;
+  failures: ImportFailure[];
+  // Emails des comptes créés dont l'invitation n'a pas pu être envoyée
+  invitationFailures: string[];
+}
+
+// Intitulés de colonne reconnus en plus du nom du champ et de son libellé
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  nom: ['nom de famille', 'last name', 'lastname'],
+  prenom: ['first name', 'firstname'],
+  email: ['e-mail', 'mail', 'courriel'],
+  telephone: ['tel', 'phone', 'mobile'],
+  addresse: ['adresse', 'address'],
+  typeUsersId: ['role', 'type'],
+  statut: ['status'],
+};
+
+// Statuts acceptés à l'import, en valeur ou en libellé
+const STATUS_VALUES: Record<string, number> = {
+  '1': 1,
+  actif: 1,
+  '0': 0,
+  banni: 0,
+  '2': 2,
+  'en attente': 2,
+  en_attente: 2,
+};
+
+const IMPORT_DETAILS = 'Import';
+
+// Le rôle administrateur exige un sous-rôle, attribué depuis la fiche de l'utilisateur
+const ADMIN_ROLE_ERROR = 'Le rôle administrateur ne s’attribue pas par import';
+
+// Champs dont dépendent les champs de recherche
+const SEARCH_SOURCE_FIELDS: ImportField[] = ['nom', 'prenom', 'email'];
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Construit les lignes d'export des utilisateurs, en-tête compris.
+ * @param users - Utilisateurs exportés.
+ * @param columns - Colonnes retenues, toutes par défaut.
+ * @returns Lignes à passer à toCsv ou toXlsx.
+ */
+export const getUserExportRows = (
+  users: User[],
+  columns = Object.keys(USER_EXPORT_COLUMNS) as UserExportColumn[]
+): unknown[][] => [columns, ...users.map((user) => columns.map((column) => user[column] ?? ''))];
+
+/**
+ * Propose un champ pour chaque colonne d'après son intitulé (nom du champ, libellé ou synonyme).
+ * @param headers - Intitulés des colonnes.
+ * @returns Correspondance des colonnes, chaque champ n'étant proposé qu'une fois.
+ */
+export const guessImportMapping = (headers: string[]): ImportMapping => {
+  const used = new Set<ImportField>();
+  return headers.map((header) => {
+    const key = normalizeSearchText(header);
+    const field = (Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).find(
+      (candidate) =>
+        !used.has(candidate) &&
+        [candidate, IMPORT_FIELD_LABELS[candidate], ...FIELD_ALIASES[candidate]].some(
+          (name) => normalizeSearchText(name) === key
+        )
+    );
+    if (!field) return null;
+    used.add(field);
+    return field;
+  });
+};
+
+/**
+ * Interprète un rôle saisi par sa valeur (typeUsersId) ou son libellé.
+ * @param value - Cellule du fichier.
+ * @returns Valeur de typeUsersId.
+ * @throws Error si le rôle est inconnu.
+ */
+const parseRole = (value: string): number => {
+  const key = normalizeSearchText(value);
+  const role = Object.keys(USER_ROLE_LABELS)
+    .map(Number)
+    .find((id) => String(id) === key || normalizeSearchText(USER_ROLE_LABELS[id]) === key);
+  if (role === undefined) throw new Error(`Rôle inconnu : ${value}`);
+  return role;
+};
+
+/**
+ * Interprète un statut saisi par sa valeur ou son libellé.
+ * @param value - Cellule du fichier.
+ * @returns Valeur de statut.
+ * @throws Error si le statut est inconnu.
+ */
+const parseStatus = (value: string): number => {
+  const status = STATUS_VALUES[normalizeSearchText(value)];
+  if (status === undefined) throw new Error(`Statut inconnu : ${value}`);
+  return status;
+};
+
+const toProfileInput = (user: User): UserProfileInput => ({
+  nom: user.nom,
+  prenom: user.prenom,
+  email: user.email,
+  telephone: user.telephone,
+  addresse: user.addresse,
+  typeUsersId: user.typeUsersId,
+  statut: user.statut,
+});
+
+/**
+ * Prépare l'import : lecture des cellules selon la correspondance, validation, puis création ou
+ * mise à jour selon que l'email correspond à un compte existant. Une cellule vide conserve la
+ * valeur existante.
+ * @param rows - Lignes du fichier, sans l'en-tête.
+ * @param mapping - Champ alimenté par chaque colonne.
+ * @param existing - Utilisateurs existants.
+ * @param options - Droits de l'administrateur et valeurs par défaut.
+ * @returns Issue prévue de chaque ligne.
+ * @throws Error si aucune colonne n'alimente l'email.
+ */
+export const planUserImport = (
+  rows: string[][],
+  mapping: ImportMapping,
+  existing: User[],
+  options: ImportOptions
+): ImportRow[] => {
+  if (!mapping.includes('email')) throw new Error('Une colonne doit correspondre à l’email, qui identifie les comptes');
+  const byEmail = new Map(existing.map((user) => [user.email.toLowerCase(), user]));
+  const seen = new Map<string, number>();
+
+  return rows.map((cells, index) => {
+    const line = index + 2;
+    const errors: string[] = [];
+    const values: Partial<UserProfileInput> = {};
+    mapping.forEach((field, column) => {
+      const cell = (cells[column] ?? '').trim();
+      if (!field || !cell) return;
+      try {
+        if (field === 'typeUsersId') values.typeUsersId = parseRole(cell);
+        else if (field === 'statut') values.statut = parseStatus(cell);
+        else values[field] = cell;
+      } catch (error) {
+        errors.push(errorMessage(error));
+      }
+    });
+
+    const email = (values.email ?? '').toLowerCase();
+    if (!email) return { line, email, action: 'invalid', changes: [], errors: ['Email manquant', ...errors] };
+    const duplicateOf = seen.get(email);
+    if (duplicateOf) errors.push(`Email déjà présent ligne ${duplicateOf}`);
+    else seen.set(email, line);
+
+    const user = byEmail.get(email);
+    if (!user) {
+      if (!options.canEditStatus && values.statut !== undefined && values.statut !== options.defaults.statut) {
+        errors.push('Statut non modifiable avec votre rôle');
+      }
+      const profile = normalizeProfile({
+        nom: '',
+        prenom: '',
+        telephone: '',
+        addresse: '',
+        ...options.defaults,
+        ...values,
+        ...(!options.canEditStatus && { statut: options.defaults.statut }),
+        email,
+      });
+      if (profile.typeUsersId === ADMIN_ROLE_ID) errors.push(ADMIN_ROLE_ERROR);
+      errors.push(...validateUserProfile(profile).map((error) => error.message));
+      return { line, email, action: errors.length ? 'invalid' : 'create', profile, changes: [], errors };
+    }
+
+    const profile = normalizeProfile({ ...toProfileInput(user), ...values });
+    // L'email, clé de rapprochement, n'est jamais modifié par un import
+    const changes = (Object.keys(values) as ImportField[]).filter(
+      (field) => field !== 'email' && profile[field] !== user[field]
+    );
+    if (user.typeUsersId === ADMIN_ROLE_ID && changes.length) {
+      errors.push('Compte administrateur : à modifier depuis sa fiche');
+    }
+    if (changes.includes('typeUsersId') && !options.canEditRole) errors.push('Modification du rôle non autorisée');
+    else if (changes.includes('typeUsersId') && profile.typeUsersId === ADMIN_ROLE_ID) errors.push(ADMIN_ROLE_ERROR);
+    if (changes.includes('statut') && !options.canEditStatus) errors.push('Modification du statut non autorisée');
+    errors.push(...validateUserProfile(profile).map((error) => error.message));
+    const action = errors.length ? 'invalid' : changes.length ? 'update' : 'unchanged';
+    return { line, email, action, profile, user, changes, errors };
+  });
+};
+
+/**
+ * Applique un import préparé par planUserImport : comptes d'authentification créés un par un,
+ * puis documents Users écrits par lots avec journalisation ; les lignes rejetées sont ignorées.
+ * @param source - Source de données.
+ * @param rows - Lignes préparées.
+ * @param sendInvitations - Envoyer aux comptes créés un lien de définition du mot de passe.
+ * @param onProgress - Avancement, appelé après chaque lot.
+ * @returns Nombre de créations et de mises à jour, et échecs par ligne.
+ */
+export const commitUserImport = async (
+  source: DataSource,
+  rows: ImportRow[],
+  sendInvitations: boolean,
+  onProgress?: (progress: BulkProgress) => void
+): Promise<ImportReport> => {
+  const report: ImportReport = { created: 0, updated: 0, failures: [], invitationFailures: [] };
+  const pending = rows.filter((row) => row.action === 'create' || row.action === 'update');
+  const targets: User[] = [];
+  const writes = new Map<string, BatchWrite[]>();
+  const rowsByUid = new Map<string, ImportRow>();
+  const now = new Date().toISOString();
+  onProgress?.({ done: 0, total: pending.length });
+
+  for (const row of pending) {
+    const { profile, user } = row;
+    if (!profile) continue;
+    if (row.action === 'update' && user) {
+      const data: Partial<User> = {
+        ...Object.fromEntries(row.changes.map((field) => [field, profile[field]])),
+        ...(row.changes.some((field) => SEARCH_SOURCE_FIELDS.includes(field)) && getUserSearchFields(profile)),
+        lastUpdated: now,
+      };
+      targets.push(user);
+      rowsByUid.set(user.uid, row);
+      writes.set(user.uid, [
+        { store: 'users', type: 'update', id: user.uid, data, audit: { action: 'Modification utilisateur', details: IMPORT_DETAILS } },
+      ]);
+      continue;
+    }
+    try {
+      const uid = await source.auth.createAccount(profile.email);
+      const document = buildUserDocument(profile);
+      targets.push({ uid, ...document });
+      rowsByUid.set(uid, row);
+      writes.set(uid, [
+        { store: 'users', type: 'set', id: uid, data: document, audit: { action: 'Création utilisateur', details: IMPORT_DETAILS } },
+      ]);
+    } catch (error) {
+      report.failures.push({ line: row.line, email: row.email, reason: errorMessage(error) });
+    }
+  }
+
+  const result = await runBulkUserOperation(source, targets, (user) => writes.get(user.uid) ?? [], (progress) =>
+    onProgress?.({ done: progress.done + pending.length - targets.length, total: pending.length })
+  );
+  const created: string[] = [];
+  result.succeeded.forEach((user) => {
+    if (rowsByUid.get(user.uid)?.action === 'create') {
+      report.created += 1;
+      created.push(user.email);
+    } else {
+      report.updated += 1;
+    }
+  });
+  result.failures.forEach(({ user, reason }) => {
+    const row = rowsByUid.get(user.uid);
+    if (!row) return;
+    report.failures.push({
+      line: row.line,
+      email: row.email,
+      // Le compte d'authentification existe déjà : l'administrateur doit pouvoir le retrouver
+      reason: row.action === 'create' ? `Compte ${user.uid} créé mais profil non enregistré : ${reason}` : reason,
+    });
+  });
+
+  if (sendInvitations) {
+    for (const email of created) {
+      try {
+        await source.auth.sendPasswordReset(email);
+      } catch (error) {
+        console.error(`Erreur lors de l'envoi de l'invitation à ${email} :`, error);
+        report.invitationFailures.push(email);
+      }
+    }
+  }
+  report.failures.sort((a, b) => a.line - b.line);
+  return report;
+};
@@ -0,0 +1,43 @@
+import { getApp, getApps, initializeApp } from "firebase/app";
+import { createUserWithEmailAndPassword, getAuth, signOut } from "firebase/auth";
+
+// Application Firebase secondaire : la création d'un compte y ouvre une session, pas dans celle de la console
+const PROVISIONING_APP_NAME = "provisioning";
+
+const PASSWORD_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789!@#$%&*";
+
+/**
+ * Génère un mot de passe aléatoire, jamais communiqué : le titulaire choisit le sien
+ * via le lien de réinitialisation envoyé à la création.
+ * @param length - Longueur du mot de passe.
+ * @returns Mot de passe.
+ */
+const generatePassword = (length = 24): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(length)), (byte) => PASSWORD_CHARS[byte % PASSWORD_CHARS.length]).join("");
+
+const getProvisioningAuth = () =>
+  getAuth(
+    getApps().find((app) => app.name === PROVISIONING_APP_NAME) ??
+      initializeApp(getApp().options, PROVISIONING_APP_NAME)
+  );
+
+/**
+ * Crée un compte Firebase Auth à mot de passe aléatoire, sans remplacer l'administrateur connecté.
+ * @param email - Adresse email du compte.
+ * @returns UID du compte créé.
+ * @throws Error si l'adresse est déjà utilisée ou si la création échoue.
+ */
+export const createAuthAccount = async (email: string): Promise<string> => {
+  const provisioningAuth = getProvisioningAuth();
+  try {
+    const { user } = await createUserWithEmailAndPassword(provisioningAuth, email, generatePassword());
+    return user.uid;
+  } catch (error) {
+    if ((error as { code?: string }).code === "auth/email-already-in-use") {
+      throw new Error("Adresse email déjà utilisée par un compte");
+    }
+    throw new Error(`Échec de la création du compte : ${(error as Error).message}`);
+  } finally {
+    await signOut(provisioningAuth);
+  }
+};
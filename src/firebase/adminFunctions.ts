@@ -0,0 +1,111 @@
+import { getFunctions, httpsCallable } from "firebase/functions";
+import { auth } from "./firebaseConfig";
+import { getCurrentUserToken } from "./firebaseService";
+
+const functions = getFunctions(auth.app);
+
+// Fonctions appelables du back-end (Admin SDK), qui seules lisent et écrivent AdminSecurity.
+// Une vérification réussie du second facteur pose sur le compte la revendication mfa, égale à
+// l'auth_time du jeton appelant : elle ne vaut que pour la session en cours, que les règles
+// Firestore exigent pour tout administrateur dont la double authentification est activée ou imposée.
+// Ces fonctions ne font pas partie de ce dépôt : tant qu'elles ne sont pas déployées, la double
+// authentification doit rester désactivée, globalement (security.twoFactorAuth) comme par compte.
+const FUNCTIONS = {
+  enrollSecondFactor: "enrollSecondFactor",
+  verifySecondFactor: "verifySecondFactor",
+  regenerateRecoveryCodes: "regenerateRecoveryCodes",
+  disableSecondFactor: "disableSecondFactor",
+  deleteUserAccount: "deleteUserAccount",
+} as const;
+
+/**
+ * Appelle une fonction du back-end.
+ * @param name - Nom de la fonction.
+ * @param data - Paramètres transmis.
+ * @param invalidMessage - Message renvoyé si le back-end refuse les paramètres.
+ * @returns Réponse de la fonction.
+ * @throws Error si l'appel est refusé ou échoue.
+ */
+const callFunction = async <Request, Response>(
+  name: string,
+  data: Request,
+  invalidMessage = "Requête refusée par le serveur"
+): Promise<Response> => {
+  try {
+    return (await httpsCallable<Request, Response>(functions, name)(data)).data;
+  } catch (error) {
+    const code = (error as { code?: string }).code;
+    if (code === "functions/invalid-argument") throw new Error(invalidMessage);
+    if (code === "functions/permission-denied") throw new Error("Action non autorisée pour ce compte");
+    throw new Error(`Échec de l'appel au serveur : ${(error as Error).message}`);
+  }
+};
+
+// Recharge le jeton de la session pour qu'il porte la revendication mfa posée par le serveur
+const refreshClaims = async (): Promise<void> => {
+  await getCurrentUserToken();
+};
+
+/**
+ * Enregistre le secret TOTP du compte connecté après vérification d'un premier code.
+ * @param secret - Secret généré par la console pour le QR code.
+ * @param code - Code affiché par l'application.
+ * @returns Codes de secours, dont le serveur ne conserve que les empreintes.
+ * @throws Error si le code est invalide.
+ */
+export const enrollSecondFactor = async (secret: string, code: string): Promise<string[]> => {
+  const { recoveryCodes } = await callFunction<{ secret: string; code: string }, { recoveryCodes: string[] }>(
+    FUNCTIONS.enrollSecondFactor,
+    { secret, code },
+    "Code invalide : vérifiez l'heure de votre appareil et réessayez"
+  );
+  await refreshClaims();
+  return recoveryCodes;
+};
+
+/**
+ * Vérifie un code TOTP ou un code de secours, consommé par le serveur.
+ * @param code - Code saisi.
+ * @returns true si le code est valide.
+ */
+export const verifySecondFactor = async (code: string): Promise<boolean> => {
+  const { valid } = await callFunction<{ code: string }, { valid: boolean }>(FUNCTIONS.verifySecondFactor, { code });
+  if (valid) await refreshClaims();
+  return valid;
+};
+
+/**
+ * Remplace les codes de secours du compte connecté.
+ * @returns Nouveaux codes de secours.
+ */
+export const regenerateRecoveryCodes = async (): Promise<string[]> =>
+  (await callFunction<Record<string, never>, { recoveryCodes: string[] }>(FUNCTIONS.regenerateRecoveryCodes, {}))
+    .recoveryCodes;
+
+/**
+ * Supprime le second facteur d'un compte : le sien, sauf s'il est imposé, ou celui d'un autre
+ * administrateur pour un super administrateur.
+ * @param uid - UID du compte.
+ * @returns Résolu lorsque le second facteur est supprimé.
+ */
+export const disableSecondFactor = async (uid: string): Promise<void> => {
+  await callFunction<{ uid: string }, unknown>(
+    FUNCTIONS.disableSecondFactor,
+    { uid },
+    "La double authentification est exigée pour ce compte"
+  );
+};
+
+/**
+ * Supprime le compte Firebase Authentication d'un utilisateur effacé (RGPD), réservé aux
+ * super administrateurs ; les comptes administrateurs sont refusés par le serveur.
+ * @param uid - UID du compte.
+ * @returns Résolu lorsque le compte est supprimé.
+ */
+export const deleteUserAccount = async (uid: string): Promise<void> => {
+  await callFunction<{ uid: string }, unknown>(
+    FUNCTIONS.deleteUserAccount,
+    { uid },
+    "Ce compte ne peut pas être supprimé"
+  );
+};
@@ -28,6 +28,9 @@ import {
   onAuthStateChanged,
   signOut,
   getIdToken,
+  EmailAuthProvider,
+  reauthenticateWithCredential,
+  updatePassword,
   User,
   UserCredential,
 } from "firebase/auth";
@@ -44,20 +47,20 @@ import {
 import { auth, db, storage, googleProvider, Timestamp, arrayUnion, arrayRemove, increment } from "./firebaseConfig";
 
 // Interface pour les conditions de requête Firestore
-interface QueryCondition {
+export interface QueryCondition {
   field: string;
   op: string;
   value: any;
 }
 
 // Interface pour les options de tri
-interface OrderOption {
+export interface OrderOption {
   field: string;
   direction: "asc" | "desc";
 }
 
 // Interface pour les options de requête
-interface QueryOptions {
+export interface QueryOptions {
   collectionName: string;
   conditions?: QueryCondition[];
   orders?: OrderOption[];
@@ -66,7 +69,7 @@ interface QueryOptions {
 }
 
 // Interface pour les opérations de batch
-interface BatchOperation {
+export interface BatchOperation {
   type: "set" | "update" | "delete";
   ref: DocumentReference;
   data?: any;
@@ -215,6 +218,27 @@ export const updateUserDisplayName = async (
   }
 };
 
+/**
+ * Change le mot de passe de l'utilisateur actuel après l'avoir réauthentifié.
+ * @param currentPassword - Mot de passe actuel.
+ * @param newPassword - Nouveau mot de passe.
+ * @returns Résolu lorsque le mot de passe est changé.
+ * @throws Error si aucun utilisateur n'est connecté, si un mot de passe est vide ou si le changement échoue.
+ */
+export const changePassword = async (currentPassword: string, newPassword: string): Promise<void> => {
+  const user = auth.currentUser;
+  if (!user?.email) throw new Error("Aucun utilisateur connecté");
+  if (!isValidString(currentPassword) || !isValidString(newPassword)) {
+    throw new Error("Le mot de passe ne peut pas être vide");
+  }
+  try {
+    await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email, currentPassword));
+    await updatePassword(user, newPassword);
+  } catch (error) {
+    throw new Error(`Échec du changement de mot de passe : ${(error as Error).message}`);
+  }
+};
+
 /**
  * Récupère le jeton d'identification de l'utilisateur actuel.
  * @returns Le jeton ou null si aucun utilisateur connecté.
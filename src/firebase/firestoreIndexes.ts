@@ -0,0 +1,65 @@
+import { COLLECTIONS } from "./repositories";
+import { USER_EQUALITY_FIELDS, USER_LIST_ORDERINGS } from "../data/userQuery";
+import { USER_TIMELINE_QUERIES } from "../data/userTimeline";
+
+interface IndexField {
+  fieldPath: string;
+  order: "ASCENDING" | "DESCENDING";
+}
+
+interface CompositeIndex {
+  collectionGroup: string;
+  queryScope: "COLLECTION";
+  fields: IndexField[];
+}
+
+/**
+ * Énumère les combinaisons non vides de filtres d'égalité.
+ * @param fields - Champs filtrables par égalité.
+ * @returns Sous-ensembles non vides, dans l'ordre des champs.
+ */
+const nonEmptySubsets = (fields: readonly string[]): string[][] =>
+  fields.reduce<string[][]>(
+    (subsets, field) => [...subsets, [field], ...subsets.map((subset) => [...subset, field])],
+    []
+  );
+
+/**
+ * Index composites requis par la liste paginée des utilisateurs : chaque combinaison des
+ * filtres de rôle et de statut avec chaque tri. Les requêtes sans filtre d'égalité se
+ * contentent des index automatiques à champ unique.
+ * @returns Index de la collection Users.
+ */
+const getUserListIndexes = (): CompositeIndex[] =>
+  nonEmptySubsets(USER_EQUALITY_FIELDS).flatMap((equalities) =>
+    USER_LIST_ORDERINGS.map(({ field, direction }) => ({
+      collectionGroup: COLLECTIONS.users,
+      queryScope: "COLLECTION" as const,
+      fields: [
+        ...equalities.map((fieldPath) => ({ fieldPath, order: "ASCENDING" as const })),
+        { fieldPath: field, order: direction === "asc" ? ("ASCENDING" as const) : ("DESCENDING" as const) },
+      ],
+    }))
+  );
+
+/**
+ * Index composites requis par le fil d'activité d'un utilisateur : documents liés à l'utilisateur,
+ * du plus récent au plus ancien.
+ * @returns Index des collections lues par le fil.
+ */
+const getUserTimelineIndexes = (): CompositeIndex[] =>
+  USER_TIMELINE_QUERIES.map(({ store, field, orderBy }) => ({
+    collectionGroup: COLLECTIONS[store],
+    queryScope: "COLLECTION" as const,
+    fields: [
+      { fieldPath: field, order: "ASCENDING" as const },
+      { fieldPath: orderBy, order: "DESCENDING" as const },
+    ],
+  }));
+
+/**
+ * Génère la définition des index composites requis par les requêtes de la console.
+ * @returns Contenu d'un fichier firestore.indexes.json.
+ */
+export const generateFirestoreIndexes = (): string =>
+  JSON.stringify({ indexes: [...getUserListIndexes(), ...getUserTimelineIndexes()], fieldOverrides: [] }, null, 2);
@@ -0,0 +1,495 @@
+import { Timestamp } from "./firebaseService";
+import {
+  AdminSecurity,
+  PushNotification,
+  JobRun,
+  User,
+  Property,
+  PhotoRejectionReason,
+  Transaction,
+  Contract,
+  Message,
+  Partner,
+  ActivityLog,
+  LoginAttempt,
+  PlatformSettings,
+  SettingsVersion,
+  SettingsSecrets,
+  SecurityPolicy,
+} from "../types";
+
+// Document brut tel que renvoyé par les helpers de firebaseService
+export type RawDocument = { id: string } & Record<string, unknown>;
+
+// Fonction de conversion d'un document brut vers une entité typée
+export type DocumentMapper<T> = (collectionName: string, raw: RawDocument) => T;
+
+/**
+ * Convertit une valeur de date Firestore (Timestamp, Date, objet sérialisé ou chaîne) en chaîne ISO.
+ * @param value - Valeur à convertir.
+ * @returns Chaîne ISO, chaîne d'origine si déjà textuelle, ou null si la valeur est absente ou invalide.
+ */
+export const toIsoString = (value: unknown): string | null => {
+  if (value === undefined || value === null || value === "") return null;
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.toISOString();
+  }
+  if (typeof value === "object" && typeof (value as { seconds?: unknown }).seconds === "number") {
+    const { seconds, nanoseconds = 0 } = value as { seconds: number; nanoseconds?: number };
+    return new Date(seconds * 1000 + Math.floor(nanoseconds / 1e6)).toISOString();
+  }
+  if (typeof value === "string") {
+    return Number.isNaN(new Date(value).getTime()) ? null : value;
+  }
+  return null;
+};
+
+/**
+ * Crée un lecteur de champs qui valide un document brut et lève une erreur explicite
+ * au premier champ malformé.
+ * @param collectionName - Nom de la collection (pour le message d'erreur).
+ * @param raw - Document brut.
+ */
+const createReader = (collectionName: string, raw: RawDocument) => {
+  const fail = (field: string, message: string): never => {
+    throw new Error(`Document ${collectionName}/${raw.id} invalide : champ "${field}" ${message}`);
+  };
+
+  const isMissing = (value: unknown) => value === undefined || value === null;
+
+  const requiredString = (field: string): string => {
+    const value = raw[field];
+    if (typeof value !== "string" || !value.trim()) return fail(field, "manquant ou vide");
+    return value;
+  };
+
+  const optionalString = (field: string, fallback = ""): string => {
+    const value = raw[field];
+    if (isMissing(value)) return fallback;
+    if (typeof value !== "string") return fail(field, "doit être une chaîne");
+    return value;
+  };
+
+  const requiredNumber = (field: string): number => {
+    const value = raw[field];
+    if (typeof value !== "number" || Number.isNaN(value)) return fail(field, "doit être un nombre");
+    return value;
+  };
+
+  const optionalNumber = (field: string, fallback: number): number => {
+    if (isMissing(raw[field])) return fallback;
+    return requiredNumber(field);
+  };
+
+  const optionalBoolean = (
+    field: string,
+    fallback: boolean,
+    source: Record<string, unknown> = raw
+  ): boolean => {
+    const value = source[field];
+    if (isMissing(value)) return fallback;
+    if (typeof value !== "boolean") return fail(field, "doit être un booléen");
+    return value;
+  };
+
+  const oneOf = <V extends string>(field: string, allowed: readonly V[], fallback?: V): V => {
+    const value = raw[field];
+    if (isMissing(value) && fallback !== undefined) return fallback;
+    if (!allowed.includes(value as V)) {
+      return fail(field, `doit valoir ${allowed.map((a) => `"${a}"`).join(", ")}`);
+    }
+    return value as V;
+  };
+
+  const requiredDate = (field: string): string => {
+    const iso = toIsoString(raw[field]);
+    if (!iso) return fail(field, "doit être une date valide");
+    return iso;
+  };
+
+  const optionalDate = (field: string): string => {
+    if (isMissing(raw[field]) || raw[field] === "") return "";
+    return requiredDate(field);
+  };
+
+  const stringArray = (field: string): string[] => {
+    const value = raw[field];
+    if (isMissing(value)) return [];
+    if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+      return fail(field, "doit être une liste de chaînes");
+    }
+    return value as string[];
+  };
+
+  const object = (field: string): Record<string, unknown> => {
+    const value = raw[field];
+    if (isMissing(value)) return {};
+    if (typeof value !== "object" || Array.isArray(value)) return fail(field, "doit être un objet");
+    return value as Record<string, unknown>;
+  };
+
+  const objectArray = (field: string): Record<string, unknown>[] => {
+    const value = raw[field];
+    if (isMissing(value)) return [];
+    if (!Array.isArray(value) || value.some((v) => typeof v !== "object" || v === null || Array.isArray(v))) {
+      return fail(field, "doit être une liste d'objets");
+    }
+    return value as Record<string, unknown>[];
+  };
+
+  return {
+    fail,
+    requiredString,
+    optionalString,
+    requiredNumber,
+    optionalNumber,
+    optionalBoolean,
+    oneOf,
+    requiredDate,
+    optionalDate,
+    stringArray,
+    object,
+    objectArray,
+  };
+};
+
+/* =========================
+ * MAPPERS PAR ENTITÉ
+ * ========================= */
+
+export const mapUser: DocumentMapper<User> = (collectionName, raw) => {
+  const r = createReader(collectionName, raw);
+  const prefs = r.object("notificationPrefs");
+  const passwordChangedAt = r.optionalDate("passwordChangedAt");
+  const twoFactorEnabled = r.optionalBoolean("twoFactorEnabled", false);
+  const twoFactorRequired = r.optionalBoolean("twoFactorRequired", false);
+  const kycComment = r.optionalString("kycComment");
+  const kycReviewedBy = r.optionalString("kycReviewedBy");
+  const kycReviewedAt = r.optionalDate("kycReviewedAt");
+  const nomLower = r.optionalString("nomLower");
+  const prenomLower = r.optionalString("prenomLower");
+  const emailLower = r.optionalString("emailLower");
+  const createdAt = r.optionalDate("createdAt");
+  const erasedAt = r.optionalDate("erasedAt");
+  const pseudonymId = r.optionalString("pseudonymId");
+  const mergedInto = r.optionalString("mergedInto");
+  const mergedAt = r.optionalDate("mergedAt");
+  const staleFcmToken = r.optionalString("staleFcmToken");
+  const staleFcmTokenAt = r.optionalDate("staleFcmTokenAt");
+  const agencyId = r.optionalString("agencyId");
+
+  return {
+    uid: raw.id,
+    nom: r.requiredString("nom"),
+    prenom: r.requiredString("prenom"),
+    email: r.requiredString("email"),
+    telephone: r.optionalString("telephone"),
+    photoProfil: r.optionalString("photoProfil"),
+    cniNumber: r.optionalString("cniNumber"),
+    CNIDateDelivrer: r.optionalDate("CNIDateDelivrer"),
+    cniExpirationDate: r.optionalDate("cniExpirationDate"),
+    cniRecto: r.optionalString("cniRecto"),
+    cniVerso: r.optionalString("cniVerso"),
+    addresse: r.optionalString("addresse"),
+    fcmToken: r.optionalString("fcmToken"),
+    lastUpdated: r.optionalDate("lastUpdated") || toIsoString(raw.updatedAt) || "",
+    etat: r.optionalNumber("etat", 1),
+    statut: r.optionalNumber("statut", 1),
+    typeUsersId: r.optionalNumber("typeUsersId", 3),
+    notificationPrefs: {
+      messages: r.optionalBoolean("messages", true, prefs),
+      newProperties: r.optionalBoolean("newProperties", true, prefs),
+      payments: r.optionalBoolean("payments", true, prefs),
+      reservations: r.optionalBoolean("reservations", true, prefs),
+      visits: r.optionalBoolean("visits", true, prefs),
+    },
+    ...(raw.adminRole !== undefined && raw.adminRole !== null
+      ? { adminRole: r.oneOf("adminRole", ["super_admin", "moderator", "finance", "support"] as const) }
+      : {}),
+    ...(passwordChangedAt ? { passwordChangedAt } : {}),
+    ...(twoFactorEnabled ? { twoFactorEnabled } : {}),
+    ...(twoFactorRequired ? { twoFactorRequired } : {}),
+    ...(raw.kycStatus !== undefined && raw.kycStatus !== null
+      ? { kycStatus: r.oneOf("kycStatus", ["en_attente", "verifie", "rejete", "a_reverifier"] as const) }
+      : {}),
+    ...(raw.kycRejectionReason !== undefined && raw.kycRejectionReason !== null
+      ? {
+          kycRejectionReason: r.oneOf("kycRejectionReason", [
+            "illisible",
+            "incomplet",
+            "expire",
+            "non_concordant",
+            "falsification",
+            "autre",
+          ] as const),
+        }
+      : {}),
+    ...(kycComment ? { kycComment } : {}),
+    ...(kycReviewedBy ? { kycReviewedBy } : {}),
+    ...(kycReviewedAt ? { kycReviewedAt } : {}),
+    ...(nomLower ? { nomLower } : {}),
+    ...(prenomLower ? { prenomLower } : {}),
+    ...(emailLower ? { emailLower } : {}),
+    ...(createdAt ? { createdAt } : {}),
+    ...(erasedAt ? { erasedAt } : {}),
+    ...(pseudonymId ? { pseudonymId } : {}),
+    ...(mergedInto ? { mergedInto } : {}),
+    ...(mergedAt ? { mergedAt } : {}),
+    ...(staleFcmToken ? { staleFcmToken } : {}),
+    ...(staleFcmTokenAt ? { staleFcmTokenAt } : {}),
+    ...(agencyId ? { agencyId } : {}),
+  };
+};
+
+export const mapProperty: DocumentMapper<Property> = (collectionName, raw) => {
+  const r = createReader(collectionName, raw);
+  const validatedBy = r.optionalString("validatedBy");
+  const validatedAt = r.optionalDate("validatedAt");
+  const rejectionReason = r.optionalString("rejectionReason");
+  const resubmissionRequestedAt = r.optionalDate("resubmissionRequestedAt");
+  const imageComments = r.objectArray("imageComments").map((entry, index) => {
+    if (typeof entry.position !== "number") r.fail(`imageComments[${index}].position`, "doit être un nombre");
+    return {
+      position: entry.position as number,
+      ...(typeof entry.image === "string" && entry.image ? { image: entry.image } : {}),
+      ...(typeof entry.rejectionReason === "string"
+        ? { rejectionReason: entry.rejectionReason as PhotoRejectionReason }
+        : {}),
+      comment: typeof entry.comment === "string" ? entry.comment : "",
+    };
+  });
+  const coordinates = raw.coordinates;
+  if (
+    !Array.isArray(coordinates) ||
+    coordinates.length !== 2 ||
+    coordinates.some((c) => typeof c !== "number")
+  ) {
+    r.fail("coordinates", "doit être un couple [latitude, longitude]");
+  }
+
+  return {
+    id: raw.id,
+    name: r.requiredString("name"),
+    description: r.optionalString("description"),
+    type: r.oneOf("type", ["residentiel", "commercial"] as const),
+    status: r.oneOf("status", ["libre", "occupe", "reserve"] as const, "libre"),
+    validationStatus: r.oneOf(
+      "validationStatus",
+      ["accepte", "rejete", "en_attente"] as const,
+      "en_attente"
+    ),
+    price: r.requiredNumber("price"),
+    location: r.requiredString("location"),
+    coordinates: coordinates as [number, number],
+    surface: r.optionalNumber("surface", 0),
+    images: r.stringArray("images"),
+    ownerId: r.requiredString("ownerId"),
+    createdDate: r.optionalDate("createdDate") || r.requiredDate("createdAt"),
+    ...(validatedBy ? { validatedBy } : {}),
+    ...(validatedAt ? { validatedAt } : {}),
+    ...(rejectionReason ? { rejectionReason } : {}),
+    ...(imageComments.length ? { imageComments } : {}),
+    ...(resubmissionRequestedAt ? { resubmissionRequestedAt } : {}),
+  };
+};
+
+export const mapTransaction: DocumentMapper<Transaction> = (collectionName, raw) => {
+  const r = createReader(collectionName, raw);
+  const propertyId = r.optionalString("propertyId");
+
+  return {
+    id: raw.id,
+    amount: r.requiredNumber("amount"),
+    type: r.oneOf("type", ["loyer", "frais_reservation", "abonnement", "commission"] as const),
+    date: r.requiredDate("date"),
+    status: r.oneOf("status", ["paye", "en_attente", "annule"] as const, "en_attente"),
+    userId: r.requiredString("userId"),
+    ...(propertyId ? { propertyId } : {}),
+    description: r.optionalString("description"),
+  };
+};
+
+export const mapContract: DocumentMapper<Contract> = (collectionName, raw) => {
+  const r = createReader(collectionName, raw);
+  const archived = r.optionalBoolean("archived", false);
+  const archivedAt = r.optionalDate("archivedAt");
+
+  return {
+    id: raw.id,
+    tenantId: r.requiredString("tenantId"),
+    ownerId: r.requiredString("ownerId"),
+    propertyId: r.requiredString("propertyId"),
+    startDate: r.requiredDate("startDate"),
+    endDate: r.requiredDate("endDate"),
+    monthlyRent: r.requiredNumber("monthlyRent"),
+    status: r.oneOf("status", ["actif", "expire", "resilié"] as const, "actif"),
+    signatureStatus: r.oneOf("signatureStatus", ["en_attente", "signe"] as const, "en_attente"),
+    ...(archived ? { archived } : {}),
+    ...(archivedAt ? { archivedAt } : {}),
+  };
+};
+
+export const mapMessage: DocumentMapper<Message> = (collectionName, raw) => {
+  const r = createReader(collectionName, raw);
+
+  return {
+    id: raw.id,
+    senderId: r.requiredString("senderId"),
+    receiverId: r.requiredString("receiverId"),
+    content: r.requiredString("content"),
+    timestamp: r.optionalDate("timestamp") || r.requiredDate("createdAt"),
+    status: r.oneOf("status", ["lu", "non_lu"] as const, "non_lu"),
+    type: r.oneOf("type", ["message", "notification"] as const, "message"),
+    flagged: r.optionalBoolean("flagged", false),
+  };
+};
+
+export const mapPartner: DocumentMapper<Partner> = (collectionName, raw) => {
+  const r = createReader(collectionName, raw);
+  const contractEnd = r.optionalDate("contractEnd");
+
+  return {
+    id: raw.id,
+    name: r.requiredString("name"),
+    type: r.oneOf("type", ["banque", "assurance", "maintenance"] as const),
+    contact: r.optionalString("contact"),
+    email: r.requiredString("email"),
+    services: r.stringArray("services"),
+    ...(contractEnd ? { contractEnd } : {}),
+  };
+};
+
+export const mapActivityLog: DocumentMapper<ActivityLog> = (collectionName, raw) => {
+  const r = createReader(collectionName, raw);
+  const targetId = r.optionalString("targetId");
+  const changes = r.objectArray("changes").map((change, index) => {
+    if (typeof change.field !== "string") r.fail(`changes[${index}].field`, "doit être une chaîne");
+    return { field: change.field as string, before: change.before ?? null, after: change.after ?? null };
+  });
+
+  return {
+    id: raw.id,
+    adminId: r.requiredString("adminId"),
+    action: r.requiredString("action"),
+    target: r.requiredString("target"),
+    timestamp: r.optionalDate("timestamp") || r.requiredDate("createdAt"),
+    details: r.optionalString("details"),
+    ...(raw.targetType !== undefined
+      ? {
+          targetType: r.oneOf("targetType", [
+            "user",
+            "property",
+            "transaction",
+            "contract",
+            "message",
+            "partner",
+            "settings",
+          ] as const),
+        }
+      : {}),
+    ...(targetId ? { targetId } : {}),
+    ...(changes.length ? { changes } : {}),
+  };
+};
+
+// Groupes attendus dans un document SettingsVersions
+const SETTINGS_GROUPS: (keyof PlatformSettings)[] = [
+  "general",
+  "notifications",
+  "security",
+  "appearance",
+  "integrations",
+  "business",
+];
+
+export const mapSettingsVersion: DocumentMapper<SettingsVersion> = (collectionName, raw) => {
+  const r = createReader(collectionName, raw);
+  const settings = r.object("settings");
+  SETTINGS_GROUPS.forEach((group) => {
+    const value = settings[group];
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      r.fail(`settings.${group}`, "doit être un objet");
+    }
+  });
+  const restoredFrom = raw.restoredFrom;
+
+  return {
+    id: raw.id,
+    version: r.requiredNumber("version"),
+    // Les champs absents des anciennes versions sont complétés par les valeurs par défaut à la lecture
+    settings: settings as unknown as PlatformSettings,
+    adminId: r.requiredString("adminId"),
+    createdAt: r.requiredDate("createdAt"),
+    comment: r.optionalString("comment"),
+    ...(restoredFrom !== undefined && restoredFrom !== null ? { restoredFrom: r.requiredNumber("restoredFrom") } : {}),
+  };
+};
+
+export const mapLoginAttempt: DocumentMapper<LoginAttempt> = (collectionName, raw) => {
+  const r = createReader(collectionName, raw);
+  return {
+    id: raw.id,
+    failedCount: r.optionalNumber("failedCount", 0),
+    lastFailedAt: r.requiredDate("lastFailedAt"),
+  };
+};
+
+export const mapSettingsSecrets: DocumentMapper<SettingsSecrets> = (collectionName, raw) => {
+  const r = createReader(collectionName, raw);
+  return {
+    id: raw.id,
+    stripeSecretKey: r.optionalString("stripeSecretKey"),
+    smtpPassword: r.optionalString("smtpPassword"),
+    updatedBy: r.requiredString("updatedBy"),
+    updatedAt: r.requiredDate("updatedAt"),
+  };
+};
+
+export const mapSecurityPolicy: DocumentMapper<SecurityPolicy> = (collectionName, raw) => {
+  const r = createReader(collectionName, raw);
+  return {
+    id: raw.id,
+    twoFactorRequired: r.optionalBoolean("twoFactorRequired", false),
+    updatedBy: r.requiredString("updatedBy"),
+    updatedAt: r.requiredDate("updatedAt"),
+  };
+};
+
+export const mapAdminSecurity: DocumentMapper<AdminSecurity> = (collectionName, raw) => {
+  const r = createReader(collectionName, raw);
+  return {
+    id: raw.id,
+    totpSecret: r.requiredString("totpSecret"),
+    recoveryCodes: r.stringArray("recoveryCodes"),
+    enrolledAt: r.requiredDate("enrolledAt"),
+  };
+};
+
+export const mapPushNotification: DocumentMapper<PushNotification> = (collectionName, raw) => {
+  const r = createReader(collectionName, raw);
+  const sentAt = r.optionalDate("sentAt");
+  const error = r.optionalString("error");
+  return {
+    id: raw.id,
+    userId: r.requiredString("userId"),
+    fcmToken: r.requiredString("fcmToken"),
+    category: r.oneOf("category", ["messages", "newProperties", "payments", "reservations", "visits"] as const),
+    title: r.requiredString("title"),
+    body: r.optionalString("body"),
+    status: r.oneOf("status", ["en_attente", "envoye", "echec"] as const, "en_attente"),
+    createdAt: r.requiredDate("createdAt"),
+    ...(sentAt ? { sentAt } : {}),
+    ...(error ? { error } : {}),
+  };
+};
+
+export const mapJobRun: DocumentMapper<JobRun> = (collectionName, raw) => {
+  const r = createReader(collectionName, raw);
+  return {
+    id: raw.id,
+    lastRunAt: r.requiredDate("lastRunAt"),
+    adminId: r.requiredString("adminId"),
+    summary: r.optionalString("summary"),
+  };
+};
@@ -0,0 +1,341 @@
+import {
+  QueryDocumentSnapshot,
+  Transaction as FirestoreTransaction,
+  WhereFilterOp,
+  collection,
+  doc,
+  getCountFromServer,
+  query,
+  serverTimestamp,
+  where,
+} from "firebase/firestore";
+import { db } from "./firebaseConfig";
+import {
+  BatchOperation,
+  addDocument,
+  setDocument,
+  getDocumentById,
+  getCollection,
+  updateDocument,
+  deleteDocumentById,
+  queryCollection,
+  listenToCollection,
+  listenToDocument,
+  QueryCondition,
+  QueryOptions,
+} from "./firebaseService";
+import {
+  DocumentMapper,
+  RawDocument,
+  mapUser,
+  mapProperty,
+  mapTransaction,
+  mapContract,
+  mapMessage,
+  mapPartner,
+  mapActivityLog,
+  mapSettingsVersion,
+  mapSettingsSecrets,
+  mapSecurityPolicy,
+  mapLoginAttempt,
+  mapAdminSecurity,
+  mapPushNotification,
+  mapJobRun,
+} from "./mappers";
+import {
+  User,
+  Property,
+  Transaction,
+  Contract,
+  Message,
+  Partner,
+  ActivityLog,
+  SettingsVersion,
+  SettingsSecrets,
+  SecurityPolicy,
+  LoginAttempt,
+  AdminSecurity,
+  PushNotification,
+  JobRun,
+} from "../types";
+
+// Noms des collections Firestore utilisées par la console
+export const COLLECTIONS = {
+  users: "Users",
+  properties: "Properties",
+  transactions: "Transactions",
+  contracts: "Contracts",
+  messages: "Messages",
+  partners: "Partners",
+  activityLogs: "ActivityLogs",
+  settingsVersions: "SettingsVersions",
+  settingsSecrets: "SettingsSecrets",
+  securityPolicy: "SecurityPolicy",
+  loginAttempts: "LoginAttempts",
+  adminSecurity: "AdminSecurity",
+  pushNotifications: "PushNotifications",
+  jobRuns: "JobRuns",
+} as const;
+
+// Options de requête sans le nom de collection, fixé par le repository
+export type RepositoryQueryOptions = Omit<QueryOptions, "collectionName">;
+
+// Page de résultats typés
+export interface RepositoryPage<T> {
+  data: T[];
+  lastVisible: QueryDocumentSnapshot | null;
+}
+
+// Interface commune à tous les repositories
+export interface Repository<T, K extends keyof T> {
+  collectionName: string;
+  getAll: () => Promise<T[]>;
+  getById: (id: string) => Promise<T | null>;
+  // Lecture au sein d'une transaction (runFsTransaction), relancée si le document change avant validation
+  getInTransaction: (transaction: FirestoreTransaction, id: string) => Promise<T | null>;
+  query: (options: RepositoryQueryOptions) => Promise<RepositoryPage<T>>;
+  count: (conditions?: QueryCondition[]) => Promise<number>;
+  create: (data: Omit<T, K>) => Promise<string>;
+  set: (id: string, data: Omit<T, K>, merge?: boolean) => Promise<string>;
+  update: (id: string, data: Partial<Omit<T, K>>) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  listen: (
+    options: RepositoryQueryOptions,
+    callback: (items: T[]) => void,
+    errorCallback?: (error: Error) => void
+  ) => () => void;
+  listenById: (
+    id: string,
+    callback: (item: T | null) => void,
+    errorCallback?: (error: Error) => void
+  ) => () => void;
+}
+
+/**
+ * Crée un repository typé au-dessus des helpers génériques de firebaseService.
+ * Chaque document lu passe par le mapper, qui convertit les Timestamps et rejette
+ * les documents malformés ; l'identifiant est retiré des données écrites.
+ * @param collectionName - Nom de la collection Firestore.
+ * @param idKey - Champ de l'entité portant l'ID du document.
+ * @param mapper - Fonction de conversion document brut → entité.
+ * @returns Repository typé.
+ */
+export const createRepository = <T, K extends keyof T>(
+  collectionName: string,
+  idKey: K,
+  mapper: DocumentMapper<T>
+): Repository<T, K> => {
+  const map = (raw: RawDocument) => mapper(collectionName, raw);
+
+  const toDocument = (data: Partial<T>) => {
+    const rest: Record<string, unknown> = { ...data };
+    delete rest[idKey as string];
+    return rest;
+  };
+
+  return {
+    collectionName,
+
+    getAll: async () => {
+      const docs = await getCollection(collectionName);
+      return docs.map(map);
+    },
+
+    getById: async (id) => {
+      const raw = await getDocumentById(collectionName, id);
+      return raw ? map(raw) : null;
+    },
+
+    getInTransaction: async (transaction, id) => {
+      const snapshot = await transaction.get(doc(db, collectionName, id)).catch((error: Error) => {
+        throw new Error(`Échec de la récupération du document : ${error.message}`);
+      });
+      return snapshot.exists() ? map({ id: snapshot.id, ...snapshot.data() }) : null;
+    },
+
+    query: async (options) => {
+      const { data, lastVisible } = await queryCollection({ collectionName, ...options });
+      return { data: data.map(map), lastVisible };
+    },
+
+    // Agrégation côté serveur : les documents ne sont pas téléchargés
+    count: async (conditions = []) => {
+      try {
+        const q = query(
+          collection(db, collectionName),
+          ...conditions.map((c) => where(c.field, c.op as WhereFilterOp, c.value))
+        );
+        return (await getCountFromServer(q)).data().count;
+      } catch (error) {
+        throw new Error(`Échec du comptage des documents : ${(error as Error).message}`);
+      }
+    },
+
+    create: (data) => addDocument(collectionName, toDocument(data as Partial<T>)),
+
+    set: (id, data, merge = true) =>
+      setDocument(collectionName, id, toDocument(data as Partial<T>), merge),
+
+    update: async (id, data) => {
+      await updateDocument(collectionName, id, toDocument(data as Partial<T>));
+    },
+
+    remove: (id) => deleteDocumentById(collectionName, id),
+
+    listen: (options, callback, errorCallback) =>
+      listenToCollection(
+        collectionName,
+        options,
+        (docs) => {
+          try {
+            callback(docs.map(map));
+          } catch (error) {
+            errorCallback?.(error as Error);
+          }
+        },
+        errorCallback
+      ),
+
+    listenById: (id, callback, errorCallback) =>
+      listenToDocument(
+        collectionName,
+        id,
+        (raw) => {
+          try {
+            callback(raw ? map(raw) : null);
+          } catch (error) {
+            errorCallback?.(error as Error);
+          }
+        },
+        errorCallback
+      ),
+  };
+};
+
+/**
+ * Prépare une opération de lot sur un document, horodatée comme setDocument et updateDocument.
+ * @param collectionName - Nom de la collection Firestore.
+ * @param id - ID du document.
+ * @param type - Type d'opération.
+ * @param data - Données à écrire (set et update) ; set fusionne avec les données existantes.
+ * @returns Opération à passer à runBatch.
+ * @throws Error si les données d'un set ou d'un update sont absentes.
+ */
+export const createBatchOperation = (
+  collectionName: string,
+  id: string,
+  type: BatchOperation["type"],
+  data?: { createdAt?: unknown }
+): BatchOperation => {
+  const ref = doc(db, collectionName, id);
+  if (type === "delete") return { type, ref };
+  if (!data) throw new Error("Les données doivent être un objet");
+  if (type === "update") return { type, ref, data: { ...data, updatedAt: serverTimestamp() } };
+  return {
+    type,
+    ref,
+    data: { ...data, updatedAt: serverTimestamp(), createdAt: data.createdAt ?? serverTimestamp() },
+    merge: true,
+  };
+};
+
+/**
+ * Ajoute une opération d'écriture à une transaction Firestore en cours.
+ * @param transaction - Transaction ouverte par runFsTransaction.
+ * @param op - Opération à appliquer.
+ * @throws Error si le type d'opération ou les données sont invalides.
+ */
+export const addTransactionOperation = (transaction: FirestoreTransaction, op: BatchOperation): void => {
+  if (op.type === "delete") {
+    transaction.delete(op.ref);
+    return;
+  }
+  if (!op.data || typeof op.data !== "object") throw new Error(`Les données doivent être un objet pour ${op.type}`);
+  if (op.type === "set") transaction.set(op.ref, op.data, { merge: !!op.merge });
+  else if (op.type === "update") transaction.update(op.ref, op.data);
+  else throw new Error(`Type d'opération invalide : ${op.type}`);
+};
+
+/* =========================
+ * REPOSITORIES PAR ENTITÉ
+ * ========================= */
+
+export const usersRepository = createRepository<User, "uid">(COLLECTIONS.users, "uid", mapUser);
+
+export const propertiesRepository = createRepository<Property, "id">(
+  COLLECTIONS.properties,
+  "id",
+  mapProperty
+);
+
+export const transactionsRepository = createRepository<Transaction, "id">(
+  COLLECTIONS.transactions,
+  "id",
+  mapTransaction
+);
+
+export const contractsRepository = createRepository<Contract, "id">(
+  COLLECTIONS.contracts,
+  "id",
+  mapContract
+);
+
+export const messagesRepository = createRepository<Message, "id">(
+  COLLECTIONS.messages,
+  "id",
+  mapMessage
+);
+
+export const partnersRepository = createRepository<Partner, "id">(
+  COLLECTIONS.partners,
+  "id",
+  mapPartner
+);
+
+export const activityLogsRepository = createRepository<ActivityLog, "id">(
+  COLLECTIONS.activityLogs,
+  "id",
+  mapActivityLog
+);
+
+export const settingsVersionsRepository = createRepository<SettingsVersion, "id">(
+  COLLECTIONS.settingsVersions,
+  "id",
+  mapSettingsVersion
+);
+
+export const settingsSecretsRepository = createRepository<SettingsSecrets, "id">(
+  COLLECTIONS.settingsSecrets,
+  "id",
+  mapSettingsSecrets
+);
+
+export const securityPolicyRepository = createRepository<SecurityPolicy, "id">(
+  COLLECTIONS.securityPolicy,
+  "id",
+  mapSecurityPolicy
+);
+
+export const loginAttemptsRepository = createRepository<LoginAttempt, "id">(
+  COLLECTIONS.loginAttempts,
+  "id",
+  mapLoginAttempt
+);
+
+export const adminSecurityRepository = createRepository<AdminSecurity, "id">(
+  COLLECTIONS.adminSecurity,
+  "id",
+  mapAdminSecurity
+);
+
+export const pushNotificationsRepository = createRepository<PushNotification, "id">(
+  COLLECTIONS.pushNotifications,
+  "id",
+  mapPushNotification
+);
+
+export const jobRunsRepository = createRepository<JobRun, "id">(
+  COLLECTIONS.jobRuns,
+  "id",
+  mapJobRun
+);
@@ -0,0 +1,205 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { User } from "../types";
+import { planApproval, planBan, runBulkUserOperation } from "../data/bulkUsers";
+import { runCniExpiryCheck } from "../data/cniExpiry";
+import type { BatchWrite, DataSource } from "../data/dataSource";
+import { approveKyc } from "../data/kyc";
+import { createMemoryDataSource } from "../data/memoryDataSource";
+import { DEFAULT_SETTINGS } from "../data/settings";
+import { saveUserProfile } from "../data/userAccounts";
+import { commitUserImport } from "../data/userTransfer";
+import { COLLECTIONS } from "./repositories";
+import type { AdminAction } from "../utils/permissions";
+import { generateFirestoreRules, isWriteAllowed } from "./securityRules";
+
+const rules = generateFirestoreRules();
+
+/**
+ * Extrait l'expression renvoyée par une fonction des règles générées.
+ * @param name - Nom de la fonction.
+ * @returns Expression booléenne de la fonction.
+ */
+const functionBody = (name: string): string => {
+  const match = rules.match(new RegExp(`function ${name}\\(\\) \\{\\s*return ([\\s\\S]*?);\\s*\\}`));
+  if (!match) throw new Error(`Fonction ${name} absente des règles`);
+  return match[1];
+};
+
+interface AdminContext {
+  verified: boolean;
+  requiredForAll: boolean;
+  admin: Record<string, unknown>;
+}
+
+/**
+ * Évalue isAdmin() pour une session : les opérateurs des règles utilisés par la fonction
+ * (&&, ||, !, ==, !=) ont la même sémantique en JavaScript.
+ * @param context - Second facteur vérifié, politique globale et document Users de l'administrateur.
+ * @returns true si la session obtient les droits d'administrateur.
+ */
+const evaluateIsAdmin = ({ verified, requiredForAll, admin }: AdminContext): boolean =>
+  new Function(
+    "isAdminAccount",
+    "secondFactorVerified",
+    "twoFactorRequiredForAll",
+    "adminDoc",
+    `return ${functionBody("isAdmin")};`
+  )(
+    () => true,
+    () => verified,
+    () => requiredForAll,
+    () => ({ data: { get: (field: string, fallback: unknown) => admin[field] ?? fallback } })
+  );
+
+describe("isAdmin", () => {
+  it("refuse un administrateur non enrôlé quand la double authentification est exigée de tous", () => {
+    expect(evaluateIsAdmin({ verified: false, requiredForAll: true, admin: {} })).toBe(false);
+  });
+
+  it("accepte la session dont le second facteur est vérifié quand il est exigé de tous", () => {
+    expect(evaluateIsAdmin({ verified: true, requiredForAll: true, admin: { twoFactorEnabled: true } })).toBe(true);
+  });
+
+  it("refuse un administrateur enrôlé ou soumis à une exigence individuelle sans second facteur", () => {
+    expect(evaluateIsAdmin({ verified: false, requiredForAll: false, admin: { twoFactorEnabled: true } })).toBe(false);
+    expect(evaluateIsAdmin({ verified: false, requiredForAll: false, admin: { twoFactorRequired: true } })).toBe(false);
+  });
+
+  it("accepte un administrateur non enrôlé quand la double authentification n'est exigée de personne", () => {
+    expect(evaluateIsAdmin({ verified: false, requiredForAll: false, admin: {} })).toBe(true);
+  });
+
+  it("lit l'exigence globale dans la politique de sécurité, absente valant non exigée", () => {
+    const body = functionBody("twoFactorRequiredForAll");
+    expect(body).toContain("exists(/databases/$(database)/documents/SecurityPolicy/current)");
+    expect(body).toContain(".get('twoFactorRequired', false) == true");
+  });
+});
+
+/**
+ * Enregistre les champs de chaque mise à jour d'un document Users, qu'elle passe par le dépôt,
+ * un lot ou une transaction.
+ * @param source - Source de données instrumentée.
+ * @returns Champs de chaque mise à jour, dans l'ordre des écritures.
+ */
+const recordUserUpdates = (source: DataSource): string[][] => {
+  const recorded: string[][] = [];
+  const record = (write: BatchWrite) => {
+    if (write.store === "users" && write.type === "update") recorded.push(Object.keys(write.data));
+  };
+  const { users, runBatch, runTransaction } = source;
+  source.users = {
+    ...users,
+    update: (id, data, audit) => {
+      recorded.push(Object.keys(data));
+      return users.update(id, data, audit);
+    },
+  };
+  source.runBatch = (writes) => {
+    writes.forEach(record);
+    return runBatch(writes);
+  };
+  source.runTransaction = (work) =>
+    runTransaction((transaction) =>
+      work({
+        ...transaction,
+        write: (write) => {
+          record(write);
+          transaction.write(write);
+        },
+      })
+    );
+  return recorded;
+};
+
+describe("isWriteAllowed : mises à jour des utilisateurs", () => {
+  let source: DataSource;
+  let user: User;
+
+  beforeEach(async () => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal("sessionStorage", {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+    });
+    source = createMemoryDataSource();
+    const [first] = (await source.users.getAll()).filter((candidate) => candidate.typeUsersId === 1);
+    user = { ...first, statut: 1, kycStatus: "en_attente", cniRecto: "recto.jpg", cniVerso: "verso.jpg" };
+    await source.users.set(user.uid, user);
+  });
+
+  /**
+   * Vérifie que chaque mise à jour enregistrée est acceptée par les règles de l'action, sans
+   * compter sur celles d'une autre action accordée aux mêmes rôles (fusion de comptes).
+   * @param action - Action de la console à l'origine des écritures.
+   * @param recorded - Champs de chaque mise à jour.
+   */
+  const expectAllowed = (action: AdminAction, recorded: string[][]) => {
+    expect(recorded.length).toBeGreaterThan(0);
+    recorded.forEach((fields) =>
+      expect({ fields, allowed: isWriteAllowed(action, COLLECTIONS.users, "update", fields) }).toEqual({ fields, allowed: true })
+    );
+  };
+
+  it("autorise le changement de statut seul depuis le formulaire", async () => {
+    const recorded = recordUserUpdates(source);
+    await saveUserProfile(source, user, { statut: 0 });
+    expectAllowed("users.ban", recorded);
+  });
+
+  it("autorise le profil et le statut modifiés ensemble depuis le formulaire", async () => {
+    const recorded = recordUserUpdates(source);
+    await saveUserProfile(source, user, { nom: "Nouveau", statut: 0 });
+    expectAllowed("users.ban", recorded);
+  });
+
+  it("autorise la modification du profil seul depuis le formulaire", async () => {
+    const recorded = recordUserUpdates(source);
+    await saveUserProfile(source, user, { nom: "Nouveau", telephone: "0600000000" });
+    expectAllowed("users.edit", recorded);
+  });
+
+  it("autorise la mise à jour par import du profil et du statut", async () => {
+    const recorded = recordUserUpdates(source);
+    const profile = {
+      nom: "Nouveau",
+      prenom: user.prenom,
+      email: user.email,
+      telephone: user.telephone,
+      addresse: user.addresse,
+      typeUsersId: user.typeUsersId,
+      statut: 0,
+    };
+    const report = await commitUserImport(
+      source,
+      [{ line: 2, email: user.email, action: "update", profile, user, changes: ["nom", "statut"], errors: [] }],
+      false
+    );
+    expect(report.updated).toBe(1);
+    expectAllowed("users.ban", recorded);
+  });
+
+  it("autorise la validation et le bannissement en masse", async () => {
+    const approvals = recordUserUpdates(source);
+    await runBulkUserOperation(source, [{ ...user, statut: 2 }], planApproval);
+    expectAllowed("users.approve", approvals);
+    const bans = recordUserUpdates(source);
+    await runBulkUserOperation(source, [user], planBan("5"));
+    expectAllowed("users.ban", bans);
+  });
+
+  it("autorise la validation de l'identité", async () => {
+    const recorded = recordUserUpdates(source);
+    await approveKyc(source, user, "5");
+    expectAllowed("users.kyc", recorded);
+  });
+
+  it("autorise la demande de re-vérification des CNI expirées", async () => {
+    await source.users.update(user.uid, { cniExpirationDate: new Date(Date.now() - 86_400_000).toISOString() });
+    const recorded = recordUserUpdates(source);
+    const report = await runCniExpiryCheck(source, DEFAULT_SETTINGS, "5");
+    expect(report.flagged).toBeGreaterThan(0);
+    expectAllowed("users.kyc", recorded);
+  });
+});
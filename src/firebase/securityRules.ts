@@ -0,0 +1,404 @@
+import { AdminRole } from "../types";
+import { COLLECTIONS } from "./repositories";
+import { LOCKOUT_DURATION_MINUTES } from "../data/accountSecurity";
+import { CNI_EXPIRY_JOB_ID } from "../data/cniExpiry";
+import { BLOCKED_IP_ACTION } from "../data/ipAllowlist";
+import { FCM_TOKEN_CHECK_JOB_ID } from "../data/notifications";
+import { SECURITY_POLICY_ID } from "../data/settings";
+import { ADMIN_ROLE_ID } from "../utils/users";
+import {
+  ACTION_ACCESS,
+  AdminAction,
+  DEFAULT_ADMIN_ROLE,
+  SECTION_ACCESS,
+  SectionId,
+} from "../utils/permissions";
+
+type CollectionName = (typeof COLLECTIONS)[keyof typeof COLLECTIONS];
+type WriteOperation = "create" | "update" | "delete";
+
+// Écriture Firestore nécessaire à une action ; sans liste de champs, tout le document est modifiable.
+// La condition, exprimée dans le langage des règles, restreint en plus les valeurs écrites.
+interface WriteRule {
+  collection: CollectionName;
+  operation: WriteOperation;
+  fields?: string[];
+  condition?: string;
+}
+
+// Collections lues par chaque section de la console
+const SECTION_READS: Record<SectionId, CollectionName[]> = {
+  dashboard: [COLLECTIONS.users, COLLECTIONS.properties, COLLECTIONS.transactions, COLLECTIONS.contracts],
+  users: [COLLECTIONS.users, COLLECTIONS.pushNotifications],
+  agencies: [COLLECTIONS.users, COLLECTIONS.properties, COLLECTIONS.contracts, COLLECTIONS.transactions],
+  kyc: [COLLECTIONS.users],
+  properties: [COLLECTIONS.properties, COLLECTIONS.users],
+  map: [COLLECTIONS.properties],
+  transactions: [COLLECTIONS.transactions, COLLECTIONS.users],
+  contracts: [COLLECTIONS.contracts, COLLECTIONS.users, COLLECTIONS.properties],
+  messaging: [COLLECTIONS.messages, COLLECTIONS.users],
+  statistics: [COLLECTIONS.users, COLLECTIONS.properties, COLLECTIONS.transactions],
+  partners: [COLLECTIONS.partners],
+  logs: [COLLECTIONS.activityLogs, COLLECTIONS.users],
+  settings: [COLLECTIONS.settingsVersions, COLLECTIONS.users, COLLECTIONS.loginAttempts],
+};
+
+// Collections lues par toute session : les paramètres de sécurité s'appliquent à chaque administrateur
+const ADMIN_READS: CollectionName[] = [COLLECTIONS.settingsVersions, COLLECTIONS.jobRuns];
+
+// Collections lues par les seuls rôles autorisés à une action, hors de toute section
+const ACTION_READS: Partial<Record<CollectionName, AdminAction>> = {
+  [COLLECTIONS.settingsSecrets]: "settings.edit",
+  [COLLECTIONS.securityPolicy]: "settings.edit",
+};
+
+// Collections lues avant la vérification du second facteur : la connexion applique les paramètres de sécurité
+const PRE_SECOND_FACTOR_READS: CollectionName[] = [COLLECTIONS.settingsVersions];
+
+// Champs du profil modifiables depuis le formulaire de modification et l'import, avec la date de
+// mise à jour et les champs de recherche qui les accompagnent. L'email, identifiant de connexion, n'en fait pas partie.
+const PROFILE_FIELDS = ["nom", "prenom", "telephone", "addresse", "lastUpdated", "nomLower", "prenomLower", "emailLower"];
+
+// Écritures Firestore effectuées par chaque action
+const ACTION_WRITES: Record<AdminAction, WriteRule[]> = {
+  // Un compte administrateur ne peut être créé que par admins.manage, en le modifiant après création
+  "users.create": [
+    {
+      collection: COLLECTIONS.users,
+      operation: "create",
+      condition: `request.resource.data.typeUsersId != ${ADMIN_ROLE_ID}`,
+    },
+  ],
+  "users.approve": [{ collection: COLLECTIONS.users, operation: "update", fields: ["statut"] }],
+  // Le statut est enregistré seul ou avec le reste du profil (formulaire, import), dans une même
+  // écriture : les rôles habilités à bannir le sont aussi à modifier le profil
+  "users.ban": [{ collection: COLLECTIONS.users, operation: "update", fields: ["statut", ...PROFILE_FIELDS] }],
+  "users.edit": [
+    {
+      collection: COLLECTIONS.users,
+      operation: "update",
+      fields: [...PROFILE_FIELDS, "notificationPrefs", "staleFcmToken", "staleFcmTokenAt"],
+    },
+    // Vérification quotidienne des jetons FCM, exécutée par toute session habilitée à modifier les utilisateurs
+    { collection: COLLECTIONS.jobRuns, operation: "create", condition: `docId == '${FCM_TOKEN_CHECK_JOB_ID}'` },
+    { collection: COLLECTIONS.jobRuns, operation: "update", condition: `docId == '${FCM_TOKEN_CHECK_JOB_ID}'` },
+  ],
+  "users.kyc": [
+    {
+      collection: COLLECTIONS.users,
+      operation: "update",
+      fields: ["kycStatus", "kycRejectionReason", "kycComment", "kycReviewedBy", "kycReviewedAt", "lastUpdated"],
+    },
+    { collection: COLLECTIONS.messages, operation: "create" },
+    { collection: COLLECTIONS.pushNotifications, operation: "create" },
+    // Contrôle quotidien des CNI arrivant à expiration, seul traitement enregistré par cette action
+    { collection: COLLECTIONS.jobRuns, operation: "create", condition: `docId == '${CNI_EXPIRY_JOB_ID}'` },
+    { collection: COLLECTIONS.jobRuns, operation: "update", condition: `docId == '${CNI_EXPIRY_JOB_ID}'` },
+  ],
+  // Effacement RGPD : anonymisation du compte, pseudonymisation des documents conservés et du
+  // journal, suppression des messages et notifications de l'utilisateur
+  "users.gdpr": [
+    { collection: COLLECTIONS.users, operation: "update" },
+    {
+      collection: COLLECTIONS.properties,
+      operation: "update",
+      fields: ["ownerId", "validationStatus", "rejectionReason", "images"],
+    },
+    { collection: COLLECTIONS.transactions, operation: "update", fields: ["userId", "description"] },
+    { collection: COLLECTIONS.contracts, operation: "update", fields: ["tenantId", "ownerId"] },
+    { collection: COLLECTIONS.messages, operation: "delete" },
+    { collection: COLLECTIONS.pushNotifications, operation: "delete" },
+    { collection: COLLECTIONS.activityLogs, operation: "update", fields: ["changes", "details"] },
+  ],
+  // Fusion d'un doublon : valeurs reprises sur le compte conservé, documents rattachés, doublon banni
+  "users.merge": [
+    {
+      collection: COLLECTIONS.users,
+      operation: "update",
+      fields: [
+        "nom",
+        "prenom",
+        "telephone",
+        "addresse",
+        "photoProfil",
+        "cniNumber",
+        "CNIDateDelivrer",
+        "cniExpirationDate",
+        "cniRecto",
+        "cniVerso",
+        "kycStatus",
+        "kycRejectionReason",
+        "kycComment",
+        "kycReviewedBy",
+        "kycReviewedAt",
+        "nomLower",
+        "prenomLower",
+        "emailLower",
+        "lastUpdated",
+        "statut",
+        "fcmToken",
+        "mergedInto",
+        "mergedAt",
+      ],
+    },
+    { collection: COLLECTIONS.properties, operation: "update", fields: ["ownerId"] },
+    { collection: COLLECTIONS.transactions, operation: "update", fields: ["userId"] },
+    { collection: COLLECTIONS.contracts, operation: "update", fields: ["tenantId", "ownerId"] },
+    { collection: COLLECTIONS.messages, operation: "update", fields: ["senderId", "receiverId"] },
+  ],
+  // Agents rattachés à une agence, propriétés et contrats actifs transférés entre ses membres
+  "agencies.manage": [
+    { collection: COLLECTIONS.users, operation: "update", fields: ["agencyId", "lastUpdated"] },
+    { collection: COLLECTIONS.properties, operation: "update", fields: ["ownerId"] },
+    { collection: COLLECTIONS.contracts, operation: "update", fields: ["ownerId"] },
+  ],
+  "admins.manage": [
+    { collection: COLLECTIONS.users, operation: "update" },
+    { collection: COLLECTIONS.loginAttempts, operation: "update" },
+    { collection: COLLECTIONS.loginAttempts, operation: "delete" },
+  ],
+  "properties.validate": [
+    {
+      collection: COLLECTIONS.properties,
+      operation: "update",
+      fields: [
+        "validationStatus",
+        "validatedBy",
+        "validatedAt",
+        "rejectionReason",
+        "images",
+        "imageComments",
+        "resubmissionRequestedAt",
+      ],
+    },
+    { collection: COLLECTIONS.messages, operation: "create" },
+  ],
+  "transactions.refund": [{ collection: COLLECTIONS.transactions, operation: "update", fields: ["status"] }],
+  "contracts.sign": [{ collection: COLLECTIONS.contracts, operation: "update", fields: ["signatureStatus"] }],
+  "contracts.archive": [
+    {
+      collection: COLLECTIONS.contracts,
+      operation: "update",
+      fields: ["archived", "archivedAt"],
+      condition: "request.resource.data.archived == true",
+    },
+  ],
+  "messages.send": [
+    { collection: COLLECTIONS.messages, operation: "create" },
+    { collection: COLLECTIONS.messages, operation: "update", fields: ["status", "flagged"] },
+  ],
+  "partners.manage": [
+    { collection: COLLECTIONS.partners, operation: "create" },
+    { collection: COLLECTIONS.partners, operation: "update" },
+    { collection: COLLECTIONS.partners, operation: "delete" },
+  ],
+  // Les versions sont immuables : seule la création est autorisée, ainsi que l'effacement des secrets
+  // des versions enregistrées avant leur séparation. Les secrets en vigueur ont leur propre document.
+  "settings.edit": [
+    { collection: COLLECTIONS.settingsVersions, operation: "create" },
+    {
+      collection: COLLECTIONS.settingsVersions,
+      operation: "update",
+      fields: ["settings"],
+      condition: `request.resource.data.settings.diff(resource.data.settings).affectedKeys().hasOnly(['integrations'])
+          && request.resource.data.settings.integrations.diff(resource.data.settings.integrations).affectedKeys()
+            .hasOnly(['stripeSecretKey', 'smtpPassword'])
+          && request.resource.data.settings.integrations.get('stripeSecretKey', '') == ''
+          && request.resource.data.settings.integrations.get('smtpPassword', '') == ''`,
+    },
+    { collection: COLLECTIONS.settingsSecrets, operation: "create" },
+    { collection: COLLECTIONS.settingsSecrets, operation: "update" },
+    { collection: COLLECTIONS.securityPolicy, operation: "create" },
+    { collection: COLLECTIONS.securityPolicy, operation: "update" },
+  ],
+};
+
+// Champ horodaté par firebaseService à chaque écriture
+const SYSTEM_FIELDS = ["updatedAt"];
+
+// Champs écrits par setDocument, qui renseigne aussi createdAt
+const TIMESTAMP_FIELDS = ["createdAt", "updatedAt"];
+
+const formatList = (values: string[]) => `[${values.map((v) => `'${v}'`).join(", ")}]`;
+
+const getReadRoles = (collection: CollectionName): AdminRole[] =>
+  (Object.keys(SECTION_ACCESS) as AdminRole[]).filter((role) =>
+    SECTION_ACCESS[role].some((section) => SECTION_READS[section].includes(collection))
+  );
+
+/**
+ * Construit la condition d'une opération d'écriture à partir des actions qui la requièrent.
+ * @param collection - Collection concernée.
+ * @param operation - Opération Firestore.
+ * @returns Condition des règles, "false" si aucune action ne l'autorise.
+ */
+const getWriteCondition = (collection: CollectionName, operation: WriteOperation): string => {
+  const conditions = new Set<string>();
+  (Object.keys(ACTION_WRITES) as AdminAction[]).forEach((action) => {
+    ACTION_WRITES[action]
+      .filter((rule) => rule.collection === collection && rule.operation === operation)
+      .forEach((rule) => {
+        const clauses = [`hasRole(${formatList(ACTION_ACCESS[action])})`];
+        if (rule.fields) clauses.push(`onlyFields(${formatList([...rule.fields, ...SYSTEM_FIELDS])})`);
+        if (rule.condition) clauses.push(rule.condition);
+        conditions.add(clauses.length > 1 ? `(${clauses.join(" && ")})` : clauses[0]);
+      });
+  });
+  return conditions.size ? Array.from(conditions).join("\n        || ") : "false";
+};
+
+const renderCollection = (collection: CollectionName): string => {
+  const readRoles = getReadRoles(collection);
+  const actionRead = ACTION_READS[collection];
+  let read = readRoles.length ? `hasRole(${formatList(readRoles)})` : "false";
+  if (actionRead) read = `hasRole(${formatList(ACTION_ACCESS[actionRead])})`;
+  else if (PRE_SECOND_FACTOR_READS.includes(collection)) read = "isAdminAccount()";
+  else if (ADMIN_READS.includes(collection)) read = "isAdmin()";
+
+  // Le journal est en ajout seul, et chaque entrée doit être signée par son auteur ; seul
+  // l'effacement RGPD en masque après coup les valeurs personnelles. Un accès refusé par la liste
+  // blanche d'IP, contrôlé avant le second facteur, est journalisé par l'administrateur lui-même.
+  if (collection === COLLECTIONS.activityLogs) {
+    return `    match /${collection}/{docId} {
+      allow read: if ${read};
+      allow create: if request.resource.data.adminId == request.auth.uid
+        && (isAdmin()
+          || (isAdminAccount() && request.resource.data.action == '${BLOCKED_IP_ACTION}'
+            && request.resource.data.targetId == request.auth.uid));
+      allow update: if ${getWriteCondition(collection, "update")};
+      allow delete: if false;
+    }`;
+  }
+
+  // Échecs de connexion comptés avant authentification, sur un document par email : un échec à la fois,
+  // daté par le serveur, ajouté dans le délai de verrouillage du précédent ou relancé à 1 au-delà. Le
+  // décompte n'est lu que par son titulaire connecté et les administrateurs habilités ; le compte
+  // connecté efface ses propres échecs, un super administrateur les supprime.
+  // Le verrouillage est appliqué par la console après la vérification du mot de passe par Firebase
+  // Authentication : il n'en limite pas les tentatives, et un client modifié peut l'ignorer.
+  if (collection === COLLECTIONS.loginAttempts) {
+    const failureFields = formatList(["failedCount", "lastFailedAt", ...TIMESTAMP_FIELDS]);
+    const lockWindow = `resource.data.updatedAt + duration.value(${LOCKOUT_DURATION_MINUTES}, 'm')`;
+    const serverDated = "request.resource.data.lastFailedAt == request.time && request.resource.data.updatedAt == request.time";
+    return `    match /${collection}/{docId} {
+      allow get: if request.auth != null
+        && ((request.auth.token.email == docId && isAdminAccount()) || ${read});
+      allow list: if ${read};
+      allow create: if request.resource.data.failedCount == 1
+        && ${serverDated}
+        && request.resource.data.keys().hasOnly(${failureFields});
+      allow update: if (((request.resource.data.failedCount == resource.data.failedCount + 1 && request.time < ${lockWindow})
+            || (request.resource.data.failedCount == 1 && request.time >= ${lockWindow}))
+          && ${serverDated}
+          && onlyFields(${failureFields}))
+        || (request.auth != null && request.auth.token.email == docId
+          && request.resource.data.failedCount == 0 && onlyFields(${failureFields}))
+        || ${getWriteCondition(collection, "update")};
+      allow delete: if ${getWriteCondition(collection, "delete")};
+    }`;
+  }
+
+  // Secret TOTP et codes de secours : lus et écrits par les seules fonctions du back-end (Admin SDK),
+  // qui vérifient le second facteur, et jamais par la console, même pour leur titulaire
+  if (collection === COLLECTIONS.adminSecurity) {
+    return `    match /${collection}/{docId} {
+      allow read, write: if false;
+    }`;
+  }
+
+  // Chaque compte lit son propre document Users, nécessaire à la vérification du rôle, et y
+  // enregistre la date de changement de son mot de passe. L'état de sa double authentification
+  // n'est modifié que par le back-end.
+  const isUsers = collection === COLLECTIONS.users;
+  const ownRead = isUsers ? "request.auth.uid == docId || " : "";
+  const ownUpdate = isUsers
+    ? `(request.auth.uid == docId && isAdmin() && onlyFields(${formatList(["passwordChangedAt", ...SYSTEM_FIELDS])}))\n        || `
+    : "";
+
+  return `    match /${collection}/{docId} {
+      allow read: if request.auth != null && (${ownRead}${read});
+      allow create: if ${getWriteCondition(collection, "create")};
+      allow update: if ${ownUpdate}${getWriteCondition(collection, "update")};
+      allow delete: if ${getWriteCondition(collection, "delete")};
+    }`;
+};
+
+/**
+ * Indique si les règles générées pour une action acceptent une écriture portant sur ces champs,
+ * telle que la produit le code de la console.
+ * @param action - Action de la console.
+ * @param collection - Collection écrite.
+ * @param operation - Opération Firestore.
+ * @param fields - Champs écrits ensemble.
+ * @returns true si une règle de l'action couvre tous les champs.
+ */
+export const isWriteAllowed = (
+  action: AdminAction,
+  collection: CollectionName,
+  operation: WriteOperation,
+  fields: string[]
+): boolean =>
+  ACTION_WRITES[action].some(
+    (rule) =>
+      rule.collection === collection &&
+      rule.operation === operation &&
+      (!rule.fields || fields.every((field) => [...(rule.fields ?? []), ...SYSTEM_FIELDS].includes(field)))
+  );
+
+/**
+ * Génère les règles de sécurité Firestore correspondant à la matrice de permissions
+ * de la console, pour que les droits affichés dans l'interface soient aussi appliqués
+ * côté serveur.
+ * @returns Contenu d'un fichier firestore.rules.
+ */
+export const generateFirestoreRules = (): string => `rules_version = '2';
+
+// Généré par la console d'administration Kinaru à partir de src/utils/permissions.ts.
+// Ne pas modifier à la main : mettre à jour la matrice puis régénérer.
+// Règles d'accès des administrateurs ; à fusionner avec celles de l'application mobile.
+service cloud.firestore {
+  match /databases/{database}/documents {
+    function adminDoc() {
+      return get(/databases/$(database)/documents/${COLLECTIONS.users}/$(request.auth.uid));
+    }
+
+    function isAdminAccount() {
+      return request.auth != null
+        && exists(/databases/$(database)/documents/${COLLECTIONS.users}/$(request.auth.uid))
+        && adminDoc().data.typeUsersId == ${ADMIN_ROLE_ID}
+        && adminDoc().data.statut != 0;
+    }
+
+    // Revendication posée par le back-end après vérification du second facteur ; égale à l'auth_time
+    // de la session, elle ne vaut plus après une nouvelle connexion par mot de passe
+    function secondFactorVerified() {
+      return request.auth.token.get('mfa', 0) == request.auth.token.auth_time;
+    }
+
+    // Paramètre security.twoFactorAuth, recopié à chaque enregistrement des paramètres
+    function twoFactorRequiredForAll() {
+      return exists(/databases/$(database)/documents/${COLLECTIONS.securityPolicy}/${SECURITY_POLICY_ID})
+        && get(/databases/$(database)/documents/${COLLECTIONS.securityPolicy}/${SECURITY_POLICY_ID}).data
+          .get('twoFactorRequired', false) == true;
+    }
+
+    function isAdmin() {
+      return isAdminAccount()
+        && (secondFactorVerified()
+          || (!twoFactorRequiredForAll()
+            && adminDoc().data.get('twoFactorEnabled', false) != true
+            && adminDoc().data.get('twoFactorRequired', false) != true));
+    }
+
+    function hasRole(roles) {
+      return isAdmin() && adminDoc().data.get('adminRole', '${DEFAULT_ADMIN_ROLE}') in roles;
+    }
+
+    function onlyFields(fields) {
+      return request.resource.data.diff(resource.data).affectedKeys().hasOnly(fields);
+    }
+
+${Object.values(COLLECTIONS).map(renderCollection).join("\n\n")}
+  }
+}
+`;
@@ -0,0 +1,13 @@
+import { useContext } from 'react';
+import { AuthContext, AuthContextValue } from '../context/authState';
+
+/**
+ * Donne accès à la session de l'administrateur connecté.
+ * @returns État d'authentification et actions de connexion.
+ * @throws Error si le composant n'est pas rendu sous AuthProvider.
+ */
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) throw new Error('useAuth doit être utilisé sous AuthProvider');
+  return context;
+};
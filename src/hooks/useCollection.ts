@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { EntityStore } from '../data/dataSource';
+
+interface CollectionState<T> {
+  data: T[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Abonne un composant à un magasin d'entités et expose les données en temps réel.
+ * @param store - Magasin d'entités de la source de données active.
+ * @returns Données, état de chargement et message d'erreur éventuel.
+ */
+export function useCollection<T, K extends keyof T>(store: EntityStore<T, K>): CollectionState<T> {
+  const [state, setState] = useState<CollectionState<T>>({ data: [], loading: true, error: null });
+
+  useEffect(() => {
+    const unsubscribe = store.subscribe(
+      (items) => setState({ data: items, loading: false, error: null }),
+      (error) => {
+        console.error('Erreur lors du chargement des données :', error);
+        setState((prev) => ({ ...prev, loading: false, error: error.message }));
+      }
+    );
+    return unsubscribe;
+  }, [store]);
+
+  return state;
+}
@@ -0,0 +1,45 @@
+import { useEffect, useRef } from 'react';
+import { dataSource } from '../data';
+import { JobRun } from '../types';
+
+// Une console restée ouverte vérifie toutes les heures si la tâche est de nouveau due
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const isDue = (run: JobRun | null, now = new Date()) =>
+  !run || new Date(run.lastRunAt).toDateString() !== now.toDateString();
+
+/**
+ * Exécute une tâche au plus une fois par jour calendaire, depuis la première session
+ * administrateur ouverte ; la tâche enregistre elle-même son exécution dans JobRuns.
+ * @param jobId - Identifiant du document JobRuns de la tâche.
+ * @param run - Exécution de la tâche.
+ * @param enabled - Faux tant que la session ne peut pas exécuter la tâche (droits, paramètres).
+ */
+export const useDailyJob = (jobId: string, run: () => Promise<unknown>, enabled: boolean): void => {
+  const runRef = useRef(run);
+
+  useEffect(() => {
+    runRef.current = run;
+  }, [run]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let running = false;
+
+    const check = async () => {
+      if (running) return;
+      running = true;
+      try {
+        if (isDue(await dataSource.jobRuns.getById(jobId))) await runRef.current();
+      } catch (error) {
+        console.error(`Erreur lors de la tâche planifiée ${jobId} :`, error);
+      } finally {
+        running = false;
+      }
+    };
+
+    check();
+    const interval = window.setInterval(check, CHECK_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [jobId, enabled]);
+};
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Interactions qui prolongent la session
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+
+interface IdleTimeout {
+  remainingMs: number | null;
+  stayActive: () => void;
+}
+
+/**
+ * Détecte l'inactivité de l'utilisateur. Pendant la période d'avertissement, seule une
+ * confirmation explicite (stayActive) prolonge la session.
+ * @param timeoutMs - Durée d'inactivité avant expiration.
+ * @param warningMs - Durée de l'avertissement précédant l'expiration.
+ * @param onTimeout - Appelé une fois la durée d'inactivité atteinte.
+ * @returns Temps restant pendant l'avertissement (null sinon) et fonction de prolongation.
+ */
+export const useIdleTimeout = (timeoutMs: number, warningMs: number, onTimeout: () => void): IdleTimeout => {
+  const lastActivity = useRef(Date.now());
+  const warning = useRef(false);
+  const onTimeoutRef = useRef(onTimeout);
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  }, [onTimeout]);
+
+  const stayActive = useCallback(() => {
+    lastActivity.current = Date.now();
+    warning.current = false;
+    setRemainingMs(null);
+  }, []);
+
+  useEffect(() => {
+    const handleActivity = () => {
+      if (!warning.current) lastActivity.current = Date.now();
+    };
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+
+    const interval = window.setInterval(() => {
+      const remaining = timeoutMs - (Date.now() - lastActivity.current);
+      if (remaining <= 0) {
+        window.clearInterval(interval);
+        onTimeoutRef.current();
+        return;
+      }
+      warning.current = remaining <= warningMs;
+      setRemainingMs(warning.current ? remaining : null);
+    }, 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+      window.clearInterval(interval);
+    };
+  }, [timeoutMs, warningMs]);
+
+  return { remainingMs, stayActive };
+};
@@ -0,0 +1,23 @@
+import { useAuth } from './useAuth';
+import { AdminAction, canAccessSection, canPerform, getAdminRole } from '../utils/permissions';
+import { AdminRole } from '../types';
+
+interface Permissions {
+  role: AdminRole;
+  can: (action: AdminAction) => boolean;
+  canAccess: (section: string) => boolean;
+}
+
+/**
+ * Expose les permissions de l'administrateur connecté selon son sous-rôle.
+ * @returns Rôle courant et fonctions de vérification des actions et sections.
+ */
+export const usePermissions = (): Permissions => {
+  const { admin } = useAuth();
+  const role = getAdminRole(admin);
+  return {
+    role,
+    can: (action) => canPerform(role, action),
+    canAccess: (section) => canAccessSection(role, section),
+  };
+};
@@ -0,0 +1,32 @@
+import { useMemo } from 'react';
+import { dataSource } from '../data';
+import { DEFAULT_SETTINGS, getCurrentVersion, withDefaultSettings } from '../data/settings';
+import { PlatformSettings, SettingsVersion } from '../types';
+import { useCollection } from './useCollection';
+
+interface SettingsState {
+  settings: PlatformSettings;
+  current: SettingsVersion | null;
+  versions: SettingsVersion[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Abonne un composant aux paramètres de la plateforme et à leur historique.
+ * @returns Paramètres en vigueur, version courante, versions de la plus récente à la plus ancienne.
+ */
+export const useSettings = (): SettingsState => {
+  const { data, loading, error } = useCollection(dataSource.settingsVersions);
+
+  return useMemo(() => {
+    const current = getCurrentVersion(data);
+    return {
+      settings: current ? withDefaultSettings(current.settings) : DEFAULT_SETTINGS,
+      current,
+      versions: [...data].sort((a, b) => b.version - a.version),
+      loading,
+      error,
+    };
+  }, [data, loading, error]);
+};
@@ -0,0 +1,42 @@
+import { useCallback, useState } from 'react';
+
+/**
+ * Lit les paramètres de l'URL courante, en complétant les absents par leur valeur par défaut.
+ * @param defaults - Valeurs par défaut des paramètres.
+ * @returns Valeur de chaque paramètre.
+ */
+const readParams = <K extends string>(defaults: Record<K, string>): Record<K, string> => {
+  const params = new URLSearchParams(window.location.search);
+  return Object.fromEntries(
+    (Object.keys(defaults) as K[]).map((key) => [key, params.get(key) ?? defaults[key]])
+  ) as Record<K, string>;
+};
+
+/**
+ * État conservé dans les paramètres de l'URL, pour retrouver la vue après un rechargement ou
+ * via un lien partagé. Les valeurs par défaut sont omises de l'URL, les autres paramètres conservés.
+ * @param defaults - Valeurs par défaut des paramètres, à définir hors du composant.
+ * @returns Valeurs courantes et fonction de mise à jour partielle.
+ */
+export const useUrlState = <K extends string>(
+  defaults: Record<K, string>
+): [Record<K, string>, (changes: Partial<Record<K, string>>) => void] => {
+  const [state, setState] = useState(() => readParams(defaults));
+
+  const update = useCallback(
+    (changes: Partial<Record<K, string>>) => {
+      const params = new URLSearchParams(window.location.search);
+      (Object.keys(changes) as K[]).forEach((key) => {
+        const value = changes[key];
+        if (value === undefined || value === defaults[key]) params.delete(key);
+        else params.set(key, value);
+      });
+      const search = params.toString();
+      window.history.replaceState(window.history.state, '', `${window.location.pathname}${search ? `?${search}` : ''}`);
+      setState(readParams(defaults));
+    },
+    [defaults]
+  );
+
+  return [state, update];
+};
@@ -1,3 +1,17 @@
+export type AdminRole = 'super_admin' | 'moderator' | 'finance' | 'support';
+
+// Vérification d'identité (KYC) de la CNI déposée depuis l'application
+// a_reverifier : CNI expirée ou proche de l'expiration, un nouveau dépôt est demandé
+export type KycStatus = 'en_attente' | 'verifie' | 'rejete' | 'a_reverifier';
+
+export type KycRejectionReason =
+  | 'illisible'
+  | 'incomplet'
+  | 'expire'
+  | 'non_concordant'
+  | 'falsification'
+  | 'autre';
+
 export interface User {
   uid: string;
   nom: string;
@@ -23,6 +37,33 @@ export interface User {
     reservations: boolean;
     visits: boolean;
   };
+  adminRole?: AdminRole;
+  passwordChangedAt?: string;
+  twoFactorEnabled?: boolean;
+  twoFactorRequired?: boolean;
+  kycStatus?: KycStatus;
+  kycRejectionReason?: KycRejectionReason;
+  kycComment?: string;
+  kycReviewedBy?: string;
+  kycReviewedAt?: string;
+  // Date de création du document, renseignée par Firestore (inscription)
+  createdAt?: string;
+  // Copies en minuscules de nom, prénom et email, indexées pour la recherche par préfixe
+  nomLower?: string;
+  prenomLower?: string;
+  emailLower?: string;
+  // Effacement RGPD : date, et pseudonyme reporté sur les contrats et transactions conservés
+  erasedAt?: string;
+  pseudonymId?: string;
+  // Doublon fusionné : compte conservé, auquel ses documents ont été rattachés, et date de la fusion
+  mergedInto?: string;
+  mergedAt?: string;
+  // Jeton FCM dont le dernier envoi a échoué, et date du constat ; il reste périmé tant que
+  // l'application n'enregistre pas un nouveau fcmToken
+  staleFcmToken?: string;
+  staleFcmTokenAt?: string;
+  // Agent immobilier : UID du compte agence (typeUsersId 6) auquel il est rattaché
+  agencyId?: string;
 }
 
 
@@ -40,6 +81,24 @@ export interface Property {
   images: string[];
   ownerId: string;
   createdDate: string;
+  validatedBy?: string;
+  validatedAt?: string;
+  rejectionReason?: string;
+  // Dernière modération de la galerie : remarques par photo et date de la demande de nouvelle soumission
+  imageComments?: PropertyImageComment[];
+  resubmissionRequestedAt?: string;
+}
+
+// Motif de retrait d'une photo d'annonce
+export type PhotoRejectionReason = 'visage' | 'coordonnees' | 'filigrane' | 'hors_sujet' | 'qualite' | 'autre';
+
+// Remarque sur une photo de la galerie soumise, identifiée par son rang (à partir de 1) ;
+// image n'est renseignée que pour une photo conservée, une photo retirée étant supprimée du stockage
+export interface PropertyImageComment {
+  position: number;
+  image?: string;
+  rejectionReason?: PhotoRejectionReason;
+  comment: string;
 }
 
 export interface Transaction {
@@ -63,6 +122,9 @@ export interface Contract {
   monthlyRent: number;
   status: 'actif' | 'expire' | 'resilié';
   signatureStatus: 'en_attente' | 'signe';
+  // Contrat terminé (expiré ou résilié) retiré de la liste courante
+  archived?: boolean;
+  archivedAt?: string;
 }
 
 export interface Message {
@@ -86,6 +148,21 @@ export interface Partner {
   contractEnd?: string;
 }
 
+export type ActivityTargetType =
+  | 'user'
+  | 'property'
+  | 'transaction'
+  | 'contract'
+  | 'message'
+  | 'partner'
+  | 'settings';
+
+export interface ActivityLogChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
 export interface ActivityLog {
   id: string;
   adminId: string;
@@ -93,6 +170,139 @@ export interface ActivityLog {
   target: string;
   timestamp: string;
   details: string;
+  targetType?: ActivityTargetType;
+  targetId?: string;
+  changes?: ActivityLogChange[];
+}
+
+export interface GeneralSettings {
+  siteName: string;
+  siteDescription: string;
+  language: string;
+  timezone: string;
+  maintenanceMode: boolean;
+}
+
+export interface NotificationSettings {
+  emailNotifications: boolean;
+  pushNotifications: boolean;
+  smsNotifications: boolean;
+  weeklyReports: boolean;
+  securityAlerts: boolean;
+}
+
+export interface SecuritySettings {
+  twoFactorAuth: boolean;
+  sessionTimeout: number;
+  passwordExpiry: number;
+  loginAttempts: number;
+  ipWhitelist: string;
+  cniExpiryWindowDays: number;
+}
+
+export interface AppearanceSettings {
+  theme: string;
+  primaryColor: string;
+  secondaryColor: string;
+  logoUrl: string;
+  favicon: string;
+}
+
+export interface IntegrationSettings {
+  stripeEnabled: boolean;
+  stripePublicKey: string;
+  stripeSecretKey: string;
+  emailProvider: string;
+  smtpHost: string;
+  smtpPort: number;
+  smtpUser: string;
+  smtpPassword: string;
+}
+
+export interface BusinessSettings {
+  companyName: string;
+  companyAddress: string;
+  companyPhone: string;
+  companyEmail: string;
+  vatNumber: string;
+  commissionRate: number;
+}
+
+export interface PlatformSettings {
+  general: GeneralSettings;
+  notifications: NotificationSettings;
+  security: SecuritySettings;
+  appearance: AppearanceSettings;
+  integrations: IntegrationSettings;
+  business: BusinessSettings;
+}
+
+// Version enregistrée des paramètres ; l'historique n'est jamais modifié, une restauration crée une nouvelle version
+export interface SettingsVersion {
+  id: string;
+  version: number;
+  settings: PlatformSettings;
+  adminId: string;
+  createdAt: string;
+  comment: string;
+  restoredFrom?: number;
+}
+
+// Secrets des intégrations, tenus hors de l'historique des paramètres (document unique)
+export interface SettingsSecrets {
+  id: string;
+  stripeSecretKey: string;
+  smtpPassword: string;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+// Paramètres de sécurité communs à tous les administrateurs, relus par les règles Firestore (document unique)
+export interface SecurityPolicy {
+  id: string;
+  twoFactorRequired: boolean;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+// Échecs de connexion consécutifs d'un compte, identifié par son email normalisé
+export interface LoginAttempt {
+  id: string;
+  failedCount: number;
+  lastFailedAt: string;
+}
+
+// Second facteur d'un administrateur (document au même UID que Users), réservé aux fonctions du back-end
+export interface AdminSecurity {
+  id: string;
+  totpSecret: string;
+  recoveryCodes: string[];
+  enrolledAt: string;
+}
+
+// Catégories de notifications que l'utilisateur peut désactiver depuis l'application
+export type NotificationCategory = keyof User['notificationPrefs'];
+
+// Notification push en file d'envoi : une Cloud Function l'envoie via FCM puis met à jour son statut
+export interface PushNotification {
+  id: string;
+  userId: string;
+  fcmToken: string;
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  status: 'en_attente' | 'envoye' | 'echec';
+  createdAt: string;
+  sentAt?: string;
+  error?: string;
+}
+
+// Dernière exécution d'une tâche planifiée, identifiée par le nom de la tâche
+export interface JobRun {
+  id: string;
+  lastRunAt: string;
+  adminId: string;
+  summary: string;
 }
 
 export interface Statistics {
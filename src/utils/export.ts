@@ -0,0 +1,112 @@
+// Préfixes interprétés comme des formules par les tableurs
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Convertit une valeur en cellule CSV : échappement des guillemets et neutralisation
+ * des formules (injection CSV).
+ * @param value - Valeur de la cellule.
+ * @param separator - Séparateur de colonnes.
+ * @returns Cellule prête à être écrite.
+ */
+const toCsvCell = (value: unknown, separator: string): string => {
+  if (value === undefined || value === null) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return text.includes(separator) || /["\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Sérialise des lignes au format CSV. Le point-virgule par défaut est celui attendu
+ * par les tableurs configurés en français.
+ * @param rows - Lignes, en-tête compris.
+ * @param separator - Séparateur de colonnes.
+ * @returns Contenu CSV.
+ */
+export const toCsv = (rows: unknown[][], separator = ';'): string =>
+  rows.map(row => row.map(cell => toCsvCell(cell, separator)).join(separator)).join('\r\n');
+
+/**
+ * Retire la neutralisation de formule ajoutée par toCsvCell.
+ * @param text - Cellule lue.
+ * @returns Valeur d'origine.
+ */
+const fromCsvCell = (text: string): string =>
+  text.startsWith("'") && FORMULA_PREFIX.test(text.slice(1)) ? text.slice(1) : text;
+
+/**
+ * Devine le séparateur d'un contenu CSV d'après sa première ligne.
+ * @param content - Contenu CSV.
+ * @returns Point-virgule, virgule ou tabulation.
+ */
+const detectSeparator = (content: string): string => {
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  return [';', ',', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+};
+
+/**
+ * Lit un contenu CSV (guillemets, séparateurs et retours à la ligne échappés compris),
+ * par exemple produit par toCsv ou un tableur.
+ * @param content - Contenu CSV, avec ou sans BOM.
+ * @param separator - Séparateur de colonnes, deviné s'il n'est pas fourni.
+ * @returns Lignes de cellules, lignes vides exclues.
+ */
+export const parseCsv = (content: string, separator?: string): string[][] => {
+  const text = content.replace(/^\uFEFF/, '');
+  const sep = separator ?? detectSeparator(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endCell = () => {
+    row.push(fromCsvCell(cell));
+    cell = '';
+  };
+  const endRow = () => {
+    endCell();
+    if (row.some((value) => value !== '')) rows.push(row);
+    row = [];
+  };
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === sep) {
+      endCell();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+  return rows;
+};
+
+/**
+ * Déclenche le téléchargement d'un fichier généré côté navigateur.
+ * @param content - Contenu du fichier.
+ * @param fileName - Nom proposé à l'enregistrement.
+ * @param mimeType - Type MIME du fichier.
+ */
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
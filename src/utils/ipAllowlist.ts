@@ -0,0 +1,141 @@
+// Liste d'adresses IP autorisées (paramètre security.ipWhitelist) : une entrée par ligne ou
+// séparée par des virgules, adresse IPv4/IPv6 seule ou plage CIDR, commentaire après "#".
+// Exemple :
+//   # Bureaux
+//   203.0.113.0/24   # Douala
+//   2001:db8::/32
+
+type IpVersion = 4 | 6;
+
+interface ParsedIp {
+  version: IpVersion;
+  value: bigint;
+}
+
+export interface AllowlistEntry {
+  cidr: string;
+  comment: string;
+  line: number;
+  version: IpVersion;
+  network: bigint;
+  prefix: number;
+}
+
+export interface AllowlistError {
+  line: number;
+  message: string;
+}
+
+const BITS: Record<IpVersion, number> = { 4: 32, 6: 128 };
+
+const parseIpv4 = (input: string): bigint | null => {
+  const parts = input.split('.');
+  if (parts.length !== 4 || parts.some((part) => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null;
+  return parts.reduce((value, part) => (value << 8n) | BigInt(part), 0n);
+};
+
+const parseIpv6 = (input: string): bigint | null => {
+  let address = input.toLowerCase();
+  // Adresse IPv4 terminale (ex. ::ffff:192.0.2.1) convertie en deux groupes hexadécimaux
+  const ipv4Tail = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (ipv4Tail) {
+    const tail = parseIpv4(ipv4Tail[2]);
+    if (tail === null) return null;
+    address = `${ipv4Tail[1]}${(tail >> 16n).toString(16)}:${(tail & 0xffffn).toString(16)}`;
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array<string>(missing).fill('0'), ...tail];
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.reduce((value, group) => (value << 16n) | BigInt(parseInt(group, 16)), 0n);
+};
+
+/**
+ * Analyse une adresse IPv4 ou IPv6.
+ * @param input - Adresse textuelle.
+ * @returns Version et valeur numérique, ou null si l'adresse est invalide.
+ */
+export const parseIp = (input: string): ParsedIp | null => {
+  const address = input.trim();
+  if (address.includes(':')) {
+    const value = parseIpv6(address);
+    if (value === null) return null;
+    // Les adresses IPv4 mappées (::ffff:a.b.c.d) sont comparées comme des IPv4
+    return value >> 32n === 0xffffn ? { version: 4, value: value & 0xffffffffn } : { version: 6, value };
+  }
+  const value = parseIpv4(address);
+  return value === null ? null : { version: 4, value };
+};
+
+const mask = (version: IpVersion, prefix: number): bigint => {
+  const bits = BigInt(BITS[version]);
+  return ((1n << bits) - 1n) ^ ((1n << (bits - BigInt(prefix))) - 1n);
+};
+
+/**
+ * Analyse le texte de la liste blanche.
+ * @param text - Contenu du paramètre security.ipWhitelist.
+ * @returns Entrées valides et erreurs, numérotées par ligne.
+ */
+export const parseAllowlist = (text: string): { entries: AllowlistEntry[]; errors: AllowlistError[] } => {
+  const entries: AllowlistEntry[] = [];
+  const errors: AllowlistError[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = index + 1;
+    const [content, ...commentParts] = rawLine.split('#');
+    const comment = commentParts.join('#').trim();
+
+    content
+      .split(',')
+      .map((token) => token.trim())
+      .filter(Boolean)
+      .forEach((token) => {
+        const [address, prefixText, ...rest] = token.split('/');
+        const ip = parseIp(address);
+        if (!ip || rest.length) {
+          errors.push({ line, message: `Ligne ${line} : « ${token} » n'est pas une adresse IP ou une plage CIDR valide` });
+          return;
+        }
+        // Le préfixe d'une plage IPv4 mappée (::ffff:a.b.c.d/120) porte sur 128 bits
+        const offset = ip.version === 4 && address.includes(':') ? BITS[6] - BITS[4] : 0;
+        const prefix = prefixText === undefined ? BITS[ip.version] : Number(prefixText) - offset;
+        if (!/^\d{1,3}$/.test(prefixText ?? '0') || prefix < 0 || prefix > BITS[ip.version]) {
+          errors.push({ line, message: `Ligne ${line} : préfixe /${prefixText} invalide pour une adresse IPv${ip.version}` });
+          return;
+        }
+        entries.push({
+          cidr: token,
+          comment,
+          line,
+          version: ip.version,
+          network: ip.value & mask(ip.version, prefix),
+          prefix,
+        });
+      });
+  });
+
+  return { entries, errors };
+};
+
+/**
+ * Recherche l'entrée de la liste blanche couvrant une adresse.
+ * @param ip - Adresse du client.
+ * @param entries - Entrées de la liste blanche.
+ * @returns Première entrée correspondante, ou null.
+ */
+export const findAllowlistEntry = (ip: string, entries: AllowlistEntry[]): AllowlistEntry | null => {
+  const parsed = parseIp(ip);
+  if (!parsed) return null;
+  return (
+    entries.find(
+      (entry) => entry.version === parsed.version && (parsed.value & mask(entry.version, entry.prefix)) === entry.network
+    ) ?? null
+  );
+};
@@ -0,0 +1,104 @@
+import { AdminRole, User } from '../types';
+
+// Sections de la barre latérale
+export type SectionId =
+  | 'dashboard'
+  | 'users'
+  | 'agencies'
+  | 'kyc'
+  | 'properties'
+  | 'map'
+  | 'transactions'
+  | 'contracts'
+  | 'messaging'
+  | 'statistics'
+  | 'partners'
+  | 'logs'
+  | 'settings';
+
+// Actions sensibles soumises à permission
+export type AdminAction =
+  | 'users.create'
+  | 'users.approve'
+  | 'users.ban'
+  | 'users.edit'
+  | 'users.kyc'
+  | 'users.gdpr'
+  | 'users.merge'
+  | 'agencies.manage'
+  | 'admins.manage'
+  | 'properties.validate'
+  | 'transactions.refund'
+  | 'contracts.sign'
+  | 'contracts.archive'
+  | 'messages.send'
+  | 'partners.manage'
+  | 'settings.edit';
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  super_admin: 'Super administrateur',
+  moderator: 'Modérateur',
+  finance: 'Finance',
+  support: 'Support',
+};
+
+// Les comptes administrateurs antérieurs aux sous-rôles conservent un accès complet
+export const DEFAULT_ADMIN_ROLE: AdminRole = 'super_admin';
+
+const ALL_SECTIONS: SectionId[] = [
+  'dashboard', 'users', 'agencies', 'kyc', 'properties', 'map', 'transactions', 'contracts',
+  'messaging', 'statistics', 'partners', 'logs', 'settings',
+];
+
+// Matrice des sections visibles par rôle
+export const SECTION_ACCESS: Record<AdminRole, SectionId[]> = {
+  super_admin: ALL_SECTIONS,
+  moderator: ['dashboard', 'users', 'agencies', 'kyc', 'properties', 'map', 'messaging', 'logs'],
+  finance: ['dashboard', 'agencies', 'transactions', 'contracts', 'statistics', 'partners'],
+  support: ['dashboard', 'users', 'kyc', 'properties', 'map', 'contracts', 'messaging'],
+};
+
+// Matrice des actions autorisées par rôle ; le super administrateur peut tout faire
+export const ACTION_ACCESS: Record<AdminAction, AdminRole[]> = {
+  'users.create': ['super_admin', 'moderator'],
+  'users.approve': ['super_admin', 'moderator'],
+  'users.ban': ['super_admin', 'moderator'],
+  'users.edit': ['super_admin', 'moderator', 'support'],
+  'users.kyc': ['super_admin', 'moderator'],
+  'users.gdpr': ['super_admin'],
+  'users.merge': ['super_admin', 'moderator'],
+  'agencies.manage': ['super_admin', 'moderator'],
+  'admins.manage': ['super_admin'],
+  'properties.validate': ['super_admin', 'moderator'],
+  'transactions.refund': ['super_admin', 'finance'],
+  'contracts.sign': ['super_admin', 'finance'],
+  'contracts.archive': ['super_admin', 'finance'],
+  'messages.send': ['super_admin', 'moderator', 'support'],
+  'partners.manage': ['super_admin', 'finance'],
+  'settings.edit': ['super_admin'],
+};
+
+/**
+ * Détermine le sous-rôle d'un administrateur.
+ * @param user - Document Users de l'administrateur.
+ * @returns Sous-rôle, ou le rôle par défaut si le document n'en précise pas.
+ */
+export const getAdminRole = (user?: User | null): AdminRole => user?.adminRole ?? DEFAULT_ADMIN_ROLE;
+
+/**
+ * Indique si un rôle peut afficher une section de la console.
+ * @param role - Sous-rôle administrateur.
+ * @param section - Section demandée.
+ * @returns true si la section est accessible.
+ */
+export const canAccessSection = (role: AdminRole, section: string): boolean =>
+  SECTION_ACCESS[role].includes(section as SectionId);
+
+/**
+ * Indique si un rôle peut effectuer une action.
+ * @param role - Sous-rôle administrateur.
+ * @param action - Action demandée.
+ * @returns true si l'action est autorisée.
+ */
+export const canPerform = (role: AdminRole, action: AdminAction): boolean =>
+  ACTION_ACCESS[action].includes(role);
@@ -0,0 +1,35 @@
+import { Property } from '../types';
+
+// Filtres partagés entre la liste des propriétés et la carte
+export interface PropertyFilterState {
+  searchTerm: string;
+  type: 'all' | Property['type'];
+  status: 'all' | Property['status'];
+  validation: 'all' | Property['validationStatus'];
+}
+
+export const DEFAULT_PROPERTY_FILTERS: PropertyFilterState = {
+  searchTerm: '',
+  type: 'all',
+  status: 'all',
+  validation: 'all',
+};
+
+/**
+ * Applique les filtres de recherche, type, statut et validation à une liste de propriétés.
+ * @param properties - Propriétés à filtrer.
+ * @param filters - Filtres actifs.
+ * @returns Propriétés correspondant à tous les filtres.
+ */
+export const filterProperties = (properties: Property[], filters: PropertyFilterState): Property[] => {
+  const term = filters.searchTerm.toLowerCase();
+  return properties.filter(property => {
+    const matchesSearch = property.name.toLowerCase().includes(term) ||
+                         property.location.toLowerCase().includes(term);
+    const matchesType = filters.type === 'all' || property.type === filters.type;
+    const matchesStatus = filters.status === 'all' || property.status === filters.status;
+    const matchesValidation = filters.validation === 'all' || property.validationStatus === filters.validation;
+
+    return matchesSearch && matchesType && matchesStatus && matchesValidation;
+  });
+};
@@ -0,0 +1,212 @@
+import { Property, Statistics, Transaction, User } from '../types';
+
+// Période inclusive, bornes au format AAAA-MM-JJ
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export type DateRangePreset = '30d' | '90d' | '12m' | 'ytd';
+
+// Données brutes nécessaires au calcul des statistiques
+export interface StatisticsInput {
+  users: User[];
+  properties: Property[];
+  transactions: Transaction[];
+}
+
+// Enregistrements sous-jacents à un indicateur ou à un segment de graphique
+export type DrillDownTarget =
+  | { kind: 'users'; city?: string }
+  | { kind: 'properties'; type?: Property['type'] }
+  | { kind: 'transactions'; month?: string; paidOnly?: boolean };
+
+export type StatisticsComparison = Record<
+  'totalUsers' | 'totalProperties' | 'totalTransactions' | 'totalRevenue' | 'conversionRate',
+  number | null
+>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+const parseDay = (day: string) => new Date(`${day}T00:00:00.000Z`);
+
+const isInRange = (date: string, range: DateRange) => {
+  const day = date.slice(0, 10);
+  return day >= range.start && day <= range.end;
+};
+
+/**
+ * Extrait la ville d'une adresse au format "12 rue X, 75001 Paris".
+ * @param address - Adresse postale.
+ * @returns Ville, ou "Inconnue" si l'adresse ne suit pas ce format.
+ */
+export const getCityFromAddress = (address: string): string => {
+  const match = address.match(/\b\d{5}\s+(.+)$/);
+  return match ? match[1].trim() : 'Inconnue';
+};
+
+/**
+ * Construit une période glissante se terminant aujourd'hui.
+ * @param preset - Durée de la période.
+ * @param today - Date de fin (aujourd'hui par défaut).
+ * @returns Période correspondante.
+ */
+export const createPresetRange = (preset: DateRangePreset, today: Date = new Date()): DateRange => {
+  const end = toDay(today);
+  switch (preset) {
+    case '30d':
+      return { start: toDay(new Date(parseDay(end).getTime() - 29 * DAY_MS)), end };
+    case '90d':
+      return { start: toDay(new Date(parseDay(end).getTime() - 89 * DAY_MS)), end };
+    case '12m': {
+      const start = parseDay(end);
+      start.setUTCFullYear(start.getUTCFullYear() - 1);
+      return { start: toDay(new Date(start.getTime() + DAY_MS)), end };
+    }
+    case 'ytd':
+      return { start: `${end.slice(0, 4)}-01-01`, end };
+  }
+};
+
+/**
+ * Calcule la période de même durée qui précède immédiatement une période donnée.
+ * @param range - Période de référence.
+ * @returns Période précédente.
+ */
+export const getPreviousRange = (range: DateRange): DateRange => {
+  const start = parseDay(range.start).getTime();
+  const length = parseDay(range.end).getTime() - start;
+  const previousEnd = start - DAY_MS;
+  return { start: toDay(new Date(previousEnd - length)), end: toDay(new Date(previousEnd)) };
+};
+
+/**
+ * Liste les mois (AAAA-MM) couverts par une période.
+ * @param range - Période.
+ * @returns Mois dans l'ordre chronologique.
+ */
+export const getMonthsInRange = (range: DateRange): string[] => {
+  const months: string[] = [];
+  const cursor = parseDay(`${range.start.slice(0, 7)}-01`);
+  const last = range.end.slice(0, 7);
+  while (toDay(cursor).slice(0, 7) <= last) {
+    months.push(toDay(cursor).slice(0, 7));
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+  return months;
+};
+
+/**
+ * Restreint les données à une période. Les utilisateurs n'ayant pas de date
+ * d'inscription, ils sont toujours conservés (répartition actuelle).
+ * @param input - Données brutes.
+ * @param range - Période.
+ * @returns Données de la période.
+ */
+export const filterByRange = (input: StatisticsInput, range: DateRange): StatisticsInput => ({
+  users: input.users,
+  properties: input.properties.filter(p => isInRange(p.createdDate, range)),
+  transactions: input.transactions.filter(t => isInRange(t.date, range)),
+});
+
+/**
+ * Calcule les statistiques de la plateforme sur une période.
+ * Le taux de conversion est la part des transactions de la période effectivement payées.
+ * @param input - Données brutes.
+ * @param range - Période.
+ * @returns Statistiques calculées.
+ */
+export const computeStatistics = (input: StatisticsInput, range: DateRange): Statistics => {
+  const { users, properties, transactions } = filterByRange(input, range);
+  const paid = transactions.filter(t => t.status === 'paye');
+
+  const usersByCity: Record<string, number> = {};
+  users.forEach(user => {
+    const city = getCityFromAddress(user.addresse);
+    usersByCity[city] = (usersByCity[city] ?? 0) + 1;
+  });
+
+  const propertiesByType: Record<string, number> = {};
+  properties.forEach(property => {
+    propertiesByType[property.type] = (propertiesByType[property.type] ?? 0) + 1;
+  });
+
+  const revenueByMonth = new Map(getMonthsInRange(range).map(month => [month, 0]));
+  paid.forEach(t => {
+    const month = t.date.slice(0, 7);
+    revenueByMonth.set(month, (revenueByMonth.get(month) ?? 0) + t.amount);
+  });
+
+  return {
+    totalUsers: users.length,
+    totalProperties: properties.length,
+    totalTransactions: transactions.length,
+    totalRevenue: paid.reduce((sum, t) => sum + t.amount, 0),
+    usersByCity,
+    propertiesByType,
+    monthlyRevenue: Array.from(revenueByMonth, ([month, revenue]) => ({ month, revenue })),
+    conversionRate: transactions.length
+      ? Math.round((paid.length / transactions.length) * 1000) / 10
+      : 0,
+  };
+};
+
+/**
+ * Calcule la variation en pourcentage entre deux valeurs.
+ * @param current - Valeur de la période courante.
+ * @param previous - Valeur de la période précédente.
+ * @returns Variation arrondie à une décimale, ou null si la période précédente est vide.
+ */
+export const getPercentChange = (current: number, previous: number): number | null =>
+  previous === 0 ? null : Math.round(((current - previous) / previous) * 1000) / 10;
+
+/**
+ * Compare les indicateurs de deux périodes.
+ * @param current - Statistiques de la période courante.
+ * @param previous - Statistiques de la période précédente.
+ * @returns Variation en pourcentage de chaque indicateur.
+ */
+export const compareStatistics = (current: Statistics, previous: Statistics): StatisticsComparison => ({
+  totalUsers: getPercentChange(current.totalUsers, previous.totalUsers),
+  totalProperties: getPercentChange(current.totalProperties, previous.totalProperties),
+  totalTransactions: getPercentChange(current.totalTransactions, previous.totalTransactions),
+  totalRevenue: getPercentChange(current.totalRevenue, previous.totalRevenue),
+  conversionRate: getPercentChange(current.conversionRate, previous.conversionRate),
+});
+
+/**
+ * Sélectionne les enregistrements qui composent un indicateur ou un segment de graphique.
+ * @param input - Données brutes.
+ * @param range - Période.
+ * @param target - Indicateur ou segment sélectionné.
+ * @returns Données de la période restreintes au segment ; les autres listes sont vides.
+ */
+export const getDrillDownRecords = (
+  input: StatisticsInput,
+  range: DateRange,
+  target: DrillDownTarget
+): StatisticsInput => {
+  const records = filterByRange(input, range);
+  const empty: StatisticsInput = { users: [], properties: [], transactions: [] };
+
+  switch (target.kind) {
+    case 'users':
+      return {
+        ...empty,
+        users: records.users.filter(u => !target.city || getCityFromAddress(u.addresse) === target.city),
+      };
+    case 'properties':
+      return {
+        ...empty,
+        properties: records.properties.filter(p => !target.type || p.type === target.type),
+      };
+    case 'transactions':
+      return {
+        ...empty,
+        transactions: records.transactions.filter(t =>
+          (!target.month || t.date.startsWith(target.month)) && (!target.paidOnly || t.status === 'paye')
+        ),
+      };
+  }
+};
@@ -0,0 +1,123 @@
+// Vérificateur TOTP local (RFC 6238, HMAC-SHA1, 6 chiffres, pas de 30 s), compatible avec
+// les applications d'authentification usuelles et utilisable hors ligne
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+
+/**
+ * Encode des octets en base32 (RFC 4648, sans remplissage), format des secrets TOTP.
+ * @param bytes - Octets à encoder.
+ * @returns Chaîne base32.
+ */
+export const base32Encode = (bytes: Uint8Array): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  bytes.forEach((byte) => {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+};
+
+/**
+ * Décode une chaîne base32, espaces et casse ignorés.
+ * @param input - Chaîne base32.
+ * @returns Octets décodés.
+ * @throws Error si la chaîne contient un caractère hors de l'alphabet base32.
+ */
+export const base32Decode = (input: string): Uint8Array => {
+  const clean = input.replace(/[\s=]/g, '').toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Secret TOTP invalide : caractère "${char}"`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+/**
+ * Génère un secret TOTP aléatoire de 160 bits.
+ * @returns Secret encodé en base32.
+ */
+export const generateTotpSecret = (): string => base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+
+/**
+ * Calcule le code TOTP d'un secret à un instant donné.
+ * @param secret - Secret base32.
+ * @param timestamp - Instant en millisecondes.
+ * @returns Code à 6 chiffres.
+ */
+export const generateTotp = async (secret: string, timestamp = Date.now()): Promise<string> => {
+  const counter = Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+  const message = new ArrayBuffer(8);
+  const view = new DataView(message);
+  view.setUint32(0, Math.floor(counter / 2 ** 32));
+  view.setUint32(4, counter >>> 0);
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary =
+    ((hmac[offset] & 127) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Vérifie un code TOTP, en tolérant un décalage d'horloge d'un pas de part et d'autre.
+ * @param secret - Secret base32.
+ * @param code - Code saisi (espaces ignorés).
+ * @param timestamp - Instant de référence en millisecondes.
+ * @param window - Nombre de pas tolérés avant et après l'instant de référence.
+ * @returns true si le code correspond.
+ */
+export const verifyTotp = async (
+  secret: string,
+  code: string,
+  timestamp = Date.now(),
+  window = 1
+): Promise<boolean> => {
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) return false;
+  for (let step = -window; step <= window; step++) {
+    if ((await generateTotp(secret, timestamp + step * TOTP_PERIOD_SECONDS * 1000)) === normalized) return true;
+  }
+  return false;
+};
+
+/**
+ * Construit l'URI otpauth:// encodée dans le QR code d'enrôlement.
+ * @param secret - Secret base32.
+ * @param account - Identifiant du compte affiché dans l'application (email).
+ * @param issuer - Émetteur affiché dans l'application.
+ * @returns URI otpauth.
+ */
+export const buildOtpauthUri = (secret: string, account: string, issuer = 'Kinaru Admin'): string =>
+  `otpauth://totp/${encodeURIComponent(`${issuer}:${account}`)}?${new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  }).toString()}`;
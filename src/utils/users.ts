@@ -0,0 +1,32 @@
+import { User } from '../types';
+
+// Rôle "Administrateur" dans Users.typeUsersId : seul rôle autorisé sur la console
+export const ADMIN_ROLE_ID = 4;
+
+// Rôle "Agence immobilière" : compte d'agence, auquel des agents sont rattachés par agencyId
+export const AGENCY_ROLE_ID = 6;
+
+// Libellés des rôles Users.typeUsersId
+export const USER_ROLE_LABELS: Record<number, string> = {
+  1: 'Visiteurs',
+  2: 'Locataires',
+  3: 'Proprietaire',
+  4: 'Administrateur',
+  6: 'Agence immobilière',
+};
+
+/**
+ * Construit le nom complet affiché d'un utilisateur.
+ * @param user - Utilisateur, éventuellement introuvable.
+ * @returns "Prénom Nom", ou undefined si l'utilisateur est absent.
+ */
+export const getUserFullName = (user?: User | null): string | undefined =>
+  user ? `${user.prenom} ${user.nom}`.trim() : undefined;
+
+/**
+ * Calcule les initiales d'un utilisateur pour les avatars.
+ * @param user - Utilisateur, éventuellement introuvable.
+ * @returns Initiales en majuscules, ou "?" si l'utilisateur est absent.
+ */
+export const getUserInitials = (user?: User | null): string =>
+  user ? `${user.prenom[0] ?? ''}${user.nom[0] ?? ''}`.toUpperCase() || '?' : '?';
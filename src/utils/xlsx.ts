@@ -0,0 +1,167 @@
+import { createZip, readZip } from './zip';
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+// Caractères de contrôle interdits en XML 1.0 (hors tabulation et retours à la ligne)
+const isValidXmlChar = (char: string): boolean => {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+};
+
+const escapeXml = (text: string): string =>
+  [...text]
+    .filter(isValidXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const unescapeXml = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return XML_ENTITIES[code] ?? entity;
+    return String.fromCodePoint(code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : Number(code.slice(1)));
+  });
+
+/**
+ * Convertit un index de colonne (à partir de 0) en lettres de colonne : A, B, …, AA.
+ * @param index - Index de la colonne.
+ * @returns Lettres de la colonne.
+ */
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  return name;
+};
+
+/**
+ * Convertit des lettres de colonne en index (à partir de 0).
+ * @param name - Lettres de la colonne.
+ * @returns Index de la colonne.
+ */
+const columnIndex = (name: string): number =>
+  [...name.toUpperCase()].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+/**
+ * Convertit une valeur en cellule de feuille : nombre, ou texte en ligne.
+ * @param value - Valeur de la cellule.
+ * @param reference - Référence de la cellule (A1).
+ * @returns Élément XML de la cellule, vide si la valeur est absente.
+ */
+const toCell = (value: unknown, reference: string): string => {
+  if (value === undefined || value === null || value === '') return '';
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${reference}"><v>${value}</v></c>`;
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+};
+
+/**
+ * Sérialise des lignes en classeur Excel (XLSX) à une feuille.
+ * @param rows - Lignes, en-tête compris.
+ * @param sheetName - Nom de la feuille.
+ * @returns Contenu du fichier .xlsx.
+ */
+export const toXlsx = (rows: unknown[][], sheetName = 'Feuille1'): Uint8Array => {
+  const encoder = new TextEncoder();
+  const sheetRows = rows
+    .map((row, rowIndex) => {
+      const cells = row.map((value, column) => toCell(value, `${columnName(column)}${rowIndex + 1}`));
+      return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+    })
+    .join('');
+
+  const files: Record<string, string> = {
+    '[Content_Types].xml':
+      `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>',
+    '_rels/.rels':
+      `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">` +
+      `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+      '</Relationships>',
+    'xl/workbook.xml':
+      `${XML_HEADER}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}">` +
+      `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>',
+    'xl/_rels/workbook.xml.rels':
+      `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">` +
+      `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+      '</Relationships>',
+    'xl/worksheets/sheet1.xml': `${XML_HEADER}<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>${sheetRows}</sheetData></worksheet>`,
+  };
+  return createZip(Object.entries(files).map(([name, content]) => ({ name, data: encoder.encode(content) })));
+};
+
+/**
+ * Extrait le texte d'un élément de chaîne (texte simple ou enrichi, par segments).
+ * @param xml - Contenu de l'élément <si> ou <is>.
+ * @returns Texte de la chaîne.
+ */
+const readStringItem = (xml: string): string =>
+  [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((match) => unescapeXml(match[1])).join('');
+
+/**
+ * Détermine le chemin de la première feuille du classeur.
+ * @param files - Fichiers du classeur.
+ * @returns Chemin de la feuille dans l'archive.
+ */
+const firstSheetPath = (files: Record<string, Uint8Array>): string => {
+  const decoder = new TextDecoder();
+  const workbook = decoder.decode(files['xl/workbook.xml'] ?? new Uint8Array());
+  const relations = decoder.decode(files['xl/_rels/workbook.xml.rels'] ?? new Uint8Array());
+  const sheetId = /<sheet\b[^>]*\br:id="([^"]+)"/.exec(workbook)?.[1];
+  const target = [...relations.matchAll(/<Relationship\b[^>]*>/g)]
+    .map((match) => match[0])
+    .find((relation) => sheetId && relation.includes(`Id="${sheetId}"`))
+    ?.match(/Target="([^"]+)"/)?.[1];
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+/**
+ * Lit la première feuille d'un classeur Excel (XLSX) sous forme de lignes de texte.
+ * @param data - Contenu du fichier .xlsx.
+ * @returns Lignes de la feuille, cellules vides comprises.
+ * @throws Error si le fichier n'est pas un classeur lisible.
+ */
+export const parseXlsx = async (data: ArrayBuffer): Promise<string[][]> => {
+  const files = await readZip(new Uint8Array(data), (name) => name.startsWith('xl/') && /\.(xml|rels)$/.test(name));
+  const decoder = new TextDecoder();
+  const sheet = files[firstSheetPath(files)];
+  if (!sheet) throw new Error('Classeur Excel invalide : feuille introuvable');
+
+  const sharedStrings = [...decoder.decode(files['xl/sharedStrings.xml'] ?? new Uint8Array()).matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map((match) => readStringItem(match[1]));
+
+  const rows: string[][] = [];
+  for (const rowMatch of decoder.decode(sheet).matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(/\br="(\d+)"/.exec(rowMatch[1])?.[1] ?? rows.length + 1);
+    const row: string[] = [];
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const content = cellMatch[2] ?? '';
+      const reference = /\br="([A-Z]+)\d+"/i.exec(attributes)?.[1];
+      const type = /\bt="(\w+)"/.exec(attributes)?.[1];
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(content)?.[1];
+      const value =
+        type === 's'
+          ? sharedStrings[Number(raw)] ?? ''
+          : type === 'inlineStr'
+            ? readStringItem(content)
+            : type === 'b'
+              ? (raw === '1' ? 'VRAI' : 'FAUX')
+              : unescapeXml(raw ?? '');
+      row[reference ? columnIndex(reference) : row.length] = value;
+    }
+    rows[rowNumber - 1] = Array.from(row, (cell) => cell ?? '');
+  }
+  return Array.from(rows, (row) => row ?? []);
+};
@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DATA_SOURCE?: 'firestore' | 'memory';
+  readonly VITE_FIXTURE_USERS?: string;
+  readonly VITE_FIXTURE_SEED?: string;
+  readonly VITE_DEMO_PASSWORD?: string;
+  readonly VITE_IP_LOOKUP_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}